@@ -0,0 +1,21 @@
+import { getBlob, isStandinEnabled } from "@/lib/ipfs-standin"
+
+// Gateway-style read; blobs never change, so they can be cached indefinitely
+export async function GET(_request: Request, { params }: { params: Promise<{ cid: string }> }) {
+  if (!isStandinEnabled()) {
+    return new Response("Not found", { status: 404 })
+  }
+
+  const { cid } = await params
+  const bytes = await getBlob(cid)
+  if (!bytes) {
+    return new Response("Not found", { status: 404 })
+  }
+
+  return new Response(bytes, {
+    headers: {
+      "Content-Type": "application/octet-stream",
+      "Cache-Control": "public, max-age=31536000, immutable",
+    },
+  })
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server"
+import { MAX_BLOB_SIZE } from "@/lib/content-store"
+import { isStandinEnabled, putBlob } from "@/lib/ipfs-standin"
+
+// Subset of Kubo's /api/v0/add: one multipart "file", always stored as a raw CIDv1 block
+export async function POST(request: Request) {
+  if (!isStandinEnabled()) {
+    return new Response("Not found", { status: 404 })
+  }
+
+  const form = await request.formData()
+  const file = form.get("file")
+  if (!(file instanceof Blob)) {
+    return NextResponse.json({ Message: "Missing file" }, { status: 400 })
+  }
+  if (file.size > MAX_BLOB_SIZE) {
+    return NextResponse.json({ Message: "File is larger than one block" }, { status: 413 })
+  }
+
+  const cid = await putBlob(new Uint8Array(await file.arrayBuffer()))
+  return NextResponse.json({ Name: cid, Hash: cid, Size: String(file.size) })
+}
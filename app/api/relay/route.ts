@@ -0,0 +1,90 @@
+import { NextResponse } from "next/server"
+import { ethers } from "ethers"
+import { decodeVotingError, describeError } from "@/lib/contract-errors"
+import { claimBallot, getRelayer, getRelayerAddress, resetRelayerNonce, settleBallot } from "@/lib/relayer"
+import type { SignedBallot } from "@/types"
+
+interface RelayRequest {
+  chainId: number
+  ballot: SignedBallot
+  proof: string[]
+}
+
+const asRecord = (value: unknown) =>
+  (typeof value === "object" && value !== null ? value : {}) as Record<string, unknown>
+
+const isSignedBallot = (value: unknown): value is SignedBallot => {
+  const ballot = asRecord(value)
+  return (
+    Number.isInteger(ballot.electionId) &&
+    Number.isInteger(ballot.candidateId) &&
+    Number.isInteger(ballot.nonce) &&
+    Number.isInteger(ballot.deadline) &&
+    typeof ballot.voter === "string" &&
+    ethers.isAddress(ballot.voter) &&
+    ethers.isHexString(ballot.signature, 65)
+  )
+}
+
+const isRelayRequest = (value: unknown): value is RelayRequest => {
+  const body = asRecord(value)
+  return (
+    Number.isInteger(body.chainId) &&
+    isSignedBallot(body.ballot) &&
+    Array.isArray(body.proof) &&
+    body.proof.every((node) => ethers.isHexString(node, 32))
+  )
+}
+
+// Whether ballots for the chain can be relayed, and by which address
+export async function GET(request: Request) {
+  const chainId = Number(new URL(request.url).searchParams.get("chainId"))
+  const relayer = getRelayerAddress(chainId)
+  return NextResponse.json({ enabled: relayer !== null, relayer })
+}
+
+// Dry-runs the signed ballot so invalid ones never cost the relayer gas, then submits it.
+// Responds with the transaction hash as soon as it is sent; callers watch it for confirmation.
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  if (!isRelayRequest(body)) {
+    return NextResponse.json({ error: "Malformed ballot" }, { status: 400 })
+  }
+
+  const relayer = getRelayer(body.chainId)
+  if (!relayer) {
+    return NextResponse.json({ error: "Gasless voting is not available on this network" }, { status: 503 })
+  }
+
+  // Each signed ballot is relayed once; duplicates are rejected along with the earlier transaction, if sent
+  const previous = claimBallot(body.ballot)
+  if (previous) {
+    const error = previous.hash ? "This ballot has already been relayed" : "This ballot is already being relayed"
+    return NextResponse.json({ error, hash: previous.hash }, { status: 409 })
+  }
+
+  let gasEstimate: bigint
+  try {
+    gasEstimate = await relayer.simulateVoteBySig(body.ballot, body.proof)
+  } catch (error) {
+    settleBallot(body.ballot, null)
+    return NextResponse.json(
+      { error: describeError(error, "The ballot was rejected by the contract", "en") },
+      { status: 422 },
+    )
+  }
+
+  try {
+    const tx = await relayer.voteBySig(body.ballot, body.proof, {
+      gasLimit: (gasEstimate * BigInt(120)) / BigInt(100),
+    })
+    settleBallot(body.ballot, tx.hash)
+    return NextResponse.json({ hash: tx.hash })
+  } catch (error) {
+    console.error("Failed to relay ballot:", error)
+    settleBallot(body.ballot, null)
+    resetRelayerNonce(body.chainId)
+    const reason = decodeVotingError(error, "en").code === "InsufficientFunds" ? "The relayer is out of funds" : "Failed to submit the ballot"
+    return NextResponse.json({ error: reason }, { status: 502 })
+  }
+}
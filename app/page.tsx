@@ -5,45 +5,30 @@
 import { useEffect, useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { InfoIcon, Shield, Vote } from 'lucide-react'
+import { Button } from "@/components/ui/button"
+import { Eye, InfoIcon, Shield, Vote } from 'lucide-react'
 import ConnectWallet from "@/components/connect-wallet"
 import VoterDashboard from "@/components/voter-dashboard"
 import AdminDashboard from "@/components/admin-dashboard"
-import { VotingContractProvider, useVotingContract } from "@/context/voting-contract-context" // ← ADD useVotingContract here
+import NetworkStatus from "@/components/network-status"
+import TransactionTray from "@/components/transaction-tray"
+import { VotingContractProvider } from "@/context/voting-contract-context"
+import { TransactionsProvider } from "@/context/transactions-context"
+import { usePermissions } from "@/hooks/use-permissions"
 
 // Create a separate component that uses the context
 function VotingApp() {
   const [account, setAccount] = useState<string | null>(null)
-  const [isAdmin, setIsAdmin] = useState(false)
   const [userType, setUserType] = useState<"admin" | "voter" | null>(null)
-  const { contract } = useVotingContract() // ← NOW you can use contract here
+  const permissions = usePermissions(account)
+  const hasAdminAccess = permissions.isSuperAdmin || permissions.isPendingOwner || permissions.roles.length > 0
 
   useEffect(() => {
-    // Check if the connected account is the admin
-    if (account) {
-      checkAdminStatus(account)
-    } else {
-      setIsAdmin(false)
-      setUserType(null)
+    if (!account) {
+      // Observers can keep browsing read-only; only the admin view needs a wallet
+      setUserType((current) => (current === "voter" ? current : null))
     }
-  }, [account, contract]) // ← Add contract as dependency
-
-  const checkAdminStatus = async (address: string) => {
-    try {
-      // Now contract is available here
-      if (contract) {
-        const owner = await contract.owner()
-        const isAdminUser = address.toLowerCase() === owner.toLowerCase()
-        setIsAdmin(isAdminUser)
-        console.log("Contract Owner:", owner)
-        console.log("Current Account:", address)
-        console.log("Is Admin:", isAdminUser)
-      }
-    } catch (error) {
-      console.error("Error checking admin status:", error)
-      setIsAdmin(false)
-    }
-  }
+  }, [account])
 
   const handleUserTypeSelect = (type: "admin" | "voter") => {
     setUserType(type)
@@ -58,17 +43,28 @@ function VotingApp() {
         </p>
 
         <ConnectWallet account={account} setAccount={setAccount} />
+        <NetworkStatus />
+        <TransactionTray />
       </div>
 
-      {!account ? (
+      {!account && userType !== "voter" ? (
         <Alert className="max-w-2xl mx-auto">
           <InfoIcon className="h-4 w-4" />
           <AlertTitle>Connect your wallet</AlertTitle>
-          <AlertDescription>
-            Please connect your MetaMask wallet to access the voting system. Make sure you select the correct account
-            for your role (Admin or Voter).
+          <AlertDescription className="space-y-3">
+            <p>
+              Please connect your MetaMask wallet to access the voting system. Make sure you select the correct
+              account for your role (Admin or Voter).
+            </p>
+            <p>Observers can browse elections and published results without a wallet.</p>
+            <Button variant="outline" size="sm" onClick={() => handleUserTypeSelect("voter")}>
+              <Eye className="h-4 w-4 mr-2" />
+              Browse read-only
+            </Button>
           </AlertDescription>
         </Alert>
+      ) : !account ? (
+        <VoterDashboard account={null} onBack={() => setUserType(null)} />
       ) : !userType ? (
         <div className="max-w-4xl mx-auto">
           <Card>
@@ -86,8 +82,10 @@ function VotingApp() {
                     <Shield className="h-12 w-12 mx-auto mb-4 text-primary" />
                     <h3 className="text-xl font-semibold mb-2">Admin Panel</h3>
                     <p className="text-muted-foreground">Create elections, manage candidates, and publish results</p>
-                    {isAdmin && (
-                      <div className="mt-3 text-sm text-green-600 font-medium">✓ You have admin privileges</div>
+                    {hasAdminAccess && (
+                      <div className="mt-3 text-sm text-green-600 font-medium">
+                        ✓ {permissions.isSuperAdmin ? "You have super admin privileges" : "You have admin roles"}
+                      </div>
                     )}
                   </CardContent>
                 </Card>
@@ -108,7 +106,7 @@ function VotingApp() {
           </Card>
         </div>
       ) : userType === "admin" ? (
-        <AdminDashboard account={account} isAdmin={isAdmin} onBack={() => setUserType(null)} />
+        <AdminDashboard account={account} permissions={permissions} onBack={() => setUserType(null)} />
       ) : (
         <VoterDashboard account={account} onBack={() => setUserType(null)} />
       )}
@@ -120,7 +118,9 @@ function VotingApp() {
 export default function Home() {
   return (
     <VotingContractProvider>
-      <VotingApp />
+      <TransactionsProvider>
+        <VotingApp />
+      </TransactionsProvider>
     </VotingContractProvider>
   )
 }
\ No newline at end of file
@@ -1,45 +1,67 @@
 "use client"
 
-
-import { useVotingContract } from "@/context/voting-contract-context"
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
-import { ArrowLeft, Shield, AlertTriangle } from "lucide-react"
+import { ArrowLeft, Shield, AlertTriangle, Loader2, Users } from "lucide-react"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import AdminPanel from "@/components/admin-panel"
 import ElectionsManager from "@/components/elections-manager"
 import CandidatesManager from "@/components/candidates-manager"
+import VoterRollManager from "@/components/voter-roll-manager"
+import RoleManager from "@/components/role-manager"
+import OwnershipManager from "@/components/ownership-manager"
+import ResultsDisplay from "@/components/results-display"
+import type { Permissions } from "@/hooks/use-permissions"
 
 interface AdminDashboardProps {
   account: string
-  isAdmin: boolean
+  permissions: Permissions
   onBack: () => void
 }
 
+// Tailwind only ships class names it can see in the source
+const GRID_COLUMNS = [
+  "grid-cols-1",
+  "grid-cols-2",
+  "grid-cols-3",
+  "grid-cols-4",
+  "grid-cols-5",
+  "grid-cols-6",
+  "grid-cols-7",
+  "grid-cols-8",
+]
 
-export default function AdminDashboard({ account, isAdmin, onBack }: AdminDashboardProps) {
+export default function AdminDashboard({ account, permissions, onBack }: AdminDashboardProps) {
   const [activeTab, setActiveTab] = useState("create")
-  const { contract } = useVotingContract() // ← ADD THIS LINE
 
+  const isElectionAdmin = permissions.hasRoleAnywhere("election-admin")
+  const tabs = [
+    { value: "create", label: "Create Election", visible: permissions.canCreateElections },
+    { value: "elections", label: "Manage Elections", visible: isElectionAdmin },
+    {
+      value: "candidates",
+      label: "Manage Candidates",
+      visible: isElectionAdmin || permissions.hasRoleAnywhere("candidate-manager"),
+    },
+    { value: "voter-roll", label: "Voter Roll", visible: isElectionAdmin },
+    { value: "results", label: "Publish Results", visible: isElectionAdmin },
+    { value: "audit", label: "Audit", visible: permissions.hasRoleAnywhere("auditor") },
+    { value: "roles", label: "Roles", visible: permissions.isSuperAdmin },
+    {
+      value: "ownership",
+      label: "Ownership",
+      visible: permissions.isOwner || permissions.isPendingOwner || permissions.ownerSafe !== null,
+    },
+  ].filter((tab) => tab.visible)
+
+  // Fall back to the first tab the account can use once its roles are known
   useEffect(() => {
-    const checkOwner = async () => {
-      if (contract && account) {
-        try {
-          const owner = await contract.owner();
-          console.log("=== CONTRACT DEBUG INFO ===");
-          console.log("Contract Owner:", owner);
-          console.log("Current Account:", account);
-          console.log("Is Owner:", owner.toLowerCase() === account.toLowerCase());
-          console.log("Contract Address:", contract.address);
-        } catch (error) {
-          console.error("Error checking owner:", error);
-        }
-      }
-    };
-    checkOwner();
-  }, [contract, account]);
+    if (tabs.length > 0 && !tabs.some((tab) => tab.value === activeTab)) {
+      setActiveTab(tabs[0].value)
+    }
+  }, [tabs.map((tab) => tab.value).join(), activeTab])
 
   return (
     <div className="max-w-6xl mx-auto">
@@ -54,57 +76,94 @@ export default function AdminDashboard({ account, isAdmin, onBack }: AdminDashbo
         </div>
       </div>
 
-      {!isAdmin && (
-        <Alert className="mb-6" variant="destructive">
-          <AlertTriangle className="h-4 w-4" />
-          <AlertTitle>Access Warning</AlertTitle>
+      {permissions.actingAsSafe && permissions.ownerSafe && (
+        <Alert className="mb-6">
+          <Users className="h-4 w-4" />
+          <AlertTitle>Acting for the Owner Safe</AlertTitle>
           <AlertDescription>
-            You are not the contract owner. Admin functions will fail. Please connect with the wallet that deployed the
-            contract.
+            Admin actions are proposed to the Safe at {permissions.ownerSafe.address} and take effect once{" "}
+            {permissions.ownerSafe.threshold} of {permissions.ownerSafe.owners.length} signers confirm them in the
+            Ownership tab.
           </AlertDescription>
         </Alert>
       )}
 
-      <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid grid-cols-4 mb-6">
-          <TabsTrigger value="create">Create Election</TabsTrigger>
-          <TabsTrigger value="elections">Manage Elections</TabsTrigger>
-          <TabsTrigger value="candidates">Manage Candidates</TabsTrigger>
-          <TabsTrigger value="results">Publish Results</TabsTrigger>
-        </TabsList>
-
-        <TabsContent value="create">
-          <Card>
-            <CardHeader>
-              <CardTitle>Create New Election</CardTitle>
-              <CardDescription>Set up a new election with candidates</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <AdminPanel account={account} activeTab="create-election" />
-            </CardContent>
-          </Card>
-        </TabsContent>
-
-        <TabsContent value="elections">
-          <ElectionsManager account={account} />
-        </TabsContent>
-
-        <TabsContent value="candidates">
-          <CandidatesManager account={account} />
-        </TabsContent>
-
-        <TabsContent value="results">
-          <Card>
-            <CardHeader>
-              <CardTitle>Publish Election Results</CardTitle>
-              <CardDescription>Make election results visible to voters</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <AdminPanel account={account} activeTab="publish-results" />
-            </CardContent>
-          </Card>
-        </TabsContent>
-      </Tabs>
+      {permissions.loading && tabs.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : tabs.length === 0 ? (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>No Admin Roles</AlertTitle>
+          <AlertDescription>
+            This account has no admin roles. Ask a super admin to grant you one, or connect with the wallet that
+            deployed the contract.
+          </AlertDescription>
+        </Alert>
+      ) : (
+        <Tabs value={activeTab} onValueChange={setActiveTab}>
+          <TabsList className={`grid ${GRID_COLUMNS[tabs.length - 1]} mb-6`}>
+            {tabs.map((tab) => (
+              <TabsTrigger key={tab.value} value={tab.value}>
+                {tab.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+
+          <TabsContent value="create">
+            <Card>
+              <CardHeader>
+                <CardTitle>Create New Election</CardTitle>
+                <CardDescription>Set up a new election with candidates</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AdminPanel account={account} activeTab="create-election" />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="elections">
+            <ElectionsManager account={account} canManage={permissions.canManageElection} />
+          </TabsContent>
+
+          <TabsContent value="candidates">
+            <CandidatesManager account={account} electionFilter={permissions.canManageCandidates} />
+          </TabsContent>
+
+          <TabsContent value="voter-roll">
+            <VoterRollManager account={account} electionFilter={permissions.canManageElection} />
+          </TabsContent>
+
+          <TabsContent value="results">
+            <Card>
+              <CardHeader>
+                <CardTitle>Publish Election Results</CardTitle>
+                <CardDescription>Make election results visible to voters</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AdminPanel
+                  account={account}
+                  activeTab="publish-results"
+                  electionFilter={permissions.canManageElection}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="audit">
+            <ResultsDisplay previewFilter={permissions.canAudit} />
+          </TabsContent>
+
+          <TabsContent value="roles">
+            <RoleManager account={account} />
+          </TabsContent>
+
+          <TabsContent value="ownership">
+            <OwnershipManager account={account} permissions={permissions} />
+          </TabsContent>
+        </Tabs>
+      )}
     </div>
   )
 }
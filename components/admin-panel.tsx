@@ -1,7 +1,7 @@
 "use client"
 
 import type React from "react"
-import type { ElectionBasic } from "@/types"
+import type { ElectionBasic, ElectionType, NewCandidateInput } from "@/types"
 
 import { useState, useEffect } from "react"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
@@ -9,16 +9,45 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
 import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Loader2, PlusCircle } from "lucide-react"
+import { Loader2, PlusCircle, Save, X } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
 import { useVotingContract } from "@/context/voting-contract-context"
+import { useTransactions } from "@/context/transactions-context"
+import { describeError } from "@/lib/contract-errors"
+import ElectionTemplatePicker from "@/components/election-template-picker"
+import CandidateProfileFields from "@/components/candidate-profile-fields"
+import { VoterMerkleTree, WeightedVoterMerkleTree, parseVoterRollCsv, parseWeightedRollCsv } from "@/lib/merkle"
+import { PROPOSAL_SUBMITTED } from "@/lib/multisig"
+import {
+  listTemplates,
+  removeTemplate,
+  saveTemplate,
+  scheduleFromTemplate,
+  type ElectionTemplate,
+  type ElectionTemplateInput,
+} from "@/lib/election-templates"
+import {
+  emptyProfileDraft,
+  isDraftEmpty,
+  publishProfileDraft,
+  validateProfileDraft,
+  type CandidateProfileDraft,
+} from "@/lib/candidate-profiles"
+import { toDateTimeLocal } from "@/lib/utils"
+import { countPendingDelegatedVotes } from "@/lib/delegation"
+
+// "select-up-to" is an approval election whose ballots are capped at the number of seats
+type VotingMethod = ElectionType | "select-up-to"
 
 interface AdminPanelProps {
   account: string
   activeTab?: string
   preSelectedElection?: string
   onCandidateAdded?: () => void
+  // Limits the election selects to elections the account may manage
+  electionFilter?: (electionId: number) => boolean
 }
 
 export default function AdminPanel({
@@ -26,42 +55,52 @@ export default function AdminPanel({
   activeTab = "create-election",
   preSelectedElection,
   onCandidateAdded,
+  electionFilter,
 }: AdminPanelProps) {
   const [currentTab, setCurrentTab] = useState(activeTab)
   const [electionName, setElectionName] = useState("")
   const [electionDescription, setElectionDescription] = useState("")
   const [startDate, setStartDate] = useState("")
   const [endDate, setEndDate] = useState("")
+  const [voterRollFile, setVoterRollFile] = useState<File | null>(null)
+  const [votingMethod, setVotingMethod] = useState<VotingMethod>("plurality")
+  const [seats, setSeats] = useState("1")
+  const [secretBallot, setSecretBallot] = useState(false)
+  const [revealEndDate, setRevealEndDate] = useState("")
   const [candidateName, setCandidateName] = useState("")
   const [candidateInfo, setCandidateInfo] = useState("")
+  const [profileDraft, setProfileDraft] = useState<CandidateProfileDraft>(emptyProfileDraft)
   const [selectedElection, setSelectedElection] = useState<string | null>(null)
   const [publishElectionId, setPublishElectionId] = useState<string | null>(null)
   const [elections, setElections] = useState<ElectionBasic[]>([])
   const [loading, setLoading] = useState(false)
   const [submitting, setSubmitting] = useState(false)
+  // Step of the create flow shown on the submit button
+  const [createStep, setCreateStep] = useState<string | null>(null)
+  const [templates, setTemplates] = useState<ElectionTemplate[]>([])
+  // Durations of the applied template; end and reveal dates follow the start date while set
+  const [templateSchedule, setTemplateSchedule] = useState<{ duration: number; revealWindow: number } | null>(null)
+  // Added to the new election right after it is created
+  const [initialCandidates, setInitialCandidates] = useState<NewCandidateInput[]>([])
+  const [templateName, setTemplateName] = useState("")
 
   const { toast } = useToast()
-  const { contract } = useVotingContract()
+  const { client } = useVotingContract()
+  const { track, trackAdmin } = useTransactions()
 
   const fetchElections = async () => {
-    if (!contract) return
+    if (!client) return
 
     try {
       setLoading(true)
 
-      // Get election count from contract
-      const count = await contract.getElectionCount()
-      const electionsArray: ElectionBasic[] = []
-
-      // Fetch each election
-      for (let i = 0; i < Number(count); i++) {
-        const election = await contract.elections(i)
-
-        electionsArray.push({
-          id: i,
+      // Fetch every election from the contract; cancelled ones take no candidates or results
+      const electionsArray: ElectionBasic[] = (await client.listElections())
+        .filter((election) => !election.cancelled && (!electionFilter || electionFilter(election.id)))
+        .map((election) => ({
+          id: election.id,
           name: election.name,
-        })
-      }
+        }))
 
       console.log("Fetched elections for admin panel:", electionsArray)
       setElections(electionsArray)
@@ -77,17 +116,95 @@ export default function AdminPanel({
     }
   }
 
+  useEffect(() => {
+    setTemplates(listTemplates())
+  }, [])
+
+  const toTimestamp = (value: string) => Math.floor(new Date(value).getTime() / 1000)
+
+  const applySchedule = (startTime: number, schedule: { duration: number; revealWindow: number }) => {
+    const { endTime, revealEndTime } = scheduleFromTemplate(schedule, startTime)
+    setStartDate(toDateTimeLocal(startTime))
+    setEndDate(toDateTimeLocal(endTime))
+    setRevealEndDate(revealEndTime > 0 ? toDateTimeLocal(revealEndTime) : "")
+  }
+
+  const handleStartDateChange = (value: string) => {
+    if (templateSchedule && value) {
+      applySchedule(toTimestamp(value), templateSchedule)
+    } else {
+      setStartDate(value)
+    }
+  }
+
+  const applyTemplate = (template: ElectionTemplateInput, startTime: number | null) => {
+    const schedule = { duration: template.duration, revealWindow: template.revealWindow }
+    setElectionName(template.name)
+    setElectionDescription(template.description)
+    setVotingMethod(
+      template.electionType === "approval" && template.maxSelections > 0 ? "select-up-to" : template.electionType,
+    )
+    setSeats(String(template.seats || 1))
+    setSecretBallot(template.revealWindow > 0)
+    setInitialCandidates(template.candidates)
+    setTemplateSchedule(schedule)
+    if (startTime !== null) {
+      applySchedule(startTime, schedule)
+    } else {
+      setStartDate("")
+      setEndDate("")
+      setRevealEndDate("")
+    }
+  }
+
+  const handleSaveTemplate = () => {
+    const startTimestamp = toTimestamp(startDate)
+    const endTimestamp = toTimestamp(endDate)
+    if (!templateName.trim() || !(endTimestamp > startTimestamp)) {
+      toast({
+        title: "Error",
+        description: "Enter a template name and valid start and end dates",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const seatCount = Number.parseInt(seats) || 1
+    const multiWinner = votingMethod === "approval" || votingMethod === "select-up-to"
+    saveTemplate({
+      name: templateName.trim(),
+      description: electionDescription,
+      duration: endTimestamp - startTimestamp,
+      revealWindow: secretBallot && revealEndDate ? Math.max(toTimestamp(revealEndDate) - endTimestamp, 0) : 0,
+      electionType: multiWinner ? "approval" : (votingMethod as ElectionType),
+      maxSelections: votingMethod === "select-up-to" ? seatCount : 0,
+      seats: multiWinner ? seatCount : 1,
+      candidates: initialCandidates,
+    })
+    setTemplates(listTemplates())
+    setTemplateName("")
+    toast({
+      title: "Success",
+      description: "Template saved in this browser",
+    })
+  }
+
+  const handleDeleteTemplate = (id: string) => {
+    removeTemplate(id)
+    setTemplates(listTemplates())
+  }
+
   // Fetch elections when component mounts or when switching to tabs that need elections
   useEffect(() => {
-    if (contract && (currentTab === "add-candidate" || currentTab === "publish-results")) {
+    if (client && (currentTab === "add-candidate" || currentTab === "publish-results")) {
       fetchElections()
     }
-  }, [contract, currentTab])
+  }, [client, currentTab])
 
   const handleCreateElection = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!contract) {
+    if (!client) {
       toast({
         title: "Error",
         description: "Contract not initialized",
@@ -117,25 +234,120 @@ export default function AdminPanel({
       return
     }
 
+    const revealEndTimestamp = secretBallot ? Math.floor(new Date(revealEndDate).getTime() / 1000) : 0
+    if (secretBallot && !(revealEndTimestamp > endTimestamp)) {
+      toast({
+        title: "Error",
+        description: "Reveal deadline must be after the end date",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const seatCount = Number.parseInt(seats)
+    const multiWinner = votingMethod === "approval" || votingMethod === "select-up-to"
+    if (multiWinner && !(seatCount >= 1)) {
+      toast({
+        title: "Error",
+        description: "Enter how many candidates can win",
+        variant: "destructive",
+      })
+      return
+    }
+
+    let voterRoll: VoterMerkleTree | null = null
+    let weightedRoll: WeightedVoterMerkleTree | null = null
+    if (voterRollFile && votingMethod === "weighted") {
+      try {
+        weightedRoll = new WeightedVoterMerkleTree(parseWeightedRollCsv(await voterRollFile.text()).entries)
+      } catch (error) {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Invalid voter roll file",
+          variant: "destructive",
+        })
+        return
+      }
+    } else if (voterRollFile) {
+      const { addresses } = parseVoterRollCsv(await voterRollFile.text())
+      if (addresses.length === 0) {
+        toast({
+          title: "Error",
+          description: "The voter roll file contains no valid addresses",
+          variant: "destructive",
+        })
+        return
+      }
+      voterRoll = new VoterMerkleTree(addresses)
+    }
+
     try {
       setSubmitting(true)
+      setCreateStep("Creating election...")
 
       // Call the createElection function on the smart contract
-      const tx = await contract.createElection(electionName, electionDescription, startTimestamp, endTimestamp)
+      const result = await client.createElection({
+        name: electionName,
+        description: electionDescription,
+        startTime: startTimestamp,
+        endTime: endTimestamp,
+        revealEndTime: revealEndTimestamp,
+        electionType: multiWinner ? "approval" : (votingMethod as ElectionType),
+        maxSelections: votingMethod === "select-up-to" ? seatCount : 0,
+        seats: multiWinner ? seatCount : undefined,
+      })
 
       // Wait for transaction to be mined
-      await tx.wait()
+      const receipt = await trackAdmin(result, { action: "Create election" })
 
-      toast({
-        title: "Success",
-        description: "Election created successfully",
-      })
+      // Candidates and the roll can only be attached once the election id is known
+      const electionId = result.kind === "executed" ? client.getCreatedElectionId(receipt) : null
+      if (initialCandidates.length > 0 && electionId !== null) {
+        setCreateStep(`Adding ${initialCandidates.length} candidates...`)
+        await trackAdmin(await client.addCandidates(electionId, initialCandidates), { action: "Add candidates", electionId })
+      }
+      if ((voterRoll || weightedRoll) && electionId !== null) {
+        setCreateStep("Setting voter roll...")
+      }
+      if (voterRoll && electionId !== null) {
+        await trackAdmin(await client.setVoterRoll(electionId, voterRoll), { action: "Set voter roll", electionId })
+      }
+      if (weightedRoll && electionId !== null) {
+        await trackAdmin(await client.setVoterWeights(electionId, weightedRoll), { action: "Set voter roll", electionId })
+      }
+
+      if (result.kind === "proposed") {
+        // The election has no id until the Safe executes the proposal, so nothing can be attached to it yet
+        const pending = [
+          initialCandidates.length > 0 && `${initialCandidates.length} candidates`,
+          (voterRoll || weightedRoll) && "the voter roll",
+        ].filter(Boolean)
+        toast({
+          title: "Election Proposed",
+          description:
+            pending.length > 0
+              ? `${PROPOSAL_SUBMITTED} Add ${pending.join(" and ")} once the Safe has executed it.`
+              : PROPOSAL_SUBMITTED,
+        })
+      } else {
+        toast({
+          title: "Success",
+          description: "Election created successfully",
+        })
+      }
 
       // Reset form
       setElectionName("")
       setElectionDescription("")
       setStartDate("")
       setEndDate("")
+      setVoterRollFile(null)
+      setVotingMethod("plurality")
+      setSeats("1")
+      setSecretBallot(false)
+      setRevealEndDate("")
+      setTemplateSchedule(null)
+      setInitialCandidates([])
 
       // Refresh elections list
       fetchElections()
@@ -143,18 +355,19 @@ export default function AdminPanel({
       console.error("Error creating election:", error)
       toast({
         title: "Error",
-        description: "Failed to create election",
+        description: describeError(error, "Failed to create election"),
         variant: "destructive",
       })
     } finally {
       setSubmitting(false)
+      setCreateStep(null)
     }
   }
 
   const handleAddCandidate = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!contract) {
+    if (!client) {
       toast({
         title: "Error",
         description: "Contract not initialized",
@@ -163,7 +376,8 @@ export default function AdminPanel({
       return
     }
 
-    if (!selectedElection || !candidateName || !candidateInfo) {
+    // The on-chain summary may be left out when the candidate has a profile
+    if (!selectedElection || !candidateName || (!candidateInfo && isDraftEmpty(profileDraft))) {
       toast({
         title: "Error",
         description: "Please fill in all fields",
@@ -172,23 +386,42 @@ export default function AdminPanel({
       return
     }
 
+    const profileProblem = validateProfileDraft(profileDraft)
+    if (profileProblem) {
+      toast({
+        title: "Error",
+        description: profileProblem,
+        variant: "destructive",
+      })
+      return
+    }
+
     try {
       setSubmitting(true)
 
+      const profileHash = await publishProfileDraft(profileDraft)
+
       // Call the addCandidate function on the smart contract
-      const tx = await contract.addCandidate(Number.parseInt(selectedElection), candidateName, candidateInfo)
+      const electionId = Number.parseInt(selectedElection)
+      const result = await client.addCandidate(electionId, {
+        name: candidateName,
+        info: candidateInfo,
+        profileHash,
+      })
 
       // Wait for transaction to be mined
-      await tx.wait()
+      await trackAdmin(result, { action: "Add candidate", electionId })
 
-      toast({
-        title: "Success",
-        description: "Candidate added successfully",
-      })
+      toast(
+        result.kind === "proposed"
+          ? { title: "Proposal Submitted", description: PROPOSAL_SUBMITTED }
+          : { title: "Success", description: "Candidate added successfully" },
+      )
 
       // Reset form
       setCandidateName("")
       setCandidateInfo("")
+      setProfileDraft(emptyProfileDraft)
 
       // Call the callback if provided
       if (onCandidateAdded) {
@@ -198,7 +431,7 @@ export default function AdminPanel({
       console.error("Error adding candidate:", error)
       toast({
         title: "Error",
-        description: "Failed to add candidate",
+        description: describeError(error, "Failed to add candidate"),
         variant: "destructive",
       })
     } finally {
@@ -209,7 +442,7 @@ export default function AdminPanel({
   const handlePublishResults = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    if (!contract) {
+    if (!client) {
       toast({
         title: "Error",
         description: "Contract not initialized",
@@ -230,16 +463,30 @@ export default function AdminPanel({
     try {
       setSubmitting(true)
 
+      const electionId = Number.parseInt(publishElectionId)
+
+      // Delegated votes can only be added before the tally is frozen
+      const delegated = await countPendingDelegatedVotes(client, electionId, (tx) =>
+        track(tx, { action: "Count delegated votes", electionId }),
+      )
+
       // Call the publishResults function on the smart contract
-      const tx = await contract.publishResults(Number.parseInt(publishElectionId))
+      const result = await client.publishResults(electionId)
 
       // Wait for transaction to be mined
-      await tx.wait()
-
-      toast({
-        title: "Success",
-        description: "Results published successfully",
-      })
+      await trackAdmin(result, { action: "Publish results", electionId })
+
+      toast(
+        result.kind === "proposed"
+          ? { title: "Proposal Submitted", description: PROPOSAL_SUBMITTED }
+          : {
+              title: "Success",
+              description:
+                delegated > 0
+                  ? `Results published successfully, including ${delegated} delegated ${delegated === 1 ? "vote" : "votes"}`
+                  : "Results published successfully",
+            },
+      )
 
       // Reset form
       setPublishElectionId(null)
@@ -247,7 +494,7 @@ export default function AdminPanel({
       console.error("Error publishing results:", error)
       toast({
         title: "Error",
-        description: "Failed to publish results",
+        description: describeError(error, "Failed to publish results"),
         variant: "destructive",
       })
     } finally {
@@ -311,11 +558,13 @@ export default function AdminPanel({
                 id="candidate-info"
                 value={candidateInfo}
                 onChange={(e) => setCandidateInfo(e.target.value)}
-                placeholder="Brief description of the candidate..."
-                required
+                placeholder="One-line summary stored on-chain..."
+                required={isDraftEmpty(profileDraft)}
               />
             </div>
 
+            <CandidateProfileFields idPrefix="new-candidate" draft={profileDraft} onChange={setProfileDraft} />
+
             <Button
               type="submit"
               disabled={submitting || (!preSelectedElection && !selectedElection)}
@@ -402,6 +651,8 @@ export default function AdminPanel({
       <TabsContent value="create-election">
         <form onSubmit={handleCreateElection}>
           <div className="space-y-4">
+            <ElectionTemplatePicker templates={templates} onApply={applyTemplate} onDelete={handleDeleteTemplate} />
+
             <div className="space-y-2">
               <Label htmlFor="election-name">Election Name</Label>
               <Input
@@ -431,7 +682,7 @@ export default function AdminPanel({
                   id="start-date"
                   type="datetime-local"
                   value={startDate}
-                  onChange={(e) => setStartDate(e.target.value)}
+                  onChange={(e) => handleStartDateChange(e.target.value)}
                   required
                 />
               </div>
@@ -448,11 +699,141 @@ export default function AdminPanel({
               </div>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="election-type">Voting Method</Label>
+              <Select
+                value={votingMethod}
+                onValueChange={(value) => {
+                  setVotingMethod(value as VotingMethod)
+                  // Sealed ballots hold a single candidate id, so they only work with plurality
+                  if (value !== "plurality") setSecretBallot(false)
+                }}
+              >
+                <SelectTrigger id="election-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="plurality">Single choice (plurality)</SelectItem>
+                  <SelectItem value="ranked-choice">Ranked choice (instant runoff)</SelectItem>
+                  <SelectItem value="approval">Approval (select any number)</SelectItem>
+                  <SelectItem value="select-up-to">Multi-seat (select up to N)</SelectItem>
+                  <SelectItem value="weighted">Weighted (shares or tokens)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {(votingMethod === "approval" || votingMethod === "select-up-to") && (
+              <div className="space-y-2">
+                <Label htmlFor="seats">{votingMethod === "select-up-to" ? "Seats (N)" : "Number of Winners"}</Label>
+                <Input
+                  id="seats"
+                  type="number"
+                  min={1}
+                  value={seats}
+                  onChange={(e) => setSeats(e.target.value)}
+                  required
+                />
+                <p className="text-xs text-muted-foreground">
+                  {votingMethod === "select-up-to"
+                    ? "Each voter may select up to this many candidates; the same number of top candidates win."
+                    : "Voters tick every candidate they approve of; this many top candidates win."}
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="secret-ballot"
+                  disabled={votingMethod !== "plurality"}
+                  checked={secretBallot}
+                  onCheckedChange={(checked) => setSecretBallot(checked === true)}
+                />
+                <Label htmlFor="secret-ballot" className="font-normal">
+                  Secret ballot (commit–reveal)
+                </Label>
+              </div>
+              {secretBallot && (
+                <div className="space-y-2">
+                  <Label htmlFor="reveal-end-date">Reveal Deadline</Label>
+                  <Input
+                    id="reveal-end-date"
+                    type="datetime-local"
+                    value={revealEndDate}
+                    onChange={(e) => setRevealEndDate(e.target.value)}
+                    required
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Votes stay sealed until the end date. Voters then reveal them until this deadline; unrevealed votes
+                    are not counted.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="voter-roll">Voter Roll (optional)</Label>
+              <Input
+                id="voter-roll"
+                type="file"
+                accept=".csv,.txt"
+                onChange={(e) => setVoterRollFile(e.target.files?.[0] ?? null)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {votingMethod === "weighted"
+                  ? "CSV of address,weight rows. Nobody can vote until a roll is set; token snapshots can be taken from the Voter Roll tab."
+                  : "CSV with one eligible address per row. Leave empty to let any address vote."}
+              </p>
+            </div>
+
+            {initialCandidates.length > 0 && (
+              <div className="space-y-2">
+                <Label>Candidates ({initialCandidates.length})</Label>
+                <div className="rounded-md border divide-y max-h-48 overflow-y-auto">
+                  {initialCandidates.map((candidate, index) => (
+                    <div key={index} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-medium">{candidate.name}</div>
+                        <div className="text-xs text-muted-foreground truncate">{candidate.info}</div>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setInitialCandidates(initialCandidates.filter((_, i) => i !== index))}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Added in a second transaction right after the election is created.
+                </p>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Save as Template (optional)</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="template-name"
+                  value={templateName}
+                  onChange={(e) => setTemplateName(e.target.value)}
+                  placeholder="Quarterly board vote"
+                />
+                <Button type="button" variant="outline" disabled={!templateName.trim()} onClick={handleSaveTemplate}>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save
+                </Button>
+              </div>
+            </div>
+
             <Button type="submit" disabled={submitting} className="w-full">
               {submitting ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Creating...
+                  {createStep ?? "Creating..."}
                 </>
               ) : (
                 <>
@@ -509,11 +890,13 @@ export default function AdminPanel({
                 id="candidate-info"
                 value={candidateInfo}
                 onChange={(e) => setCandidateInfo(e.target.value)}
-                placeholder="Brief description of the candidate..."
-                required
+                placeholder="One-line summary stored on-chain..."
+                required={isDraftEmpty(profileDraft)}
               />
             </div>
 
+            <CandidateProfileFields idPrefix="new-candidate" draft={profileDraft} onChange={setProfileDraft} />
+
             <Button type="submit" disabled={submitting || !selectedElection} className="w-full">
               {submitting ? (
                 <>
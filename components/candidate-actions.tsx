@@ -0,0 +1,209 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Loader2, Pencil, UserMinus } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useVotingContract } from "@/context/voting-contract-context"
+import { useTransactions } from "@/context/transactions-context"
+import { describeError } from "@/lib/contract-errors"
+import { PROPOSAL_SUBMITTED } from "@/lib/multisig"
+import CandidateProfileFields from "@/components/candidate-profile-fields"
+import {
+  draftFromProfile,
+  emptyProfileDraft,
+  hasProfile,
+  loadProfile,
+  publishProfileDraft,
+  validateProfileDraft,
+  type CandidateProfileDraft,
+} from "@/lib/candidate-profiles"
+import type { CandidateData } from "@/types"
+
+interface CandidateActionsProps {
+  electionId: number
+  candidate: CandidateData
+}
+
+export default function CandidateActions({ electionId, candidate }: CandidateActionsProps) {
+  const [dialog, setDialog] = useState<"edit" | "withdraw" | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [name, setName] = useState(candidate.name)
+  const [info, setInfo] = useState(candidate.info)
+  const [profileDraft, setProfileDraft] = useState<CandidateProfileDraft>(emptyProfileDraft)
+  // Only republished when touched, so an unchanged profile keeps its hash
+  const [profileTouched, setProfileTouched] = useState(false)
+  const [loadingProfile, setLoadingProfile] = useState(false)
+  const { toast } = useToast()
+  const { client } = useVotingContract()
+  const { trackAdmin } = useTransactions()
+
+  const openEdit = async () => {
+    setName(candidate.name)
+    setInfo(candidate.info)
+    setProfileDraft(emptyProfileDraft)
+    setProfileTouched(false)
+    setDialog("edit")
+
+    if (!hasProfile(candidate.profileHash)) return
+    try {
+      setLoadingProfile(true)
+      setProfileDraft(draftFromProfile(await loadProfile(candidate.profileHash)))
+    } catch (error) {
+      console.error("Error loading candidate profile:", error)
+      toast({
+        title: "Error",
+        description: "The current profile could not be loaded. Saving a new one replaces it.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingProfile(false)
+    }
+  }
+
+  const handleProfileChange = (draft: CandidateProfileDraft) => {
+    setProfileDraft(draft)
+    setProfileTouched(true)
+  }
+
+  const run = async (action: "edit" | "withdraw") => {
+    if (!client) return
+
+    const profileProblem = action === "edit" && profileTouched ? validateProfileDraft(profileDraft) : null
+    if (profileProblem) {
+      toast({
+        title: "Error",
+        description: profileProblem,
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const result =
+        action === "edit"
+          ? await client.updateCandidate(electionId, candidate.id, {
+              name,
+              info,
+              profileHash: profileTouched ? await publishProfileDraft(profileDraft) : candidate.profileHash,
+            })
+          : await client.withdrawCandidate(electionId, candidate.id)
+      await trackAdmin(result, { action: action === "edit" ? "Update candidate" : "Withdraw candidate", electionId })
+
+      toast(
+        result.kind === "proposed"
+          ? { title: "Proposal Submitted", description: PROPOSAL_SUBMITTED }
+          : {
+              title: "Success",
+              description: action === "edit" ? "Candidate updated" : `${candidate.name} withdrawn from the ballot`,
+            },
+      )
+      setDialog(null)
+    } catch (error) {
+      console.error(`Error trying to ${action} candidate:`, error)
+      toast({
+        title: "Error",
+        description: describeError(error, `Failed to ${action === "edit" ? "update" : "withdraw"} candidate`),
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <>
+      <div className="flex gap-1">
+        <Button variant="ghost" size="sm" onClick={openEdit}>
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button variant="ghost" size="sm" className="text-red-600" onClick={() => setDialog("withdraw")}>
+          <UserMinus className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Dialog open={dialog === "edit"} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Candidate</DialogTitle>
+            <DialogDescription>Candidate details can change until voting starts.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`candidate-name-${candidate.id}`}>Candidate Name</Label>
+              <Input id={`candidate-name-${candidate.id}`} value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`candidate-info-${candidate.id}`}>Candidate Information</Label>
+              <Textarea id={`candidate-info-${candidate.id}`} value={info} onChange={(e) => setInfo(e.target.value)} />
+            </div>
+            {loadingProfile ? (
+              <div className="flex justify-center p-4">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : (
+              <CandidateProfileFields
+                idPrefix={`candidate-${candidate.id}`}
+                draft={profileDraft}
+                onChange={handleProfileChange}
+              />
+            )}
+          </div>
+          <DialogFooter>
+            <Button
+              disabled={
+                submitting ||
+                loadingProfile ||
+                !name.trim() ||
+                (name === candidate.name && info === candidate.info && !profileTouched)
+              }
+              onClick={() => run("edit")}
+            >
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Changes
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={dialog === "withdraw"} onOpenChange={(open) => !open && setDialog(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Withdraw {candidate.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The candidate is removed from the ballot but stays in the election's history. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={submitting}>Keep Candidate</AlertDialogCancel>
+            <Button variant="destructive" disabled={submitting} onClick={() => run("withdraw")}>
+              {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Withdraw
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  )
+}
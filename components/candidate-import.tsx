@@ -0,0 +1,141 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Loader2, Upload } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useVotingContract } from "@/context/voting-contract-context"
+import { useTransactions } from "@/context/transactions-context"
+import { parseCandidateImport } from "@/lib/candidate-import"
+import { PROPOSAL_SUBMITTED } from "@/lib/multisig"
+
+interface CandidateImportProps {
+  electionId: number
+  // Names already on the election, so duplicates are flagged before submitting
+  existingNames: string[]
+  onImported?: () => void
+}
+
+export default function CandidateImport({ electionId, existingNames, onImported }: CandidateImportProps) {
+  const [importText, setImportText] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+  const { toast } = useToast()
+  const { client } = useVotingContract()
+  const { trackAdmin } = useTransactions()
+
+  const { rows, error } = parseCandidateImport(importText, existingNames)
+  const invalidCount = rows.filter((row) => row.error).length
+  const canSubmit = rows.length > 0 && invalidCount === 0 && !error
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) {
+      setImportText(await file.text())
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!client || !canSubmit) return
+
+    try {
+      setSubmitting(true)
+      const result = await client.addCandidates(electionId, rows.map(({ name, info }) => ({ name, info })))
+      await trackAdmin(result, { action: "Import candidates", electionId })
+
+      toast(
+        result.kind === "proposed"
+          ? { title: "Proposal Submitted", description: PROPOSAL_SUBMITTED }
+          : { title: "Success", description: `${rows.length} candidate${rows.length === 1 ? "" : "s"} added` },
+      )
+      setImportText("")
+      onImported?.()
+    } catch (error) {
+      console.error("Error importing candidates:", error)
+      toast({
+        title: "Error",
+        description: "Failed to import candidates",
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="candidate-file">Import File</Label>
+        <Input
+          id="candidate-file"
+          type="file"
+          accept=".csv,.json,.txt"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="candidate-import-text">Candidates</Label>
+        <Textarea
+          id="candidate-import-text"
+          value={importText}
+          onChange={(e) => setImportText(e.target.value)}
+          placeholder={'One name,info row per line, or a JSON array like [{"name": "...", "info": "..."}]'}
+          rows={6}
+          className="font-mono text-xs"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {rows.length > 0 && (
+        <div className="rounded-md border max-h-80 overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-16">Row</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Information</TableHead>
+                <TableHead className="w-40">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.line}>
+                  <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                  <TableCell className="font-medium">{row.name || "—"}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{row.info}</TableCell>
+                  <TableCell>
+                    {row.error ? (
+                      <Badge variant="destructive" className="text-xs">
+                        {row.error}
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline" className="text-xs bg-green-50 text-green-700 border-green-200">
+                        Ready
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {invalidCount > 0 && (
+        <p className="text-sm text-orange-700">
+          Fix or remove {invalidCount} invalid row{invalidCount === 1 ? "" : "s"} before importing.
+        </p>
+      )}
+
+      <Button className="w-full" disabled={!canSubmit || submitting} onClick={handleSubmit}>
+        {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+        {rows.length > 0 ? `Import ${rows.length} Candidate${rows.length === 1 ? "" : "s"}` : "Import Candidates"}
+      </Button>
+    </div>
+  )
+}
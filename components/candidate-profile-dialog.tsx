@@ -0,0 +1,154 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { ExternalLink, IdCard, ShieldAlert, ShieldCheck, User } from "lucide-react"
+import Markdown from "@/components/markdown"
+import { cidFromDigest } from "@/lib/content-store"
+import { hasProfile, loadPhotoUrl, loadProfile, type CandidateProfile } from "@/lib/candidate-profiles"
+
+interface CandidateProfileDialogProps {
+  candidate: {
+    name: string
+    info: string
+    profileHash: string
+  }
+}
+
+// "Profile" button that opens the candidate's off-chain profile, verified against the on-chain hash
+export default function CandidateProfileDialog({ candidate }: CandidateProfileDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [profile, setProfile] = useState<CandidateProfile | null>(null)
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open || profile) return
+
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    loadProfile(candidate.profileHash)
+      .then(async (loaded) => {
+        if (cancelled) return
+        setProfile(loaded)
+        if (loaded.photo) {
+          const url = await loadPhotoUrl(loaded.photo)
+          if (cancelled) URL.revokeObjectURL(url)
+          else setPhotoUrl(url)
+        }
+      })
+      .catch((err) => {
+        console.error("Error loading candidate profile:", err)
+        if (!cancelled) setError(err instanceof Error ? err.message : "Failed to load the profile")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [open, candidate.profileHash])
+
+  // A new hash means a different profile
+  useEffect(() => {
+    setProfile(null)
+    setPhotoUrl(null)
+  }, [candidate.profileHash])
+
+  useEffect(() => {
+    return () => {
+      if (photoUrl) URL.revokeObjectURL(photoUrl)
+    }
+  }, [photoUrl])
+
+  if (!hasProfile(candidate.profileHash)) return null
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="ghost" size="sm" onClick={(e) => e.stopPropagation()}>
+          <IdCard className="mr-1 h-4 w-4" />
+          Profile
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{candidate.name}</DialogTitle>
+          {candidate.info && <DialogDescription>{candidate.info}</DialogDescription>}
+        </DialogHeader>
+
+        {loading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-24 w-24 rounded-full" />
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-4 w-2/3" />
+          </div>
+        ) : error ? (
+          <div className="bg-red-50 border border-red-200 rounded-md p-3 flex gap-2">
+            <ShieldAlert className="h-4 w-4 text-red-600 shrink-0 mt-0.5" />
+            <p className="text-sm text-red-800">{error}</p>
+          </div>
+        ) : (
+          profile && (
+            <div className="space-y-4">
+              <div className="flex items-center gap-4">
+                {photoUrl ? (
+                  <img src={photoUrl} alt={candidate.name} className="h-24 w-24 rounded-full object-cover" />
+                ) : (
+                  <div className="bg-primary/10 h-24 w-24 rounded-full flex items-center justify-center">
+                    <User className="h-8 w-8 text-primary" />
+                  </div>
+                )}
+                {profile.biography && <p className="text-sm whitespace-pre-line">{profile.biography}</p>}
+              </div>
+
+              {profile.manifesto && (
+                <div className="space-y-2">
+                  <h4 className="font-medium">Manifesto</h4>
+                  <Markdown source={profile.manifesto} />
+                </div>
+              )}
+
+              {profile.links.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="font-medium">Links</h4>
+                  {profile.links.map((link) => (
+                    <a
+                      key={link.url}
+                      href={link.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-sm text-primary underline"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                      {link.label}
+                    </a>
+                  ))}
+                </div>
+              )}
+
+              <Badge variant="outline" className="gap-1 bg-green-50 text-green-700 border-green-200">
+                <ShieldCheck className="h-3 w-3" />
+                Matches the on-chain hash
+              </Badge>
+              <p className="font-mono text-xs break-all text-muted-foreground">{cidFromDigest(candidate.profileHash)}</p>
+            </div>
+          )
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Button } from "@/components/ui/button"
+import { X } from "lucide-react"
+import { MAX_BLOB_SIZE } from "@/lib/content-store"
+import type { CandidateProfileDraft } from "@/lib/candidate-profiles"
+
+interface CandidateProfileFieldsProps {
+  // Prefix for input ids when several forms are on the page
+  idPrefix: string
+  draft: CandidateProfileDraft
+  onChange: (draft: CandidateProfileDraft) => void
+}
+
+// Editor for the off-chain part of a candidate; published when the candidate is saved
+export default function CandidateProfileFields({ idPrefix, draft, onChange }: CandidateProfileFieldsProps) {
+  const update = (patch: Partial<CandidateProfileDraft>) => onChange({ ...draft, ...patch })
+
+  return (
+    <div className="space-y-4 rounded-md border p-3">
+      <div>
+        <div className="text-sm font-medium">Profile (optional)</div>
+        <p className="text-xs text-muted-foreground">
+          Stored off-chain by content hash; only the hash is written to the contract.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-photo`}>Photo</Label>
+        <div className="flex items-center gap-2">
+          <Input
+            id={`${idPrefix}-photo`}
+            type="file"
+            accept="image/*"
+            onChange={(e) => update({ photoFile: e.target.files?.[0] ?? null })}
+          />
+          {(draft.photoFile || draft.photo) && (
+            <Button type="button" variant="ghost" size="sm" onClick={() => update({ photoFile: null, photo: null })}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+        {draft.photoFile && draft.photoFile.size > MAX_BLOB_SIZE && (
+          <p className="text-xs text-red-600">Photos must be at most {MAX_BLOB_SIZE / 1024} KiB</p>
+        )}
+        {!draft.photoFile && draft.photo && (
+          <p className="text-xs text-muted-foreground font-mono break-all">Current photo: {draft.photo}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-biography`}>Biography</Label>
+        <Textarea
+          id={`${idPrefix}-biography`}
+          value={draft.biography}
+          onChange={(e) => update({ biography: e.target.value })}
+          rows={3}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-manifesto`}>Manifesto (Markdown)</Label>
+        <Textarea
+          id={`${idPrefix}-manifesto`}
+          value={draft.manifesto}
+          onChange={(e) => update({ manifesto: e.target.value })}
+          placeholder={"## Priorities\n- First point\n- Second point"}
+          rows={5}
+          className="font-mono text-xs"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-links`}>Links</Label>
+        <Textarea
+          id={`${idPrefix}-links`}
+          value={draft.links}
+          onChange={(e) => update({ links: e.target.value })}
+          placeholder="Website | https://example.org"
+          rows={2}
+          className="font-mono text-xs"
+        />
+      </div>
+    </div>
+  )
+}
@@ -7,74 +7,82 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Label } from "@/components/ui/label"
-import { User, Plus } from "lucide-react"
+import { User, Plus, FileUp } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
-import { useVotingContract } from "@/context/voting-contract-context"
+import { useVotingContract, useVotingStore } from "@/context/voting-contract-context"
 import AdminPanel from "@/components/admin-panel"
+import CandidateActions from "@/components/candidate-actions"
+import CandidateImport from "@/components/candidate-import"
+import CandidateProfileDialog from "@/components/candidate-profile-dialog"
 
 interface CandidatesManagerProps {
   account: string
+  // Limits the election select to elections the account may manage
+  electionFilter?: (electionId: number) => boolean
 }
 
 interface Election {
   id: number
   name: string
   hasStarted: boolean
+  cancelled: boolean
 }
 
 interface Candidate {
   id: number
   name: string
   info: string
-  voteCount?: number
+  withdrawn: boolean
+  profileHash: string
+  voteCount?: bigint
 }
 
-export default function CandidatesManager({ account }: CandidatesManagerProps) {
-  const [elections, setElections] = useState<Election[]>([])
+export default function CandidatesManager({ account, electionFilter }: CandidatesManagerProps) {
   const [candidates, setCandidates] = useState<Candidate[]>([])
   const [selectedElection, setSelectedElection] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [loadingCandidates, setLoadingCandidates] = useState(false)
   const [showAddForm, setShowAddForm] = useState(false)
+  const [showImportForm, setShowImportForm] = useState(false)
   const { toast } = useToast()
-  const { contract } = useVotingContract()
+  const { client } = useVotingContract()
+  const { store, dispatch } = useVotingStore()
+
+  // CandidateAdded events bump this, which reloads the list below
+  const liveCandidateCount = selectedElection ? store.elections[Number(selectedElection)]?.candidateCount : undefined
 
   useEffect(() => {
-    if (contract && account) {
+    if (client && account) {
       fetchElections()
     }
-  }, [contract, account])
+  }, [client, account])
 
   useEffect(() => {
-    if (selectedElection && contract) {
+    if (selectedElection && client) {
       fetchCandidates(Number.parseInt(selectedElection))
     } else {
       setCandidates([])
     }
-  }, [selectedElection, contract])
+  }, [selectedElection, client, liveCandidateCount])
 
-  const fetchElections = async () => {
-    try {
-      setLoading(true)
+  // Edits and withdrawals leave the count unchanged, so listen for them directly
+  useEffect(() => {
+    if (!selectedElection || !client) return
 
-      // Get election count from contract
-      const count = await contract.getElectionCount()
-      const electionsArray: Election[] = []
+    const reload = ({ electionId }: { electionId: bigint }) => {
+      if (Number(electionId) === Number(selectedElection)) fetchCandidates(Number(electionId))
+    }
+    return client.subscribe({ CandidateUpdated: reload, CandidateWithdrawn: reload })
+  }, [selectedElection, client])
 
-      // Fetch each election
-      for (let i = 0; i < count; i++) {
-        const election = await contract.elections(i)
-        const now = Math.floor(Date.now() / 1000)
-        const hasStarted = now >= election.startTime
+  const fetchElections = async () => {
+    if (!client) return
 
-        electionsArray.push({
-          id: i,
-          name: election.name,
-          hasStarted,
-        })
-      }
+    try {
+      setLoading(true)
 
-      setElections(electionsArray)
+      const allElections = await client.listElections()
+      dispatch({ type: "electionsLoaded", elections: allElections, total: allElections.length })
     } catch (error) {
       console.error("Error fetching elections:", error)
       toast({
@@ -88,33 +96,18 @@ export default function CandidatesManager({ account }: CandidatesManagerProps) {
   }
 
   const fetchCandidates = async (electionId: number) => {
+    if (!client) return
+
     try {
       setLoadingCandidates(true)
 
-      // Get candidate count for this election
-      const count = await contract.getCandidateCount(electionId)
-      const candidatesArray: Candidate[] = []
-
       // Check if results are published to show vote counts
-      const resultsPublished = await contract.resultsPublished(electionId)
-
-      // Fetch each candidate
-      for (let i = 0; i < count; i++) {
-        const candidate = await contract.getCandidate(electionId, i)
+      const resultsPublished = await client.isResultsPublished(electionId)
 
-        let voteCount = undefined
-        if (resultsPublished) {
-          const votes = await contract.getVoteCount(electionId, i)
-          voteCount = Number(votes)
-        }
-
-        candidatesArray.push({
-          id: i,
-          name: candidate.name,
-          info: candidate.info,
-          voteCount,
-        })
-      }
+      // Fetch each candidate, with vote counts once they are visible
+      const candidatesArray: Candidate[] = resultsPublished
+        ? await client.getResults(electionId)
+        : await client.getCandidates(electionId)
 
       setCandidates(candidatesArray)
     } catch (error) {
@@ -130,14 +123,27 @@ export default function CandidatesManager({ account }: CandidatesManagerProps) {
   }
 
   const handleCandidateAdded = () => {
-    // Refresh candidates list after adding new candidate
-    if (selectedElection) {
-      fetchCandidates(Number.parseInt(selectedElection))
-    }
+    // The CandidateAdded event refreshes the list; just close the form
     setShowAddForm(false)
   }
 
-  if (loading) {
+  const handleCandidatesImported = () => {
+    setShowImportForm(false)
+  }
+
+  // Elections created elsewhere show up here through ElectionCreated events
+  const now = store.blockTime ?? Math.floor(Date.now() / 1000)
+  const elections: Election[] = Object.values(store.elections)
+    .filter((election) => !electionFilter || electionFilter(election.id))
+    .sort((a, b) => a.id - b.id)
+    .map((election) => ({
+      id: election.id,
+      name: election.name,
+      hasStarted: now >= election.startTime,
+      cancelled: election.cancelled,
+    }))
+
+  if (loading && elections.length === 0) {
     return (
       <Card>
         <CardContent className="pt-6 flex justify-center">
@@ -158,13 +164,15 @@ export default function CandidatesManager({ account }: CandidatesManagerProps) {
   }
 
   const selectedElectionData = elections.find((e) => e.id.toString() === selectedElection)
+  const editable = !!selectedElectionData && !selectedElectionData.hasStarted && !selectedElectionData.cancelled
+  const activeCount = candidates.filter((candidate) => !candidate.withdrawn).length
 
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
           <CardTitle>Manage Candidates</CardTitle>
-          <CardDescription>View and add candidates to your elections</CardDescription>
+          <CardDescription>View, add, edit and withdraw candidates in your elections</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-2">
@@ -192,12 +200,32 @@ export default function CandidatesManager({ account }: CandidatesManagerProps) {
 
           {selectedElection && (
             <div className="flex justify-between items-center">
-              <h3 className="text-lg font-semibold">Candidates ({candidates.length})</h3>
-              {!selectedElectionData?.hasStarted && (
-                <Button onClick={() => setShowAddForm(!showAddForm)}>
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Candidate
-                </Button>
+              <h3 className="text-lg font-semibold">
+                Candidates ({activeCount}
+                {activeCount < candidates.length && ` + ${candidates.length - activeCount} withdrawn`})
+              </h3>
+              {editable && (
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setShowImportForm(!showImportForm)
+                      setShowAddForm(false)
+                    }}
+                  >
+                    <FileUp className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                  <Button
+                    onClick={() => {
+                      setShowAddForm(!showAddForm)
+                      setShowImportForm(false)
+                    }}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Candidate
+                  </Button>
+                </div>
               )}
             </div>
           )}
@@ -223,13 +251,33 @@ export default function CandidatesManager({ account }: CandidatesManagerProps) {
         </Card>
       )}
 
+      {showImportForm && selectedElection && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Import Candidates</CardTitle>
+            <CardDescription>
+              Add many candidates to {selectedElectionData?.name} in one transaction from a CSV or JSON file
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CandidateImport
+              electionId={Number(selectedElection)}
+              existingNames={candidates.filter((candidate) => !candidate.withdrawn).map((candidate) => candidate.name)}
+              onImported={handleCandidatesImported}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {selectedElection && (
         <Card>
           <CardHeader>
             <CardTitle>Candidates List</CardTitle>
             {selectedElectionData?.hasStarted && (
               <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
-                <p className="text-sm text-yellow-800">This election has started. No new candidates can be added.</p>
+                <p className="text-sm text-yellow-800">
+                  This election has started. Candidates can no longer be added, edited or withdrawn.
+                </p>
               </div>
             )}
           </CardHeader>
@@ -251,22 +299,34 @@ export default function CandidatesManager({ account }: CandidatesManagerProps) {
             ) : (
               <div className="space-y-4">
                 {candidates.map((candidate) => (
-                  <div key={candidate.id} className="flex items-start space-x-3 p-3 border rounded-md">
+                  <div
+                    key={candidate.id}
+                    className={`flex items-start space-x-3 p-3 border rounded-md ${candidate.withdrawn ? "opacity-60" : ""}`}
+                  >
                     <div className="bg-primary/10 p-2 rounded-full">
                       <User className="h-4 w-4 text-primary" />
                     </div>
                     <div className="flex-1">
                       <div className="flex items-center gap-2">
-                        <h4 className="font-medium">{candidate.name}</h4>
+                        <h4 className={`font-medium ${candidate.withdrawn ? "line-through" : ""}`}>{candidate.name}</h4>
                         <Badge variant="outline" className="text-xs">
                           ID: {candidate.id}
                         </Badge>
-                        {candidate.voteCount !== undefined && (
-                          <Badge className="text-xs">{candidate.voteCount} votes</Badge>
+                        {candidate.withdrawn && (
+                          <Badge variant="secondary" className="text-xs">
+                            Withdrawn
+                          </Badge>
+                        )}
+                        {candidate.voteCount !== undefined && !candidate.withdrawn && (
+                          <Badge className="text-xs">{candidate.voteCount.toString()} votes</Badge>
                         )}
+                        <CandidateProfileDialog candidate={candidate} />
                       </div>
                       <p className="text-sm text-muted-foreground mt-1">{candidate.info}</p>
                     </div>
+                    {editable && !candidate.withdrawn && (
+                      <CandidateActions electionId={Number(selectedElection)} candidate={candidate} />
+                    )}
                   </div>
                 ))}
               </div>
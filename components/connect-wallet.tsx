@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { useToast } from "@/components/ui/use-toast"
+import { decodeVotingError } from "@/lib/contract-errors"
 import { Loader2, Wallet, RefreshCw } from 'lucide-react'
 
 interface ConnectWalletProps {
@@ -174,28 +175,23 @@ export default function ConnectWallet({ account, setAccount }: ConnectWalletProp
         })
       }
 
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error fetching accounts:", error)
 
       // Handle specific error types
-      if (error?.code === 4001) {
+      const { code } = decodeVotingError(error)
+      if (code === "UserRejected") {
         toast({
           title: "Connection rejected",
           description: "You rejected the connection request",
           variant: "destructive",
         })
-      } else if (error?.code === -32002) {
+      } else if (code === "RequestPending") {
         toast({
           title: "Request pending",
           description: "Please check MetaMask for a pending connection request",
           variant: "destructive",
         })
-      } else if (error?.message?.includes("User rejected")) {
-        toast({
-          title: "Connection rejected",
-          description: "Please approve the connection in MetaMask",
-          variant: "destructive",
-        })
       } else {
         toast({
           title: "Connection failed",
@@ -209,6 +205,8 @@ export default function ConnectWallet({ account, setAccount }: ConnectWalletProp
   }
 
   const switchAccount = async (newAccount: string) => {
+    if (!window.ethereum) return
+
     try {
       // Request MetaMask to switch to the selected account
       await window.ethereum.request({
@@ -25,10 +25,10 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
   const [debugging, setDebugging] = useState(false)
   const [results, setResults] = useState<DebugResult[]>([])
   const { toast } = useToast()
-  const { contract } = useVotingContract()
+  const { client } = useVotingContract()
 
   const runDiagnostics = async () => {
-    if (!contract) return
+    if (!client) return
 
     setDebugging(true)
     const testResults: DebugResult[] = []
@@ -36,7 +36,7 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
     try {
       // Test 1: Contract owner
       try {
-        const owner = await contract.owner()
+        const owner = await client.getOwner()
         testResults.push({
           test: "Contract Owner",
           status: "pass",
@@ -52,7 +52,7 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
 
       // Test 2: Election count
       try {
-        const count = await contract.getElectionCount()
+        const count = await client.getElectionCount()
         testResults.push({
           test: "Election Count",
           status: "pass",
@@ -68,7 +68,7 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
 
       // Test 3: Specific election data
       try {
-        const election = await contract.elections(electionId)
+        const election = await client.getElection(electionId)
         testResults.push({
           test: `Election ${electionId} Data`,
           status: "pass",
@@ -89,7 +89,7 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
 
       // Test 4: Candidate count
       try {
-        const candidateCount = await contract.getCandidateCount(electionId)
+        const candidateCount = await client.getCandidateCount(electionId)
         testResults.push({
           test: `Candidate Count for Election ${electionId}`,
           status: "pass",
@@ -105,7 +105,7 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
 
       // Test 5: Specific candidate data
       try {
-        const candidate = await contract.getCandidate(electionId, candidateId)
+        const candidate = await client.getCandidate(electionId, candidateId)
         testResults.push({
           test: `Candidate ${candidateId} Data`,
           status: "pass",
@@ -124,7 +124,7 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
 
       // Test 6: Has voted check
       try {
-        const hasVoted = await contract.hasVoted(electionId, account)
+        const hasVoted = await client.hasVoted(electionId, account)
         testResults.push({
           test: "Has Voted Check",
           status: hasVoted ? "fail" : "pass",
@@ -140,13 +140,11 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
 
       // Test 7: Block timestamp vs election times
       try {
-        const provider = contract.runner?.provider
+        const provider = client.provider
         if (provider) {
           const block = await provider.getBlock("latest")
           const blockTime = block?.timestamp || 0
-          const election = await contract.elections(electionId)
-          const startTime = Number(election.startTime)
-          const endTime = Number(election.endTime)
+          const { startTime, endTime } = await client.getElection(electionId)
 
           const isActive = blockTime >= startTime && blockTime <= endTime
 
@@ -171,7 +169,7 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
 
       // Test 8: Try static call (simulation)
       try {
-        await contract.vote.staticCall(electionId, candidateId)
+        await client.contract.vote.staticCall(electionId, candidateId, [])
         testResults.push({
           test: "Vote Static Call (Simulation)",
           status: "pass",
@@ -187,7 +185,7 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
 
       // Test 9: Gas estimation
       try {
-        const gasEstimate = await contract.vote.estimateGas(electionId, candidateId)
+        const gasEstimate = await client.contract.vote.estimateGas(electionId, candidateId, [])
         testResults.push({
           test: "Gas Estimation",
           status: "pass",
@@ -203,7 +201,7 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
 
       // Test 10: Account balance
       try {
-        const provider = contract.runner?.provider
+        const provider = client.provider
         if (provider) {
           const balance = await provider.getBalance(account)
           const balanceEth = Number(balance) / Math.pow(10, 18)
@@ -223,10 +221,10 @@ export default function ContractDebugger({ account, electionId, candidateId }: C
 
       // Test 11: Network and contract interaction
       try {
-        const provider = contract.runner?.provider
+        const provider = client.provider
         if (provider) {
           const network = await provider.getNetwork()
-          const code = await provider.getCode(contract.target)
+          const code = await provider.getCode(client.address)
           testResults.push({
             test: "Network & Contract",
             status: code.length > 2 ? "pass" : "fail",
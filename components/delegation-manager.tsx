@@ -0,0 +1,274 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ethers } from "ethers"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Loader2, UserCheck, UserX } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useVotingContract, useVotingStore } from "@/context/voting-contract-context"
+import { useTransactions } from "@/context/transactions-context"
+import { describeError } from "@/lib/contract-errors"
+import { supportsDelegation } from "@/lib/delegation"
+import type { DelegationAssignment } from "@/types"
+
+// Select value for a delegation that covers every election
+const ALL_ELECTIONS = "all"
+
+interface DelegationManagerProps {
+  account: string
+}
+
+export default function DelegationManager({ account }: DelegationManagerProps) {
+  const [delegations, setDelegations] = useState<DelegationAssignment[]>([])
+  const [delegateAddress, setDelegateAddress] = useState("")
+  const [scope, setScope] = useState(ALL_ELECTIONS)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState<string | null>(null)
+  const { toast } = useToast()
+  const { client } = useVotingContract()
+  const { track } = useTransactions()
+  const { store } = useVotingStore()
+
+  const fetchDelegations = async () => {
+    if (!client) return
+
+    try {
+      setLoading(true)
+      setDelegations(await client.getDelegations())
+    } catch (error) {
+      console.error("Error fetching delegations:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch delegations",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!client || !account) return
+
+    fetchDelegations()
+    return client.subscribe({ DelegateChanged: fetchDelegations })
+  }, [client, account])
+
+  const electionName = (electionId: number | null) =>
+    electionId === null ? "All elections" : store.elections[electionId]?.name ?? `Election #${electionId}`
+
+  const isAccount = (address: string) => address.toLowerCase() === account.toLowerCase()
+  const delegatedByMe = delegations.filter((delegation) => isAccount(delegation.delegator))
+  const delegatedToMe = delegations.filter(
+    (delegation) => delegation.delegate !== ethers.ZeroAddress && isAccount(delegation.delegate),
+  )
+
+  const now = store.blockTime ?? Math.floor(Date.now() / 1000)
+  const elections = Object.values(store.elections)
+    .filter((election) => supportsDelegation(election) && !election.cancelled && election.endTime >= now)
+    .sort((a, b) => a.id - b.id)
+
+  const updateDelegation = async (electionId: number | null, delegate: string) => {
+    if (!client) return
+
+    const key = `${delegate === ethers.ZeroAddress ? "remove" : "delegate"}:${electionId}`
+    try {
+      setSubmitting(key)
+      const tx =
+        delegate === ethers.ZeroAddress
+          ? await client.clearDelegation(electionId)
+          : await client.delegateVote(electionId, delegate)
+      await track(tx, {
+        action: delegate === ethers.ZeroAddress ? "Remove delegation" : "Delegate vote",
+        electionId: electionId ?? undefined,
+      })
+
+      toast({
+        title: "Success",
+        description:
+          delegate === ethers.ZeroAddress
+            ? `Delegation for ${electionName(electionId)} removed`
+            : `Vote delegated to ${delegate} for ${electionName(electionId)}`,
+      })
+      if (delegate !== ethers.ZeroAddress) setDelegateAddress("")
+    } catch (error) {
+      console.error("Error updating delegation:", error)
+      toast({
+        title: "Error",
+        description: describeError(error, "Failed to update delegation"),
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  const handleDelegate = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!ethers.isAddress(delegateAddress) || ethers.getAddress(delegateAddress) === ethers.ZeroAddress) {
+      toast({
+        title: "Error",
+        description: "Enter a valid address",
+        variant: "destructive",
+      })
+      return
+    }
+    if (isAccount(delegateAddress)) {
+      toast({
+        title: "Error",
+        description: "You cannot delegate to yourself",
+        variant: "destructive",
+      })
+      return
+    }
+
+    updateDelegation(scope === ALL_ELECTIONS ? null : Number(scope), ethers.getAddress(delegateAddress))
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Delegate Your Vote</CardTitle>
+          <CardDescription>
+            Your delegate&apos;s ballot counts for you in any election you do not vote in yourself. Voting directly
+            always overrides the delegation.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleDelegate} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="delegate-address">Delegate Address</Label>
+              <Input
+                id="delegate-address"
+                value={delegateAddress}
+                onChange={(e) => setDelegateAddress(e.target.value)}
+                placeholder="0x..."
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="delegate-scope">Scope</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger id="delegate-scope">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ELECTIONS}>All elections</SelectItem>
+                  {elections.map((election) => (
+                    <SelectItem key={election.id} value={election.id.toString()}>
+                      {election.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                A delegation for one election takes precedence over one for all elections. Sealed-ballot and weighted
+                elections cannot be delegated.
+              </p>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={submitting !== null || !delegateAddress}>
+              {submitting?.startsWith("delegate:") ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <UserCheck className="mr-2 h-4 w-4" />
+              )}
+              Delegate
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>You Delegated To</CardTitle>
+          <CardDescription>Delegations made after an election closes do not count for it</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {[...Array(2)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : delegatedByMe.length === 0 ? (
+            <p className="text-center text-muted-foreground">You have not delegated your vote</p>
+          ) : (
+            <div className="space-y-2">
+              {delegatedByMe.map((delegation) => {
+                const cleared = delegation.delegate === ethers.ZeroAddress
+                const key = `remove:${delegation.electionId}`
+                return (
+                  <div key={key} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                    <div className="space-y-1 min-w-0">
+                      <Badge variant="secondary">{electionName(delegation.electionId)}</Badge>
+                      <div className="font-mono text-xs truncate">
+                        {cleared ? "No delegate (voting yourself)" : delegation.delegate}
+                      </div>
+                    </div>
+                    {!cleared && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={submitting !== null}
+                        onClick={() => updateDelegation(delegation.electionId, ethers.ZeroAddress)}
+                      >
+                        {submitting === key ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <UserX className="mr-2 h-4 w-4" />
+                        )}
+                        Remove
+                      </Button>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delegated To You</CardTitle>
+          <CardDescription>
+            Your ballot also counts for these addresses when they do not vote, once voting closes
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {[...Array(2)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : delegatedToMe.length === 0 ? (
+            <p className="text-center text-muted-foreground">Nobody has delegated to you</p>
+          ) : (
+            <div className="space-y-2">
+              {delegatedToMe.map((delegation) => (
+                <div
+                  key={`${delegation.delegator}:${delegation.electionId}`}
+                  className="flex items-center justify-between gap-4 rounded-md border p-3"
+                >
+                  <div className="font-mono text-xs truncate">{delegation.delegator}</div>
+                  <Badge variant="secondary">{electionName(delegation.electionId)}</Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,283 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Loader2, Pencil, Ban, CalendarPlus, Pause, Play } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useVotingContract } from "@/context/voting-contract-context"
+import { useTransactions } from "@/context/transactions-context"
+import { describeError } from "@/lib/contract-errors"
+import { PROPOSAL_SUBMITTED } from "@/lib/multisig"
+import { toDateTimeLocal } from "@/lib/utils"
+import type { ElectionSummary } from "@/types"
+
+interface ElectionLifecycleActionsProps {
+  election: ElectionSummary
+  // Chain time in seconds
+  now: number
+}
+
+type Action = "edit" | "cancel" | "extend" | "pause" | "resume"
+
+// How each action is listed in the transaction tray
+const ACTION_LABELS: Record<Action, string> = {
+  edit: "Edit election",
+  cancel: "Cancel election",
+  extend: "Extend election",
+  pause: "Pause voting",
+  resume: "Resume voting",
+}
+
+const toTimestamp = (value: string) => Math.floor(new Date(value).getTime() / 1000)
+
+export default function ElectionLifecycleActions({ election, now }: ElectionLifecycleActionsProps) {
+  const [dialog, setDialog] = useState<"edit" | "cancel" | "extend" | null>(null)
+  const [submitting, setSubmitting] = useState<Action | null>(null)
+  const [name, setName] = useState(election.name)
+  const [description, setDescription] = useState(election.description)
+  const [startDate, setStartDate] = useState("")
+  const [endDate, setEndDate] = useState("")
+  const [revealEndDate, setRevealEndDate] = useState("")
+  const [reason, setReason] = useState("")
+  const { toast } = useToast()
+  const { client } = useVotingContract()
+  const { trackAdmin } = useTransactions()
+
+  const upcoming = now < election.startTime
+  const active = now >= election.startTime && now <= election.endTime
+  const secretBallot = election.revealEndTime > 0
+
+  if (election.cancelled || election.resultsPublished) return null
+
+  const openDialog = (next: "edit" | "cancel" | "extend") => {
+    setName(election.name)
+    setDescription(election.description)
+    setStartDate(toDateTimeLocal(election.startTime))
+    setEndDate(toDateTimeLocal(election.endTime))
+    setRevealEndDate(secretBallot ? toDateTimeLocal(election.revealEndTime) : "")
+    setReason("")
+    setDialog(next)
+  }
+
+  const run = async (action: Action) => {
+    if (!client) return
+
+    try {
+      setSubmitting(action)
+      const result =
+        action === "edit"
+          ? await client.editElection(election.id, {
+              name,
+              description,
+              startTime: toTimestamp(startDate),
+              endTime: toTimestamp(endDate),
+              revealEndTime: secretBallot ? toTimestamp(revealEndDate) : 0,
+            })
+          : action === "cancel"
+          ? await client.cancelElection(election.id, reason)
+          : action === "extend"
+          ? await client.extendElection(election.id, toTimestamp(endDate))
+          : action === "pause"
+          ? await client.pauseElection(election.id)
+          : await client.resumeElection(election.id)
+      await trackAdmin(result, { action: ACTION_LABELS[action], electionId: election.id })
+
+      const messages: Record<Action, string> = {
+        edit: "Election updated",
+        cancel: "Election cancelled",
+        extend: "Voting period extended",
+        pause: "Voting paused",
+        resume: "Voting resumed",
+      }
+      toast(
+        result.kind === "proposed"
+          ? { title: "Proposal Submitted", description: PROPOSAL_SUBMITTED }
+          : { title: "Success", description: messages[action] },
+      )
+      setDialog(null)
+    } catch (error) {
+      console.error(`Error trying to ${action} election:`, error)
+      toast({
+        title: "Error",
+        description: describeError(error, `Failed to ${action} election`),
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  const spinner = (action: Action) => submitting === action && <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-2 pt-4">
+        {upcoming && (
+          <Button variant="outline" size="sm" disabled={submitting !== null} onClick={() => openDialog("edit")}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </Button>
+        )}
+        {active && (
+          <Button variant="outline" size="sm" disabled={submitting !== null} onClick={() => openDialog("extend")}>
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            Extend
+          </Button>
+        )}
+        {(upcoming || active) &&
+          (election.paused ? (
+            <Button variant="outline" size="sm" disabled={submitting !== null} onClick={() => run("resume")}>
+              {spinner("resume") || <Play className="mr-2 h-4 w-4" />}
+              Resume Voting
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" disabled={submitting !== null} onClick={() => run("pause")}>
+              {spinner("pause") || <Pause className="mr-2 h-4 w-4" />}
+              Pause Voting
+            </Button>
+          ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-red-600"
+          disabled={submitting !== null}
+          onClick={() => openDialog("cancel")}
+        >
+          <Ban className="mr-2 h-4 w-4" />
+          Cancel Election
+        </Button>
+      </div>
+
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent>
+          {dialog === "edit" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Edit Election</DialogTitle>
+                <DialogDescription>Details and schedule can change until voting starts.</DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`edit-name-${election.id}`}>Election Name</Label>
+                  <Input id={`edit-name-${election.id}`} value={name} onChange={(e) => setName(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`edit-description-${election.id}`}>Description</Label>
+                  <Textarea
+                    id={`edit-description-${election.id}`}
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor={`edit-start-${election.id}`}>Start Date</Label>
+                    <Input
+                      id={`edit-start-${election.id}`}
+                      type="datetime-local"
+                      value={startDate}
+                      onChange={(e) => setStartDate(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`edit-end-${election.id}`}>End Date</Label>
+                    <Input
+                      id={`edit-end-${election.id}`}
+                      type="datetime-local"
+                      value={endDate}
+                      onChange={(e) => setEndDate(e.target.value)}
+                    />
+                  </div>
+                </div>
+                {secretBallot && (
+                  <div className="space-y-2">
+                    <Label htmlFor={`edit-reveal-${election.id}`}>Reveal Deadline</Label>
+                    <Input
+                      id={`edit-reveal-${election.id}`}
+                      type="datetime-local"
+                      value={revealEndDate}
+                      onChange={(e) => setRevealEndDate(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+              <DialogFooter>
+                <Button disabled={submitting !== null || !name || !startDate || !endDate} onClick={() => run("edit")}>
+                  {spinner("edit")}
+                  Save Changes
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog === "extend" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Extend Voting</DialogTitle>
+                <DialogDescription>
+                  Currently ends {new Date(election.endTime * 1000).toLocaleString()}.
+                  {secretBallot && " The reveal window moves by the same amount."}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor={`extend-end-${election.id}`}>New End Date</Label>
+                <Input
+                  id={`extend-end-${election.id}`}
+                  type="datetime-local"
+                  value={endDate}
+                  onChange={(e) => setEndDate(e.target.value)}
+                />
+              </div>
+              <DialogFooter>
+                <Button
+                  disabled={submitting !== null || !endDate || toTimestamp(endDate) <= election.endTime}
+                  onClick={() => run("extend")}
+                >
+                  {spinner("extend")}
+                  Extend
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {dialog === "cancel" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Cancel Election</DialogTitle>
+                <DialogDescription>
+                  Voting stops for good and results can never be published. The reason is recorded on-chain.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <Label htmlFor={`cancel-reason-${election.id}`}>Reason</Label>
+                <Textarea
+                  id={`cancel-reason-${election.id}`}
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="Why is this election being cancelled?"
+                />
+              </div>
+              <DialogFooter>
+                <Button variant="destructive" disabled={submitting !== null || !reason.trim()} onClick={() => run("cancel")}>
+                  {spinner("cancel")}
+                  Cancel Election
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  )
+}
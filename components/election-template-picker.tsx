@@ -0,0 +1,139 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Loader2, Trash2 } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useVotingContract, useVotingStore } from "@/context/voting-contract-context"
+import {
+  shiftStartTime,
+  templateFromElection,
+  type ElectionTemplate,
+  type ElectionTemplateInput,
+} from "@/lib/election-templates"
+import type { ElectionBasic } from "@/types"
+
+interface ElectionTemplatePickerProps {
+  templates: ElectionTemplate[]
+  // startTime is set when cloning, to the source election's start moved into the future
+  onApply: (template: ElectionTemplateInput, startTime: number | null) => void
+  onDelete: (id: string) => void
+}
+
+export default function ElectionTemplatePicker({ templates, onApply, onDelete }: ElectionTemplatePickerProps) {
+  const [selected, setSelected] = useState("")
+  const [elections, setElections] = useState<ElectionBasic[]>([])
+  const [loadingClone, setLoadingClone] = useState(false)
+  const { toast } = useToast()
+  const { client } = useVotingContract()
+  const { store } = useVotingStore()
+
+  useEffect(() => {
+    if (!client) return
+
+    client
+      .listElections()
+      .then((list) => setElections(list.map((election) => ({ id: election.id, name: election.name }))))
+      .catch((error) => console.error("Error fetching elections to clone:", error))
+  }, [client])
+
+  const handleSelect = async (value: string) => {
+    setSelected(value)
+
+    const [kind, id] = value.split(":")
+    if (kind === "template") {
+      const template = templates.find((t) => t.id === id)
+      if (template) onApply(template, null)
+      return
+    }
+
+    if (!client) return
+    try {
+      setLoadingClone(true)
+      const electionId = Number(id)
+      const [election, candidates] = await Promise.all([
+        client.getElectionSummary(electionId),
+        client.getCandidates(electionId),
+      ])
+      const now = store.blockTime ?? Math.floor(Date.now() / 1000)
+      onApply(templateFromElection(election, candidates), shiftStartTime(election.startTime, now))
+    } catch (error) {
+      console.error("Error loading election to clone:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load the election to clone",
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingClone(false)
+    }
+  }
+
+  const selectedTemplateId = selected.startsWith("template:") ? selected.slice("template:".length) : null
+
+  if (templates.length === 0 && elections.length === 0) return null
+
+  return (
+    <div className="space-y-2 rounded-md border p-3">
+      <Label htmlFor="election-template">Start From</Label>
+      <div className="flex gap-2">
+        <Select value={selected} onValueChange={handleSelect}>
+          <SelectTrigger id="election-template">
+            <SelectValue placeholder="A saved template or an existing election" />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Templates</SelectLabel>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={`template:${template.id}`}>
+                    {template.name} · {template.candidates.length} candidates
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+            {templates.length > 0 && elections.length > 0 && <SelectSeparator />}
+            {elections.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Clone an Election</SelectLabel>
+                {elections.map((election) => (
+                  <SelectItem key={election.id} value={`election:${election.id}`}>
+                    {election.name} (ID: {election.id})
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+        {loadingClone && <Loader2 className="h-4 w-4 animate-spin self-center" />}
+        {selectedTemplateId && (
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            onClick={() => {
+              onDelete(selectedTemplateId)
+              setSelected("")
+            }}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Fills in the form below. Clones keep the original durations and move the start forward by whole weeks.
+      </p>
+    </div>
+  )
+}
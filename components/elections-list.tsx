@@ -9,14 +9,19 @@ import {
   CardTitle,
 } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
-import { Calendar, Users, Clock } from "lucide-react"
+import { Calendar, Users, Clock, ShieldCheck, Lock, ListOrdered, ListChecks, Scale, PauseCircle, CalendarPlus } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
-import { useVotingContract } from "@/context/voting-contract-context"
+import { useVotingContract, useVotingStore } from "@/context/voting-contract-context"
+import PaginationControls from "@/components/pagination-controls"
+import { ethers } from "ethers"
+import type { ElectionSummary } from "@/types"
+
+const PAGE_SIZE = 10
 
 interface ElectionsListProps {
-  account: string
+  // null in read-only mode, where per-voter status is not shown
+  account: string | null
 }
 
 interface Election {
@@ -28,60 +33,56 @@ interface Election {
   isActive: boolean
   hasVoted: boolean
   candidateCount: number
+  turnout: number
   hasEnded: boolean
   isUpcoming: boolean
+  restricted: boolean
+  secretBallot: boolean
+  inRevealPeriod: boolean
+  rankedChoice: boolean
+  weighted: boolean
+  cancelled: boolean
+  paused: boolean
+  extended: boolean
+  // Approval elections: label describing the ballot, e.g. "Choose up to 3"
+  approvalLabel: string | null
 }
 
 export default function ElectionsList({ account }: ElectionsListProps) {
-  const [elections, setElections] = useState<Election[]>([])
   const [loading, setLoading] = useState(true)
+  const [page, setPage] = useState(0)
   const { toast } = useToast()
-  const { contract } = useVotingContract()
+  const { client } = useVotingContract()
+  const { store, dispatch } = useVotingStore()
 
   useEffect(() => {
-    if (contract && account) {
+    if (client) {
       fetchElections()
     }
-  }, [contract, account])
+  }, [client, account, page])
 
+  // Loads one page into the shared store; contract events keep it current afterwards
   const fetchElections = async () => {
+    if (!client) return
+
     try {
       setLoading(true)
 
-      const count = await contract.getElectionCount()
-      const electionsArray: Election[] = []
-
-      // ✅ Get current blockchain timestamp
-      const block = await contract.runner.provider.getBlock("latest")
-      const now = Number(block.timestamp)
-
-      for (let i = 0; i < Number(count); i++) {
-        const election = await contract.elections(i)
-        const hasVoted = await contract.hasVoted(i, account)
-        const candidateCount = await contract.getCandidateCount(i)
-
-        const startTime = Number(election.startTime)
-        const endTime = Number(election.endTime)
-
-        const isActive = now >= startTime && now <= endTime
-        const hasEnded = now > endTime
-        const isUpcoming = now < startTime
-
-        electionsArray.push({
-          id: i,
-          name: election.name,
-          description: election.description,
-          startTime,
-          endTime,
-          isActive,
-          hasVoted,
-          candidateCount: Number(candidateCount),
-          hasEnded,
-          isUpcoming,
+      const offset = page * PAGE_SIZE
+      const [electionPage, votedFlags] = await Promise.all([
+        client.getElectionsPage(offset, PAGE_SIZE),
+        account ? client.getVoterStatusPage(account, offset, PAGE_SIZE) : Promise.resolve([] as boolean[]),
+      ])
+
+      dispatch({ type: "electionsLoaded", elections: electionPage.elections, total: electionPage.total })
+      if (account) {
+        dispatch({
+          type: "voterStatusLoaded",
+          voter: account,
+          electionIds: electionPage.elections.map((election) => election.id),
+          voted: votedFlags,
         })
       }
-
-      setElections(electionsArray)
     } catch (error) {
       console.error("Error fetching elections:", error)
       toast({
@@ -94,14 +95,66 @@ export default function ElectionsList({ account }: ElectionsListProps) {
     }
   }
 
+  // ✅ Status is derived from the latest block timestamp, so badges flip as soon as a new block arrives
+  const now = store.blockTime ?? Math.floor(Date.now() / 1000)
+  const total = store.electionCount ?? 0
+
+  const toListItem = (election: ElectionSummary): Election => {
+    const { startTime, endTime } = election
+    return {
+      id: election.id,
+      name: election.name,
+      description: election.description,
+      startTime,
+      endTime,
+      isActive: !election.cancelled && now >= startTime && now <= endTime,
+      hasVoted: account ? !!store.voters[election.id]?.[account.toLowerCase()] : false,
+      candidateCount: election.candidateCount,
+      turnout: store.turnout[election.id] ?? 0,
+      hasEnded: now > endTime,
+      isUpcoming: now < startTime,
+      restricted: election.voterRoot !== ethers.ZeroHash,
+      secretBallot: election.revealEndTime > 0,
+      inRevealPeriod: !election.cancelled && now > endTime && now <= election.revealEndTime,
+      rankedChoice: election.electionType === "ranked-choice",
+      weighted: election.electionType === "weighted",
+      cancelled: election.cancelled,
+      paused: election.paused,
+      extended: election.extended,
+      approvalLabel:
+        election.electionType !== "approval"
+          ? null
+          : election.maxSelections > 0
+          ? `Choose up to ${election.maxSelections}`
+          : `Approval · ${election.seats} ${election.seats === 1 ? "winner" : "winners"}`,
+    }
+  }
+
+  const elections: Election[] = []
+  for (let id = page * PAGE_SIZE; id < Math.min((page + 1) * PAGE_SIZE, total); id++) {
+    if (store.elections[id]) {
+      elections.push(toListItem(store.elections[id]))
+    }
+  }
+
   const formatDate = (timestamp: number) => {
     return new Date(timestamp * 1000).toLocaleString()
   }
 
   const getStatusBadge = (election: Election) => {
+    if (election.cancelled) {
+      return <Badge variant="destructive">Cancelled</Badge>
+    }
     if (election.isActive) {
       return <Badge className="bg-green-500">Active</Badge>
     }
+    if (election.inRevealPeriod) {
+      return (
+        <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200">
+          Reveal Phase
+        </Badge>
+      )
+    }
     if (election.hasEnded) {
       return (
         <Badge variant="outline" className="bg-gray-50 text-gray-700 border-gray-200">
@@ -116,10 +169,13 @@ export default function ElectionsList({ account }: ElectionsListProps) {
   }
 
   const getVotingStatus = (election: Election) => {
+    if (!account) {
+      return null
+    }
     if (election.hasVoted) {
       return <Badge className="bg-blue-500">Voted</Badge>
     }
-    if (election.isActive) {
+    if (election.isActive && !election.paused) {
       return (
         <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
           Can Vote
@@ -129,7 +185,8 @@ export default function ElectionsList({ account }: ElectionsListProps) {
     return null
   }
 
-  if (loading) {
+  // Indexed elections from a previous session render while the fresh page loads
+  if (loading && elections.length === 0) {
     return (
       <div className="space-y-4">
         {[...Array(3)].map((_, i) => (
@@ -161,10 +218,10 @@ export default function ElectionsList({ account }: ElectionsListProps) {
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center">
-        <h3 className="text-lg font-semibold">All Elections ({elections.length})</h3>
-        <Button variant="outline" onClick={fetchElections}>
-          Refresh
-        </Button>
+        <h3 className="text-lg font-semibold">All Elections ({total})</h3>
+        <Badge variant="outline" className="text-xs">
+          Live
+        </Badge>
       </div>
 
       {elections.map((election) => (
@@ -182,6 +239,48 @@ export default function ElectionsList({ account }: ElectionsListProps) {
               </div>
               <div className="flex gap-2">
                 {getStatusBadge(election)}
+                {election.paused && !election.cancelled && (
+                  <Badge variant="outline" className="gap-1 bg-yellow-50 text-yellow-700 border-yellow-200">
+                    <PauseCircle className="h-3 w-3" />
+                    Paused
+                  </Badge>
+                )}
+                {election.extended && !election.cancelled && (
+                  <Badge variant="outline" className="gap-1">
+                    <CalendarPlus className="h-3 w-3" />
+                    Extended
+                  </Badge>
+                )}
+                {election.rankedChoice && (
+                  <Badge variant="outline" className="gap-1">
+                    <ListOrdered className="h-3 w-3" />
+                    Ranked Choice
+                  </Badge>
+                )}
+                {election.weighted && (
+                  <Badge variant="outline" className="gap-1">
+                    <Scale className="h-3 w-3" />
+                    Weighted
+                  </Badge>
+                )}
+                {election.approvalLabel && (
+                  <Badge variant="outline" className="gap-1">
+                    <ListChecks className="h-3 w-3" />
+                    {election.approvalLabel}
+                  </Badge>
+                )}
+                {election.secretBallot && (
+                  <Badge variant="outline" className="gap-1">
+                    <Lock className="h-3 w-3" />
+                    Secret Ballot
+                  </Badge>
+                )}
+                {election.restricted && (
+                  <Badge variant="outline" className="gap-1">
+                    <ShieldCheck className="h-3 w-3" />
+                    Voter Roll
+                  </Badge>
+                )}
                 {getVotingStatus(election)}
               </div>
             </div>
@@ -199,10 +298,14 @@ export default function ElectionsList({ account }: ElectionsListProps) {
               <div className="flex items-center gap-2">
                 <Users className="h-4 w-4 text-muted-foreground" />
                 <div className="text-sm">
-                  <div className="font-medium">{election.candidateCount} Candidates</div>
-                  <div className="text-muted-foreground">
-                    {election.hasVoted ? "You have voted" : "Vote not cast"}
+                  <div className="font-medium">
+                    {election.candidateCount} Candidates · {election.turnout} Votes Cast
                   </div>
+                  {account && (
+                    <div className="text-muted-foreground">
+                      {election.hasVoted ? "You have voted" : "Vote not cast"}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -210,10 +313,24 @@ export default function ElectionsList({ account }: ElectionsListProps) {
                 <Clock className="h-4 w-4 text-muted-foreground" />
                 <div className="text-sm">
                   <div className="font-medium">
-                    {election.isActive ? "Active Now" : election.hasEnded ? "Ended" : "Upcoming"}
+                    {election.cancelled
+                      ? "Cancelled"
+                      : election.isActive
+                      ? "Active Now"
+                      : election.hasEnded
+                      ? "Ended"
+                      : "Upcoming"}
                   </div>
                   <div className="text-muted-foreground">
-                    {election.isActive && !election.hasVoted
+                    {election.cancelled
+                      ? "This election was called off"
+                      : election.paused && !election.hasEnded
+                      ? "Voting is paused"
+                      : election.isActive && !account
+                      ? "Connect a wallet to vote"
+                      : election.inRevealPeriod && election.hasVoted
+                      ? "Reveal your vote to have it counted"
+                      : election.isActive && !election.hasVoted
                       ? "You can vote now"
                       : election.hasVoted
                       ? "Thank you for voting"
@@ -227,6 +344,8 @@ export default function ElectionsList({ account }: ElectionsListProps) {
           </CardContent>
         </Card>
       ))}
+
+      <PaginationControls page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} disabled={loading} />
     </div>
   )
 }
@@ -9,14 +9,21 @@ import {
   CardTitle
 } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Button } from "@/components/ui/button"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Calendar, Users, Eye, EyeOff } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
-import { useVotingContract } from "@/context/voting-contract-context"
+import { useVotingContract, useVotingStore } from "@/context/voting-contract-context"
+import PaginationControls from "@/components/pagination-controls"
+import ElectionLifecycleActions from "@/components/election-lifecycle-actions"
+import { formatWeight, loadWeightUnit } from "@/lib/token-snapshot"
+import type { ElectionSummary } from "@/types"
+
+const PAGE_SIZE = 10
 
 interface ElectionsManagerProps {
   account: string
+  // Elections the account may edit, cancel, extend or pause; none when omitted
+  canManage?: (electionId: number) => boolean
 }
 
 interface Election {
@@ -26,79 +33,83 @@ interface Election {
   startTime: number
   endTime: number
   candidateCount: number
-  totalVotes: number
+  turnout: number
+  // Weighted elections sum voter weights, which can exceed the range of a number
+  totalVotes: bigint
   resultsPublished: boolean
   isActive: boolean
   hasEnded: boolean
+  secretBallot: boolean
+  revealEndTime: number
+  revealCount: number
+  inRevealPeriod: boolean
+  weighted: boolean
+  cancelled: boolean
+  paused: boolean
+  extended: boolean
 }
 
-export default function ElectionsManager({ account }: ElectionsManagerProps) {
-  const [elections, setElections] = useState<Election[]>([])
+export default function ElectionsManager({ account, canManage }: ElectionsManagerProps) {
   const [loading, setLoading] = useState(true)
-  const [chainTime, setChainTime] = useState<number | null>(null)
+  const [page, setPage] = useState(0)
+  const [voteTotals, setVoteTotals] = useState<Record<number, bigint>>({})
+  const [cancelReasons, setCancelReasons] = useState<Record<number, string>>({})
 
   const { toast } = useToast()
-  const { contract } = useVotingContract()
+  const { client, chainId } = useVotingContract()
+  const { store, dispatch } = useVotingStore()
 
-  // Fetch chain time every 10 seconds
-  useEffect(() => {
-    const getChainTime = async () => {
-      if (contract?.runner?.provider) {
-        const block = await contract.runner.provider.getBlock("latest")
-        setChainTime(Number(block.timestamp))
-      }
-    }
+  // Chain time comes from block events in the shared store
+  const chainTime = store.blockTime
+  const total = store.electionCount ?? 0
 
-    getChainTime()
-    const interval = setInterval(getChainTime, 10_000)
-    return () => clearInterval(interval)
-  }, [contract])
+  const pageElections: ElectionSummary[] = []
+  for (let id = page * PAGE_SIZE; id < Math.min((page + 1) * PAGE_SIZE, total); id++) {
+    if (store.elections[id]) {
+      pageElections.push(store.elections[id])
+    }
+  }
 
   // Fetch elections
   useEffect(() => {
-    if (contract && account) {
+    if (client && account) {
       fetchElections()
     }
-  }, [contract, account])
+  }, [client, account, page])
+
+  const publishedIds = pageElections.filter((election) => election.resultsPublished).map((election) => election.id)
+
+  // Vote counts are only readable once published; load them whenever an election on this page gets published
+  useEffect(() => {
+    const missing = publishedIds.filter((id) => voteTotals[id] === undefined)
+    if (!client || missing.length === 0) return
+
+    Promise.all(
+      missing.map(async (id) => [id, (await client.getVoteCounts(id)).reduce((sum, count) => sum + count, BigInt(0))]),
+    )
+      .then((entries) => setVoteTotals((current) => ({ ...current, ...Object.fromEntries(entries) })))
+      .catch((error) => console.error("Error fetching vote counts:", error))
+  }, [client, publishedIds.join(",")])
+
+  const cancelledIds = pageElections.filter((election) => election.cancelled).map((election) => election.id)
+
+  // The reason only lives in the ElectionCancelled event
+  useEffect(() => {
+    const missing = cancelledIds.filter((id) => cancelReasons[id] === undefined)
+    if (!client || missing.length === 0) return
+
+    Promise.all(missing.map(async (id) => [id, (await client.getCancellationReason(id)) ?? ""]))
+      .then((entries) => setCancelReasons((current) => ({ ...current, ...Object.fromEntries(entries) })))
+      .catch((error) => console.error("Error fetching cancellation reasons:", error))
+  }, [client, cancelledIds.join(",")])
 
   const fetchElections = async () => {
+    if (!client) return
+
     try {
       setLoading(true)
-      const count = await contract.getElectionCount()
-      const electionsArray: Election[] = []
-
-      for (let i = 0; i < count; i++) {
-        const election = await contract.elections(i)
-        const candidateCount = await contract.getCandidateCount(i)
-        const resultsPublished = await contract.resultsPublished(i)
-
-        const now = Math.floor(Date.now() / 1000)
-        const isActive = now >= election.startTime && now <= election.endTime
-        const hasEnded = now > election.endTime
-
-        let totalVotes = 0
-        if (resultsPublished) {
-          for (let j = 0; j < candidateCount; j++) {
-            const voteCount = await contract.getVoteCount(i, j)
-            totalVotes += voteCount.toNumber()
-          }
-        }
-
-        electionsArray.push({
-          id: i,
-          name: election.name,
-          description: election.description,
-          startTime: election.startTime,
-          endTime: election.endTime,
-          candidateCount: Number(candidateCount),
-          totalVotes,
-          resultsPublished,
-          isActive,
-          hasEnded
-        })
-      }
-
-      setElections(electionsArray)
+      const electionPage = await client.getElectionsPage(page * PAGE_SIZE, PAGE_SIZE)
+      dispatch({ type: "electionsLoaded", elections: electionPage.elections, total: electionPage.total })
     } catch (error) {
       console.error("Error fetching elections:", error)
       toast({
@@ -111,15 +122,53 @@ export default function ElectionsManager({ account }: ElectionsManagerProps) {
     }
   }
 
-  const formatDate = (timestamp: number | bigint) => {
-    return new Date(Number(timestamp) * 1000).toLocaleString()
+  const weightUnit = (electionId: number) =>
+    client && chainId !== null ? loadWeightUnit(chainId, client.address, electionId) : null
+
+  const now = chainTime ?? Math.floor(Date.now() / 1000)
+  const elections: Election[] = pageElections.map((election) => ({
+    id: election.id,
+    name: election.name,
+    description: election.description,
+    startTime: election.startTime,
+    endTime: election.endTime,
+    candidateCount: election.candidateCount,
+    turnout: store.turnout[election.id] ?? 0,
+    totalVotes: voteTotals[election.id] ?? BigInt(0),
+    resultsPublished: election.resultsPublished,
+    isActive: !election.cancelled && now >= election.startTime && now <= election.endTime,
+    hasEnded: now > election.endTime,
+    secretBallot: election.revealEndTime > 0,
+    revealEndTime: election.revealEndTime,
+    revealCount: election.revealCount,
+    inRevealPeriod: !election.cancelled && now > election.endTime && now <= election.revealEndTime,
+    weighted: election.electionType === "weighted",
+    cancelled: election.cancelled,
+    paused: election.paused,
+    extended: election.extended
+  }))
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleString()
   }
 
   const getStatusBadge = (election: Election) => {
+    if (election.cancelled) {
+      return <Badge variant="destructive">Cancelled</Badge>
+    }
+
     if (election.isActive) {
       return <Badge className="bg-green-500">Active</Badge>
     }
 
+    if (election.inRevealPeriod) {
+      return (
+        <Badge variant="outline" className="bg-orange-50 text-orange-700 border-orange-200">
+          Reveal Phase
+        </Badge>
+      )
+    }
+
     if (election.hasEnded) {
       return election.resultsPublished ? (
         <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200">
@@ -135,7 +184,7 @@ export default function ElectionsManager({ account }: ElectionsManagerProps) {
     return <Badge variant="secondary">Upcoming</Badge>
   }
 
-  if (loading) {
+  if (loading && elections.length === 0) {
     return (
       <div className="space-y-4">
         {[...Array(3)].map((_, i) => (
@@ -167,10 +216,10 @@ export default function ElectionsManager({ account }: ElectionsManagerProps) {
   return (
     <div className="space-y-4">
       <div className="flex justify-between items-center">
-        <h3 className="text-lg font-semibold">All Elections ({elections.length})</h3>
-        <Button variant="outline" onClick={fetchElections}>
-          Refresh
-        </Button>
+        <h3 className="text-lg font-semibold">All Elections ({total})</h3>
+        <Badge variant="outline" className="text-xs">
+          Live
+        </Badge>
       </div>
 
       {chainTime && (
@@ -193,7 +242,15 @@ export default function ElectionsManager({ account }: ElectionsManagerProps) {
                 </CardTitle>
                 <CardDescription>{election.description}</CardDescription>
               </div>
-              {getStatusBadge(election)}
+              <div className="flex gap-2">
+                {getStatusBadge(election)}
+                {election.paused && !election.cancelled && (
+                  <Badge variant="outline" className="bg-yellow-50 text-yellow-700 border-yellow-200">
+                    Paused
+                  </Badge>
+                )}
+                {election.extended && !election.cancelled && <Badge variant="outline">Extended</Badge>}
+              </div>
             </div>
           </CardHeader>
           <CardContent>
@@ -211,8 +268,18 @@ export default function ElectionsManager({ account }: ElectionsManagerProps) {
                 <div className="text-sm">
                   <div className="font-medium">{election.candidateCount} Candidates</div>
                   <div className="text-muted-foreground">
-                    {election.resultsPublished ? `${election.totalVotes} Total Votes` : "Votes Hidden"}
+                    {election.turnout} {election.weighted ? "Voters" : "Votes Cast"} ·{" "}
+                    {!election.resultsPublished
+                      ? "Tally Hidden"
+                      : election.weighted
+                      ? `${formatWeight(election.totalVotes, weightUnit(election.id))} Weighted Total`
+                      : `${election.totalVotes} Total Votes`}
                   </div>
+                  {election.secretBallot && (
+                    <div className="text-muted-foreground">
+                      Secret Ballot · {election.revealCount} of {election.turnout} Revealed
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -225,22 +292,57 @@ export default function ElectionsManager({ account }: ElectionsManagerProps) {
                 <div className="text-sm">
                   <div className="font-medium">Results {election.resultsPublished ? "Published" : "Hidden"}</div>
                   <div className="text-muted-foreground">
-                    {election.hasEnded ? "Election Ended" : election.isActive ? "In Progress" : "Not Started"}
+                    {election.cancelled
+                      ? "Election Cancelled"
+                      : election.hasEnded
+                      ? "Election Ended"
+                      : election.isActive
+                      ? "In Progress"
+                      : "Not Started"}
                   </div>
                 </div>
               </div>
             </div>
 
-            {election.hasEnded && !election.resultsPublished && (
+            {election.inRevealPeriod && (
+              <div className="bg-orange-50 border border-orange-200 rounded-md p-3">
+                <p className="text-sm text-orange-800">
+                  Voters are revealing their sealed votes until {formatDate(election.revealEndTime)}. Results can be
+                  published after that.
+                </p>
+              </div>
+            )}
+
+            {election.cancelled && (
+              <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                <p className="text-sm text-red-800">
+                  This election was cancelled{cancelReasons[election.id] ? `: ${cancelReasons[election.id]}` : "."}
+                </p>
+              </div>
+            )}
+
+            {election.paused && !election.cancelled && !election.hasEnded && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
+                <p className="text-sm text-yellow-800">Voting is paused. Resume it to accept ballots again.</p>
+              </div>
+            )}
+
+            {election.hasEnded && !election.cancelled && !election.inRevealPeriod && !election.resultsPublished && (
               <div className="bg-orange-50 border border-orange-200 rounded-md p-3">
                 <p className="text-sm text-orange-800">
                   This election has ended. You can publish the results in the "Publish Results" tab.
                 </p>
               </div>
             )}
+
+            {canManage?.(election.id) && store.elections[election.id] && (
+              <ElectionLifecycleActions election={store.elections[election.id]} now={now} />
+            )}
           </CardContent>
         </Card>
       ))}
+
+      <PaginationControls page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} disabled={loading} />
     </div>
   )
 }
@@ -0,0 +1,88 @@
+import type React from "react"
+import { isSafeUrl } from "@/lib/candidate-profiles"
+
+interface MarkdownProps {
+  source: string
+}
+
+// Inline **bold**, *italic* and [label](url); anything else is plain text
+function renderInline(text: string, keyPrefix: string): React.ReactNode[] {
+  const nodes: React.ReactNode[] = []
+  const pattern = /\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\(([^)\s]+)\)/g
+  let last = 0
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > last) nodes.push(text.slice(last, match.index))
+    const key = `${keyPrefix}-${match.index}`
+    if (match[1] !== undefined) {
+      nodes.push(<strong key={key}>{match[1]}</strong>)
+    } else if (match[2] !== undefined) {
+      nodes.push(<em key={key}>{match[2]}</em>)
+    } else if (isSafeUrl(match[4])) {
+      nodes.push(
+        <a key={key} href={match[4]} target="_blank" rel="noopener noreferrer" className="text-primary underline">
+          {match[3]}
+        </a>,
+      )
+    } else {
+      nodes.push(match[3])
+    }
+    last = pattern.lastIndex
+  }
+  if (last < text.length) nodes.push(text.slice(last))
+  return nodes
+}
+
+/**
+ * Renders the small Markdown subset used in candidate manifestos: headings, bullet and
+ * numbered lists, paragraphs and inline emphasis and links. Output is built as React
+ * elements, never as HTML, so profile content cannot inject markup.
+ */
+export default function Markdown({ source }: MarkdownProps) {
+  const blocks: React.ReactNode[] = []
+  const lines = source.split(/\r?\n/)
+
+  for (let i = 0; i < lines.length; ) {
+    const line = lines[i]
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line)
+
+    if (!line.trim()) {
+      i++
+    } else if (heading) {
+      const className = heading[1].length === 1 ? "text-lg font-semibold" : "font-semibold"
+      blocks.push(
+        <p key={i} className={className}>
+          {renderInline(heading[2], `h${i}`)}
+        </p>,
+      )
+      i++
+    } else if (/^\s*([-*]|\d+\.)\s+/.test(line)) {
+      const ordered = /^\s*\d+\./.test(line)
+      const items: React.ReactNode[] = []
+      while (i < lines.length && /^\s*([-*]|\d+\.)\s+/.test(lines[i])) {
+        items.push(<li key={i}>{renderInline(lines[i].replace(/^\s*([-*]|\d+\.)\s+/, ""), `li${i}`)}</li>)
+        i++
+      }
+      blocks.push(
+        ordered ? (
+          <ol key={`list-${i}`} className="list-decimal pl-5 space-y-1">
+            {items}
+          </ol>
+        ) : (
+          <ul key={`list-${i}`} className="list-disc pl-5 space-y-1">
+            {items}
+          </ul>
+        ),
+      )
+    } else {
+      const paragraph: string[] = []
+      while (i < lines.length && lines[i].trim() && !/^(#{1,3}\s|\s*([-*]|\d+\.)\s+)/.test(lines[i])) {
+        paragraph.push(lines[i].trim())
+        i++
+      }
+      blocks.push(<p key={`p-${i}`}>{renderInline(paragraph.join(" "), `p${i}`)}</p>)
+    }
+  }
+
+  return <div className="space-y-3 text-sm">{blocks}</div>
+}
@@ -0,0 +1,81 @@
+"use client"
+
+import { useState } from "react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { AlertTriangle, Loader2, Network } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useVotingContract } from "@/context/voting-contract-context"
+import { getSupportedNetworks } from "@/lib/networks"
+
+export default function NetworkStatus() {
+  const [switchingTo, setSwitchingTo] = useState<number | null>(null)
+  const { network, chainId, networkStatus, readOnly, error, switchNetwork } = useVotingContract()
+  const { toast } = useToast()
+
+  const handleSwitch = async (targetChainId: number) => {
+    try {
+      setSwitchingTo(targetChainId)
+      await switchNetwork(targetChainId)
+    } catch (err) {
+      console.error("Error switching network:", err)
+      toast({
+        title: "Switch failed",
+        description: "Failed to switch network. Please switch manually in MetaMask.",
+        variant: "destructive",
+      })
+    } finally {
+      setSwitchingTo(null)
+    }
+  }
+
+  if (networkStatus === "ready" && network) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground mt-4">
+        <Network className="h-4 w-4" />
+        Connected to
+        <Badge variant="outline">{network.name}</Badge>
+        {readOnly && <Badge variant="secondary">Read-only</Badge>}
+      </div>
+    )
+  }
+
+  if (networkStatus !== "unsupported-network" && networkStatus !== "not-deployed" && networkStatus !== "error") {
+    return null
+  }
+
+  const supportedNetworks = getSupportedNetworks().filter((n) => n.chainId !== chainId)
+
+  return (
+    <Alert variant="destructive" className="max-w-2xl mx-auto mt-4">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>
+        {networkStatus === "unsupported-network"
+          ? "Wrong network"
+          : networkStatus === "not-deployed"
+            ? "Contract not deployed here"
+            : "Contract unavailable"}
+      </AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>{error}</p>
+        {supportedNetworks.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {supportedNetworks.map((n) => (
+              <Button
+                key={n.chainId}
+                variant="outline"
+                size="sm"
+                disabled={switchingTo !== null}
+                onClick={() => handleSwitch(n.chainId)}
+              >
+                {switchingTo === n.chainId && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Switch to {n.name}
+              </Button>
+            ))}
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,177 @@
+"use client"
+
+import { useState } from "react"
+import { ethers } from "ethers"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Loader2, KeyRound, Send, X } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useVotingContract } from "@/context/voting-contract-context"
+import { useTransactions } from "@/context/transactions-context"
+import { describeError } from "@/lib/contract-errors"
+import { PROPOSAL_SUBMITTED } from "@/lib/multisig"
+import SafeProposals from "@/components/safe-proposals"
+import type { Permissions } from "@/hooks/use-permissions"
+
+interface OwnershipManagerProps {
+  account: string
+  permissions: Permissions
+}
+
+export default function OwnershipManager({ account, permissions }: OwnershipManagerProps) {
+  const [newOwner, setNewOwner] = useState("")
+  const [submitting, setSubmitting] = useState<"transfer" | "cancel" | "accept" | null>(null)
+  const { toast } = useToast()
+  const { client, chainId } = useVotingContract()
+  const { trackAdmin } = useTransactions()
+
+  const { owner, pendingOwner, ownerSafe, pendingOwnerSafe, actingAsSafe, safeProposer } = permissions
+  const pendingProposer = permissions.pendingSafeProposer
+  const canTransfer = permissions.isOwner || actingAsSafe
+
+  const run = async (action: "transfer" | "cancel" | "accept") => {
+    if (!client) return
+
+    if (action === "transfer" && !ethers.isAddress(newOwner)) {
+      toast({
+        title: "Error",
+        description: "Enter a valid address for the new owner",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      setSubmitting(action)
+      const result =
+        action === "accept"
+          ? await client.acceptOwnership(pendingProposer ?? undefined)
+          : await client.transferOwnership(action === "transfer" ? ethers.getAddress(newOwner) : ethers.ZeroAddress)
+      await trackAdmin(result, {
+        action:
+          action === "accept" ? "Accept ownership" : action === "cancel" ? "Cancel ownership transfer" : "Transfer ownership",
+      })
+
+      toast(
+        result.kind === "proposed"
+          ? { title: "Proposal Submitted", description: PROPOSAL_SUBMITTED }
+          : {
+              title: "Success",
+              description:
+                action === "transfer"
+                  ? "Transfer proposed. The new owner must accept it."
+                  : action === "cancel"
+                  ? "Ownership transfer cancelled"
+                  : pendingProposer
+                  ? "The Safe is now the contract owner"
+                  : "You are now the contract owner",
+            },
+      )
+      if (action === "transfer") setNewOwner("")
+    } catch (error) {
+      console.error("Error updating ownership:", error)
+      toast({
+        title: "Error",
+        description: describeError(error, "Failed to update ownership"),
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Contract Ownership</CardTitle>
+          <CardDescription>
+            The owner holds every role. Ownership moves in two steps: the owner proposes a new address, which then
+            accepts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="rounded-md border p-3 text-sm space-y-2">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">Owner</span>
+              {ownerSafe && (
+                <Badge variant="outline" className="text-xs">
+                  Safe · {ownerSafe.threshold} of {ownerSafe.owners.length}
+                </Badge>
+              )}
+              {permissions.isOwner && (
+                <Badge variant="secondary" className="text-xs">
+                  You
+                </Badge>
+              )}
+            </div>
+            <div className="font-mono text-xs break-all text-muted-foreground">{owner ?? "Loading..."}</div>
+            {pendingOwner && (
+              <>
+                <div className="flex items-center gap-2 pt-2">
+                  <span className="font-medium">Pending Owner</span>
+                  {pendingOwnerSafe && (
+                    <Badge variant="outline" className="text-xs">
+                      Safe · {pendingOwnerSafe.threshold} of {pendingOwnerSafe.owners.length}
+                    </Badge>
+                  )}
+                </div>
+                <div className="font-mono text-xs break-all text-muted-foreground">{pendingOwner}</div>
+              </>
+            )}
+          </div>
+
+          {permissions.isPendingOwner && (
+            <Button className="w-full" disabled={submitting !== null} onClick={() => run("accept")}>
+              {submitting === "accept" ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <KeyRound className="mr-2 h-4 w-4" />
+              )}
+              {pendingProposer ? "Propose Accepting Ownership to the Safe" : "Accept Ownership"}
+            </Button>
+          )}
+
+          {canTransfer && (
+            <div className="space-y-2">
+              <Label htmlFor="new-owner">New Owner</Label>
+              <Input
+                id="new-owner"
+                value={newOwner}
+                onChange={(e) => setNewOwner(e.target.value)}
+                placeholder="0x... (an account or a Safe)"
+                className="font-mono text-xs"
+              />
+              <div className="flex gap-2">
+                <Button className="flex-1" disabled={submitting !== null || !newOwner} onClick={() => run("transfer")}>
+                  {submitting === "transfer" ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <Send className="mr-2 h-4 w-4" />
+                  )}
+                  Propose Transfer
+                </Button>
+                {pendingOwner && (
+                  <Button variant="outline" disabled={submitting !== null} onClick={() => run("cancel")}>
+                    {submitting === "cancel" ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <X className="mr-2 h-4 w-4" />
+                    )}
+                    Cancel Transfer
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {safeProposer && chainId && <SafeProposals account={account} proposer={safeProposer} chainId={chainId} />}
+      {pendingProposer && chainId && <SafeProposals account={account} proposer={pendingProposer} chainId={chainId} />}
+    </div>
+  )
+}
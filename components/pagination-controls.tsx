@@ -0,0 +1,41 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { ChevronLeft, ChevronRight } from "lucide-react"
+
+interface PaginationControlsProps {
+  page: number
+  pageSize: number
+  total: number
+  onPageChange: (page: number) => void
+  disabled?: boolean
+}
+
+export default function PaginationControls({ page, pageSize, total, onPageChange, disabled }: PaginationControlsProps) {
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+
+  if (pageCount <= 1) {
+    return null
+  }
+
+  return (
+    <div className="flex items-center justify-between">
+      <Button variant="outline" size="sm" onClick={() => onPageChange(page - 1)} disabled={disabled || page === 0}>
+        <ChevronLeft className="h-4 w-4 mr-1" />
+        Previous
+      </Button>
+      <span className="text-sm text-muted-foreground">
+        Page {page + 1} of {pageCount}
+      </span>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onPageChange(page + 1)}
+        disabled={disabled || page >= pageCount - 1}
+      >
+        Next
+        <ChevronRight className="h-4 w-4 ml-1" />
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+"use client"
+
+import { CheckCircle2, Circle, ExternalLink, Loader2, XCircle } from "lucide-react"
+import { useVotingContract } from "@/context/voting-contract-context"
+import { getExplorerUrl } from "@/lib/networks"
+import type { RelayState } from "@/lib/gasless"
+
+interface RelayStatusProps {
+  state: RelayState
+}
+
+const STEPS: { step: RelayState["step"]; label: string }[] = [
+  { step: "signing", label: "Sign the ballot in your wallet" },
+  { step: "relaying", label: "Relayer checks and submits it" },
+  { step: "pending", label: "Waiting for confirmation" },
+]
+
+// Step list for a gasless vote; a failure is shown on the step that was in progress
+export default function RelayStatus({ state }: RelayStatusProps) {
+  const { network } = useVotingContract()
+  const current = STEPS.findIndex((item) => item.step === state.step)
+  const explorerUrl = state.hash ? getExplorerUrl(network, "tx", state.hash) : null
+
+  return (
+    <div className="w-full space-y-2 rounded-md border p-3 text-sm">
+      {STEPS.map((item, index) => {
+        const done = state.step === "confirmed" || (current !== -1 && index < current)
+        const active = index === current
+        return (
+          <div key={item.step} className="flex items-center gap-2">
+            {done ? (
+              <CheckCircle2 className="h-4 w-4 text-green-500" />
+            ) : active && state.error ? (
+              <XCircle className="h-4 w-4 text-red-500" />
+            ) : active ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Circle className="h-4 w-4 text-muted-foreground" />
+            )}
+            <span className={done || active ? "" : "text-muted-foreground"}>{item.label}</span>
+          </div>
+        )
+      })}
+      {state.error && <p className="text-red-600">{state.error}</p>}
+      {state.hash && (
+        <div className="flex items-center gap-1 font-mono text-xs text-muted-foreground break-all">
+          {explorerUrl ? (
+            <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 underline">
+              {state.hash}
+              <ExternalLink className="h-3 w-3 shrink-0" />
+            </a>
+          ) : (
+            state.hash
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
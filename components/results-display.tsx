@@ -4,83 +4,88 @@ import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
-import { Button } from "@/components/ui/button"
 import { Progress } from "@/components/ui/progress"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Label } from "@/components/ui/label"
 import { Trophy, Users, BarChart3 } from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
-import { useVotingContract } from "@/context/voting-contract-context"
+import { useVotingContract, useVotingStore } from "@/context/voting-contract-context"
+import RunoffRounds from "@/components/runoff-rounds"
+import CandidateProfileDialog from "@/components/candidate-profile-dialog"
+import { tallyInstantRunoff, type IrvResult } from "@/lib/instant-runoff"
+import { allocateSeats } from "@/lib/multi-winner"
+import { formatWeight, loadWeightUnit, type WeightUnit } from "@/lib/token-snapshot"
 
 interface Election {
   id: number
   name: string
   resultsPublished: boolean
   hasEnded: boolean
+  secretBallot: boolean
+  // Sealed ballots committed vs. revealed; only revealed ones are in the tally
+  committed: number
+  revealed: number
+  rankedChoice: boolean
+  // Approval elections: how many candidates win, and ballots cast (each may select several candidates)
+  seats: number | null
+  ballots: number
+  weighted: boolean
 }
 
 interface CandidateResult {
   id: number
   name: string
   info: string
-  voteCount: number
+  withdrawn: boolean
+  profileHash: string
+  voteCount: bigint
+  voterCount: number
   percentage: number
 }
 
-export default function ResultsDisplay() {
-  const [elections, setElections] = useState<Election[]>([])
+interface ResultsDisplayProps {
+  // Auditors: elections whose tallies the account may read before they are published
+  previewFilter?: (electionId: number) => boolean
+}
+
+export default function ResultsDisplay({ previewFilter }: ResultsDisplayProps = {}) {
   const [results, setResults] = useState<CandidateResult[]>([])
   const [selectedElection, setSelectedElection] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
   const [loadingResults, setLoadingResults] = useState(false)
-  const [totalVotes, setTotalVotes] = useState(0)
+  const [totalVotes, setTotalVotes] = useState(BigInt(0))
+  const [runoff, setRunoff] = useState<IrvResult | null>(null)
+  const [weightUnit, setWeightUnit] = useState<WeightUnit | null>(null)
 
   const { toast } = useToast()
-  const { contract } = useVotingContract()
+  const { client, chainId } = useVotingContract()
+  const { store, dispatch } = useVotingStore()
 
   useEffect(() => {
-    if (contract) {
+    if (client) {
       fetchElections()
     }
-  }, [contract])
+  }, [client])
 
   useEffect(() => {
-    if (selectedElection && contract) {
+    if (selectedElection && client) {
       fetchResults(Number.parseInt(selectedElection))
     } else {
       setResults([])
-      setTotalVotes(0)
+      setTotalVotes(BigInt(0))
+      setRunoff(null)
     }
-  }, [selectedElection, contract])
+  }, [selectedElection, client])
 
   const fetchElections = async () => {
+    if (!client) return
+
     try {
       setLoading(true)
 
-      // Get election count from contract
-      const count = await contract.getElectionCount()
-      const electionsArray: Election[] = []
-
-      // Fetch each election
-      for (let i = 0; i < Number(count); i++) {
-        const election = await contract.elections(i)
-        const resultsPublished = await contract.resultsPublished(i)
-
-        const now = Math.floor(Date.now() / 1000)
-        const hasEnded = now > Number(election.endTime)
-
-        // Only show elections with published results
-        if (resultsPublished) {
-          electionsArray.push({
-            id: i,
-            name: election.name,
-            resultsPublished,
-            hasEnded,
-          })
-        }
-      }
-
-      setElections(electionsArray)
+      // Fetch every election in batched pages; the summaries already carry the published flag
+      const allElections = await client.listElections()
+      dispatch({ type: "electionsLoaded", elections: allElections, total: allElections.length })
     } catch (error) {
       console.error("Error fetching elections:", error)
       toast({
@@ -93,45 +98,82 @@ export default function ResultsDisplay() {
     }
   }
 
+  // Elections appear here live as ResultsPublished events update the shared store
+  const now = store.blockTime ?? Math.floor(Date.now() / 1000)
+  const elections: Election[] = Object.values(store.elections)
+    .filter((election) => election.resultsPublished || previewFilter?.(election.id))
+    .map((election) => ({
+      id: election.id,
+      name: election.name,
+      resultsPublished: election.resultsPublished,
+      hasEnded: now > election.endTime,
+      secretBallot: election.revealEndTime > 0,
+      committed: store.turnout[election.id] ?? 0,
+      revealed: election.revealCount,
+      rankedChoice: election.electionType === "ranked-choice",
+      seats: election.electionType === "approval" ? election.seats : null,
+      ballots: store.turnout[election.id] ?? 0,
+      weighted: election.electionType === "weighted",
+    }))
+
+  const selectedElectionData = elections.find((e) => e.id.toString() === selectedElection)
+  const allocation =
+    selectedElectionData?.seats != null && results.length > 0 ? allocateSeats(results, selectedElectionData.seats) : null
+  const isElected = (id: number) => allocation?.elected.some((candidate) => candidate.id === id) ?? false
+  const isTied = (id: number) => allocation?.tied.some((candidate) => candidate.id === id) ?? false
+
   const fetchResults = async (electionId: number) => {
+    if (!client) return
+
     try {
       setLoadingResults(true)
 
-      // Get candidate count for this election
-      const count = await contract.getCandidateCount(electionId)
       const resultsArray: CandidateResult[] = []
-      let total = 0
+      let total = BigInt(0)
 
-      // Fetch each candidate and their vote count
-      for (let i = 0; i < Number(count); i++) {
-        const candidate = await contract.getCandidate(electionId, i)
-        const voteCount = await contract.getVoteCount(electionId, i)
+      // Vote counts hold first preferences for ranked elections; the runoff is tallied from the ballots
+      const rankedChoice = store.elections[electionId]?.electionType === "ranked-choice"
+      const [allResults, ballots] = await Promise.all([
+        client.getResults(electionId),
+        rankedChoice ? client.getRankedBallots(electionId) : Promise.resolve(null),
+      ])
+      // Withdrawn candidates were never on the ballot
+      const candidateResults = allResults.filter((candidate) => !candidate.withdrawn)
 
-        const voteCountNumber = Number(voteCount)
+      setRunoff(
+        ballots
+          ? tallyInstantRunoff(
+              candidateResults.map((candidate) => candidate.id),
+              ballots,
+            )
+          : null,
+      )
 
+      // Fetch each candidate and their vote count
+      for (const candidate of candidateResults) {
         resultsArray.push({
-          id: i,
-          name: candidate.name,
-          info: candidate.info,
-          voteCount: voteCountNumber,
+          ...candidate,
           percentage: 0, // Will calculate after getting total
         })
 
-        total += voteCountNumber
+        total += candidate.voteCount
       }
 
-      // Calculate percentages
-      if (total > 0) {
+      // Calculate percentages; approval ballots count once per selected candidate, so use the share of voters instead
+      const approval = store.elections[electionId]?.electionType === "approval"
+      const denominator = approval && store.turnout[electionId] ? BigInt(store.turnout[electionId]) : total
+      if (denominator > BigInt(0)) {
         resultsArray.forEach((result) => {
-          result.percentage = (result.voteCount / total) * 100
+          result.percentage = Number((result.voteCount * BigInt(10000)) / denominator) / 100
         })
       }
 
       // Sort by vote count (highest first)
-      resultsArray.sort((a, b) => b.voteCount - a.voteCount)
+      resultsArray.sort((a, b) => (a.voteCount === b.voteCount ? 0 : b.voteCount > a.voteCount ? 1 : -1))
 
       setResults(resultsArray)
       setTotalVotes(total)
+      setWeightUnit(chainId !== null ? loadWeightUnit(chainId, client.address, electionId) : null)
     } catch (error) {
       console.error("Error fetching results:", error)
       toast({
@@ -144,7 +186,7 @@ export default function ResultsDisplay() {
     }
   }
 
-  if (loading) {
+  if (loading && elections.length === 0) {
     return (
       <Card>
         <CardContent className="pt-6 flex justify-center">
@@ -158,7 +200,9 @@ export default function ResultsDisplay() {
     return (
       <Card>
         <CardContent className="pt-6">
-          <p className="text-center text-muted-foreground">No election results have been published yet.</p>
+          <p className="text-center text-muted-foreground">
+            {previewFilter ? "No elections to audit yet." : "No election results have been published yet."}
+          </p>
         </CardContent>
       </Card>
     )
@@ -168,8 +212,12 @@ export default function ResultsDisplay() {
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>View Election Results</CardTitle>
-          <CardDescription>Select an election to view its published results</CardDescription>
+          <CardTitle>{previewFilter ? "Audit Election Tallies" : "View Election Results"}</CardTitle>
+          <CardDescription>
+            {previewFilter
+              ? "Live tallies, including elections whose results are not published yet"
+              : "Select an election to view its published results"}
+          </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="space-y-2">
@@ -184,7 +232,7 @@ export default function ResultsDisplay() {
                     <div className="flex items-center gap-2">
                       {election.name}
                       <Badge variant="outline" className="text-xs">
-                        Results Published
+                        {election.resultsPublished ? "Results Published" : "Unpublished"}
                       </Badge>
                     </div>
                   </SelectItem>
@@ -196,9 +244,6 @@ export default function ResultsDisplay() {
           {selectedElection && (
             <div className="flex justify-between items-center">
               <h3 className="text-lg font-semibold">Results</h3>
-              <Button variant="outline" onClick={() => fetchResults(Number.parseInt(selectedElection))}>
-                Refresh
-              </Button>
             </div>
           )}
         </CardContent>
@@ -209,11 +254,30 @@ export default function ResultsDisplay() {
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <BarChart3 className="h-5 w-5" />
-              {elections.find((e) => e.id.toString() === selectedElection)?.name} - Results
+              {selectedElectionData?.name} - Results
             </CardTitle>
             <CardDescription className="flex items-center gap-2">
               <Users className="h-4 w-4" />
-              Total Votes: {totalVotes}
+              {allocation ? (
+                <span>
+                  {selectedElectionData!.ballots} Ballots · {totalVotes.toString()} Selections ·{" "}
+                  {selectedElectionData!.seats} {selectedElectionData!.seats === 1 ? "Seat" : "Seats"}
+                </span>
+              ) : selectedElectionData?.weighted ? (
+                <span>
+                  Weighted Total: {formatWeight(totalVotes, weightUnit)} ·{" "}
+                  {results.reduce((sum, r) => sum + r.voterCount, 0)}{" "}
+                  Voters
+                </span>
+              ) : (
+                <>Total Votes: {totalVotes.toString()}</>
+              )}
+              {selectedElectionData?.secretBallot && (
+                <span>
+                  · Secret ballot: {selectedElectionData.revealed} of {selectedElectionData.committed} sealed votes
+                  revealed
+                </span>
+              )}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -231,19 +295,54 @@ export default function ResultsDisplay() {
               <p className="text-center text-muted-foreground py-8">No results available for this election.</p>
             ) : (
               <div className="space-y-6">
+                {runoff && (
+                  <>
+                    <RunoffRounds
+                      result={runoff}
+                      candidateNames={Object.fromEntries(results.map((candidate) => [candidate.id, candidate.name]))}
+                    />
+                    <h4 className="font-medium">First Preferences</h4>
+                  </>
+                )}
+
                 {results.map((candidate, index) => (
                   <div key={candidate.id} className="space-y-2">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2">
-                        {index === 0 && <Trophy className="h-4 w-4 text-yellow-500" />}
+                        {(allocation ? isElected(candidate.id) : index === 0 && !runoff) && (
+                          <Trophy className="h-4 w-4 text-yellow-500" />
+                        )}
                         <h4 className="font-medium">{candidate.name}</h4>
                         <Badge variant="outline" className="text-xs">
                           Rank #{index + 1}
                         </Badge>
+                        {isElected(candidate.id) && <Badge className="text-xs bg-green-500">Elected</Badge>}
+                        {isTied(candidate.id) && (
+                          <Badge variant="outline" className="text-xs bg-orange-50 text-orange-700 border-orange-200">
+                            Tied
+                          </Badge>
+                        )}
+                        <CandidateProfileDialog candidate={candidate} />
                       </div>
                       <div className="text-right">
-                        <div className="font-medium">{candidate.voteCount} votes</div>
-                        <div className="text-sm text-muted-foreground">{candidate.percentage.toFixed(1)}%</div>
+                        {selectedElectionData?.weighted ? (
+                          <>
+                            <div className="font-medium">
+                              {weightUnit
+                                ? formatWeight(candidate.voteCount, weightUnit)
+                                : `${candidate.voteCount.toLocaleString()} weight`}
+                            </div>
+                            <div className="text-sm text-muted-foreground">
+                              {candidate.voterCount} {candidate.voterCount === 1 ? "voter" : "voters"} ·{" "}
+                              {candidate.percentage.toFixed(1)}%
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            <div className="font-medium">{candidate.voteCount.toString()} votes</div>
+                            <div className="text-sm text-muted-foreground">{candidate.percentage.toFixed(1)}%</div>
+                          </>
+                        )}
                       </div>
                     </div>
                     <Progress value={candidate.percentage} className="h-2" />
@@ -251,15 +350,54 @@ export default function ResultsDisplay() {
                   </div>
                 ))}
 
-                {results.length > 0 && (
+                {runoff ? (
+                  <div className="mt-6 p-4 bg-muted rounded-md">
+                    <div className="flex items-center gap-2 mb-2">
+                      <Trophy className="h-4 w-4 text-yellow-500" />
+                      <span className="font-medium">Winner</span>
+                    </div>
+                    <p className="text-sm">
+                      {runoff.winner === null ? (
+                        "No winner: no ballots were cast."
+                      ) : (
+                        <>
+                          <strong>{results.find((candidate) => candidate.id === runoff.winner)?.name}</strong> won after{" "}
+                          {runoff.rounds.length} round{runoff.rounds.length === 1 ? "" : "s"} of instant-runoff counting
+                        </>
+                      )}
+                    </p>
+                  </div>
+                ) : allocation ? (
+                  <div className="mt-6 p-4 bg-muted rounded-md space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Trophy className="h-4 w-4 text-yellow-500" />
+                      <span className="font-medium">{selectedElectionData!.seats === 1 ? "Winner" : "Winners"}</span>
+                    </div>
+                    {allocation.elected.length > 0 && (
+                      <p className="text-sm">
+                        Elected: <strong>{allocation.elected.map((candidate) => candidate.name).join(", ")}</strong>
+                      </p>
+                    )}
+                    {allocation.tied.length > 0 && (
+                      <p className="text-sm text-orange-800">
+                        {allocation.tied.map((candidate) => candidate.name).join(", ")} are tied with{" "}
+                        {allocation.tied[0].voteCount.toString()} votes each for the remaining{" "}
+                        {allocation.contestedSeats} {allocation.contestedSeats === 1 ? "seat" : "seats"}. A tie-break is required.
+                      </p>
+                    )}
+                  </div>
+                ) : (
                   <div className="mt-6 p-4 bg-muted rounded-md">
                     <div className="flex items-center gap-2 mb-2">
                       <Trophy className="h-4 w-4 text-yellow-500" />
                       <span className="font-medium">Winner</span>
                     </div>
                     <p className="text-sm">
-                      <strong>{results[0].name}</strong> won with {results[0].voteCount} votes (
-                      {results[0].percentage.toFixed(1)}% of total votes)
+                      <strong>{results[0].name}</strong> won with{" "}
+                      {selectedElectionData?.weighted
+                        ? `${formatWeight(results[0].voteCount, weightUnit)} of voting weight from ${results[0].voterCount} voters`
+                        : `${results[0].voteCount} votes`}{" "}
+                      ({results[0].percentage.toFixed(1)}% of total votes)
                     </p>
                   </div>
                 )}
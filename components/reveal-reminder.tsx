@@ -0,0 +1,44 @@
+"use client"
+
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { Button } from "@/components/ui/button"
+import { Unlock } from "lucide-react"
+import { useVotingContract, useVotingStore } from "@/context/voting-contract-context"
+import { listBallots } from "@/lib/sealed-ballot"
+
+interface RevealReminderProps {
+  account: string
+  onReveal: () => void
+}
+
+// Nudges the voter about sealed ballots saved in this browser whose reveal window is open
+export default function RevealReminder({ account, onReveal }: RevealReminderProps) {
+  const { client, chainId } = useVotingContract()
+  const { store } = useVotingStore()
+
+  if (!client || !chainId || store.blockTime === null) return null
+
+  const now = store.blockTime
+  const pending = listBallots(chainId, client.address, account).filter((ballot) => {
+    const election = store.elections[ballot.electionId]
+    return election && !election.cancelled && now > election.endTime && now <= election.revealEndTime
+  })
+
+  if (pending.length === 0) return null
+
+  return (
+    <Alert className="mb-6 border-orange-200 bg-orange-50">
+      <Unlock className="h-4 w-4" />
+      <AlertTitle>Reveal your vote{pending.length > 1 ? "s" : ""}</AlertTitle>
+      <AlertDescription className="flex items-center justify-between gap-4">
+        <span>
+          {pending.map((ballot) => store.elections[ballot.electionId].name).join(", ")}{" "}
+          {pending.length > 1 ? "are" : "is"} in the reveal period. Sealed votes are only counted once revealed.
+        </span>
+        <Button size="sm" variant="outline" onClick={onReveal}>
+          Reveal now
+        </Button>
+      </AlertDescription>
+    </Alert>
+  )
+}
@@ -0,0 +1,262 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ethers } from "ethers"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Loader2, UserPlus, UserMinus } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useVotingContract, useVotingStore } from "@/context/voting-contract-context"
+import { useTransactions } from "@/context/transactions-context"
+import { describeError } from "@/lib/contract-errors"
+import { PROPOSAL_SUBMITTED } from "@/lib/multisig"
+import { ROLES, type Role, type RoleAssignment } from "@/types"
+
+const ROLE_LABELS: Record<Role, string> = {
+  "super-admin": "Super Admin",
+  "election-admin": "Election Admin",
+  "candidate-manager": "Candidate Manager",
+  auditor: "Auditor",
+}
+
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  "super-admin": "Every permission, including granting and revoking roles",
+  "election-admin": "Create elections (all-election scope only), manage candidates and voter rolls, publish results",
+  "candidate-manager": "Add candidates before the election starts",
+  auditor: "Read tallies before results are published",
+}
+
+// Select value for roles that cover every election
+const ALL_ELECTIONS = "all"
+
+interface RoleManagerProps {
+  account: string
+}
+
+export default function RoleManager({ account }: RoleManagerProps) {
+  const [assignments, setAssignments] = useState<RoleAssignment[]>([])
+  const [role, setRole] = useState<Role>("election-admin")
+  const [memberAddress, setMemberAddress] = useState("")
+  const [scope, setScope] = useState(ALL_ELECTIONS)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState<string | null>(null)
+  const { toast } = useToast()
+  const { client } = useVotingContract()
+  const { trackAdmin } = useTransactions()
+  const { store } = useVotingStore()
+
+  const fetchAssignments = async () => {
+    if (!client) return
+
+    try {
+      setLoading(true)
+      setAssignments(await client.getRoleAssignments())
+    } catch (error) {
+      console.error("Error fetching roles:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch role assignments",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!client || !account) return
+
+    fetchAssignments()
+    return client.subscribe({ RoleGranted: fetchAssignments, RoleRevoked: fetchAssignments })
+  }, [client, account])
+
+  const electionName = (electionId: number | null) =>
+    electionId === null ? "All elections" : store.elections[electionId]?.name ?? `Election #${electionId}`
+
+  const updateRole = async (action: "grant" | "revoke", assignment: RoleAssignment) => {
+    if (!client) return
+
+    const key = `${action}:${assignment.role}:${assignment.account}:${assignment.electionId}`
+    try {
+      setSubmitting(key)
+      const result =
+        action === "grant"
+          ? await client.grantRole(assignment.role, assignment.account, assignment.electionId)
+          : await client.revokeRole(assignment.role, assignment.account, assignment.electionId)
+      await trackAdmin(result, {
+        action: action === "grant" ? "Grant role" : "Revoke role",
+        electionId: assignment.electionId ?? undefined,
+      })
+
+      toast(
+        result.kind === "proposed"
+          ? { title: "Proposal Submitted", description: PROPOSAL_SUBMITTED }
+          : {
+              title: "Success",
+              description: `${ROLE_LABELS[assignment.role]} ${action === "grant" ? "granted to" : "revoked from"} ${
+                assignment.account
+              }`,
+            },
+      )
+      if (action === "grant") setMemberAddress("")
+    } catch (error) {
+      console.error(`Error ${action === "grant" ? "granting" : "revoking"} role:`, error)
+      toast({
+        title: "Error",
+        description: describeError(error, `Failed to ${action} role. Only super admins can change roles.`),
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  const handleGrant = (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!ethers.isAddress(memberAddress)) {
+      toast({
+        title: "Error",
+        description: "Enter a valid address",
+        variant: "destructive",
+      })
+      return
+    }
+
+    updateRole("grant", {
+      role,
+      account: ethers.getAddress(memberAddress),
+      electionId: role === "super-admin" || scope === ALL_ELECTIONS ? null : Number(scope),
+    })
+  }
+
+  const elections = Object.values(store.elections).sort((a, b) => a.id - b.id)
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Grant Role</CardTitle>
+          <CardDescription>Give another address admin permissions, for every election or just one</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleGrant} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="role-address">Address</Label>
+              <Input
+                id="role-address"
+                value={memberAddress}
+                onChange={(e) => setMemberAddress(e.target.value)}
+                placeholder="0x..."
+                className="font-mono text-xs"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="role-select">Role</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as Role)}>
+                  <SelectTrigger id="role-select">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLES.map((item) => (
+                      <SelectItem key={item} value={item}>
+                        {ROLE_LABELS[item]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="role-scope">Scope</Label>
+                <Select
+                  value={role === "super-admin" ? ALL_ELECTIONS : scope}
+                  onValueChange={setScope}
+                  disabled={role === "super-admin"}
+                >
+                  <SelectTrigger id="role-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ELECTIONS}>All elections</SelectItem>
+                    {elections.map((election) => (
+                      <SelectItem key={election.id} value={election.id.toString()}>
+                        {election.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</p>
+
+            <Button type="submit" className="w-full" disabled={submitting !== null || !memberAddress}>
+              {submitting?.startsWith("grant:") ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <UserPlus className="mr-2 h-4 w-4" />
+              )}
+              Grant Role
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Current Roles</CardTitle>
+          <CardDescription>The contract owner holds every role and is not listed</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="space-y-3">
+              {[...Array(3)].map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : assignments.length === 0 ? (
+            <p className="text-center text-muted-foreground">No roles have been granted yet</p>
+          ) : (
+            <div className="space-y-2">
+              {assignments.map((assignment) => {
+                const key = `revoke:${assignment.role}:${assignment.account}:${assignment.electionId}`
+                return (
+                  <div key={key} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                    <div className="space-y-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">{ROLE_LABELS[assignment.role]}</Badge>
+                        <span className="text-sm text-muted-foreground">{electionName(assignment.electionId)}</span>
+                      </div>
+                      <div className="font-mono text-xs truncate">{assignment.account}</div>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={submitting !== null}
+                      onClick={() => updateRole("revoke", assignment)}
+                    >
+                      {submitting === key ? (
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      ) : (
+                        <UserMinus className="mr-2 h-4 w-4" />
+                      )}
+                      Revoke
+                    </Button>
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
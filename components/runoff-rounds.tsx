@@ -0,0 +1,79 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { ArrowRight, Trophy } from "lucide-react"
+import type { IrvResult } from "@/lib/instant-runoff"
+
+interface RunoffRoundsProps {
+  result: IrvResult
+  candidateNames: Record<number, string>
+}
+
+export default function RunoffRounds({ result, candidateNames }: RunoffRoundsProps) {
+  const nameOf = (id: number) => candidateNames[id] ?? `Candidate #${id}`
+
+  return (
+    <div className="space-y-4">
+      {result.rounds.map((round) => {
+        const standings = Object.entries(round.tallies)
+          .map(([id, votes]) => ({ id: Number(id), votes }))
+          .sort((a, b) => b.votes - a.votes)
+        const isFinal = round.eliminated === null
+
+        return (
+          <div key={round.round} className="border rounded-md p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">Round {round.round}</h4>
+              <span className="text-sm text-muted-foreground">
+                {round.continuingBallots} continuing
+                {round.exhaustedBallots > 0 && ` · ${round.exhaustedBallots} exhausted`}
+              </span>
+            </div>
+
+            {standings.map(({ id, votes }) => {
+              const percentage = round.continuingBallots > 0 ? (votes / round.continuingBallots) * 100 : 0
+              return (
+                <div key={id} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <div className="flex items-center gap-2">
+                      {isFinal && id === result.winner && <Trophy className="h-4 w-4 text-yellow-500" />}
+                      <span className={id === round.eliminated ? "line-through text-muted-foreground" : ""}>
+                        {nameOf(id)}
+                      </span>
+                      {id === round.eliminated && (
+                        <Badge variant="outline" className="text-xs">
+                          Eliminated{round.tieBreak && " (tie-break)"}
+                        </Badge>
+                      )}
+                    </div>
+                    <span>
+                      {votes} ({percentage.toFixed(1)}%)
+                    </span>
+                  </div>
+                  <Progress value={percentage} className="h-2" />
+                </div>
+              )
+            })}
+
+            {round.eliminated !== null && (
+              <div className="text-sm text-muted-foreground space-y-1">
+                {Object.entries(round.transfers).map(([to, count]) => (
+                  <div key={to} className="flex items-center gap-1">
+                    {nameOf(round.eliminated!)} <ArrowRight className="h-3 w-3" /> {nameOf(Number(to))}: {count}
+                  </div>
+                ))}
+                {round.exhaustedByTransfer > 0 && (
+                  <div>
+                    {round.exhaustedByTransfer} ballot{round.exhaustedByTransfer === 1 ? "" : "s"} exhausted (no
+                    further preferences)
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Loader2, Check, Play, Trash2 } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useTransactions } from "@/context/transactions-context"
+import { describeError } from "@/lib/contract-errors"
+import {
+  decodeProposal,
+  encodeProposal,
+  listProposals,
+  removeProposal,
+  saveProposal,
+  type ProposalStatus,
+  type SafeProposal,
+  type SafeProposer,
+} from "@/lib/multisig"
+
+interface SafeProposalsProps {
+  account: string
+  proposer: SafeProposer
+  chainId: number
+}
+
+// Pending Safe transactions for admin actions, with on-chain confirmation and execution
+export default function SafeProposals({ account, proposer, chainId }: SafeProposalsProps) {
+  const [proposals, setProposals] = useState<SafeProposal[]>([])
+  const [statuses, setStatuses] = useState<Record<string, ProposalStatus>>({})
+  const [importCode, setImportCode] = useState("")
+  const [busy, setBusy] = useState<string | null>(null)
+  const { toast } = useToast()
+  const { track } = useTransactions()
+  const { safe } = proposer
+
+  const loadProposals = async () => {
+    const stored = listProposals(chainId, safe.address)
+    setProposals(stored)
+
+    try {
+      const entries = await Promise.all(
+        stored.map(async (proposal) => [proposal.hash, await proposer.getStatus(proposal)] as const),
+      )
+      setStatuses(Object.fromEntries(entries))
+    } catch (error) {
+      console.error("Error loading Safe proposals:", error)
+    }
+  }
+
+  useEffect(() => {
+    loadProposals()
+  }, [proposer, chainId])
+
+  const handleImport = async () => {
+    const proposal = decodeProposal(importCode)
+    if (!proposal || !(await proposer.verify(proposal))) {
+      toast({
+        title: "Error",
+        description: "This code is not a valid proposal for this Safe",
+        variant: "destructive",
+      })
+      return
+    }
+
+    saveProposal(proposal)
+    setImportCode("")
+    loadProposals()
+  }
+
+  const runAction = async (proposal: SafeProposal, action: "confirm" | "execute") => {
+    try {
+      setBusy(`${action}:${proposal.hash}`)
+      const tx = action === "confirm" ? await proposer.confirm(proposal) : await proposer.execute(proposal)
+      await track(tx, { action: action === "confirm" ? "Confirm Safe proposal" : "Execute Safe proposal" })
+
+      toast({
+        title: "Success",
+        description: action === "confirm" ? "Proposal confirmed" : `${proposal.description} executed through the Safe`,
+      })
+    } catch (error) {
+      console.error(`Error trying to ${action} Safe proposal:`, error)
+      toast({
+        title: "Error",
+        description: describeError(error, `Failed to ${action} the proposal`),
+        variant: "destructive",
+      })
+    } finally {
+      setBusy(null)
+      loadProposals()
+    }
+  }
+
+  const discard = (proposal: SafeProposal) => {
+    removeProposal(proposal)
+    loadProposals()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Safe Proposals</CardTitle>
+        <CardDescription>
+          Admin actions for the Safe at <span className="font-mono">{safe.address}</span> run once {safe.threshold} of{" "}
+          {safe.owners.length} signers confirm them. Share a proposal's code with the other signers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {proposals.length === 0 ? (
+          <p className="text-center text-muted-foreground">No pending proposals in this browser</p>
+        ) : (
+          proposals.map((proposal) => {
+            const status = statuses[proposal.hash]
+            const confirmed = status?.confirmations.some((signer) => signer.toLowerCase() === account.toLowerCase())
+            // The executing signer adds the last confirmation itself
+            const executable =
+              !!status && !status.settled && status.confirmations.length + (confirmed ? 0 : 1) >= status.threshold
+
+            return (
+              <div key={proposal.hash} className="rounded-md border p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{proposal.description}</span>
+                    <Badge variant="outline" className="text-xs">
+                      Nonce {proposal.nonce}
+                    </Badge>
+                    {status && (
+                      <Badge variant={status.settled ? "secondary" : "outline"} className="text-xs">
+                        {status.settled
+                          ? "Executed or replaced"
+                          : `${status.confirmations.length} of ${status.threshold} confirmations`}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {status && !status.settled && !confirmed && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busy !== null}
+                        onClick={() => runAction(proposal, "confirm")}
+                      >
+                        {busy === `confirm:${proposal.hash}` ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Check className="mr-2 h-4 w-4" />
+                        )}
+                        Confirm
+                      </Button>
+                    )}
+                    {executable && (
+                      <Button size="sm" disabled={busy !== null} onClick={() => runAction(proposal, "execute")}>
+                        {busy === `execute:${proposal.hash}` ? (
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        ) : (
+                          <Play className="mr-2 h-4 w-4" />
+                        )}
+                        Execute
+                      </Button>
+                    )}
+                    <Button size="sm" variant="ghost" disabled={busy !== null} onClick={() => discard(proposal)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <code className="block text-xs break-all bg-muted p-2 rounded">{encodeProposal(proposal)}</code>
+              </div>
+            )
+          })
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="proposal-code">Import Proposal</Label>
+          <Textarea
+            id="proposal-code"
+            value={importCode}
+            onChange={(e) => setImportCode(e.target.value)}
+            placeholder="Paste a proposal code from another signer"
+            rows={3}
+            className="font-mono text-xs"
+          />
+          <Button variant="outline" onClick={handleImport} disabled={!importCode.trim()}>
+            Import
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
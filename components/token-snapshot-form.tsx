@@ -0,0 +1,123 @@
+"use client"
+
+import { useState } from "react"
+import { ethers } from "ethers"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Loader2, Camera } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useVotingContract } from "@/context/voting-contract-context"
+import { findTokenHolders, getTokenInfo, snapshotTokenBalances, type WeightUnit } from "@/lib/token-snapshot"
+import type { VoterWeight } from "@/types"
+
+interface TokenSnapshotFormProps {
+  // unit describes the weights: the token's decimals, or 0 when weighted by whole tokens
+  onSnapshot: (entries: VoterWeight[], unit: WeightUnit) => void
+}
+
+// Builds a weighted voter roll from ERC-20 balances at a past block
+export default function TokenSnapshotForm({ onSnapshot }: TokenSnapshotFormProps) {
+  const [tokenAddress, setTokenAddress] = useState("")
+  const [snapshotBlock, setSnapshotBlock] = useState("")
+  const [fromBlock, setFromBlock] = useState("0")
+  const [wholeTokens, setWholeTokens] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [progress, setProgress] = useState("")
+  const { toast } = useToast()
+  const { client } = useVotingContract()
+
+  const takeSnapshot = async () => {
+    const provider = client?.provider
+    if (!provider) return
+
+    const blockTag = Number.parseInt(snapshotBlock)
+    const startBlock = Number.parseInt(fromBlock)
+    if (!ethers.isAddress(tokenAddress) || !(blockTag >= 0) || !(startBlock >= 0) || startBlock > blockTag) {
+      toast({
+        title: "Error",
+        description: "Enter a token address and a valid block range",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      setRunning(true)
+      const token = await getTokenInfo(provider, tokenAddress)
+
+      setProgress(`Scanning ${token.symbol} transfers...`)
+      const holders = await findTokenHolders(provider, tokenAddress, startBlock, blockTag)
+
+      setProgress(`Reading ${holders.length} balances at block ${blockTag}...`)
+      const balances = await snapshotTokenBalances(provider, tokenAddress, holders, blockTag)
+
+      // Whole tokens keep tallies short; base-unit weights are shown in token amounts using its decimals
+      const unit = ethers.parseUnits("1", token.decimals)
+      const entries = wholeTokens
+        ? balances
+            .map(({ address, weight }) => ({ address, weight: weight / unit }))
+            .filter(({ weight }) => weight > BigInt(0))
+        : balances
+
+      onSnapshot(entries, { symbol: token.symbol, decimals: wholeTokens ? 0 : token.decimals })
+      toast({
+        title: "Snapshot ready",
+        description: `${entries.length} ${token.symbol} holders at block ${blockTag}`,
+      })
+    } catch (error) {
+      console.error("Error taking token snapshot:", error)
+      toast({
+        title: "Error",
+        description: `Failed to read token balances: ${error instanceof Error ? error.message : "Unknown error"}`,
+        variant: "destructive",
+      })
+    } finally {
+      setRunning(false)
+      setProgress("")
+    }
+  }
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="font-medium text-sm">ERC-20 Balance Snapshot</div>
+      <div className="space-y-2">
+        <Label htmlFor="snapshot-token">Token Address</Label>
+        <Input
+          id="snapshot-token"
+          value={tokenAddress}
+          onChange={(e) => setTokenAddress(e.target.value)}
+          placeholder="0x..."
+          className="font-mono text-xs"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="snapshot-from">Scan Holders From Block</Label>
+          <Input id="snapshot-from" type="number" min={0} value={fromBlock} onChange={(e) => setFromBlock(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="snapshot-block">Snapshot Block</Label>
+          <Input
+            id="snapshot-block"
+            type="number"
+            min={0}
+            value={snapshotBlock}
+            onChange={(e) => setSnapshotBlock(e.target.value)}
+          />
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox id="whole-tokens" checked={wholeTokens} onCheckedChange={(checked) => setWholeTokens(checked === true)} />
+        <Label htmlFor="whole-tokens" className="text-sm font-normal">
+          Weight by whole tokens (holders of less than one token get no vote)
+        </Label>
+      </div>
+      <Button variant="outline" onClick={takeSnapshot} disabled={running || !client}>
+        {running ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Camera className="mr-2 h-4 w-4" />}
+        {running ? progress : "Take Snapshot"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { CheckCircle2, ExternalLink, History, Loader2, X, XCircle } from "lucide-react"
+import { useVotingContract, useVotingStore } from "@/context/voting-contract-context"
+import { useTransactions } from "@/context/transactions-context"
+import { getExplorerUrl } from "@/lib/networks"
+import { transactionKey, type TrackedTransaction } from "@/lib/transactions"
+
+const STATUS_LABELS: Record<TrackedTransaction["status"], string> = {
+  pending: "Waiting for confirmation",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  replaced: "Replaced",
+  dropped: "Dropped",
+}
+
+// Pending and recent transactions from this browser, with confirmations and what became of them
+export default function TransactionTray() {
+  const { network } = useVotingContract()
+  const { store } = useVotingStore()
+  const { transactions, dismiss, clearSettled } = useTransactions()
+
+  if (transactions.length === 0) return null
+
+  const pending = transactions.filter((transaction) => transaction.status === "pending").length
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="mt-4">
+          {pending > 0 ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <History className="mr-2 h-4 w-4" />}
+          {pending > 0 ? `${pending} pending transaction${pending > 1 ? "s" : ""}` : "Recent transactions"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-medium">Transactions</h4>
+          {pending < transactions.length && (
+            <Button variant="ghost" size="sm" onClick={clearSettled}>
+              Clear finished
+            </Button>
+          )}
+        </div>
+        <div className="space-y-3 max-h-96 overflow-y-auto">
+          {transactions.map((transaction) => {
+            const explorerUrl = getExplorerUrl(network, "tx", transaction.hash)
+            const election = transaction.electionId !== undefined ? store.elections[transaction.electionId] : undefined
+            const confirmations =
+              store.blockNumber !== null && transaction.blockNumber !== undefined
+                ? Math.max(store.blockNumber - transaction.blockNumber + 1, 1)
+                : 1
+            return (
+              <div key={transactionKey(transaction)} className="rounded-md border p-3 text-sm space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    {transaction.status === "pending" ? (
+                      <Loader2 className="h-4 w-4 shrink-0 animate-spin" />
+                    ) : transaction.status === "confirmed" ? (
+                      <CheckCircle2 className="h-4 w-4 shrink-0 text-green-500" />
+                    ) : (
+                      <XCircle className="h-4 w-4 shrink-0 text-red-500" />
+                    )}
+                    <span className="font-medium">{transaction.action}</span>
+                    {transaction.originalHash && <Badge variant="secondary">Sped up</Badge>}
+                  </div>
+                  {transaction.status !== "pending" && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-6 w-6 shrink-0"
+                      aria-label="Dismiss"
+                      onClick={() => dismiss(transactionKey(transaction))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+                {election && <p className="text-muted-foreground">{election.name}</p>}
+                <p className={transaction.error ? "text-red-600" : "text-muted-foreground"}>
+                  {transaction.status === "confirmed"
+                    ? `Confirmed in block ${transaction.blockNumber} · ${confirmations} confirmation${confirmations > 1 ? "s" : ""}`
+                    : transaction.error ?? STATUS_LABELS[transaction.status]}
+                </p>
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  {explorerUrl ? (
+                    <a
+                      href={explorerUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 font-mono underline"
+                    >
+                      {transaction.hash.slice(0, 10)}...{transaction.hash.slice(-8)}
+                      <ExternalLink className="h-3 w-3 shrink-0" />
+                    </a>
+                  ) : (
+                    <span className="font-mono">
+                      {transaction.hash.slice(0, 10)}...{transaction.hash.slice(-8)}
+                    </span>
+                  )}
+                  <span>{new Date(transaction.submittedAt).toLocaleTimeString()}</span>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
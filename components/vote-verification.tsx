@@ -0,0 +1,141 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { AlertTriangle, CheckCircle2, Clock, ExternalLink, Loader2, SearchCheck, XCircle } from "lucide-react"
+import { useVotingContract } from "@/context/voting-contract-context"
+import { describeError } from "@/lib/contract-errors"
+import { getExplorerUrl } from "@/lib/networks"
+import { VoteVerificationError, verifyVote, type VoteStatus, type VoteVerification } from "@/lib/vote-receipts"
+
+const STATUS_DETAILS: Record<VoteStatus, { title: string; description: string }> = {
+  counted: {
+    title: "Your vote was counted",
+    description: "The vote is recorded on-chain and included in the election's tally.",
+  },
+  "awaiting-reveal": {
+    title: "Sealed vote recorded",
+    description: "Your sealed vote is on-chain. It is counted once you reveal it after voting closes.",
+  },
+  "not-revealed": {
+    title: "Vote not counted",
+    description: "Your sealed vote is on-chain, but it was not revealed before the reveal deadline.",
+  },
+  cancelled: {
+    title: "Election cancelled",
+    description: "Your vote is recorded on-chain, but the election was cancelled and will not produce a result.",
+  },
+}
+
+// Checks a vote receipt or transaction hash against the connected network; needs no wallet
+export default function VoteVerification() {
+  const [input, setInput] = useState("")
+  const [verifying, setVerifying] = useState(false)
+  const [result, setResult] = useState<VoteVerification | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const { client, chainId, network } = useVotingContract()
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) {
+      setInput(await file.text())
+    }
+  }
+
+  const handleVerify = async () => {
+    if (!client || chainId === null) return
+
+    try {
+      setVerifying(true)
+      setResult(null)
+      setError(null)
+      setResult(await verifyVote(client, chainId, input))
+    } catch (err) {
+      console.error("Error verifying vote:", err)
+      setError(err instanceof VoteVerificationError ? err.message : describeError(err, "Failed to verify the vote"))
+    } finally {
+      setVerifying(false)
+    }
+  }
+
+  const details = result ? STATUS_DETAILS[result.status] : null
+  const explorerUrl = result ? getExplorerUrl(network, "tx", result.receipt.transactionHash) : null
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="receipt-file">Receipt File</Label>
+        <Input id="receipt-file" type="file" accept=".json" onChange={(e) => handleFile(e.target.files?.[0])} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="receipt-text">Receipt or Transaction Hash</Label>
+        <Textarea
+          id="receipt-text"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder="0x... or the contents of a downloaded vote receipt"
+          rows={4}
+          className="font-mono text-xs"
+        />
+      </div>
+
+      <Button onClick={handleVerify} disabled={!client || chainId === null || !input.trim() || verifying}>
+        {verifying ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <SearchCheck className="mr-2 h-4 w-4" />}
+        Verify Vote
+      </Button>
+
+      {error && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertTitle>Vote not verified</AlertTitle>
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {result && details && (
+        <Alert>
+          {result.status === "counted" ? (
+            <CheckCircle2 className="h-4 w-4 text-green-500" />
+          ) : result.status === "awaiting-reveal" ? (
+            <Clock className="h-4 w-4" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+          )}
+          <AlertTitle>{details.title}</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p>{details.description}</p>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">Election</dt>
+              <dd>
+                {result.receipt.electionName} (#{result.receipt.electionId})
+              </dd>
+              <dt className="text-muted-foreground">Voter</dt>
+              <dd className="font-mono break-all">{result.receipt.voter}</dd>
+              <dt className="text-muted-foreground">Transaction</dt>
+              <dd className="font-mono break-all">
+                {explorerUrl ? (
+                  <a href={explorerUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 underline">
+                    {result.receipt.transactionHash}
+                    <ExternalLink className="h-3 w-3 shrink-0" />
+                  </a>
+                ) : (
+                  result.receipt.transactionHash
+                )}
+              </dd>
+              <dt className="text-muted-foreground">Block</dt>
+              <dd>
+                {result.receipt.blockNumber} · {result.confirmations} confirmation{result.confirmations === 1 ? "" : "s"}
+              </dd>
+              <dt className="text-muted-foreground">Time</dt>
+              <dd>{new Date(result.receipt.timestamp * 1000).toLocaleString()}</dd>
+            </dl>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
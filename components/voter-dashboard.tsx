@@ -1,41 +1,30 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Button } from "@/components/ui/button"
-import { ArrowLeft, Vote } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { ArrowLeft, Vote, Wallet } from "lucide-react"
 import ElectionsList from "@/components/elections-list"
 import VotingInterface from "@/components/voting-interface"
 import ResultsDisplay from "@/components/results-display"
-import { useVotingContract } from "@/context/voting-contract-context"
+import RevealReminder from "@/components/reveal-reminder"
+import DelegationManager from "@/components/delegation-manager"
+import VoteVerification from "@/components/vote-verification"
+import { useVotingContract, useVotingStore } from "@/context/voting-contract-context"
 
 interface VoterDashboardProps {
-  account: string
+  // null when browsing read-only without a connected wallet
+  account: string | null
   onBack: () => void
 }
 
 export default function VoterDashboard({ account, onBack }: VoterDashboardProps) {
   const [activeTab, setActiveTab] = useState("elections")
-  const { contract } = useVotingContract()
-  const [blockTime, setBlockTime] = useState<number | null>(null)
-
-  const fetchBlockchainTime = async () => {
-    if (!contract?.runner?.provider) return
-    try {
-      const block = await contract.runner.provider.getBlock("latest")
-      setBlockTime(block.timestamp)
-    } catch (err) {
-      console.error("Failed to fetch blockchain time:", err)
-    }
-  }
-
-  // Fetch blockchain time every 10 seconds automatically
-  useEffect(() => {
-    fetchBlockchainTime()
-    const interval = setInterval(fetchBlockchainTime, 10000) // Refresh every 10s
-    return () => clearInterval(interval)
-  }, [contract])
+  const { readOnly } = useVotingContract()
+  // Updated from new block events in the shared store
+  const { blockTime } = useVotingStore().store
 
   return (
     <div className="max-w-5xl mx-auto">
@@ -50,11 +39,15 @@ export default function VoterDashboard({ account, onBack }: VoterDashboardProps)
         </div>
       </div>
 
+      {account && !readOnly && <RevealReminder account={account} onReveal={() => setActiveTab("vote")} />}
+
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid grid-cols-3 mb-6">
+        <TabsList className="grid grid-cols-5 mb-6">
           <TabsTrigger value="elections">View Elections</TabsTrigger>
           <TabsTrigger value="vote">Cast Vote</TabsTrigger>
           <TabsTrigger value="results">View Results</TabsTrigger>
+          <TabsTrigger value="delegation">Delegation</TabsTrigger>
+          <TabsTrigger value="verify">Verify Vote</TabsTrigger>
         </TabsList>
 
         <TabsContent value="elections">
@@ -74,8 +67,7 @@ export default function VoterDashboard({ account, onBack }: VoterDashboardProps)
                 </div>
               )}
 
-              {/* Pass blockTime and setBlockTime to ElectionsList */}
-              <ElectionsList account={account} blockTime={blockTime} refreshBlockTime={fetchBlockchainTime} />
+              <ElectionsList account={account} />
             </CardContent>
           </Card>
         </TabsContent>
@@ -87,7 +79,17 @@ export default function VoterDashboard({ account, onBack }: VoterDashboardProps)
               <CardDescription>Select an election and candidate to vote</CardDescription>
             </CardHeader>
             <CardContent>
-              <VotingInterface account={account} />
+              {account && !readOnly ? (
+                <VotingInterface account={account} />
+              ) : (
+                <Alert>
+                  <Wallet className="h-4 w-4" />
+                  <AlertTitle>Wallet required</AlertTitle>
+                  <AlertDescription>
+                    You are browsing in read-only mode. Connect your MetaMask wallet above to cast a vote.
+                  </AlertDescription>
+                </Alert>
+              )}
             </CardContent>
           </Card>
         </TabsContent>
@@ -103,6 +105,32 @@ export default function VoterDashboard({ account, onBack }: VoterDashboardProps)
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="delegation">
+          {account && !readOnly ? (
+            <DelegationManager account={account} />
+          ) : (
+            <Alert>
+              <Wallet className="h-4 w-4" />
+              <AlertTitle>Wallet required</AlertTitle>
+              <AlertDescription>
+                You are browsing in read-only mode. Connect your MetaMask wallet above to manage delegation.
+              </AlertDescription>
+            </Alert>
+          )}
+        </TabsContent>
+
+        <TabsContent value="verify">
+          <Card>
+            <CardHeader>
+              <CardTitle>Verify My Vote</CardTitle>
+              <CardDescription>Check that a vote was included on-chain and counted</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <VoteVerification />
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
     </div>
   )
@@ -0,0 +1,313 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { ethers } from "ethers"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Loader2, ListChecks, Unlock } from "lucide-react"
+import { useToast } from "@/components/ui/use-toast"
+import { useVotingContract, useVotingStore } from "@/context/voting-contract-context"
+import { useTransactions } from "@/context/transactions-context"
+import { describeError } from "@/lib/contract-errors"
+import { VoterMerkleTree, WeightedVoterMerkleTree, parseVoterRollCsv, parseWeightedRollCsv } from "@/lib/merkle"
+import { PROPOSAL_SUBMITTED } from "@/lib/multisig"
+import TokenSnapshotForm from "@/components/token-snapshot-form"
+import { saveWeightUnit, type WeightUnit } from "@/lib/token-snapshot"
+import type { VoterWeight } from "@/types"
+
+interface VoterRollManagerProps {
+  account: string
+  // Limits the election select to elections the account may manage
+  electionFilter?: (electionId: number) => boolean
+}
+
+export default function VoterRollManager({ account, electionFilter }: VoterRollManagerProps) {
+  const [selectedElection, setSelectedElection] = useState<string | null>(null)
+  const [rollText, setRollText] = useState("")
+  // Token the roll in rollText was snapshotted from, so tallies can later be shown in token amounts
+  const [snapshotUnit, setSnapshotUnit] = useState<WeightUnit | null>(null)
+  const [publishAddresses, setPublishAddresses] = useState(true)
+  const [onChainCount, setOnChainCount] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [submitting, setSubmitting] = useState(false)
+  const { toast } = useToast()
+  const { client, chainId } = useVotingContract()
+  const { trackAdmin } = useTransactions()
+  const { store, dispatch } = useVotingStore()
+
+  useEffect(() => {
+    if (client && account) {
+      fetchElections()
+    }
+  }, [client, account])
+
+  const fetchElections = async () => {
+    if (!client) return
+
+    try {
+      setLoading(true)
+      const allElections = await client.listElections()
+      dispatch({ type: "electionsLoaded", elections: allElections, total: allElections.length })
+    } catch (error) {
+      console.error("Error fetching elections:", error)
+      toast({
+        title: "Error",
+        description: "Failed to fetch elections",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const election = selectedElection ? store.elections[Number(selectedElection)] : undefined
+  const currentRoot = election?.voterRoot ?? ethers.ZeroHash
+  // Weighted elections take "address,weight" rows; without a roll nobody holds voting weight
+  const weighted = election?.electionType === "weighted"
+
+  // VoterRootSet events update the root in the store, which reloads the published roll size
+  useEffect(() => {
+    setOnChainCount(null)
+    if (!client || !election || currentRoot === ethers.ZeroHash) return
+
+    const loadCount = weighted
+      ? client.getVoterWeights(election.id).then((roll) => roll?.entries.length ?? 0)
+      : client.getVoterRoll(election.id).then((roll) => roll?.voters.length ?? 0)
+    loadCount.then(setOnChainCount).catch((error) => console.error("Error fetching voter roll:", error))
+  }, [client, election?.id, currentRoot, weighted])
+
+  let tree: VoterMerkleTree | WeightedVoterMerkleTree | null = null
+  let invalid: string[] = []
+  let treeError: string | null = null
+  try {
+    if (weighted) {
+      const parsed = parseWeightedRollCsv(rollText)
+      invalid = parsed.invalid
+      if (parsed.entries.length > 0) tree = new WeightedVoterMerkleTree(parsed.entries)
+    } else {
+      const parsed = parseVoterRollCsv(rollText)
+      invalid = parsed.invalid
+      if (parsed.addresses.length > 0) tree = new VoterMerkleTree(parsed.addresses)
+    }
+  } catch (error) {
+    treeError = error instanceof Error ? error.message : "Invalid voter roll"
+  }
+
+  const handleSnapshot = (entries: VoterWeight[], unit: WeightUnit) => {
+    setRollText(entries.map(({ address, weight }) => `${address},${weight}`).join("\n"))
+    setSnapshotUnit(unit)
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) {
+      setRollText(await file.text())
+      setSnapshotUnit(null)
+    }
+  }
+
+  const submitRoll = async (nextTree: VoterMerkleTree | WeightedVoterMerkleTree | null) => {
+    if (!client || !election) return
+
+    try {
+      setSubmitting(true)
+      const result = weighted
+        ? await client.setVoterWeights(election.id, nextTree as WeightedVoterMerkleTree | null, publishAddresses)
+        : await client.setVoterRoll(election.id, nextTree as VoterMerkleTree | null, publishAddresses)
+      await trackAdmin(result, { action: "Set voter roll", electionId: election.id })
+      if (weighted && nextTree && snapshotUnit && chainId !== null) {
+        saveWeightUnit(chainId, client.address, election.id, snapshotUnit)
+      }
+
+      toast(
+        result.kind === "proposed"
+          ? { title: "Proposal Submitted", description: PROPOSAL_SUBMITTED }
+          : {
+              title: "Success",
+              description: nextTree
+                ? "Voter roll saved"
+                : weighted
+                ? "Voter roll cleared"
+                : "Election opened to every address",
+            },
+      )
+      setRollText("")
+      setSnapshotUnit(null)
+    } catch (error) {
+      console.error("Error setting voter roll:", error)
+      toast({
+        title: "Error",
+        description: describeError(error, "Failed to update the voter roll"),
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const now = store.blockTime ?? Math.floor(Date.now() / 1000)
+  const elections = Object.values(store.elections)
+    .filter((item) => !electionFilter || electionFilter(item.id))
+    .sort((a, b) => a.id - b.id)
+  const hasStarted = election ? now >= election.startTime : false
+
+  if (loading && elections.length === 0) {
+    return (
+      <Card>
+        <CardContent className="pt-6 flex justify-center">
+          <Skeleton className="h-8 w-8" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Voter Roll</CardTitle>
+        <CardDescription>Restrict an election to a list of eligible addresses before it starts</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="roll-election-select">Select Election</Label>
+          <Select value={selectedElection || ""} onValueChange={setSelectedElection}>
+            <SelectTrigger id="roll-election-select">
+              <SelectValue placeholder="Select an election" />
+            </SelectTrigger>
+            <SelectContent>
+              {elections.map((item) => (
+                <SelectItem key={item.id} value={item.id.toString()}>
+                  <div className="flex items-center gap-2">
+                    {item.name}
+                    {item.electionType === "weighted" && (
+                      <Badge variant="outline" className="text-xs">
+                        Weighted
+                      </Badge>
+                    )}
+                    {item.voterRoot !== ethers.ZeroHash && (
+                      <Badge variant="outline" className="text-xs">
+                        Restricted
+                      </Badge>
+                    )}
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {election && (
+          <>
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <div className="font-medium">
+                {currentRoot !== ethers.ZeroHash
+                  ? weighted
+                    ? "Weighted voter roll"
+                    : "Restricted to a voter roll"
+                  : weighted
+                  ? "No voter roll yet; nobody can vote until one is saved"
+                  : "Open to every address"}
+              </div>
+              {currentRoot !== ethers.ZeroHash && (
+                <>
+                  <div className="font-mono text-xs break-all text-muted-foreground">Root: {currentRoot}</div>
+                  <div className="text-muted-foreground">
+                    {onChainCount === null
+                      ? "Loading roll..."
+                      : onChainCount > 0
+                      ? `${onChainCount} addresses published on-chain`
+                      : "Addresses were distributed off-chain"}
+                  </div>
+                </>
+              )}
+            </div>
+
+            {hasStarted ? (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3">
+                <p className="text-sm text-yellow-800">This election has started. Its voter roll can no longer change.</p>
+              </div>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="roll-file">Import CSV</Label>
+                  <Input id="roll-file" type="file" accept=".csv,.txt" onChange={(e) => handleFile(e.target.files?.[0])} />
+                </div>
+
+                {weighted && <TokenSnapshotForm onSnapshot={handleSnapshot} />}
+
+                <div className="space-y-2">
+                  <Label htmlFor="roll-text">{weighted ? "Addresses and Weights" : "Addresses"}</Label>
+                  <Textarea
+                    id="roll-text"
+                    value={rollText}
+                    onChange={(e) => setRollText(e.target.value)}
+                    placeholder={
+                      weighted ? "One address,weight pair per line" : "One address per line (first CSV column)"
+                    }
+                    rows={6}
+                    className="font-mono text-xs"
+                  />
+                </div>
+
+                {tree && (
+                  <div className="rounded-md bg-muted p-3 text-sm space-y-1">
+                    <div className="font-medium">
+                      {tree instanceof WeightedVoterMerkleTree
+                        ? `${tree.entries.length} eligible addresses · total weight ${tree.totalWeight.toString()}`
+                        : `${tree.voters.length} eligible addresses`}
+                    </div>
+                    <div className="font-mono text-xs break-all">Root: {tree.root}</div>
+                  </div>
+                )}
+
+                {treeError && <p className="text-sm text-red-600">{treeError}</p>}
+
+                {invalid.length > 0 && (
+                  <p className="text-sm text-orange-700">
+                    Skipped {invalid.length} row{invalid.length === 1 ? "" : "s"} without a valid{" "}
+                    {weighted ? "address and weight" : "address"}: {invalid.slice(0, 3).join(", ")}
+                    {invalid.length > 3 && "..."}
+                  </p>
+                )}
+
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="publish-addresses"
+                    checked={publishAddresses}
+                    onCheckedChange={(checked) => setPublishAddresses(checked === true)}
+                  />
+                  <Label htmlFor="publish-addresses" className="text-sm font-normal">
+                    Publish the address list on-chain so voters can build their own proofs
+                  </Label>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button className="flex-1" disabled={!tree || submitting} onClick={() => submitRoll(tree)}>
+                    {submitting ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <ListChecks className="mr-2 h-4 w-4" />
+                    )}
+                    Save Voter Roll
+                  </Button>
+                  {currentRoot !== ethers.ZeroHash && (
+                    <Button variant="outline" disabled={submitting} onClick={() => submitRoll(null)}>
+                      <Unlock className="mr-2 h-4 w-4" />
+                      {weighted ? "Clear Roll" : "Open to Everyone"}
+                    </Button>
+                  )}
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
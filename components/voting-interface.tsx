@@ -7,9 +7,45 @@ import { Button } from "@/components/ui/button"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Label } from "@/components/ui/label"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import { Loader2, CheckCircle2, AlertTriangle, Bug, Clock, User } from "lucide-react"
+import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Loader2,
+  CheckCircle2,
+  AlertTriangle,
+  Bug,
+  Clock,
+  User,
+  ShieldCheck,
+  Lock,
+  Unlock,
+  ArrowUp,
+  ArrowDown,
+  X,
+  Plus,
+  Fuel,
+  Download,
+} from "lucide-react"
 import { useToast } from "@/components/ui/use-toast"
 import { useVotingContract } from "@/context/voting-contract-context"
+import { useTransactions } from "@/context/transactions-context"
+import CandidateProfileDialog from "@/components/candidate-profile-dialog"
+import RelayStatus from "@/components/relay-status"
+import { BALLOT_LIFETIME, getRelayerStatus, relayBallot, type RelayState, type RelayerStatus } from "@/lib/gasless"
+import { decodeVotingError, describeError } from "@/lib/contract-errors"
+import { VoterMerkleTree, WeightedVoterMerkleTree, parseVoterRollCsv, parseWeightedRollCsv } from "@/lib/merkle"
+import {
+  type SealedBallot,
+  decodeBallotBackup,
+  encodeBallotBackup,
+  loadBallot,
+  removeBallot,
+  saveBallot,
+  sealBallot,
+} from "@/lib/sealed-ballot"
+import { createVoteReceipt, downloadVoteReceipt, type VoteReceipt } from "@/lib/vote-receipts"
+import { ethers } from "ethers"
+import type { ElectionType } from "@/types"
 
 interface VotingInterfaceProps {
   account: string
@@ -23,18 +59,48 @@ interface Election {
   startTime: number
   endTime: number
   currentTime: number
+  // Commit–reveal election currently accepting reveals
+  inRevealPeriod: boolean
+  electionType: ElectionType
+  // Approval elections: 0 means any number of candidates may be selected
+  maxSelections: number
 }
 
 interface Candidate {
   id: number
   name: string
   info: string
+  profileHash: string
+}
+
+interface Eligibility {
+  restricted: boolean
+  eligible: boolean
+  // Merkle proof submitted with the vote; empty for open elections
+  proof: string[]
+  // The roll was distributed off-chain and the voter has to supply it
+  needsRollFile: boolean
+  // Weighted elections: the voter's weight from the roll, as a decimal string
+  weight: string | null
+}
+
+// Only present for commit–reveal elections
+interface RevealStatus {
+  endTime: number
+  revealEndTime: number
+  committed: boolean
+  revealed: boolean
+  inRevealPeriod: boolean
+  // Ballot saved in this browser when the vote was committed
+  ballot: SealedBallot | null
 }
 
 interface ValidationResult {
   canVote: boolean
   errors: string[]
   warnings: string[]
+  eligibility: Eligibility
+  reveal: RevealStatus | null
   debugInfo: any
 }
 
@@ -43,23 +109,40 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
   const [candidates, setCandidates] = useState<Candidate[]>([])
   const [selectedElection, setSelectedElection] = useState<string | null>(null)
   const [selectedCandidate, setSelectedCandidate] = useState<string | null>(null)
+  // Candidate ids in preference order, for ranked-choice elections
+  const [rankings, setRankings] = useState<number[]>([])
+  // Candidate ids ticked on an approval ballot
+  const [selections, setSelections] = useState<number[]>([])
   const [loading, setLoading] = useState(true)
   const [submitting, setSubmitting] = useState(false)
   const [voteSuccess, setVoteSuccess] = useState(false)
+  // Receipt for the vote just cast, offered for download until the voter moves on
+  const [voteReceipt, setVoteReceipt] = useState<VoteReceipt | null>(null)
   const [validation, setValidation] = useState<ValidationResult | null>(null)
   const [showDebug, setShowDebug] = useState(false)
+  // Contents of a voter roll file supplied by the voter, for rolls not published on-chain
+  const [uploadedRoll, setUploadedRoll] = useState<string | null>(null)
+  const [backupCode, setBackupCode] = useState("")
+  const [revealing, setRevealing] = useState(false)
+  const [relayer, setRelayer] = useState<RelayerStatus | null>(null)
+  const [relayState, setRelayState] = useState<RelayState | null>(null)
 
   const { toast } = useToast()
-  const { contract } = useVotingContract()
+  const { client, chainId } = useVotingContract()
+  const { track } = useTransactions()
 
   useEffect(() => {
-    if (contract && account) {
+    if (chainId) getRelayerStatus(chainId).then(setRelayer)
+  }, [chainId])
+
+  useEffect(() => {
+    if (client && account) {
       fetchElections()
     }
-  }, [contract, account])
+  }, [client, account])
 
   useEffect(() => {
-    if (selectedElection && contract) {
+    if (selectedElection && client) {
       fetchCandidates(Number.parseInt(selectedElection))
       validateVotingConditions(Number.parseInt(selectedElection))
     } else {
@@ -67,30 +150,35 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
       setValidation(null)
     }
     setSelectedCandidate(null)
-  }, [selectedElection, contract])
+    setRankings([])
+    setSelections([])
+    setUploadedRoll(null)
+    setBackupCode("")
+    setRelayState(null)
+  }, [selectedElection, client])
 
   const fetchElections = async () => {
+    if (!client) return
+
     try {
       setLoading(true)
 
-      const count = await contract.getElectionCount()
       const electionsArray: Election[] = []
 
-      for (let i = 0; i < Number(count); i++) {
-        const election = await contract.elections(i)
-        const hasVoted = await contract.hasVoted(i, account)
+      // Get current block timestamp
+      const currentTime = await client.getBlockTimestamp()
+      const allElections = await client.listElections()
+      const votedFlags = await client.getVoterStatusPage(account, 0, allElections.length)
 
-        // Get current block timestamp
-        const provider = contract.runner?.provider
-        const block = await provider?.getBlock("latest")
-        const currentTime = block?.timestamp || Math.floor(Date.now() / 1000)
+      for (const [index, election] of allElections.entries()) {
+        const hasVoted = votedFlags[index] ?? false
 
-        // Safely convert BigInt to Number
-        const startTime = Number(election.startTime)
-        const endTime = Number(election.endTime)
-        const isActive = currentTime >= startTime && currentTime <= endTime
+        const { startTime, endTime, revealEndTime } = election
+        const isActive = !election.cancelled && !election.paused && currentTime >= startTime && currentTime <= endTime
+        const inRevealPeriod =
+          !election.cancelled && revealEndTime > 0 && currentTime > endTime && currentTime <= revealEndTime
 
-        console.log(`Election ${i} Debug:`, {
+        console.log(`Election ${election.id} Debug:`, {
           name: election.name,
           currentTime,
           startTime,
@@ -102,13 +190,16 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
         })
 
         electionsArray.push({
-          id: i,
+          id: election.id,
           name: election.name,
           isActive,
           hasVoted,
           startTime,
           endTime,
           currentTime,
+          inRevealPeriod,
+          electionType: election.electionType,
+          maxSelections: election.maxSelections,
         })
       }
 
@@ -126,18 +217,13 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
   }
 
   const fetchCandidates = async (electionId: number) => {
+    if (!client) return
+
     try {
-      const count = await contract.getCandidateCount(electionId)
-      const candidatesArray: Candidate[] = []
-
-      for (let i = 0; i < Number(count); i++) {
-        const candidate = await contract.getCandidate(electionId, i)
-        candidatesArray.push({
-          id: i,
-          name: candidate.name,
-          info: candidate.info,
-        })
-      }
+      // Withdrawn candidates stay on-chain for history but are not on the ballot
+      const candidatesArray: Candidate[] = (await client.getCandidates(electionId)).filter(
+        (candidate) => !candidate.withdrawn,
+      )
 
       setCandidates(candidatesArray)
     } catch (error) {
@@ -150,24 +236,82 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
     }
   }
 
-  const validateVotingConditions = async (electionId: number) => {
+  // Works out whether the account is on the election's voter roll and builds its Merkle proof
+  const checkEligibility = async (
+    electionId: number,
+    voterRoot: string,
+    weighted: boolean,
+    rollFile: string | null,
+  ): Promise<Eligibility> => {
+    const eligibility: Eligibility = { restricted: false, eligible: true, proof: [], needsRollFile: false, weight: null }
+    if (!client) return eligibility
+    if (weighted) return checkVotingWeight(electionId, voterRoot, rollFile)
+    if (voterRoot === ethers.ZeroHash) return eligibility
+
+    eligibility.restricted = true
+    const onChainRoll = await client.getVoterRoll(electionId)
+    const voters = onChainRoll?.voters.length
+      ? onChainRoll.voters
+      : rollFile !== null
+      ? parseVoterRollCsv(rollFile).addresses
+      : null
+
+    if (!voters) {
+      return { ...eligibility, eligible: false, needsRollFile: true }
+    }
+
+    const tree = new VoterMerkleTree(voters)
+    if (tree.root !== voterRoot) {
+      throw new Error("The voter roll does not match the one registered for this election")
+    }
+
+    const proof = tree.getProof(account)
+    return { ...eligibility, eligible: !!proof, proof: proof ?? [] }
+  }
+
+  // Weighted elections always have a roll; the voter needs their weight and its proof to vote
+  const checkVotingWeight = async (electionId: number, voterRoot: string, rollFile: string | null) => {
+    const eligibility: Eligibility = { restricted: true, eligible: false, proof: [], needsRollFile: false, weight: null }
+    if (!client || voterRoot === ethers.ZeroHash) return eligibility
+
+    const onChainRoll = await client.getVoterWeights(electionId)
+    const entries = onChainRoll?.entries.length
+      ? onChainRoll.entries
+      : rollFile !== null
+      ? parseWeightedRollCsv(rollFile).entries
+      : null
+
+    if (!entries) {
+      return { ...eligibility, needsRollFile: true }
+    }
+
+    const tree = new WeightedVoterMerkleTree(entries)
+    if (tree.root !== voterRoot) {
+      throw new Error("The voter roll does not match the one registered for this election")
+    }
+
+    const entry = tree.getProof(account)
+    return entry ? { ...eligibility, eligible: true, proof: entry.proof, weight: entry.weight.toString() } : eligibility
+  }
+
+  const validateVotingConditions = async (electionId: number, rollFile: string | null = uploadedRoll) => {
+    if (!client) return
+
     try {
       const errors: string[] = []
       const warnings: string[] = []
       const debugInfo: any = {}
 
       // Get election data
-      const election = await contract.elections(electionId)
-      const hasVoted = await contract.hasVoted(electionId, account)
-      const candidateCount = await contract.getCandidateCount(electionId)
+      const election = await client.getElectionSummary(electionId)
+      const hasVoted = await client.hasVoted(electionId, account)
+      const candidateCount = await client.getCandidateCount(electionId)
 
       // Get current time
-      const provider = contract.runner?.provider
-      const block = await provider?.getBlock("latest")
-      const currentTime = block?.timestamp || Math.floor(Date.now() / 1000)
+      const provider = client.provider
+      const currentTime = await client.getBlockTimestamp()
 
-      const startTime = Number(election.startTime)
-      const endTime = Number(election.endTime)
+      const { startTime, endTime, revealEndTime } = election
 
       debugInfo.election = {
         name: election.name,
@@ -175,7 +319,7 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
         startTime,
         endTime,
         currentTime,
-        candidateCount: Number(candidateCount),
+        candidateCount,
       }
 
       debugInfo.account = {
@@ -192,6 +336,12 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
         errors.push("You have already voted in this election")
       }
 
+      if (election.cancelled) {
+        errors.push("This election has been cancelled")
+      } else if (election.paused) {
+        errors.push("Voting is paused by the election administrators")
+      }
+
       if (currentTime < startTime) {
         errors.push(`Election hasn't started yet. Starts at ${new Date(startTime * 1000).toLocaleString()}`)
       }
@@ -200,10 +350,39 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
         errors.push(`Election has ended. Ended at ${new Date(endTime * 1000).toLocaleString()}`)
       }
 
-      if (Number(candidateCount) === 0) {
+      if (candidateCount === 0) {
         errors.push("No candidates available for this election")
       }
 
+      let reveal: RevealStatus | null = null
+      if (revealEndTime > 0) {
+        const [commitment, revealed] = await Promise.all([
+          client.getCommitment(electionId, account),
+          client.hasRevealed(electionId, account),
+        ])
+        reveal = {
+          endTime,
+          revealEndTime,
+          committed: commitment !== ethers.ZeroHash,
+          revealed,
+          inRevealPeriod: !election.cancelled && currentTime > endTime && currentTime <= revealEndTime,
+          ballot: chainId ? loadBallot(chainId, client.address, electionId, account) : null,
+        }
+        debugInfo.reveal = { ...reveal, commitment, ballot: reveal.ballot ? "stored locally" : null }
+      }
+
+      const weighted = election.electionType === "weighted"
+      const eligibility = await checkEligibility(electionId, election.voterRoot, weighted, rollFile)
+      debugInfo.eligibility = { ...eligibility, voterRoot: election.voterRoot }
+
+      if (weighted && election.voterRoot === ethers.ZeroHash) {
+        errors.push("Voting weights have not been set for this election yet")
+      } else if (eligibility.needsRollFile) {
+        errors.push("This election uses a private voter roll. Upload the roll file from the election administrator.")
+      } else if (!eligibility.eligible) {
+        errors.push("You are not on the voter roll for this election")
+      }
+
       // Warnings
       if (currentTime > endTime - 300) {
         // 5 minutes before end
@@ -217,7 +396,11 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
         debugInfo.balance = balanceEth
 
         if (balanceEth < 0.001) {
-          warnings.push("Low ETH balance. You might not have enough gas for the transaction.")
+          warnings.push(
+            relayer?.enabled
+              ? "Low ETH balance. Plurality ballots can be cast without gas using Vote Without Gas."
+              : "Low ETH balance. You might not have enough gas for the transaction.",
+          )
         }
       } catch (error) {
         warnings.push("Could not check account balance")
@@ -227,6 +410,8 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
         canVote: errors.length === 0,
         errors,
         warnings,
+        eligibility,
+        reveal,
         debugInfo,
       })
     } catch (error) {
@@ -235,26 +420,97 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
         canVote: false,
         errors: [`Validation failed: ${error instanceof Error ? error.message : "Unknown error"}`],
         warnings: [],
+        eligibility: { restricted: false, eligible: false, proof: [], needsRollFile: false, weight: null },
+        reveal: null,
         debugInfo: {},
       })
     }
   }
 
+  const handleRollFile = async (file: File | undefined) => {
+    if (!file || !selectedElection) return
+
+    const text = await file.text()
+    setUploadedRoll(text)
+    validateVotingConditions(Number.parseInt(selectedElection), text)
+  }
+
+  const selectedElectionData = elections.find((e) => e.id.toString() === selectedElection)
+  const rankedChoice = selectedElectionData?.electionType === "ranked-choice"
+  const approval = selectedElectionData?.electionType === "approval"
+  const weight = validation?.eligibility.weight
+  const maxSelections = selectedElectionData?.maxSelections || candidates.length
+  const ballotComplete = rankedChoice ? rankings.length > 0 : approval ? selections.length > 0 : !!selectedCandidate
+  // voteBySig only takes open plurality ballots
+  const gasless = !!relayer?.enabled && !rankedChoice && !approval && !weight && !validation?.reveal
+
+  const toggleSelection = (candidateId: number, checked: boolean) => {
+    setSelections((current) =>
+      checked
+        ? current.length < maxSelections && !current.includes(candidateId)
+          ? [...current, candidateId]
+          : current
+        : current.filter((id) => id !== candidateId),
+    )
+  }
+
+  const moveRanking = (index: number, offset: number) => {
+    setRankings((current) => {
+      const next = [...current]
+      ;[next[index], next[index + offset]] = [next[index + offset], next[index]]
+      return next
+    })
+  }
+
+  // Reset form once the voter is done with the confirmation
+  const resetAfterVote = () => {
+    setSelectedElection(null)
+    setSelectedCandidate(null)
+    setRankings([])
+    setSelections([])
+    setVoteSuccess(false)
+    setVoteReceipt(null)
+    fetchElections()
+  }
+
+  // The vote stands even if the receipt cannot be put together, e.g. when the block lookup fails
+  const keepReceipt = async (receipt: ethers.TransactionReceipt, electionId: number) => {
+    if (!client?.provider || !chainId) return
+    try {
+      setVoteReceipt(
+        await createVoteReceipt(client.provider, receipt, {
+          chainId,
+          contractAddress: client.address,
+          electionId,
+          electionName: elections.find((election) => election.id === electionId)?.name ?? `Election #${electionId}`,
+          voter: account,
+        }),
+      )
+    } catch (err) {
+      console.error("Error creating vote receipt:", err)
+    }
+  }
+
   const handleVote = async () => {
-    if (!selectedElection || !selectedCandidate || !contract) {
+    if (!selectedElection || !ballotComplete || !client) {
       toast({
         title: "Error",
-        description: "Please select both an election and a candidate",
+        description: rankedChoice
+          ? "Please rank at least one candidate"
+          : approval
+          ? "Please select at least one candidate"
+          : "Please select both an election and a candidate",
         variant: "destructive",
       })
       return
     }
 
     const electionId = Number.parseInt(selectedElection)
-    const candidateId = Number.parseInt(selectedCandidate)
+    const candidateId = rankedChoice ? rankings[0] : approval ? selections[0] : Number.parseInt(selectedCandidate!)
 
     try {
       setSubmitting(true)
+      setRelayState(null)
 
       // Re-validate before voting
       await validateVotingConditions(electionId)
@@ -268,45 +524,49 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
         return
       }
 
-      console.log("Attempting to vote:", { electionId, candidateId, account })
+      console.log("Attempting to vote:", { electionId, candidateId, rankings: rankedChoice ? rankings : undefined, account })
 
-      // First, try to estimate gas
+      const proof = validation?.eligibility.proof
+      // Secret ballots commit only a hash now; the candidate and salt are revealed after voting closes
+      const ballot = validation?.reveal ? sealBallot(account, candidateId) : null
+
+      // First, try to estimate gas (falls back to a static call for the revert reason)
       let gasEstimate
       try {
-        gasEstimate = await contract.vote.estimateGas(electionId, candidateId)
+        gasEstimate = ballot
+          ? await client.simulateCommit(electionId, ballot.commitment, proof)
+          : rankedChoice
+          ? await client.simulateRankedVote(electionId, rankings, proof)
+          : approval
+          ? await client.simulateApprovalVote(electionId, selections, proof)
+          : weight
+          ? await client.simulateWeightedVote(electionId, candidateId, BigInt(weight), proof!)
+          : await client.simulateVote(electionId, candidateId, proof)
         console.log("Gas estimate:", gasEstimate.toString())
-      } catch (gasError) {
-        console.error("Gas estimation failed:", gasError)
-
-        // Try static call to get better error info
-        try {
-          await contract.vote.staticCall(electionId, candidateId)
-        } catch (staticError: any) {
-          console.error("Static call failed:", staticError)
-
-          let errorMessage = "Transaction would fail"
-          if (staticError.message) {
-            if (staticError.message.includes("already voted")) {
-              errorMessage = "You have already voted in this election"
-            } else if (staticError.message.includes("not active")) {
-              errorMessage = "Election is not currently active"
-            } else if (staticError.message.includes("invalid")) {
-              errorMessage = "Invalid election or candidate ID"
-            } else {
-              errorMessage = staticError.message
-            }
-          }
-
-          throw new Error(errorMessage)
-        }
-
-        throw gasError
+      } catch (simulationError) {
+        console.error("Vote simulation failed:", simulationError)
+        throw decodeVotingError(simulationError)
       }
 
       // Execute the transaction with extra gas
-      const tx = await contract.vote(electionId, candidateId, {
+      const overrides = {
         gasLimit: gasEstimate ? (gasEstimate * BigInt(120)) / BigInt(100) : undefined, // 20% extra gas
-      })
+      }
+
+      // Save the salt before sending so a closed tab cannot lose a committed ballot
+      if (ballot && chainId) {
+        saveBallot({ ...ballot, chainId, contractAddress: client.address, electionId, voter: account })
+      }
+
+      const tx = ballot
+        ? await client.commitVote(electionId, ballot.commitment, proof, overrides)
+        : rankedChoice
+        ? await client.castRankedVote(electionId, rankings, proof, overrides)
+        : approval
+        ? await client.castApprovalVote(electionId, selections, proof, overrides)
+        : weight
+        ? await client.castWeightedVote(electionId, candidateId, BigInt(weight), proof!, overrides)
+        : await client.castVote(electionId, candidateId, proof, overrides)
 
       console.log("Transaction sent:", tx.hash)
 
@@ -316,39 +576,24 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
       })
 
       // Wait for confirmation
-      const receipt = await tx.wait()
+      const receipt = await track(tx, { action: ballot ? "Cast sealed vote" : "Cast vote", electionId })
       console.log("Transaction confirmed:", receipt)
 
+      await keepReceipt(receipt, electionId)
       setVoteSuccess(true)
       toast({
         title: "Success",
-        description: "Your vote has been recorded on the blockchain",
+        description: ballot
+          ? `Your sealed vote has been recorded. Reveal it after ${new Date(validation!.reveal!.endTime * 1000).toLocaleString()}.`
+          : "Your vote has been recorded on the blockchain",
       })
-
-      // Reset form after successful vote
-      setTimeout(() => {
-        setSelectedElection(null)
-        setSelectedCandidate(null)
-        setVoteSuccess(false)
-        fetchElections()
-      }, 3000)
-    } catch (error: any) {
+    } catch (error) {
       console.error("Error voting:", error)
 
-      let errorMessage = "Failed to submit your vote"
-
-      if (error.message) {
-        if (error.message.includes("user rejected")) {
-          errorMessage = "Transaction was rejected by user"
-        } else if (error.message.includes("insufficient funds")) {
-          errorMessage = "Insufficient funds for gas"
-        } else if (error.message.includes("already voted")) {
-          errorMessage = "You have already voted in this election"
-        } else if (error.message.includes("not active")) {
-          errorMessage = "Election is not currently active"
-        } else {
-          errorMessage = error.message
-        }
+      const decoded = decodeVotingError(error)
+      let errorMessage = decoded.code === "Unknown" ? "Failed to submit your vote" : decoded.message
+      if (decoded.code === "InsufficientFunds" && gasless) {
+        errorMessage = `${errorMessage}. Use Vote Without Gas to have the relayer pay for it.`
       }
 
       toast({
@@ -361,6 +606,91 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
     }
   }
 
+  // Signs the ballot in the wallet and hands it to the relayer, which pays the gas
+  const handleGaslessVote = async () => {
+    if (!selectedElection || !selectedCandidate || !client || !chainId) return
+
+    const electionId = Number.parseInt(selectedElection)
+    const candidateId = Number.parseInt(selectedCandidate)
+    let step: RelayState["step"] = "signing"
+    let hash: string | undefined
+
+    try {
+      setSubmitting(true)
+      setRelayState({ step })
+
+      const deadline = (await client.getBlockTimestamp()) + BALLOT_LIFETIME
+      const ballot = await client.signBallot(electionId, candidateId, deadline)
+
+      step = "relaying"
+      setRelayState({ step })
+      hash = await relayBallot(chainId, ballot, validation?.eligibility.proof ?? [])
+
+      step = "pending"
+      setRelayState({ step, hash })
+      const receipt = await client.provider?.waitForTransaction(hash)
+      if (receipt?.status !== 1) throw new Error("The relayed transaction was reverted")
+
+      setRelayState({ step: "confirmed", hash })
+      await keepReceipt(receipt, electionId)
+      setVoteSuccess(true)
+      toast({
+        title: "Success",
+        description: "Your vote has been recorded on the blockchain",
+      })
+    } catch (error: any) {
+      console.error("Error relaying vote:", error)
+      const errorMessage = describeError(error, error.message || "Failed to relay your vote")
+      setRelayState({ step, hash, error: errorMessage })
+      toast({
+        title: "Gasless Vote Failed",
+        description: errorMessage,
+        variant: "destructive",
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleReveal = async () => {
+    if (!selectedElection || !client || !validation?.reveal) return
+
+    const electionId = Number.parseInt(selectedElection)
+    const ballot = validation.reveal.ballot ?? decodeBallotBackup(backupCode, account)
+    if (!ballot) {
+      toast({
+        title: "Error",
+        description: "Enter the backup code you saved when you voted",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      setRevealing(true)
+      const tx = await client.revealVote(electionId, ballot.candidateId, ballot.salt)
+      await track(tx, { action: "Reveal vote", electionId })
+
+      if (chainId) removeBallot(chainId, client.address, electionId, account)
+      toast({
+        title: "Success",
+        description: "Your vote has been revealed and counted",
+      })
+      validateVotingConditions(electionId)
+    } catch (error) {
+      console.error("Error revealing vote:", error)
+      toast({
+        title: "Reveal Failed",
+        description: describeError(error, "Failed to reveal your vote"),
+        variant: "destructive",
+      })
+    } finally {
+      setRevealing(false)
+    }
+  }
+
+  const revealStatus = validation?.reveal?.committed ? validation.reveal : null
+
   if (loading && !selectedElection) {
     return (
       <Card>
@@ -387,7 +717,37 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
         <CardContent className="pt-6 flex flex-col items-center justify-center py-12">
           <CheckCircle2 className="h-16 w-16 text-green-500 mb-4" />
           <h3 className="text-xl font-medium mb-2">Vote Submitted Successfully!</h3>
-          <p className="text-muted-foreground text-center">Your vote has been securely recorded on the blockchain.</p>
+          <p className="text-muted-foreground text-center">
+            {validation?.reveal
+              ? "Your sealed vote has been recorded. Come back once voting closes to reveal it, or it will not be counted."
+              : "Your vote has been securely recorded on the blockchain."}
+          </p>
+          {voteReceipt && (
+            <>
+              <dl className="mt-6 w-full max-w-md grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                <dt className="text-muted-foreground">Election</dt>
+                <dd>{voteReceipt.electionName}</dd>
+                <dt className="text-muted-foreground">Transaction</dt>
+                <dd className="font-mono break-all">{voteReceipt.transactionHash}</dd>
+                <dt className="text-muted-foreground">Block</dt>
+                <dd>{voteReceipt.blockNumber}</dd>
+                <dt className="text-muted-foreground">Time</dt>
+                <dd>{new Date(voteReceipt.timestamp * 1000).toLocaleString()}</dd>
+              </dl>
+              <p className="mt-4 text-xs text-muted-foreground text-center">
+                Keep the receipt to check your vote later under Verify Vote.
+              </p>
+            </>
+          )}
+          <div className="mt-4 flex gap-2">
+            {voteReceipt && (
+              <Button variant="outline" onClick={() => downloadVoteReceipt(voteReceipt)}>
+                <Download className="mr-2 h-4 w-4" />
+                Download Receipt
+              </Button>
+            )}
+            <Button onClick={resetAfterVote}>Done</Button>
+          </div>
         </CardContent>
       </Card>
     )
@@ -416,7 +776,8 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
                       {election.name}
                       {election.isActive && <span className="text-green-600">●</span>}
                       {election.hasVoted && <User className="h-3 w-3 text-blue-600" />}
-                      {!election.isActive && <Clock className="h-3 w-3 text-gray-400" />}
+                      {election.inRevealPeriod && <Unlock className="h-3 w-3 text-orange-500" />}
+                      {!election.isActive && !election.inRevealPeriod && <Clock className="h-3 w-3 text-gray-400" />}
                     </div>
                   </SelectItem>
                 ))}
@@ -426,7 +787,68 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
 
           {validation && (
             <div className="space-y-2">
-              {validation.errors.length > 0 && (
+              {revealStatus && (
+                <Alert>
+                  {revealStatus.revealed ? <CheckCircle2 className="h-4 w-4" /> : <Lock className="h-4 w-4" />}
+                  <AlertTitle>
+                    {revealStatus.revealed
+                      ? "Vote revealed"
+                      : revealStatus.inRevealPeriod
+                      ? "Reveal your vote"
+                      : "Sealed vote committed"}
+                  </AlertTitle>
+                  <AlertDescription className="space-y-3">
+                    {revealStatus.revealed ? (
+                      <p>Your vote has been revealed and will be included in the results.</p>
+                    ) : revealStatus.inRevealPeriod ? (
+                      <p>
+                        Votes are only counted once revealed. Reveal before{" "}
+                        {new Date(revealStatus.revealEndTime * 1000).toLocaleString()}.
+                      </p>
+                    ) : (
+                      <p>
+                        Remember to reveal your vote between {new Date(revealStatus.endTime * 1000).toLocaleString()} and{" "}
+                        {new Date(revealStatus.revealEndTime * 1000).toLocaleString()}.
+                      </p>
+                    )}
+
+                    {!revealStatus.revealed && revealStatus.ballot && (
+                      <div>
+                        <p className="text-xs">
+                          Your ballot secret is stored in this browser. Keep a copy of this backup code in case it is
+                          cleared:
+                        </p>
+                        <code className="block text-xs break-all bg-muted p-2 rounded mt-1">
+                          {encodeBallotBackup(revealStatus.ballot)}
+                        </code>
+                      </div>
+                    )}
+
+                    {!revealStatus.revealed && revealStatus.inRevealPeriod && (
+                      <div className="space-y-2">
+                        {!revealStatus.ballot && (
+                          <Input
+                            value={backupCode}
+                            onChange={(e) => setBackupCode(e.target.value)}
+                            placeholder="Ballot backup code"
+                            className="font-mono text-xs"
+                          />
+                        )}
+                        <Button size="sm" onClick={handleReveal} disabled={revealing}>
+                          {revealing ? (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          ) : (
+                            <Unlock className="mr-2 h-4 w-4" />
+                          )}
+                          Reveal Vote
+                        </Button>
+                      </div>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {validation.errors.length > 0 && !revealStatus && (
                 <Alert variant="destructive">
                   <AlertTriangle className="h-4 w-4" />
                   <AlertTitle>Cannot Vote</AlertTitle>
@@ -440,6 +862,42 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
                 </Alert>
               )}
 
+              {validation.reveal && validation.canVote && (
+                <Alert>
+                  <Lock className="h-4 w-4" />
+                  <AlertTitle>Secret ballot</AlertTitle>
+                  <AlertDescription>
+                    Your choice is sealed until voting closes. You will need to reveal it between{" "}
+                    {new Date(validation.reveal.endTime * 1000).toLocaleString()} and{" "}
+                    {new Date(validation.reveal.revealEndTime * 1000).toLocaleString()} for it to count.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {validation.eligibility.restricted && validation.eligibility.eligible && (
+                <Alert>
+                  <ShieldCheck className="h-4 w-4" />
+                  <AlertTitle>Eligible</AlertTitle>
+                  <AlertDescription>
+                    {validation.eligibility.weight !== null
+                      ? `Your vote carries a weight of ${BigInt(validation.eligibility.weight).toLocaleString()}.`
+                      : "Your address is on the voter roll for this election."}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {validation.eligibility.needsRollFile && (
+                <div className="space-y-2">
+                  <Label htmlFor="voter-roll-file">Voter Roll File</Label>
+                  <Input
+                    id="voter-roll-file"
+                    type="file"
+                    accept=".csv,.txt"
+                    onChange={(e) => handleRollFile(e.target.files?.[0])}
+                  />
+                </div>
+              )}
+
               {validation.warnings.length > 0 && (
                 <Alert>
                   <AlertTriangle className="h-4 w-4" />
@@ -467,7 +925,116 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
             </div>
           )}
 
-          {selectedElection && candidates.length > 0 && validation?.canVote && (
+          {selectedElection && candidates.length > 0 && validation?.canVote && rankedChoice && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Your Ranking</Label>
+                <p className="text-sm text-muted-foreground">
+                  Rank as many candidates as you like, most preferred first. If your top choice is eliminated, your
+                  vote moves to your next choice.
+                </p>
+                {rankings.length === 0 ? (
+                  <p className="text-sm text-muted-foreground border rounded-md p-3">No candidates ranked yet.</p>
+                ) : (
+                  <ol className="space-y-2">
+                    {rankings.map((candidateId, index) => (
+                      <li key={candidateId} className="flex items-center gap-2 border rounded-md p-3">
+                        <span className="font-medium w-6">{index + 1}.</span>
+                        <span className="flex-1">{candidates.find((c) => c.id === candidateId)?.name}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={index === 0}
+                          onClick={() => moveRanking(index, -1)}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={index === rankings.length - 1}
+                          onClick={() => moveRanking(index, 1)}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setRankings(rankings.filter((id) => id !== candidateId))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+
+              {candidates.some((candidate) => !rankings.includes(candidate.id)) && (
+                <div className="space-y-2">
+                  <Label>Unranked Candidates</Label>
+                  {candidates
+                    .filter((candidate) => !rankings.includes(candidate.id))
+                    .map((candidate) => (
+                      <div key={candidate.id} className="flex items-start justify-between border rounded-md p-3">
+                        <div className="grid gap-1">
+                          <span className="font-medium">{candidate.name}</span>
+                          <p className="text-sm text-muted-foreground">{candidate.info}</p>
+                        </div>
+                        <div className="flex gap-1">
+                          <CandidateProfileDialog candidate={candidate} />
+                          <Button variant="outline" size="sm" onClick={() => setRankings([...rankings, candidate.id])}>
+                            <Plus className="h-4 w-4 mr-1" />
+                            Rank
+                          </Button>
+                        </div>
+                      </div>
+                    ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {selectedElection && candidates.length > 0 && validation?.canVote && approval && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>
+                  {selectedElectionData?.maxSelections
+                    ? `Select up to ${selectedElectionData.maxSelections} candidates`
+                    : "Select every candidate you approve of"}
+                </Label>
+                <span className="text-sm text-muted-foreground">
+                  {selections.length} of {maxSelections} selected
+                </span>
+              </div>
+              <div className="space-y-3">
+                {candidates.map((candidate) => {
+                  const checked = selections.includes(candidate.id)
+                  return (
+                    <div key={candidate.id} className="flex items-start space-x-2 border rounded-md p-3">
+                      <Checkbox
+                        id={`candidate-${candidate.id}`}
+                        checked={checked}
+                        disabled={!checked && selections.length >= maxSelections}
+                        onCheckedChange={(value) => toggleSelection(candidate.id, value === true)}
+                      />
+                      <div className="grid gap-1">
+                        <Label htmlFor={`candidate-${candidate.id}`} className="font-medium">
+                          {candidate.name}
+                        </Label>
+                        <p className="text-sm text-muted-foreground">{candidate.info}</p>
+                      </div>
+                      <div className="ml-auto">
+                        <CandidateProfileDialog candidate={candidate} />
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          )}
+
+          {selectedElection && candidates.length > 0 && validation?.canVote && !rankedChoice && !approval && (
             <div className="space-y-2">
               <Label>Select Candidate</Label>
               <RadioGroup value={selectedCandidate || ""} onValueChange={setSelectedCandidate} className="space-y-3">
@@ -480,6 +1047,9 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
                       </Label>
                       <p className="text-sm text-muted-foreground">{candidate.info}</p>
                     </div>
+                    <div className="ml-auto">
+                      <CandidateProfileDialog candidate={candidate} />
+                    </div>
                   </div>
                 ))}
               </RadioGroup>
@@ -498,21 +1068,35 @@ export default function EnhancedVotingInterface({ account }: VotingInterfaceProp
             </div>
           )}
         </CardContent>
-        <CardFooter>
-          <Button
-            onClick={handleVote}
-            disabled={!selectedElection || !selectedCandidate || submitting || !validation?.canVote}
-            className="w-full"
-          >
-            {submitting ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Submitting Vote...
-              </>
-            ) : (
-              "Cast Vote"
+        <CardFooter className="flex-col gap-3">
+          {relayState && <RelayStatus state={relayState} />}
+          <div className="flex w-full gap-2">
+            <Button
+              onClick={handleVote}
+              disabled={!selectedElection || !ballotComplete || submitting || !validation?.canVote}
+              className="flex-1"
+            >
+              {submitting && !relayState ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Submitting Vote...
+                </>
+              ) : (
+                "Cast Vote"
+              )}
+            </Button>
+            {gasless && (
+              <Button
+                variant="outline"
+                onClick={handleGaslessVote}
+                disabled={!selectedElection || !ballotComplete || submitting || !validation?.canVote}
+                className="flex-1"
+              >
+                <Fuel className="mr-2 h-4 w-4" />
+                Vote Without Gas
+              </Button>
             )}
-          </Button>
+          </div>
         </CardFooter>
       </Card>
     </div>
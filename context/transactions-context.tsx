@@ -0,0 +1,176 @@
+"use client"
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from "react"
+import type { ethers } from "ethers"
+import { useToast } from "@/components/ui/use-toast"
+import { useVotingContract } from "@/context/voting-contract-context"
+import type { AdminCallResult } from "@/lib/multisig"
+import {
+  checkTransaction,
+  loadTransactions,
+  saveTransactions,
+  trackedTransaction,
+  transactionKey,
+  type TrackedTransaction,
+  type TransactionCheck,
+  type TransactionMeta,
+} from "@/lib/transactions"
+
+interface TransactionsContextType {
+  // Transactions sent on the current chain, newest first
+  transactions: TrackedTransaction[]
+  // Records a sent transaction and resolves with its receipt once it is mined, following it when the
+  // wallet speeds it up. Rejects with a VotingError when it reverts, is replaced or is dropped.
+  track: (tx: ethers.TransactionResponse, meta: TransactionMeta) => Promise<ethers.TransactionReceipt>
+  // Tracks the admin call itself, or for a Safe proposal the signer's approval, whose receipt has none of
+  // the call's events; callers check result.kind before reading them
+  trackAdmin: (result: AdminCallResult, meta: TransactionMeta) => Promise<ethers.TransactionReceipt>
+  // Removes a settled transaction from the tray
+  dismiss: (key: string) => void
+  clearSettled: () => void
+}
+
+type Track = TransactionsContextType["track"]
+
+const trackAdminWith =
+  (track: Track): TransactionsContextType["trackAdmin"] =>
+  (result, meta) =>
+    result.kind === "executed"
+      ? track(result.tx, meta)
+      : track(result.approval, { ...meta, action: `Propose: ${meta.action}` })
+
+const waitForReceipt: Track = async (tx) => (await tx.wait())!
+
+// Without a TransactionsProvider, as in component tests, a transaction is simply awaited
+export const TransactionsContext = createContext<TransactionsContextType>({
+  transactions: [],
+  track: waitForReceipt,
+  trackAdmin: trackAdminWith(waitForReceipt),
+  dismiss: () => {},
+  clearSettled: () => {},
+})
+
+export const useTransactions = () => useContext(TransactionsContext)
+
+interface Waiter {
+  resolve: (receipt: ethers.TransactionReceipt) => void
+  reject: (error: Error) => void
+}
+
+interface TransactionsProviderProps {
+  children: ReactNode
+}
+
+export const TransactionsProvider = ({ children }: TransactionsProviderProps) => {
+  const { client, chainId } = useVotingContract()
+  const { toast } = useToast()
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([])
+  // Source of truth for the block handler, which outlives renders
+  const transactionsRef = useRef<TrackedTransaction[]>([])
+  // Callers of track() in this session still awaiting their transaction, by transactionKey
+  const waiters = useRef(new Map<string, Waiter>())
+
+  const update = useCallback((change: (current: TrackedTransaction[]) => TrackedTransaction[]) => {
+    const next = change(transactionsRef.current)
+    transactionsRef.current = next
+    saveTransactions(next)
+    setTransactions(next)
+  }, [])
+
+  // Loaded after mount so the server render and the first client render agree
+  useEffect(() => {
+    transactionsRef.current = loadTransactions()
+    setTransactions(transactionsRef.current)
+  }, [])
+
+  const report = useCallback(
+    ({ transaction, receipt, error }: TransactionCheck) => {
+      const key = transactionKey(transaction)
+      const waiter = waiters.current.get(key)
+      if (waiter) {
+        waiters.current.delete(key)
+        if (error) waiter.reject(error)
+        else waiter.resolve(receipt!)
+        return
+      }
+
+      // Sent before a reload, so no component is left to announce the outcome
+      toast(
+        error
+          ? { title: `${transaction.action} failed`, description: error.message, variant: "destructive" }
+          : { title: "Transaction confirmed", description: `${transaction.action} was confirmed in block ${receipt!.blockNumber}` },
+      )
+    },
+    [toast],
+  )
+
+  // Re-check pending transactions on every block, including ones restored from a previous visit
+  useEffect(() => {
+    const provider = client?.provider
+    if (!client || !provider || chainId === null) return
+
+    let cancelled = false
+    let checking = false
+
+    const checkPending = async (blockNumber: number) => {
+      // A slow check is simply picked up again on the next block
+      if (checking) return
+      checking = true
+      const pending = transactionsRef.current.filter(
+        (transaction) => transaction.status === "pending" && transaction.chainId === chainId,
+      )
+      for (const transaction of pending) {
+        try {
+          const check = await checkTransaction(provider, transaction, blockNumber)
+          if (cancelled) break
+          if (check.transaction === transaction) continue
+          const key = transactionKey(transaction)
+          update((current) => current.map((item) => (transactionKey(item) === key ? check.transaction : item)))
+          if (check.transaction.status !== "pending") report(check)
+        } catch (err) {
+          console.error("Failed to check transaction:", err)
+        }
+      }
+      checking = false
+    }
+
+    provider.getBlockNumber().then(checkPending).catch((err) => console.error("Failed to fetch block number:", err))
+    provider.on("block", checkPending)
+    return () => {
+      cancelled = true
+      provider.off("block", checkPending)
+    }
+  }, [client, chainId, update, report])
+
+  const track = useCallback(
+    async (tx: ethers.TransactionResponse, meta: TransactionMeta) => {
+      const transaction = trackedTransaction(tx, meta, await tx.provider.getBlockNumber())
+      const settled = new Promise<ethers.TransactionReceipt>((resolve, reject) => {
+        waiters.current.set(transaction.hash, { resolve, reject })
+      })
+      update((current) => [transaction, ...current])
+      return settled
+    },
+    [update],
+  )
+
+  const trackAdmin = useMemo(() => trackAdminWith(track), [track])
+
+  const dismiss = useCallback(
+    (key: string) => update((current) => current.filter((transaction) => transactionKey(transaction) !== key)),
+    [update],
+  )
+
+  const clearSettled = useCallback(
+    () => update((current) => current.filter((transaction) => transaction.status === "pending")),
+    [update],
+  )
+
+  const visible = transactions.filter((transaction) => transaction.chainId === chainId)
+
+  return (
+    <TransactionsContext.Provider value={{ transactions: visible, track, trackAdmin, dismiss, clearSettled }}>
+      {children}
+    </TransactionsContext.Provider>
+  )
+}
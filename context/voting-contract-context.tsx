@@ -1,65 +1,352 @@
 "use client"
 
-import { createContext, useContext, useState, useEffect, type ReactNode } from "react"
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  useReducer,
+  type Dispatch,
+  type ReactNode,
+} from "react"
 import { ethers } from "ethers"
-import VotingContract from "@/contracts/VotingSystem.json"
+import { VotingSystemClient } from "@/lib/voting-system-client"
+import { getNetwork, getReadOnlyNetwork, type NetworkConfig } from "@/lib/networks"
+import { ContractIndexer, canIndex, scanVotes, type IndexerOptions, type IndexerSnapshot } from "@/lib/indexer"
+import {
+  initialVotingStoreState,
+  votingStoreReducer,
+  type VotingStoreAction,
+  type VotingStoreState,
+} from "@/lib/voting-store"
+
+export type NetworkStatus = "connecting" | "ready" | "no-wallet" | "unsupported-network" | "not-deployed" | "error"
 
 interface VotingContractContextType {
-  contract: ethers.Contract | null
+  client: VotingSystemClient | null
   loading: boolean
   error: string | null
+  chainId: number | null
+  network: NetworkConfig | null
+  networkStatus: NetworkStatus
+  // True when browsing without a connected wallet; write paths must prompt for one
+  readOnly: boolean
+  switchNetwork: (chainId: number) => Promise<void>
 }
 
-const VotingContractContext = createContext<VotingContractContextType>({
-  contract: null,
+// Exported so tests can render components against a fake client instead of VotingContractProvider
+export const VotingContractContext = createContext<VotingContractContextType>({
+  client: null,
   loading: true,
   error: null,
+  chainId: null,
+  network: null,
+  networkStatus: "connecting",
+  readOnly: true,
+  switchNetwork: async () => {},
 })
 
 export const useVotingContract = () => useContext(VotingContractContext)
 
+interface VotingStoreContextType {
+  store: VotingStoreState
+  dispatch: Dispatch<VotingStoreAction>
+}
+
+export const VotingStoreContext = createContext<VotingStoreContextType>({
+  store: initialVotingStoreState,
+  dispatch: () => {},
+})
+
+// Live, event-driven contract state shared across dashboard tabs
+export const useVotingStore = () => useContext(VotingStoreContext)
+
 interface VotingContractProviderProps {
   children: ReactNode
 }
 
 export const VotingContractProvider = ({ children }: VotingContractProviderProps) => {
-  const [contract, setContract] = useState<ethers.Contract | null>(null)
+  const [client, setClient] = useState<VotingSystemClient | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [chainId, setChainId] = useState<number | null>(null)
+  const [network, setNetwork] = useState<NetworkConfig | null>(null)
+  const [networkStatus, setNetworkStatus] = useState<NetworkStatus>("connecting")
+  const [store, dispatch] = useReducer(votingStoreReducer, initialVotingStoreState)
 
-  useEffect(() => {
-    const initializeContract = async () => {
-      if (typeof window === "undefined" || !window.ethereum) {
+  // Without MetaMask, fall back to the configured JSON-RPC endpoint so elections can still be browsed
+  const initializeReadOnly = useCallback(async () => {
+    const readOnlyNetwork = getReadOnlyNetwork()
+    if (!readOnlyNetwork?.rpcUrl || !readOnlyNetwork.contractAddress) {
+      setNetworkStatus("no-wallet")
+      return
+    }
+
+    const provider = new ethers.JsonRpcProvider(readOnlyNetwork.rpcUrl, readOnlyNetwork.chainId, {
+      staticNetwork: true,
+    })
+
+    setChainId(readOnlyNetwork.chainId)
+    setNetwork(readOnlyNetwork)
+    setClient(
+      new VotingSystemClient(readOnlyNetwork.contractAddress, provider, {
+        deploymentBlock: readOnlyNetwork.deploymentBlock,
+      }),
+    )
+    setNetworkStatus("ready")
+    setError(null)
+  }, [])
+
+  const initializeContract = useCallback(async () => {
+    if (typeof window === "undefined" || !window.ethereum) {
+      try {
+        await initializeReadOnly()
+      } catch (err) {
+        console.error("Failed to initialize read-only contract:", err)
+        setNetworkStatus("error")
+        setError("Failed to reach the read-only RPC endpoint.")
+      } finally {
         setLoading(false)
+      }
+      return
+    }
+
+    try {
+      setLoading(true)
+      setClient(null)
+      setNetworkStatus("connecting")
+
+      // Connect to whichever chain MetaMask is on and look up our deployment there
+      const provider = new ethers.BrowserProvider(window.ethereum)
+      const currentChainId = Number((await provider.getNetwork()).chainId)
+      const currentNetwork = getNetwork(currentChainId)
+
+      setChainId(currentChainId)
+      setNetwork(currentNetwork)
+
+      if (!currentNetwork?.contractAddress) {
+        setNetworkStatus("unsupported-network")
+        setError(`The voting contract is not configured for chain ${currentChainId}.`)
         return
       }
 
+      // Guard against calling an address with no code, which fails with confusing decode errors
+      const code = await provider.getCode(currentNetwork.contractAddress)
+      if (code === "0x") {
+        setNetworkStatus("not-deployed")
+        setError(`No voting contract found at ${currentNetwork.contractAddress} on ${currentNetwork.name}.`)
+        return
+      }
+
+      // Only ask for a signer once the user has connected an account; until then browse read-only
+      const accounts: string[] = await provider.send("eth_accounts", [])
+      const runner = accounts.length > 0 ? await provider.getSigner(accounts[0]) : provider
+
+      // Create typed contract client
+      const votingClient = new VotingSystemClient(currentNetwork.contractAddress, runner, {
+        deploymentBlock: currentNetwork.deploymentBlock,
+      })
+
+      setClient(votingClient)
+      setNetworkStatus("ready")
+      setError(null)
+    } catch (err) {
+      console.error("Failed to initialize contract:", err)
+      setNetworkStatus("error")
+      setError("Failed to initialize contract. Please make sure MetaMask is connected.")
+    } finally {
+      setLoading(false)
+    }
+  }, [initializeReadOnly])
+
+  useEffect(() => {
+    initializeContract()
+
+    if (typeof window === "undefined" || !window.ethereum) return
+
+    // MetaMask recommends a reload on chain change; re-initializing the client is enough here.
+    // Account changes also re-initialize so writes are signed by the newly selected account.
+    const handleWalletChanged = () => {
+      initializeContract()
+    }
+
+    window.ethereum.on("chainChanged", handleWalletChanged)
+    window.ethereum.on("accountsChanged", handleWalletChanged)
+    return () => {
+      window.ethereum?.removeListener("chainChanged", handleWalletChanged)
+      window.ethereum?.removeListener("accountsChanged", handleWalletChanged)
+    }
+  }, [initializeContract])
+
+  // Keep the shared store current from new blocks and contract events instead of polling
+  useEffect(() => {
+    dispatch({ type: "reset" })
+    if (!client) return
+
+    let cancelled = false
+    const provider = client.provider
+
+    // Cached history renders immediately; the indexer then catches up from its last processed block.
+    // Without a known deployment on a public network there is nothing to replay from, so turnout is
+    // seeded from the ballots cast since the earliest election opened instead.
+    const indexerOptions: IndexerOptions | null = network && {
+      chainId: network.chainId,
+      deploymentBlock: network.deploymentBlock,
+      deploymentTransactionHash: network.deploymentTransactionHash,
+    }
+    const indexer = indexerOptions && canIndex(indexerOptions) ? new ContractIndexer(client, indexerOptions) : null
+
+    const hydrate = (snapshot: IndexerSnapshot | null) => {
+      if (snapshot && !cancelled) {
+        dispatch({
+          type: "hydrate",
+          elections: snapshot.elections,
+          candidates: snapshot.candidates,
+          votes: snapshot.votes,
+        })
+      }
+    }
+
+    const syncIndexer = (sync: Promise<IndexerSnapshot | null> | undefined) => {
+      sync?.then(hydrate).catch((err) => console.error("Failed to sync indexer:", err))
+    }
+
+    const seedTurnout = async () => {
       try {
-        // Connect to the Ethereum network
-        const provider = new ethers.BrowserProvider(window.ethereum)
-        const signer = await provider.getSigner()
+        const elections = await client.listElections()
+        if (elections.length === 0) return
+        const votes = await scanVotes(client, Math.min(...elections.map((election) => election.startTime)))
+        if (!cancelled) dispatch({ type: "votesLoaded", votes })
+      } catch (err) {
+        console.error("Failed to load turnout:", err)
+      }
+    }
 
-        // For demo purposes, we'll use a hardcoded contract address
-        // In a real app, this would come from environment variables or deployment
-        const contractAddress = "0xcf799805E4f6601BD77ABB917Aee7bC6318bFc14" // Example address
+    if (indexer) {
+      indexer
+        .load()
+        .then(hydrate)
+        .finally(() => syncIndexer(indexer.sync()))
+    } else {
+      seedTurnout()
+    }
 
-        // Create contract instance
-        const votingContract = new ethers.Contract(contractAddress, VotingContract.abi, signer)
+    const handleBlock = async (blockNumber: number) => {
+      try {
+        const block = await provider?.getBlock(blockNumber)
+        if (block && !cancelled) {
+          dispatch({ type: "block", blockNumber, blockTime: Number(block.timestamp) })
+        }
+      } catch (err) {
+        console.error("Failed to fetch block:", err)
+      }
+      // New blocks arrive far more often than the cache needs refreshing
+      syncIndexer(indexer?.syncIfDue())
+    }
+
+    provider?.getBlockNumber().then(handleBlock).catch((err) => console.error("Failed to fetch block number:", err))
+    provider?.on("block", handleBlock)
 
-        setContract(votingContract)
-        setError(null)
+    const reloadElection = async ({ electionId }: { electionId: bigint }) => {
+      try {
+        const election = await client.getElectionSummary(Number(electionId))
+        if (!cancelled) dispatch({ type: "electionUpdated", election })
       } catch (err) {
-        console.error("Failed to initialize contract:", err)
-        setError("Failed to initialize contract. Please make sure MetaMask is connected.")
-      } finally {
-        setLoading(false)
+        console.error("Failed to reload election:", err)
       }
     }
 
-    initializeContract()
+    const reloadCandidate = async ({ electionId, candidateId }: { electionId: bigint; candidateId: bigint }) => {
+      try {
+        const candidate = await client.getCandidate(Number(electionId), Number(candidateId))
+        if (!cancelled) dispatch({ type: "candidateUpdated", electionId: Number(electionId), candidate })
+      } catch (err) {
+        console.error("Failed to reload candidate:", err)
+      }
+    }
+
+    const unsubscribe = client.subscribe({
+      ElectionCreated: async ({ electionId }) => {
+        try {
+          const election = await client.getElectionSummary(Number(electionId))
+          if (!cancelled) dispatch({ type: "electionCreated", election })
+        } catch (err) {
+          console.error("Failed to load created election:", err)
+        }
+      },
+      CandidateAdded: async ({ electionId, candidateId }) => {
+        try {
+          const candidate = await client.getCandidate(Number(electionId), Number(candidateId))
+          if (!cancelled) dispatch({ type: "candidateAdded", electionId: Number(electionId), candidate })
+        } catch (err) {
+          console.error("Failed to load added candidate:", err)
+        }
+      },
+      CandidateUpdated: reloadCandidate,
+      CandidateWithdrawn: reloadCandidate,
+      VoteCast: ({ electionId, voter }) => {
+        dispatch({ type: "voteCast", electionId: Number(electionId), voter })
+      },
+      DelegatedVoteCounted: ({ electionId, delegator }) => {
+        dispatch({ type: "voteCast", electionId: Number(electionId), voter: delegator })
+      },
+      ResultsPublished: ({ electionId }) => {
+        dispatch({ type: "resultsPublished", electionId: Number(electionId) })
+      },
+      VoterRootSet: ({ electionId, root }) => {
+        dispatch({ type: "voterRootSet", electionId: Number(electionId), root })
+      },
+      VoterWeightsSet: ({ electionId, root }) => {
+        dispatch({ type: "voterRootSet", electionId: Number(electionId), root })
+      },
+      // Reveal counts, edits and lifecycle changes are all part of the election row
+      VoteRevealed: reloadElection,
+      ElectionUpdated: reloadElection,
+      ElectionCancelled: reloadElection,
+      ElectionExtended: reloadElection,
+      ElectionPaused: reloadElection,
+      ElectionResumed: reloadElection,
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+      provider?.off("block", handleBlock)
+    }
+  }, [client, network])
+
+  const switchNetwork = useCallback(async (targetChainId: number) => {
+    if (!window.ethereum) return
+
+    const hexChainId = ethers.toQuantity(targetChainId)
+    try {
+      await window.ethereum.request({ method: "wallet_switchEthereumChain", params: [{ chainId: hexChainId }] })
+    } catch (err: any) {
+      // 4902: the chain has not been added to MetaMask yet
+      const target = getNetwork(targetChainId)
+      if (err?.code !== 4902 || !target?.rpcUrl) throw err
+
+      await window.ethereum.request({
+        method: "wallet_addEthereumChain",
+        params: [
+          {
+            chainId: hexChainId,
+            chainName: target.name,
+            rpcUrls: [target.rpcUrl],
+            nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+            blockExplorerUrls: target.blockExplorerUrl ? [target.blockExplorerUrl] : undefined,
+          },
+        ],
+      })
+    }
   }, [])
 
   return (
-    <VotingContractContext.Provider value={{ contract, loading, error }}>{children}</VotingContractContext.Provider>
+    <VotingContractContext.Provider
+      value={{ client, loading, error, chainId, network, networkStatus, readOnly: client?.readOnly ?? true, switchNetwork }}
+    >
+      <VotingStoreContext.Provider value={{ store, dispatch }}>{children}</VotingStoreContext.Provider>
+    </VotingContractContext.Provider>
   )
 }
@@ -2,10 +2,36 @@
 pragma solidity ^0.8.19;
 
 contract VotingSystem {
+    enum ElectionType {
+        Plurality,
+        // Instant-runoff: ballots rank candidates and are tallied off-chain from getRankedBallots
+        RankedChoice,
+        // Ballots select a set of candidates (up to maxSelections, or any number when it is zero); the top `seats` win
+        Approval,
+        // Single choice, but each vote counts with the voter's weight from the weighted voter roll
+        Weighted
+    }
+
+    // Creation settings beyond name and schedule
+    struct ElectionOptions {
+        ElectionType electionType;
+        // Non-zero makes a plurality election commit–reveal, with reveals accepted until this time
+        uint256 revealEndTime;
+        uint256 maxSelections;
+        uint256 seats;
+    }
+
     struct Candidate {
         string name;
         string info;
+        // Sum of voter weights in weighted elections, otherwise the number of votes
         uint256 voteCount;
+        // Number of voters behind voteCount; only tracked for weighted elections
+        uint256 voterCount;
+        // Withdrawn before the election started; kept so candidate ids stay stable
+        bool withdrawn;
+        // sha256 of the off-chain profile document (the digest inside its raw IPFS CID); zero when there is none
+        bytes32 profileHash;
     }
 
     struct Election {
@@ -14,9 +40,65 @@ contract VotingSystem {
         uint256 startTime;
         uint256 endTime;
         bool exists;
+        bool cancelled;
+        // Voting functions revert while paused; the schedule keeps running
+        bool paused;
+        // endTime was moved later after the election started
+        bool extended;
+        // Commit–reveal elections only: votes are revealed between endTime and revealEndTime. Zero for open ballots.
+        uint256 revealEndTime;
+        ElectionType electionType;
+        uint256 maxSelections;
+        uint256 seats;
+    }
+
+    // Flattened read models returned by the paged view functions
+    struct ElectionView {
+        uint256 id;
+        string name;
+        string description;
+        uint256 startTime;
+        uint256 endTime;
+        uint256 candidateCount;
+        bool resultsPublished;
+        bytes32 voterRoot;
+        uint256 revealEndTime;
+        uint256 revealCount;
+        ElectionType electionType;
+        uint256 maxSelections;
+        uint256 seats;
+        bool cancelled;
+        bool paused;
+        bool extended;
+    }
+
+    // SuperAdmin is always global; the other roles are granted per election or for ALL_ELECTIONS
+    enum Role { SuperAdmin, ElectionAdmin, CandidateManager, Auditor }
+
+    struct CandidateView {
+        uint256 id;
+        string name;
+        string info;
+        bool withdrawn;
+        bytes32 profileHash;
+    }
+
+    // An appointed delegate; a delegation made after an election's endTime does not count for that election
+    struct Delegation {
+        address delegate;
+        uint256 since;
     }
 
+    // Scope for roles and delegations that cover every election, including ones created later
+    uint256 public constant ALL_ELECTIONS = type(uint256).max;
+
+    // EIP-712 ballot a voter signs so a relayer can submit it with voteBySig
+    bytes32 private constant BALLOT_TYPEHASH =
+        keccak256("Ballot(uint256 electionId,uint256 candidateId,uint256 nonce,uint256 deadline)");
+
+    // Always holds every role; starts as the deployer and changes through transferOwnership / acceptOwnership
     address public owner;
+    address public pendingOwner;
     uint256 public electionCount;
 
     mapping(uint256 => Election) public elections;
@@ -24,107 +106,621 @@ contract VotingSystem {
     mapping(uint256 => uint256) public candidateCounts;
     mapping(uint256 => mapping(address => bool)) public hasVoted;
     mapping(uint256 => bool) public resultsPublished;
+    // Merkle root of eligible voter addresses; zero means any address may vote
+    mapping(uint256 => bytes32) public voterRoots;
+    // Sealed ballots: keccak256(abi.encodePacked(voter, candidateId, salt)) per voter, so a copied commitment cannot be revealed by anyone else
+    mapping(uint256 => mapping(address => bytes32)) public voteCommitments;
+    mapping(uint256 => mapping(address => bool)) public hasRevealed;
+    mapping(uint256 => uint256) public revealCounts;
+    // Candidate ids in preference order, one entry per ballot, for ranked-choice elections
+    mapping(uint256 => uint256[][]) private rankedBallots;
+    // role => election id (or ALL_ELECTIONS) => account
+    mapping(Role => mapping(uint256 => mapping(address => bool))) private roles;
+    // election id (or ALL_ELECTIONS) => delegator => delegation; a per-election delegation overrides the global one
+    mapping(uint256 => mapping(address => Delegation)) private delegations;
+    // Candidate ids each direct voter chose (in preference order for ranked-choice), replayed for their delegators
+    mapping(uint256 => mapping(address => uint256[])) private castBallots;
+    // Next nonce each voter must sign; increases with every ballot relayed through voteBySig
+    mapping(address => uint256) public ballotNonces;
 
     event ElectionCreated(uint256 electionId, string name, uint256 startTime, uint256 endTime);
     event CandidateAdded(uint256 electionId, uint256 candidateId, string name);
+    event CandidateUpdated(uint256 indexed electionId, uint256 candidateId, string name);
+    event CandidateWithdrawn(uint256 indexed electionId, uint256 candidateId);
     event VoteCast(uint256 electionId, address voter);
     event ResultsPublished(uint256 electionId);
+    // voters is empty when the admin distributes the roll off-chain
+    event VoterRootSet(uint256 indexed electionId, bytes32 root, address[] voters);
+    event VoteRevealed(uint256 electionId, address voter);
+    event VoterWeightsSet(uint256 indexed electionId, bytes32 root, address[] voters, uint256[] weights);
+    event RoleGranted(Role role, address indexed account, uint256 indexed electionId, address indexed sender);
+    event RoleRevoked(Role role, address indexed account, uint256 indexed electionId, address indexed sender);
+    event ElectionUpdated(uint256 indexed electionId);
+    event ElectionCancelled(uint256 indexed electionId, string reason);
+    event ElectionExtended(uint256 indexed electionId, uint256 newEndTime);
+    event ElectionPaused(uint256 indexed electionId);
+    event ElectionResumed(uint256 indexed electionId);
+    event OwnershipTransferStarted(address indexed previousOwner, address indexed newOwner);
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    // delegate is address(0) when a delegation is cleared
+    event DelegateChanged(address indexed delegator, uint256 indexed electionId, address indexed delegate);
+    event DelegatedVoteCounted(uint256 indexed electionId, address indexed delegator, address indexed delegate);
+
+    // Reverts carry enough context for lib/contract-errors.ts to explain them to the user
+    error NotOwner();
+    error NotPendingOwner();
+    error MissingRole(Role role, uint256 electionId);
+    error InvalidAccount();
+    error SuperAdminNotScopable();
+    error ElectionNotFound(uint256 electionId);
+    error ElectionIsCancelled(uint256 electionId);
+    error ElectionNotActive(uint256 startTime, uint256 endTime, uint256 currentTime);
+    error ElectionAlreadyStarted(uint256 startTime, uint256 currentTime);
+    error ElectionAlreadyEnded(uint256 endTime, uint256 currentTime);
+    error ElectionNotEnded(uint256 endTime, uint256 currentTime);
+    error NotInRevealPeriod(uint256 endTime, uint256 revealEndTime, uint256 currentTime);
+    error RevealPeriodNotEnded(uint256 revealEndTime, uint256 currentTime);
+    error VotingIsPaused(uint256 electionId);
+    error VotingNotPaused(uint256 electionId);
+    error InvalidSchedule(uint256 startTime, uint256 endTime);
+    error StartTimeInPast(uint256 startTime, uint256 currentTime);
+    error InvalidRevealEndTime(uint256 endTime, uint256 revealEndTime);
+    error EndTimeNotLater(uint256 endTime, uint256 newEndTime);
+    error BallotSecrecyLocked();
+    error CommitRevealNotSupported(ElectionType electionType);
+    error SeatsRequired();
+    error SelectionLimitsNotSupported(ElectionType electionType);
+    error ResultsAlreadyPublished(uint256 electionId);
+    error ResultsNotPublished(uint256 electionId);
+    error NoCandidatesToAdd();
+    error LengthMismatch();
+    error InvalidCandidate(uint256 candidateId);
+    error CandidateIsWithdrawn(uint256 candidateId);
+    error DuplicateCandidate(uint256 candidateId);
+    error InvalidRanking();
+    error NoCandidatesSelected();
+    error TooManySelections(uint256 selected, uint256 maxSelections);
+    error WrongElectionType(ElectionType electionType);
+    error CommitRevealRequired();
+    error NotCommitReveal();
+    error AlreadyVoted(uint256 electionId, address voter);
+    error NotOnVoterRoll(uint256 electionId, address voter);
+    error NoVotingWeight();
+    error VotingWeightNotVerified(address voter, uint256 weight);
+    error InvalidCommitment();
+    error NoCommitment();
+    error AlreadyRevealed();
+    error RevealMismatch();
+    error SignatureExpired(uint256 deadline, uint256 currentTime);
+    error InvalidSignature();
+    error SelfDelegation();
+    error DelegationNotSupported();
 
     modifier onlyOwner() {
-        require(msg.sender == owner, "Only the owner can call this function");
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    modifier onlyRole(Role _role, uint256 _electionId) {
+        if (!hasRole(_role, msg.sender, _electionId)) revert MissingRole(_role, _electionId);
+        _;
+    }
+
+    // Candidate lists can only change before voting starts
+    modifier candidatesEditable(uint256 _electionId) {
+        if (!hasRole(Role.ElectionAdmin, msg.sender, _electionId) && !hasRole(Role.CandidateManager, msg.sender, _electionId)) {
+            revert MissingRole(Role.CandidateManager, _electionId);
+        }
+        _checkNotCancelled(_electionId);
+        _checkNotStarted(_electionId);
         _;
     }
 
     modifier electionExists(uint256 _electionId) {
-        require(elections[_electionId].exists, "Election does not exist");
+        if (!elections[_electionId].exists) revert ElectionNotFound(_electionId);
         _;
     }
 
     modifier electionActive(uint256 _electionId) {
-        require(
-            block.timestamp >= elections[_electionId].startTime &&
-            block.timestamp <= elections[_electionId].endTime,
-            "Election is not active"
-        );
+        _checkActive(_electionId);
         _;
     }
 
     modifier electionEnded(uint256 _electionId) {
-        require(
-            block.timestamp > elections[_electionId].endTime,
-            "Election has not ended yet"
-        );
+        uint256 endTime = elections[_electionId].endTime;
+        if (block.timestamp <= endTime) revert ElectionNotEnded(endTime, block.timestamp);
+        _;
+    }
+
+    modifier revealPeriod(uint256 _electionId) {
+        _checkNotCancelled(_electionId);
+        Election storage election = elections[_electionId];
+        if (block.timestamp <= election.endTime || block.timestamp > election.revealEndTime) {
+            revert NotInRevealPeriod(election.endTime, election.revealEndTime, block.timestamp);
+        }
         _;
     }
 
     modifier hasNotVoted(uint256 _electionId) {
-        require(!hasVoted[_electionId][msg.sender], "You have already voted in this election");
+        _checkNotVoted(_electionId, msg.sender);
         _;
     }
 
     constructor() {
         owner = msg.sender;
         electionCount = 0;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
+
+    // Two steps so a mistyped address cannot take over administration; proposing address(0) cancels
+    function transferOwnership(address _newOwner) public onlyOwner {
+        pendingOwner = _newOwner;
+        emit OwnershipTransferStarted(owner, _newOwner);
+    }
+
+    function acceptOwnership() public {
+        if (msg.sender != pendingOwner) revert NotPendingOwner();
+
+        emit OwnershipTransferred(owner, msg.sender);
+        owner = msg.sender;
+        pendingOwner = address(0);
     }
 
     function createElection(
         string memory _name,
         string memory _description,
         uint256 _startTime,
-        uint256 _endTime
-    ) public onlyOwner {
-        require(_startTime < _endTime, "End time must be after start time");
-        require(_startTime > block.timestamp, "Start time must be in the future");
+        uint256 _endTime,
+        ElectionOptions calldata _options
+    ) public onlyRole(Role.ElectionAdmin, ALL_ELECTIONS) {
+        _checkSchedule(_startTime, _endTime, _options.revealEndTime);
+        if (_options.revealEndTime != 0 && _options.electionType != ElectionType.Plurality) {
+            revert CommitRevealNotSupported(_options.electionType);
+        }
+        if (_options.electionType == ElectionType.Approval) {
+            if (_options.seats == 0) revert SeatsRequired();
+        } else if (_options.maxSelections != 0 || _options.seats > 1) {
+            revert SelectionLimitsNotSupported(_options.electionType);
+        }
 
         elections[electionCount] = Election({
             name: _name,
             description: _description,
             startTime: _startTime,
             endTime: _endTime,
-            exists: true
+            exists: true,
+            cancelled: false,
+            paused: false,
+            extended: false,
+            revealEndTime: _options.revealEndTime,
+            electionType: _options.electionType,
+            maxSelections: _options.maxSelections,
+            seats: _options.electionType == ElectionType.Approval ? _options.seats : 1
         });
 
         emit ElectionCreated(electionCount, _name, _startTime, _endTime);
         electionCount++;
     }
 
+    // Name, description and schedule can change until voting starts; secret ballots must keep a reveal deadline
+    function editElection(
+        uint256 _electionId,
+        string memory _name,
+        string memory _description,
+        uint256 _startTime,
+        uint256 _endTime,
+        uint256 _revealEndTime
+    ) public onlyRole(Role.ElectionAdmin, _electionId) electionExists(_electionId) {
+        Election storage election = elections[_electionId];
+        _checkNotCancelled(_electionId);
+        _checkNotStarted(_electionId);
+        if ((_revealEndTime == 0) != (election.revealEndTime == 0)) revert BallotSecrecyLocked();
+        _checkSchedule(_startTime, _endTime, _revealEndTime);
+
+        election.name = _name;
+        election.description = _description;
+        election.startTime = _startTime;
+        election.endTime = _endTime;
+        election.revealEndTime = _revealEndTime;
+        emit ElectionUpdated(_electionId);
+    }
+
+    function cancelElection(
+        uint256 _electionId,
+        string calldata _reason
+    ) public onlyRole(Role.ElectionAdmin, _electionId) electionExists(_electionId) {
+        _checkNotCancelled(_electionId);
+        if (resultsPublished[_electionId]) revert ResultsAlreadyPublished(_electionId);
+
+        elections[_electionId].cancelled = true;
+        emit ElectionCancelled(_electionId, _reason);
+    }
+
+    // Secret ballots keep the same reveal window length after the new end time
+    function extendElection(
+        uint256 _electionId,
+        uint256 _newEndTime
+    ) public onlyRole(Role.ElectionAdmin, _electionId) electionExists(_electionId) {
+        Election storage election = elections[_electionId];
+        _checkNotCancelled(_electionId);
+        if (block.timestamp < election.startTime || block.timestamp > election.endTime) {
+            revert ElectionNotActive(election.startTime, election.endTime, block.timestamp);
+        }
+        if (_newEndTime <= election.endTime) revert EndTimeNotLater(election.endTime, _newEndTime);
+
+        if (election.revealEndTime != 0) {
+            election.revealEndTime += _newEndTime - election.endTime;
+        }
+        election.endTime = _newEndTime;
+        election.extended = true;
+        emit ElectionExtended(_electionId, _newEndTime);
+    }
+
+    function pauseElection(uint256 _electionId) public onlyRole(Role.ElectionAdmin, _electionId) electionExists(_electionId) {
+        Election storage election = elections[_electionId];
+        _checkNotCancelled(_electionId);
+        if (election.paused) revert VotingIsPaused(_electionId);
+        if (block.timestamp > election.endTime) revert ElectionAlreadyEnded(election.endTime, block.timestamp);
+
+        election.paused = true;
+        emit ElectionPaused(_electionId);
+    }
+
+    function resumeElection(uint256 _electionId) public onlyRole(Role.ElectionAdmin, _electionId) electionExists(_electionId) {
+        _checkNotCancelled(_electionId);
+        if (!elections[_electionId].paused) revert VotingNotPaused(_electionId);
+
+        elections[_electionId].paused = false;
+        emit ElectionResumed(_electionId);
+    }
+
     function addCandidate(
         uint256 _electionId,
         string memory _name,
-        string memory _info
-    ) public onlyOwner electionExists(_electionId) {
-        require(block.timestamp < elections[_electionId].startTime, "Cannot add candidates after election has started");
+        string memory _info,
+        bytes32 _profileHash
+    ) public electionExists(_electionId) candidatesEditable(_electionId) {
+        _addCandidate(_electionId, _name, _info, _profileHash);
+    }
 
-        uint256 candidateId = candidateCounts[_electionId];
-        candidates[_electionId][candidateId] = Candidate({
-            name: _name,
-            info: _info,
-            voteCount: 0
-        });
+    // Bulk import in one transaction; emits CandidateAdded for each entry
+    function addCandidates(
+        uint256 _electionId,
+        string[] calldata _names,
+        string[] calldata _infos,
+        bytes32[] calldata _profileHashes
+    ) public electionExists(_electionId) candidatesEditable(_electionId) {
+        if (_names.length == 0) revert NoCandidatesToAdd();
+        if (_names.length != _infos.length || _names.length != _profileHashes.length) revert LengthMismatch();
 
-        emit CandidateAdded(_electionId, candidateId, _name);
-        candidateCounts[_electionId]++;
+        for (uint256 i = 0; i < _names.length; i++) {
+            _addCandidate(_electionId, _names[i], _infos[i], _profileHashes[i]);
+        }
     }
 
-    function vote(
+    function updateCandidate(
+        uint256 _electionId,
+        uint256 _candidateId,
+        string memory _name,
+        string memory _info,
+        bytes32 _profileHash
+    ) public electionExists(_electionId) candidatesEditable(_electionId) {
+        _checkCandidate(_electionId, _candidateId);
+
+        Candidate storage candidate = candidates[_electionId][_candidateId];
+        candidate.name = _name;
+        candidate.info = _info;
+        candidate.profileHash = _profileHash;
+        emit CandidateUpdated(_electionId, _candidateId, _name);
+    }
+
+    function withdrawCandidate(
         uint256 _electionId,
         uint256 _candidateId
+    ) public electionExists(_electionId) candidatesEditable(_electionId) {
+        _checkCandidate(_electionId, _candidateId);
+
+        candidates[_electionId][_candidateId].withdrawn = true;
+        emit CandidateWithdrawn(_electionId, _candidateId);
+    }
+
+    function setVoterRoot(
+        uint256 _electionId,
+        bytes32 _root,
+        address[] calldata _voters
+    ) public onlyRole(Role.ElectionAdmin, _electionId) electionExists(_electionId) {
+        _checkNotStarted(_electionId);
+        if (elections[_electionId].electionType == ElectionType.Weighted) revert WrongElectionType(ElectionType.Weighted);
+
+        voterRoots[_electionId] = _root;
+        emit VoterRootSet(_electionId, _root, _voters);
+    }
+
+    // Root over keccak256(abi.encodePacked(voter, weight)) leaves; voters and weights may be empty when distributed off-chain
+    function setVoterWeights(
+        uint256 _electionId,
+        bytes32 _root,
+        address[] calldata _voters,
+        uint256[] calldata _weights
+    ) public onlyRole(Role.ElectionAdmin, _electionId) electionExists(_electionId) {
+        _checkNotStarted(_electionId);
+        _checkElectionType(_electionId, ElectionType.Weighted);
+        if (_voters.length != _weights.length) revert LengthMismatch();
+
+        voterRoots[_electionId] = _root;
+        emit VoterWeightsSet(_electionId, _root, _voters, _weights);
+    }
+
+    function vote(
+        uint256 _electionId,
+        uint256 _candidateId,
+        bytes32[] calldata _proof
+    ) public electionExists(_electionId) electionActive(_electionId) {
+        _vote(_electionId, _candidateId, msg.sender, _proof);
+    }
+
+    // Gasless plurality vote: anyone may submit a ballot the voter signed as EIP-712 typed data.
+    // The nonce makes each signature single-use and the deadline bounds how long a relayer may hold it.
+    function voteBySig(
+        uint256 _electionId,
+        uint256 _candidateId,
+        address _voter,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s,
+        bytes32[] calldata _proof
+    ) public electionExists(_electionId) electionActive(_electionId) {
+        if (block.timestamp > _deadline) revert SignatureExpired(_deadline, block.timestamp);
+        bytes32 structHash = keccak256(
+            abi.encode(BALLOT_TYPEHASH, _electionId, _candidateId, ballotNonces[_voter], _deadline)
+        );
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", _domainSeparator(), structHash));
+        address signer = ecrecover(digest, _v, _r, _s);
+        if (signer == address(0) || signer != _voter) revert InvalidSignature();
+
+        ballotNonces[_voter]++;
+        _vote(_electionId, _candidateId, _voter, _proof);
+    }
+
+    function voteWeighted(
+        uint256 _electionId,
+        uint256 _candidateId,
+        uint256 _weight,
+        bytes32[] calldata _proof
     ) public electionExists(_electionId) electionActive(_electionId) hasNotVoted(_electionId) {
-        require(_candidateId < candidateCounts[_electionId], "Invalid candidate");
+        _checkElectionType(_electionId, ElectionType.Weighted);
+        _checkCandidate(_electionId, _candidateId);
+        if (_weight == 0) revert NoVotingWeight();
+        if (!hasVotingWeight(_electionId, msg.sender, _weight, _proof)) revert VotingWeightNotVerified(msg.sender, _weight);
 
-        // Record the vote
-        candidates[_electionId][_candidateId].voteCount++;
+        Candidate storage candidate = candidates[_electionId][_candidateId];
+        candidate.voteCount += _weight;
+        candidate.voterCount++;
+        hasVoted[_electionId][msg.sender] = true;
+
+        emit VoteCast(_electionId, msg.sender);
+    }
+
+    // Ranked ballot: candidate ids in preference order; unranked candidates may be left off.
+    // The first preference also counts towards voteCount so getVoteCounts reports first-round totals.
+    function voteRanked(
+        uint256 _electionId,
+        uint256[] calldata _rankings,
+        bytes32[] calldata _proof
+    ) public electionExists(_electionId) electionActive(_electionId) hasNotVoted(_electionId) {
+        _checkElectionType(_electionId, ElectionType.RankedChoice);
+        _checkEligible(_electionId, msg.sender, _proof);
+
+        uint256 count = candidateCounts[_electionId];
+        if (_rankings.length == 0 || _rankings.length > count) revert InvalidRanking();
+
+        bool[] memory ranked = new bool[](count);
+        for (uint256 i = 0; i < _rankings.length; i++) {
+            _checkCandidate(_electionId, _rankings[i]);
+            if (ranked[_rankings[i]]) revert DuplicateCandidate(_rankings[i]);
+            ranked[_rankings[i]] = true;
+        }
+
+        rankedBallots[_electionId].push(_rankings);
+        candidates[_electionId][_rankings[0]].voteCount++;
         hasVoted[_electionId][msg.sender] = true;
+        castBallots[_electionId][msg.sender] = _rankings;
 
         emit VoteCast(_electionId, msg.sender);
     }
 
-    function publishResults(uint256 _electionId) public onlyOwner electionExists(_electionId) electionEnded(_electionId) {
+    // Approval / select-up-to-N ballot: one vote for every selected candidate
+    function voteApproval(
+        uint256 _electionId,
+        uint256[] calldata _candidateIds,
+        bytes32[] calldata _proof
+    ) public electionExists(_electionId) electionActive(_electionId) hasNotVoted(_electionId) {
+        Election storage election = elections[_electionId];
+        _checkElectionType(_electionId, ElectionType.Approval);
+        _checkEligible(_electionId, msg.sender, _proof);
+        if (_candidateIds.length == 0) revert NoCandidatesSelected();
+        if (election.maxSelections != 0 && _candidateIds.length > election.maxSelections) {
+            revert TooManySelections(_candidateIds.length, election.maxSelections);
+        }
+
+        uint256 count = candidateCounts[_electionId];
+        bool[] memory selected = new bool[](count);
+        for (uint256 i = 0; i < _candidateIds.length; i++) {
+            _checkCandidate(_electionId, _candidateIds[i]);
+            if (selected[_candidateIds[i]]) revert DuplicateCandidate(_candidateIds[i]);
+            selected[_candidateIds[i]] = true;
+            candidates[_electionId][_candidateIds[i]].voteCount++;
+        }
+
+        hasVoted[_electionId][msg.sender] = true;
+        castBallots[_electionId][msg.sender] = _candidateIds;
+
+        emit VoteCast(_electionId, msg.sender);
+    }
+
+    // Commit–reveal voting: only the commitment is stored while the election is active,
+    // so no tally exists on-chain until ballots are revealed after endTime
+    function commitVote(
+        uint256 _electionId,
+        bytes32 _commitment,
+        bytes32[] calldata _proof
+    ) public electionExists(_electionId) electionActive(_electionId) hasNotVoted(_electionId) {
+        if (elections[_electionId].revealEndTime == 0) revert NotCommitReveal();
+        if (_commitment == bytes32(0)) revert InvalidCommitment();
+        _checkEligible(_electionId, msg.sender, _proof);
+
+        voteCommitments[_electionId][msg.sender] = _commitment;
+        hasVoted[_electionId][msg.sender] = true;
+
+        emit VoteCast(_electionId, msg.sender);
+    }
+
+    function revealVote(
+        uint256 _electionId,
+        uint256 _candidateId,
+        bytes32 _salt
+    ) public electionExists(_electionId) revealPeriod(_electionId) {
+        bytes32 commitment = voteCommitments[_electionId][msg.sender];
+        if (commitment == bytes32(0)) revert NoCommitment();
+        if (hasRevealed[_electionId][msg.sender]) revert AlreadyRevealed();
+        if (keccak256(abi.encodePacked(msg.sender, _candidateId, _salt)) != commitment) revert RevealMismatch();
+        _checkCandidate(_electionId, _candidateId);
+
+        hasRevealed[_electionId][msg.sender] = true;
+        revealCounts[_electionId]++;
+        candidates[_electionId][_candidateId].voteCount++;
+
+        emit VoteRevealed(_electionId, msg.sender);
+    }
+
+    // Appoints a delegate for one election, or for every election with ALL_ELECTIONS; address(0) clears it.
+    // Delegation only applies to open ballots that are not weighted, and is not followed through chains.
+    function delegateVote(uint256 _electionId, address _delegate) public {
+        if (_delegate == msg.sender) revert SelfDelegation();
+        if (_electionId != ALL_ELECTIONS) {
+            Election storage election = elections[_electionId];
+            if (!election.exists) revert ElectionNotFound(_electionId);
+            if (election.electionType == ElectionType.Weighted || election.revealEndTime != 0) {
+                revert DelegationNotSupported();
+            }
+            _checkNotCancelled(_electionId);
+            if (block.timestamp > election.endTime) revert ElectionAlreadyEnded(election.endTime, block.timestamp);
+            _checkNotVoted(_electionId, msg.sender);
+        }
+
+        delegations[_electionId][msg.sender] = Delegation(_delegate, block.timestamp);
+        emit DelegateChanged(msg.sender, _electionId, _delegate);
+    }
+
+    // Once voting has closed, counts the delegate's ballot for each delegator who did not vote themselves,
+    // so a direct vote always overrides the delegation. Anyone may call it; delegators that do not
+    // qualify are skipped rather than reverting the batch.
+    function countDelegatedVotes(
+        uint256 _electionId,
+        address[] calldata _delegators,
+        bytes32[][] calldata _proofs
+    ) public electionExists(_electionId) electionEnded(_electionId) {
+        _checkNotCancelled(_electionId);
+        if (resultsPublished[_electionId]) revert ResultsAlreadyPublished(_electionId);
+        if (_delegators.length != _proofs.length) revert LengthMismatch();
+
+        for (uint256 i = 0; i < _delegators.length; i++) {
+            address delegator = _delegators[i];
+            address delegate = delegateOf(_electionId, delegator);
+            uint256[] storage ballot = castBallots[_electionId][delegate];
+            if (
+                ballot.length == 0 ||
+                hasVoted[_electionId][delegator] ||
+                !isEligible(_electionId, delegator, _proofs[i])
+            ) {
+                continue;
+            }
+
+            if (elections[_electionId].electionType == ElectionType.RankedChoice) {
+                rankedBallots[_electionId].push(ballot);
+                candidates[_electionId][ballot[0]].voteCount++;
+            } else {
+                for (uint256 j = 0; j < ballot.length; j++) {
+                    candidates[_electionId][ballot[j]].voteCount++;
+                }
+            }
+            hasVoted[_electionId][delegator] = true;
+
+            emit DelegatedVoteCounted(_electionId, delegator, delegate);
+        }
+    }
+
+    function publishResults(
+        uint256 _electionId
+    ) public onlyRole(Role.ElectionAdmin, _electionId) electionExists(_electionId) electionEnded(_electionId) {
+        _checkNotCancelled(_electionId);
+        uint256 revealEndTime = elections[_electionId].revealEndTime;
+        if (block.timestamp <= revealEndTime) revert RevealPeriodNotEnded(revealEndTime, block.timestamp);
+
         resultsPublished[_electionId] = true;
         emit ResultsPublished(_electionId);
     }
 
+    function grantRole(Role _role, address _account, uint256 _electionId) public onlyRole(Role.SuperAdmin, ALL_ELECTIONS) {
+        _checkRoleScope(_role, _account, _electionId);
+        if (!roles[_role][_electionId][_account]) {
+            roles[_role][_electionId][_account] = true;
+            emit RoleGranted(_role, _account, _electionId, msg.sender);
+        }
+    }
+
+    function revokeRole(Role _role, address _account, uint256 _electionId) public onlyRole(Role.SuperAdmin, ALL_ELECTIONS) {
+        _checkRoleScope(_role, _account, _electionId);
+        if (roles[_role][_electionId][_account]) {
+            roles[_role][_electionId][_account] = false;
+            emit RoleRevoked(_role, _account, _electionId, msg.sender);
+        }
+    }
+
     // View functions
+    // Super admins hold every role, and a role granted for ALL_ELECTIONS covers each election
+    function hasRole(Role _role, address _account, uint256 _electionId) public view returns (bool) {
+        return
+            _account == owner ||
+            roles[Role.SuperAdmin][ALL_ELECTIONS][_account] ||
+            roles[_role][_electionId][_account] ||
+            roles[_role][ALL_ELECTIONS][_account];
+    }
+
+    // Pass ALL_ELECTIONS for the global delegation; since is zero when none was ever made
+    function getDelegation(uint256 _electionId, address _delegator) public view returns (address delegate, uint256 since) {
+        Delegation storage delegation = delegations[_electionId][_delegator];
+        return (delegation.delegate, delegation.since);
+    }
+
+    // Delegate whose ballot would count for the voter in this election, or address(0)
+    function delegateOf(uint256 _electionId, address _delegator) public view returns (address) {
+        Delegation storage delegation = delegations[_electionId][_delegator];
+        if (delegation.since == 0) {
+            delegation = delegations[ALL_ELECTIONS][_delegator];
+        }
+        return delegation.since <= elections[_electionId].endTime ? delegation.delegate : address(0);
+    }
+
+    function isEligible(uint256 _electionId, address _voter, bytes32[] calldata _proof) public view returns (bool) {
+        bytes32 root = voterRoots[_electionId];
+        if (root == bytes32(0)) {
+            return true;
+        }
+        return _verifyProof(_proof, root, keccak256(abi.encodePacked(_voter)));
+    }
+
+    function hasVotingWeight(
+        uint256 _electionId,
+        address _voter,
+        uint256 _weight,
+        bytes32[] calldata _proof
+    ) public view returns (bool) {
+        bytes32 root = voterRoots[_electionId];
+        return root != bytes32(0) && _verifyProof(_proof, root, keccak256(abi.encodePacked(_voter, _weight)));
+    }
+
     function getElectionCount() public view returns (uint256) {
         return electionCount;
     }
@@ -133,19 +729,236 @@ contract VotingSystem {
         return candidateCounts[_electionId];
     }
 
-    function getCandidate(uint256 _electionId, uint256 _candidateId) public view returns (string memory name, string memory info) {
-        require(_electionId < electionCount, "Election does not exist");
-        require(_candidateId < candidateCounts[_electionId], "Candidate does not exist");
-        
+    function getCandidate(
+        uint256 _electionId,
+        uint256 _candidateId
+    ) public view returns (string memory name, string memory info, bool withdrawn, bytes32 profileHash) {
+        if (_electionId >= electionCount) revert ElectionNotFound(_electionId);
+        if (_candidateId >= candidateCounts[_electionId]) revert InvalidCandidate(_candidateId);
+
         Candidate memory candidate = candidates[_electionId][_candidateId];
-        return (candidate.name, candidate.info);
+        return (candidate.name, candidate.info, candidate.withdrawn, candidate.profileHash);
     }
 
     function getVoteCount(uint256 _electionId, uint256 _candidateId) public view returns (uint256) {
-        require(_electionId < electionCount, "Election does not exist");
-        require(_candidateId < candidateCounts[_electionId], "Candidate does not exist");
-        require(resultsPublished[_electionId], "Results have not been published yet");
-        
+        if (_electionId >= electionCount) revert ElectionNotFound(_electionId);
+        if (_candidateId >= candidateCounts[_electionId]) revert InvalidCandidate(_candidateId);
+        _checkCanReadResults(_electionId);
+
         return candidates[_electionId][_candidateId].voteCount;
     }
+
+    // Batched views: let the frontend load a page of elections in a single RPC round-trip
+    function getElectionsPage(uint256 _offset, uint256 _limit) public view returns (ElectionView[] memory page, uint256 total) {
+        total = electionCount;
+        uint256 end = _pageEnd(_offset, _limit, total);
+        page = new ElectionView[](end > _offset ? end - _offset : 0);
+
+        for (uint256 i = _offset; i < end; i++) {
+            Election storage election = elections[i];
+            page[i - _offset] = ElectionView({
+                id: i,
+                name: election.name,
+                description: election.description,
+                startTime: election.startTime,
+                endTime: election.endTime,
+                candidateCount: candidateCounts[i],
+                resultsPublished: resultsPublished[i],
+                voterRoot: voterRoots[i],
+                revealEndTime: election.revealEndTime,
+                revealCount: revealCounts[i],
+                electionType: election.electionType,
+                maxSelections: election.maxSelections,
+                seats: election.seats,
+                cancelled: election.cancelled,
+                paused: election.paused,
+                extended: election.extended
+            });
+        }
+    }
+
+    function getVoterStatusPage(address _voter, uint256 _offset, uint256 _limit) public view returns (bool[] memory voted) {
+        uint256 end = _pageEnd(_offset, _limit, electionCount);
+        voted = new bool[](end > _offset ? end - _offset : 0);
+
+        for (uint256 i = _offset; i < end; i++) {
+            voted[i - _offset] = hasVoted[i][_voter];
+        }
+    }
+
+    function getCandidates(uint256 _electionId) public view electionExists(_electionId) returns (CandidateView[] memory list) {
+        uint256 count = candidateCounts[_electionId];
+        list = new CandidateView[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            Candidate storage candidate = candidates[_electionId][i];
+            list[i] = CandidateView({
+                id: i,
+                name: candidate.name,
+                info: candidate.info,
+                withdrawn: candidate.withdrawn,
+                profileHash: candidate.profileHash
+            });
+        }
+    }
+
+    function getVoteCounts(uint256 _electionId) public view electionExists(_electionId) returns (uint256[] memory counts) {
+        _checkCanReadResults(_electionId);
+
+        uint256 count = candidateCounts[_electionId];
+        counts = new uint256[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            counts[i] = candidates[_electionId][i].voteCount;
+        }
+    }
+
+    // Voters per candidate; in weighted elections this differs from the weighted getVoteCounts
+    function getVoterCounts(uint256 _electionId) public view electionExists(_electionId) returns (uint256[] memory counts) {
+        _checkCanReadResults(_electionId);
+
+        bool weighted = elections[_electionId].electionType == ElectionType.Weighted;
+        uint256 count = candidateCounts[_electionId];
+        counts = new uint256[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            Candidate storage candidate = candidates[_electionId][i];
+            counts[i] = weighted ? candidate.voterCount : candidate.voteCount;
+        }
+    }
+
+    function getRankedBallots(
+        uint256 _electionId,
+        uint256 _offset,
+        uint256 _limit
+    ) public view electionExists(_electionId) returns (uint256[][] memory page, uint256 total) {
+        _checkCanReadResults(_electionId);
+
+        uint256[][] storage ballots = rankedBallots[_electionId];
+        total = ballots.length;
+        uint256 end = _pageEnd(_offset, _limit, total);
+        page = new uint256[][](end > _offset ? end - _offset : 0);
+
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = ballots[i];
+        }
+    }
+
+    function _checkSchedule(uint256 _startTime, uint256 _endTime, uint256 _revealEndTime) private view {
+        if (_startTime >= _endTime) revert InvalidSchedule(_startTime, _endTime);
+        if (_startTime <= block.timestamp) revert StartTimeInPast(_startTime, block.timestamp);
+        if (_revealEndTime != 0 && _revealEndTime <= _endTime) revert InvalidRevealEndTime(_endTime, _revealEndTime);
+    }
+
+    function _vote(uint256 _electionId, uint256 _candidateId, address _voter, bytes32[] calldata _proof) private {
+        _checkNotVoted(_electionId, _voter);
+        _checkElectionType(_electionId, ElectionType.Plurality);
+        if (elections[_electionId].revealEndTime != 0) revert CommitRevealRequired();
+        _checkCandidate(_electionId, _candidateId);
+        _checkEligible(_electionId, _voter, _proof);
+
+        // Record the vote
+        candidates[_electionId][_candidateId].voteCount++;
+        hasVoted[_electionId][_voter] = true;
+        castBallots[_electionId][_voter].push(_candidateId);
+
+        emit VoteCast(_electionId, _voter);
+    }
+
+    function _addCandidate(uint256 _electionId, string memory _name, string memory _info, bytes32 _profileHash) private {
+        uint256 candidateId = candidateCounts[_electionId];
+        candidates[_electionId][candidateId] = Candidate({
+            name: _name,
+            info: _info,
+            voteCount: 0,
+            voterCount: 0,
+            withdrawn: false,
+            profileHash: _profileHash
+        });
+
+        emit CandidateAdded(_electionId, candidateId, _name);
+        candidateCounts[_electionId]++;
+    }
+
+    function _checkCandidate(uint256 _electionId, uint256 _candidateId) private view {
+        if (_candidateId >= candidateCounts[_electionId]) revert InvalidCandidate(_candidateId);
+        if (candidates[_electionId][_candidateId].withdrawn) revert CandidateIsWithdrawn(_candidateId);
+    }
+
+    // Shared checks behind the modifiers and vote functions, kept out of line to limit bytecode size
+    function _checkActive(uint256 _electionId) private view {
+        Election storage election = elections[_electionId];
+        _checkNotCancelled(_electionId);
+        if (election.paused) revert VotingIsPaused(_electionId);
+        if (block.timestamp < election.startTime || block.timestamp > election.endTime) {
+            revert ElectionNotActive(election.startTime, election.endTime, block.timestamp);
+        }
+    }
+
+    function _checkNotCancelled(uint256 _electionId) private view {
+        if (elections[_electionId].cancelled) revert ElectionIsCancelled(_electionId);
+    }
+
+    function _checkNotStarted(uint256 _electionId) private view {
+        uint256 startTime = elections[_electionId].startTime;
+        if (block.timestamp >= startTime) revert ElectionAlreadyStarted(startTime, block.timestamp);
+    }
+
+    function _checkNotVoted(uint256 _electionId, address _voter) private view {
+        if (hasVoted[_electionId][_voter]) revert AlreadyVoted(_electionId, _voter);
+    }
+
+    function _checkElectionType(uint256 _electionId, ElectionType _expected) private view {
+        ElectionType electionType = elections[_electionId].electionType;
+        if (electionType != _expected) revert WrongElectionType(electionType);
+    }
+
+    function _checkEligible(uint256 _electionId, address _voter, bytes32[] calldata _proof) private view {
+        if (!isEligible(_electionId, _voter, _proof)) revert NotOnVoterRoll(_electionId, _voter);
+    }
+
+    // Auditors can read tallies before they are published
+    function _checkCanReadResults(uint256 _electionId) private view {
+        if (!resultsPublished[_electionId] && !hasRole(Role.Auditor, msg.sender, _electionId)) {
+            revert ResultsNotPublished(_electionId);
+        }
+    }
+
+    function _checkRoleScope(Role _role, address _account, uint256 _electionId) private view {
+        if (_account == address(0)) revert InvalidAccount();
+        if (_role == Role.SuperAdmin && _electionId != ALL_ELECTIONS) revert SuperAdminNotScopable();
+        if (_electionId != ALL_ELECTIONS && !elections[_electionId].exists) revert ElectionNotFound(_electionId);
+    }
+
+    // Computed on each call so the signature domain stays correct if the chain forks
+    function _domainSeparator() private view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                keccak256("VotingSystem"),
+                keccak256("1"),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    // Sorted-pair Merkle proof check, compatible with lib/merkle.ts
+    function _verifyProof(bytes32[] calldata _proof, bytes32 _root, bytes32 _leaf) private pure returns (bool) {
+        bytes32 hash = _leaf;
+        for (uint256 i = 0; i < _proof.length; i++) {
+            bytes32 sibling = _proof[i];
+            hash = hash < sibling
+                ? keccak256(abi.encodePacked(hash, sibling))
+                : keccak256(abi.encodePacked(sibling, hash));
+        }
+        return hash == _root;
+    }
+
+    function _pageEnd(uint256 _offset, uint256 _limit, uint256 _total) private pure returns (uint256) {
+        if (_offset >= _total) {
+            return _offset;
+        }
+        return _total - _offset < _limit ? _total : _offset + _limit;
+    }
 }
@@ -0,0 +1,176 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { ethers, type Signer } from "ethers"
+import { useVotingContract } from "@/context/voting-contract-context"
+import { SafeProposer, getSafeInfo, type SafeInfo } from "@/lib/multisig"
+import type { Role, RoleAssignment } from "@/types"
+
+export interface Permissions {
+  loading: boolean
+  owner: string | null
+  // null when no ownership transfer is in progress
+  pendingOwner: string | null
+  isOwner: boolean
+  // The account can accept ownership, directly or as a signer of the pending Safe
+  isPendingOwner: boolean
+  // Set when the owner / pending owner is a Safe the account signs for
+  ownerSafe: SafeInfo | null
+  pendingOwnerSafe: SafeInfo | null
+  // Admin writes are proposed to the owner Safe instead of sent from the account
+  actingAsSafe: boolean
+  // Proposes transactions to the owner Safe while actingAsSafe, or to the pending owner Safe
+  safeProposer: SafeProposer | null
+  pendingSafeProposer: SafeProposer | null
+  // The owner and super admins hold every role
+  isSuperAdmin: boolean
+  roles: RoleAssignment[]
+  // Mirrors the contract's hasRole: a grant for every election covers each one
+  hasRole: (role: Role, electionId: number | null) => boolean
+  // True when the role is held for at least one election, e.g. to decide whether to show a tab
+  hasRoleAnywhere: (role: Role) => boolean
+  canCreateElections: boolean
+  canManageElection: (electionId: number) => boolean
+  canManageCandidates: (electionId: number) => boolean
+  canAudit: (electionId: number) => boolean
+  refresh: () => void
+}
+
+/**
+ * Roles held by `account`, rebuilt from RoleGranted / RoleRevoked events, plus its relation to the
+ * contract owner. When the owner is a Safe the account signs for, admin writes are routed through it.
+ *
+ * The contract enforces every permission; this only decides which admin screens and
+ * elections to offer so users are not shown actions that would revert.
+ */
+export function usePermissions(account: string | null): Permissions {
+  const [roles, setRoles] = useState<RoleAssignment[]>([])
+  const [owner, setOwner] = useState<string | null>(null)
+  const [pendingOwner, setPendingOwner] = useState<string | null>(null)
+  const [ownerSafe, setOwnerSafe] = useState<SafeInfo | null>(null)
+  const [pendingOwnerSafe, setPendingOwnerSafe] = useState<SafeInfo | null>(null)
+  const [loading, setLoading] = useState(true)
+  const { client, chainId } = useVotingContract()
+
+  const refresh = useCallback(async () => {
+    if (!client || !account) {
+      setRoles([])
+      setOwner(null)
+      setPendingOwner(null)
+      setOwnerSafe(null)
+      setPendingOwnerSafe(null)
+      setLoading(false)
+      return
+    }
+
+    // A Safe only matters here when the connected account is one of its signers
+    const signerSafe = async (address: string | null) => {
+      if (!address || !client.provider || address.toLowerCase() === account.toLowerCase()) return null
+      const safe = await getSafeInfo(client.provider, address)
+      return safe?.owners.some((signer) => signer.toLowerCase() === account.toLowerCase()) ? safe : null
+    }
+
+    try {
+      setLoading(true)
+      const [currentOwner, pending, assignments] = await Promise.all([
+        client.getOwner(),
+        client.getPendingOwner(),
+        client.getRoleAssignments(account),
+      ])
+      const nextPendingOwner = pending === ethers.ZeroAddress ? null : pending
+      const [nextOwnerSafe, nextPendingOwnerSafe] = await Promise.all([
+        signerSafe(currentOwner),
+        signerSafe(nextPendingOwner),
+      ])
+      setOwner(currentOwner)
+      setPendingOwner(nextPendingOwner)
+      setOwnerSafe(nextOwnerSafe)
+      setPendingOwnerSafe(nextPendingOwnerSafe)
+      setRoles(assignments)
+    } catch (error) {
+      console.error("Error loading roles:", error)
+      setOwner(null)
+      setPendingOwner(null)
+      setOwnerSafe(null)
+      setPendingOwnerSafe(null)
+      setRoles([])
+    } finally {
+      setLoading(false)
+    }
+  }, [client, account])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  useEffect(() => {
+    if (!client || !account) return
+
+    const onRoleChange = (args: { account: string }) => {
+      if (args.account.toLowerCase() === account.toLowerCase()) refresh()
+    }
+    return client.subscribe({
+      RoleGranted: onRoleChange,
+      RoleRevoked: onRoleChange,
+      OwnershipTransferStarted: refresh,
+      OwnershipTransferred: refresh,
+    })
+  }, [client, account, refresh])
+
+  // Accounts with roles of their own keep acting for themselves; Safe signers without one act for the Safe
+  const actingAsSafe = ownerSafe !== null && roles.length === 0
+
+  const signer = client && !client.readOnly ? (client.contract.runner as Signer) : null
+  const safeProposer = useMemo(
+    () => (actingAsSafe && signer && chainId ? new SafeProposer(ownerSafe!, signer, chainId) : null),
+    [signer, chainId, actingAsSafe, ownerSafe],
+  )
+  const pendingSafeProposer = useMemo(
+    () => (pendingOwnerSafe && signer && chainId ? new SafeProposer(pendingOwnerSafe, signer, chainId) : null),
+    [signer, chainId, pendingOwnerSafe],
+  )
+
+  useEffect(() => {
+    if (!client) return
+
+    client.setMultisig(safeProposer)
+    return () => client.setMultisig(null)
+  }, [client, safeProposer])
+
+  const isOwner = !!owner && !!account && owner.toLowerCase() === account.toLowerCase()
+  const isPendingOwner =
+    pendingOwnerSafe !== null || (!!pendingOwner && !!account && pendingOwner.toLowerCase() === account.toLowerCase())
+  const isSuperAdmin = isOwner || actingAsSafe || roles.some((assignment) => assignment.role === "super-admin")
+
+  const hasRole = (role: Role, electionId: number | null) =>
+    isSuperAdmin ||
+    roles.some(
+      (assignment) =>
+        assignment.role === role && (assignment.electionId === null || assignment.electionId === electionId),
+    )
+
+  const hasRoleAnywhere = (role: Role) => isSuperAdmin || roles.some((assignment) => assignment.role === role)
+
+  return {
+    loading,
+    owner,
+    pendingOwner,
+    isOwner,
+    isPendingOwner,
+    ownerSafe,
+    pendingOwnerSafe,
+    actingAsSafe,
+    safeProposer,
+    pendingSafeProposer,
+    isSuperAdmin,
+    roles,
+    hasRole,
+    hasRoleAnywhere,
+    canCreateElections: hasRole("election-admin", null),
+    canManageElection: (electionId) => hasRole("election-admin", electionId),
+    canManageCandidates: (electionId) =>
+      hasRole("election-admin", electionId) || hasRole("candidate-manager", electionId),
+    canAudit: (electionId) => hasRole("auditor", electionId),
+    refresh,
+  }
+}
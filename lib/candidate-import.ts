@@ -0,0 +1,76 @@
+import { parseCsv } from "@/lib/csv"
+import type { NewCandidateInput } from "@/types"
+
+// Keeps a batch comfortably inside the block gas limit
+export const MAX_IMPORT_CANDIDATES = 100
+
+export interface CandidateImportRow extends NewCandidateInput {
+  // 1-based line (CSV) or array index (JSON) in the source file
+  line: number
+  // Why the row cannot be imported; null when it is valid
+  error: string | null
+}
+
+export interface ParsedCandidateImport {
+  rows: CandidateImportRow[]
+  // Set when the file as a whole could not be read
+  error: string | null
+}
+
+/**
+ * Reads candidates from a CSV ("name,info" rows, optional header) or a JSON array of
+ * `{ name, info }` objects. Rows are validated against each other and against the names
+ * already on the election, so the preview can flag them before anything is sent.
+ */
+export function parseCandidateImport(text: string, existingNames: string[] = []): ParsedCandidateImport {
+  const trimmed = text.trim()
+  if (!trimmed) return { rows: [], error: null }
+
+  let entries: { line: number; name: string; info: string }[]
+  if (trimmed.startsWith("[")) {
+    try {
+      entries = parseJsonEntries(trimmed)
+    } catch (error) {
+      return { rows: [], error: error instanceof Error ? error.message : "Invalid JSON" }
+    }
+  } else {
+    const rows = parseCsv(trimmed)
+    const hasHeader = rows[0]?.[0]?.trim().toLowerCase() === "name"
+    entries = rows.slice(hasHeader ? 1 : 0).map(([name = "", info = ""], index) => ({
+      line: index + (hasHeader ? 2 : 1),
+      name: name.trim(),
+      info: info.trim(),
+    }))
+  }
+
+  const seen = new Set(existingNames.map((name) => name.trim().toLowerCase()))
+  const rows = entries.map((entry): CandidateImportRow => {
+    const key = entry.name.toLowerCase()
+    const error = !entry.name
+      ? "Name is required"
+      : seen.has(key)
+      ? "Duplicate name"
+      : null
+    if (entry.name) seen.add(key)
+    return { ...entry, error }
+  })
+
+  if (rows.length > MAX_IMPORT_CANDIDATES) {
+    return { rows, error: `At most ${MAX_IMPORT_CANDIDATES} candidates can be imported at once` }
+  }
+  return { rows, error: null }
+}
+
+function parseJsonEntries(text: string) {
+  const data: unknown = JSON.parse(text)
+  if (!Array.isArray(data)) throw new Error("Expected a JSON array of candidates")
+
+  return data.map((item, index) => {
+    const record = (typeof item === "object" && item !== null ? item : {}) as Record<string, unknown>
+    return {
+      line: index + 1,
+      name: typeof record.name === "string" ? record.name.trim() : "",
+      info: typeof record.info === "string" ? record.info.trim() : "",
+    }
+  })
+}
@@ -0,0 +1,119 @@
+import { ethers } from "ethers"
+import { ContentStore, MAX_BLOB_SIZE, cidFromDigest } from "@/lib/content-store"
+
+/**
+ * Candidate profiles are JSON documents in the content store; the contract keeps only their
+ * sha256 digest (Candidate.profileHash). Photos are separate blobs referenced by CID.
+ */
+export interface CandidateLink {
+  label: string
+  url: string
+}
+
+export interface CandidateProfile {
+  version: 1
+  // CID of the photo blob; null without a photo
+  photo: string | null
+  biography: string
+  // Markdown
+  manifesto: string
+  links: CandidateLink[]
+}
+
+// Editable form state; links are "label | url" lines
+export interface CandidateProfileDraft {
+  photoFile: File | null
+  // Photo already in the store, kept unless photoFile replaces it
+  photo: string | null
+  biography: string
+  manifesto: string
+  links: string
+}
+
+export const contentStore = new ContentStore()
+
+export const emptyProfileDraft: CandidateProfileDraft = {
+  photoFile: null,
+  photo: null,
+  biography: "",
+  manifesto: "",
+  links: "",
+}
+
+export const hasProfile = (profileHash: string | undefined) => !!profileHash && profileHash !== ethers.ZeroHash
+
+export const isSafeUrl = (url: string) => /^https?:\/\//i.test(url)
+
+export function parseLinks(text: string): CandidateLink[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const separator = line.lastIndexOf("|")
+      const url = (separator === -1 ? line : line.slice(separator + 1)).trim()
+      const label = separator === -1 ? url : line.slice(0, separator).trim() || url
+      return { label, url }
+    })
+}
+
+export function draftFromProfile(profile: CandidateProfile): CandidateProfileDraft {
+  return {
+    photoFile: null,
+    photo: profile.photo,
+    biography: profile.biography,
+    manifesto: profile.manifesto,
+    links: profile.links.map((link) => `${link.label} | ${link.url}`).join("\n"),
+  }
+}
+
+export const isDraftEmpty = (draft: CandidateProfileDraft) =>
+  !draft.photoFile && !draft.photo && !draft.biography.trim() && !draft.manifesto.trim() && !draft.links.trim()
+
+// Problem to show before submitting, or null when the draft can be published
+export function validateProfileDraft(draft: CandidateProfileDraft): string | null {
+  if (draft.photoFile && draft.photoFile.size > MAX_BLOB_SIZE) {
+    return `Photos must be at most ${MAX_BLOB_SIZE / 1024} KiB`
+  }
+  const invalid = parseLinks(draft.links).find((link) => !isSafeUrl(link.url))
+  return invalid ? `Links must start with http:// or https:// (${invalid.url})` : null
+}
+
+// Uploads the photo and profile document; returns the digest for the contract, or ZeroHash for an empty draft
+export async function publishProfileDraft(draft: CandidateProfileDraft, store = contentStore): Promise<string> {
+  if (isDraftEmpty(draft)) return ethers.ZeroHash
+
+  const problem = validateProfileDraft(draft)
+  if (problem) throw new Error(problem)
+
+  const photo = draft.photoFile ? await store.put(new Uint8Array(await draft.photoFile.arrayBuffer())) : draft.photo
+  const profile: CandidateProfile = {
+    version: 1,
+    photo,
+    biography: draft.biography.trim(),
+    manifesto: draft.manifesto.trim(),
+    links: parseLinks(draft.links),
+  }
+  const bytes = ethers.toUtf8Bytes(JSON.stringify(profile))
+  await store.put(bytes)
+  return ethers.sha256(bytes)
+}
+
+// Fetches the profile and verifies it against the on-chain digest
+export async function loadProfile(profileHash: string, store = contentStore): Promise<CandidateProfile> {
+  const bytes = await store.get(cidFromDigest(profileHash))
+  const profile = JSON.parse(ethers.toUtf8String(bytes)) as CandidateProfile
+  if (profile?.version !== 1) throw new Error("Unsupported profile format")
+  return {
+    version: 1,
+    photo: typeof profile.photo === "string" ? profile.photo : null,
+    biography: typeof profile.biography === "string" ? profile.biography : "",
+    manifesto: typeof profile.manifesto === "string" ? profile.manifesto : "",
+    links: Array.isArray(profile.links) ? profile.links.filter((link) => isSafeUrl(String(link?.url ?? ""))) : [],
+  }
+}
+
+// Object URL for a verified photo blob; revoke it with URL.revokeObjectURL when done
+export async function loadPhotoUrl(cid: string, store = contentStore): Promise<string> {
+  return URL.createObjectURL(new Blob([await store.get(cid)]))
+}
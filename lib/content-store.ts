@@ -0,0 +1,131 @@
+import { ethers } from "ethers"
+
+/**
+ * Content-addressed storage for data too large to keep on-chain, such as candidate profiles.
+ *
+ * Every blob is addressed by a CIDv1 with the raw codec and a sha2-256 multihash, so the
+ * 32-byte digest stored on-chain and the IPFS CID are interchangeable and anything fetched
+ * from a gateway can be checked against the contract. Blobs stay below IPFS's largest chunk
+ * size so a node stores them as a single raw block with exactly this CID.
+ *
+ * By default the app talks to the stand-in node under /api/ipfs; point
+ * NEXT_PUBLIC_IPFS_ADD_URL and NEXT_PUBLIC_IPFS_GATEWAY_URL at a Kubo node or pinning
+ * service to use real IPFS.
+ */
+
+// Largest chunk Kubo accepts; larger files would be split into a dag-pb tree with a different CID
+export const MAX_BLOB_SIZE = 1024 * 1024
+
+// CIDv1 · raw codec · sha2-256 · 32-byte digest
+const CID_PREFIX = [0x01, 0x55, 0x12, 0x20]
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567"
+
+const DEFAULT_ADD_URL = "/api/ipfs/add"
+const DEFAULT_GATEWAY_URL = "/api/ipfs"
+
+export class ContentVerificationError extends Error {
+  constructor(cid: string) {
+    super(`Content for ${cid} does not match its hash`)
+    this.name = "ContentVerificationError"
+  }
+}
+
+function base32Encode(bytes: Uint8Array): string {
+  let output = ""
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  return output
+}
+
+function base32Decode(text: string): Uint8Array {
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of text) {
+    const value = BASE32_ALPHABET.indexOf(char)
+    if (value === -1) throw new Error("Invalid base32 character")
+    buffer = (buffer << 5) | value
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((buffer >> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(bytes)
+}
+
+// The on-chain profile hash as an IPFS CID ("bafkrei...")
+export function cidFromDigest(digest: string): string {
+  return `b${base32Encode(new Uint8Array([...CID_PREFIX, ...ethers.getBytes(digest)]))}`
+}
+
+// Null unless `cid` is a CIDv1 raw sha2-256 CID in base32
+export function digestFromCid(cid: string): string | null {
+  if (!cid.startsWith("b")) return null
+  try {
+    const bytes = base32Decode(cid.slice(1))
+    if (bytes.length !== CID_PREFIX.length + 32 || CID_PREFIX.some((byte, i) => bytes[i] !== byte)) return null
+    return ethers.hexlify(bytes.slice(CID_PREFIX.length))
+  } catch {
+    return null
+  }
+}
+
+export const computeCid = (bytes: Uint8Array) => cidFromDigest(ethers.sha256(bytes))
+
+export class ContentStore {
+  private readonly addUrl: string
+  private readonly gatewayUrl: string
+
+  constructor(
+    addUrl = process.env.NEXT_PUBLIC_IPFS_ADD_URL || DEFAULT_ADD_URL,
+    gatewayUrl = process.env.NEXT_PUBLIC_IPFS_GATEWAY_URL || DEFAULT_GATEWAY_URL,
+  ) {
+    this.addUrl = addUrl
+    this.gatewayUrl = gatewayUrl.replace(/\/$/, "")
+  }
+
+  // Uploads through the Kubo /api/v0/add interface and returns the CID, checked against the local hash
+  async put(bytes: Uint8Array): Promise<string> {
+    if (bytes.length > MAX_BLOB_SIZE) {
+      throw new Error(`Files must be at most ${MAX_BLOB_SIZE / 1024} KiB`)
+    }
+
+    const cid = computeCid(bytes)
+    const url = new URL(this.addUrl, typeof window !== "undefined" ? window.location.href : "http://localhost")
+    url.searchParams.set("cid-version", "1")
+    url.searchParams.set("raw-leaves", "true")
+    url.searchParams.set("chunker", `size-${MAX_BLOB_SIZE}`)
+
+    const body = new FormData()
+    body.append("file", new Blob([bytes]))
+    const response = await fetch(url, { method: "POST", body })
+    if (!response.ok) throw new Error(`Upload failed with status ${response.status}`)
+
+    const { Hash } = (await response.json()) as { Hash: string }
+    if (Hash !== cid) throw new ContentVerificationError(cid)
+    return cid
+  }
+
+  // Fetches a blob from the gateway and rejects it unless it hashes to `cid`
+  async get(cid: string): Promise<Uint8Array> {
+    const digest = digestFromCid(cid)
+    if (!digest) throw new Error(`Unsupported CID ${cid}`)
+
+    const response = await fetch(`${this.gatewayUrl}/${cid}`)
+    if (!response.ok) throw new Error(`Content ${cid} is unavailable (status ${response.status})`)
+
+    const bytes = new Uint8Array(await response.arrayBuffer())
+    if (ethers.sha256(bytes) !== digest) throw new ContentVerificationError(cid)
+    return bytes
+  }
+}
@@ -0,0 +1,235 @@
+import { ethers } from "ethers"
+import VotingContract from "@/contracts/VotingSystem.json"
+import type { VotingSystemErrorName } from "@/lib/generated/voting-system"
+import { ELECTION_TYPES, ROLES } from "@/types"
+
+/**
+ * Turns whatever a contract call or wallet request threw into a typed VotingError with a
+ * message fit for a toast.
+ *
+ * Contract failures are decoded from the revert data against the VotingSystem ABI, so they do
+ * not depend on how a wallet or RPC node words or wraps the error. Wallet and node failures are
+ * classified by their EIP-1193 / ethers error codes. Messages come from a per-locale catalog;
+ * add a locale by adding an entry to ERROR_MESSAGES.
+ */
+
+// Failures raised by the wallet or node rather than by the contract
+export type WalletErrorCode =
+  | "UserRejected"
+  | "RequestPending"
+  | "InsufficientFunds"
+  | "NonceExpired"
+  | "ReplacementUnderpriced"
+  | "TransactionReplaced"
+  | "TransactionDropped"
+  | "NetworkError"
+
+// Reverted is a require() message or panic from a contract without custom errors; Unknown is anything else
+export type VotingErrorCode = VotingSystemErrorName | WalletErrorCode | "Reverted" | "Unknown"
+
+// Decoded custom error arguments by name; uint256 values stay bigint
+export type VotingErrorArgs = Record<string, unknown>
+
+export class VotingError extends Error {
+  constructor(
+    readonly code: VotingErrorCode,
+    readonly args: VotingErrorArgs,
+    message: string,
+    readonly cause?: unknown,
+  ) {
+    super(message)
+    this.name = "VotingError"
+  }
+}
+
+type MessageFormat = (args: VotingErrorArgs, format: Formatters) => string
+
+interface Formatters {
+  // Unix timestamp in seconds
+  date: (timestamp: unknown) => string
+  number: (value: unknown) => string
+}
+
+const ALL_ELECTIONS = ethers.MaxUint256
+
+const ROLE_NAMES: Record<(typeof ROLES)[number], string> = {
+  "super-admin": "Super Admin",
+  "election-admin": "Election Admin",
+  "candidate-manager": "Candidate Manager",
+  auditor: "Auditor",
+}
+
+const ELECTION_TYPE_NAMES: Record<(typeof ELECTION_TYPES)[number], string> = {
+  plurality: "single-choice",
+  "ranked-choice": "ranked-choice",
+  approval: "approval",
+  weighted: "weighted",
+}
+
+const en: Record<VotingErrorCode, MessageFormat> = {
+  NotOwner: () => "Only the contract owner can do this",
+  NotPendingOwner: () => "Only the proposed new owner can accept ownership",
+  MissingRole: ({ role, electionId }) =>
+    `You need the ${ROLE_NAMES[ROLES[Number(role)]] ?? "required"} role${
+      electionId === ALL_ELECTIONS ? "" : ` for election #${electionId}`
+    } to do this`,
+  InvalidAccount: () => "Enter a valid account address",
+  SuperAdminNotScopable: () => "Super Admin can only be granted for all elections",
+  ElectionNotFound: ({ electionId }) => `Election #${electionId} does not exist`,
+  ElectionIsCancelled: () => "This election has been cancelled",
+  ElectionNotActive: ({ startTime, endTime, currentTime }, format) =>
+    Number(currentTime) < Number(startTime)
+      ? `Election hasn't started yet. Starts at ${format.date(startTime)}`
+      : `Election has ended. Ended at ${format.date(endTime)}`,
+  ElectionAlreadyStarted: ({ startTime }, format) =>
+    `This can no longer be changed because the election started at ${format.date(startTime)}`,
+  ElectionAlreadyEnded: ({ endTime }, format) => `Election has ended. Ended at ${format.date(endTime)}`,
+  ElectionNotEnded: ({ endTime }, format) => `The election is still running until ${format.date(endTime)}`,
+  NotInRevealPeriod: ({ endTime, revealEndTime, currentTime }, format) =>
+    Number(currentTime) <= Number(endTime)
+      ? `Votes can be revealed once voting closes at ${format.date(endTime)}`
+      : `The reveal period ended at ${format.date(revealEndTime)}`,
+  RevealPeriodNotEnded: ({ revealEndTime }, format) =>
+    `Voters can still reveal their ballots. Publish once the reveal deadline has passed at ${format.date(revealEndTime)}.`,
+  VotingIsPaused: () => "Voting is paused by the election administrators",
+  VotingNotPaused: () => "Voting is not paused",
+  InvalidSchedule: () => "End time must be after start time",
+  StartTimeInPast: () => "Start time must be in the future",
+  InvalidRevealEndTime: () => "The reveal deadline must be after the end time",
+  EndTimeNotLater: ({ endTime }, format) => `The new end time must be after ${format.date(endTime)}`,
+  BallotSecrecyLocked: () => "An election cannot switch between open and secret ballots",
+  CommitRevealNotSupported: () => "Secret ballots are only supported for single-choice elections",
+  SeatsRequired: () => "Approval elections need at least one seat",
+  SelectionLimitsNotSupported: () => "Selection limits and seats only apply to approval elections",
+  ResultsAlreadyPublished: () => "Results for this election have already been published",
+  ResultsNotPublished: () => "Results have not been published yet",
+  NoCandidatesToAdd: () => "Add at least one candidate",
+  LengthMismatch: () => "The submitted lists do not have the same length",
+  InvalidCandidate: ({ candidateId }) => `Candidate #${candidateId} does not exist`,
+  CandidateIsWithdrawn: () => "That candidate has withdrawn from this election",
+  DuplicateCandidate: () => "Each candidate can only be chosen once",
+  InvalidRanking: () => "Rank at least one candidate, and each candidate at most once",
+  NoCandidatesSelected: () => "Select at least one candidate",
+  TooManySelections: ({ selected, maxSelections }, format) =>
+    `You selected ${format.number(selected)} candidates but this election allows ${format.number(maxSelections)}`,
+  WrongElectionType: ({ electionType }) =>
+    `This election uses a different ballot: it is ${
+      ELECTION_TYPE_NAMES[ELECTION_TYPES[Number(electionType)]] ?? "another type of"
+    } voting`,
+  CommitRevealRequired: () => "This election uses secret ballots; cast a sealed vote instead",
+  NotCommitReveal: () => "This election does not use secret ballots",
+  AlreadyVoted: () => "You have already voted in this election",
+  NotOnVoterRoll: () => "You are not on the voter roll for this election",
+  NoVotingWeight: () => "You have no voting weight in this election",
+  VotingWeightNotVerified: () => "Your voting weight could not be verified against the voter roll",
+  InvalidCommitment: () => "The sealed ballot is invalid",
+  NoCommitment: () => "You have no sealed vote to reveal",
+  AlreadyRevealed: () => "Your vote has already been revealed",
+  RevealMismatch: () => "The backup code does not match your committed vote",
+  SignatureExpired: ({ deadline }, format) => `The signed ballot expired at ${format.date(deadline)}`,
+  InvalidSignature: () => "The ballot signature is invalid",
+  SelfDelegation: () => "You cannot delegate your vote to yourself",
+  DelegationNotSupported: () => "This election does not support delegation",
+  UserRejected: () => "Request was rejected in your wallet",
+  RequestPending: () => "A request is already waiting in your wallet. Open it to continue.",
+  InsufficientFunds: () => "Insufficient funds for gas",
+  NonceExpired: () => "This transaction's nonce was already used. Reset pending transactions in your wallet and try again.",
+  ReplacementUnderpriced: () => "A pending transaction with the same nonce can only be replaced with a higher gas price",
+  TransactionReplaced: () => "The transaction was replaced or cancelled in your wallet",
+  TransactionDropped: () => "The transaction was dropped before it was mined. Check your wallet and try again.",
+  NetworkError: () => "Could not reach the network. Check your connection and try again.",
+  Reverted: ({ reason }) => (typeof reason === "string" && reason ? reason : "The transaction was reverted by the contract"),
+  Unknown: () => "Something went wrong",
+}
+
+export const ERROR_MESSAGES: Record<string, Record<VotingErrorCode, MessageFormat>> = { en }
+
+const votingInterface = new ethers.Interface(VotingContract.abi)
+
+const WALLET_CODES: Record<string, WalletErrorCode> = {
+  ACTION_REJECTED: "UserRejected",
+  "4001": "UserRejected",
+  "-32002": "RequestPending",
+  INSUFFICIENT_FUNDS: "InsufficientFunds",
+  NONCE_EXPIRED: "NonceExpired",
+  REPLACEMENT_UNDERPRICED: "ReplacementUnderpriced",
+  TRANSACTION_REPLACED: "TransactionReplaced",
+  NETWORK_ERROR: "NetworkError",
+  TIMEOUT: "NetworkError",
+}
+
+// The error and whatever it wraps: ethers keeps the RPC error under info.error, wallets under error or data
+function* errorChain(error: any, depth = 0): Generator<any> {
+  if (!error || typeof error !== "object" || depth > 5) return
+  yield error
+  for (const inner of [error.error, error.info?.error, error.data, error.cause]) {
+    yield* errorChain(inner, depth + 1)
+  }
+}
+
+const findRevertData = (error: unknown): string | null => {
+  for (const link of errorChain(error)) {
+    if (ethers.isHexString(link.data) && link.data.length >= 10) return link.data
+  }
+  return null
+}
+
+const findWalletCode = (error: unknown): WalletErrorCode | null => {
+  for (const link of errorChain(error)) {
+    const code = WALLET_CODES[String(link.code)]
+    if (code) return code
+  }
+  return null
+}
+
+const formattersFor = (locale: string): Formatters => ({
+  date: (timestamp) => new Date(Number(timestamp) * 1000).toLocaleString(locale),
+  number: (value) => Number(value).toLocaleString(locale),
+})
+
+const defaultLocale = () => (typeof navigator !== "undefined" && navigator.language) || "en"
+
+const decode = (error: unknown): [VotingErrorCode, VotingErrorArgs] => {
+  const data = findRevertData(error)
+  if (data) {
+    let parsed: ethers.ErrorDescription | null = null
+    try {
+      parsed = votingInterface.parseError(data)
+    } catch {}
+    if (parsed && parsed.name in en) {
+      return [parsed.name as VotingSystemErrorName, parsed.args.toObject()]
+    }
+    // Error(string) reverts come from deployments that predate the custom errors
+    return ["Reverted", parsed?.name === "Error" ? { reason: parsed.args[0] } : {}]
+  }
+
+  const walletCode = findWalletCode(error)
+  if (walletCode) return [walletCode, {}]
+  if ((error as any)?.code === "CALL_EXCEPTION") return ["Reverted", { reason: (error as any).reason }]
+  return ["Unknown", {}]
+}
+
+// For failures the app detects itself, such as a transaction that was never mined
+export function createVotingError(
+  code: VotingErrorCode,
+  args: VotingErrorArgs = {},
+  locale: string = defaultLocale(),
+  cause?: unknown,
+): VotingError {
+  const catalog = ERROR_MESSAGES[locale] ?? ERROR_MESSAGES[locale.split("-")[0]] ?? en
+  return new VotingError(code, args, catalog[code](args, formattersFor(locale)), cause)
+}
+
+// Already-decoded errors pass through unchanged
+export function decodeVotingError(error: unknown, locale: string = defaultLocale()): VotingError {
+  if (error instanceof VotingError) return error
+
+  const [code, args] = decode(error)
+  return createVotingError(code, args, locale, error)
+}
+
+// User-facing message for a failed action; fallback covers errors the catalog cannot explain
+export function describeError(error: unknown, fallback: string, locale?: string): string {
+  const decoded = decodeVotingError(error, locale)
+  return decoded.code === "Unknown" ? fallback : decoded.message
+}
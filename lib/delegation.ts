@@ -0,0 +1,45 @@
+import type { ethers } from "ethers"
+import { VoterMerkleTree } from "@/lib/merkle"
+import type { VotingSystemClient } from "@/lib/voting-system-client"
+import type { ElectionData } from "@/types"
+
+// Keeps each countDelegatedVotes transaction well inside the block gas limit
+const COUNT_BATCH_SIZE = 100
+
+// Mirrors the contract: sealed (commit–reveal) and weighted ballots cannot be delegated
+export const supportsDelegation = (election: Pick<ElectionData, "electionType" | "revealEndTime">) =>
+  election.electionType !== "weighted" && election.revealEndTime === 0
+
+/**
+ * Adds the votes of delegators whose delegate voted for them. Must run after voting closes and
+ * before results are published; returns how many delegators were submitted.
+ *
+ * Delegators are only provable against a published voter roll, so in restricted elections whose
+ * roll was distributed off-chain their votes are left out. `wait` settles each batch's
+ * transaction, e.g. through the transaction manager.
+ */
+export async function countPendingDelegatedVotes(
+  client: VotingSystemClient,
+  electionId: number,
+  wait: (tx: ethers.TransactionResponse) => Promise<unknown> = (tx) => tx.wait(),
+): Promise<number> {
+  const pending = await client.getPendingDelegators(electionId)
+  if (pending.length === 0) return 0
+
+  const roll = await client.getVoterRoll(electionId)
+  const tree = roll && roll.voters.length > 0 ? new VoterMerkleTree(roll.voters) : null
+  const entries = pending
+    .map((delegator) => ({ delegator, proof: roll ? tree?.getProof(delegator) ?? null : [] }))
+    .filter((entry): entry is { delegator: string; proof: string[] } => entry.proof !== null)
+
+  for (let i = 0; i < entries.length; i += COUNT_BATCH_SIZE) {
+    const batch = entries.slice(i, i + COUNT_BATCH_SIZE)
+    const tx = await client.countDelegatedVotes(
+      electionId,
+      batch.map((entry) => entry.delegator),
+      batch.map((entry) => entry.proof),
+    )
+    await wait(tx)
+  }
+  return entries.length
+}
@@ -0,0 +1,89 @@
+import type { CandidateData, ElectionSummary, ElectionType, NewCandidateInput } from "@/types"
+
+/**
+ * Reusable election configurations, kept in localStorage per browser.
+ *
+ * A template stores durations rather than dates, so it can be applied to any new start time.
+ * Templates can be saved from the create form or derived from an existing on-chain election.
+ */
+export interface ElectionTemplate {
+  id: string
+  // Template label; also the default name of elections created from it
+  name: string
+  description: string
+  // Seconds between start and end
+  duration: number
+  // Seconds between end and the reveal deadline; 0 for open ballots
+  revealWindow: number
+  electionType: ElectionType
+  maxSelections: number
+  seats: number
+  candidates: NewCandidateInput[]
+  createdAt: number
+}
+
+export type ElectionTemplateInput = Omit<ElectionTemplate, "id" | "createdAt">
+
+const STORAGE_PREFIX = "voting-system:election-template:"
+const WEEK = 7 * 24 * 60 * 60
+
+const canUseStorage = () => typeof window !== "undefined" && !!window.localStorage
+
+export function saveTemplate(input: ElectionTemplateInput): ElectionTemplate {
+  const template: ElectionTemplate = {
+    ...input,
+    id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Math.floor(Date.now() / 1000),
+  }
+  if (canUseStorage()) {
+    window.localStorage.setItem(`${STORAGE_PREFIX}${template.id}`, JSON.stringify(template))
+  }
+  return template
+}
+
+export function removeTemplate(id: string) {
+  if (!canUseStorage()) return
+  window.localStorage.removeItem(`${STORAGE_PREFIX}${id}`)
+}
+
+export function listTemplates(): ElectionTemplate[] {
+  if (!canUseStorage()) return []
+  const templates: ElectionTemplate[] = []
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const key = window.localStorage.key(i)
+    if (key?.startsWith(STORAGE_PREFIX)) {
+      templates.push(JSON.parse(window.localStorage.getItem(key)!) as ElectionTemplate)
+    }
+  }
+  return templates.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Configuration of an existing election; withdrawn candidates are left out
+export function templateFromElection(election: ElectionSummary, candidates: CandidateData[]): ElectionTemplateInput {
+  return {
+    name: election.name,
+    description: election.description,
+    duration: election.endTime - election.startTime,
+    revealWindow: election.revealEndTime > 0 ? election.revealEndTime - election.endTime : 0,
+    electionType: election.electionType,
+    maxSelections: election.maxSelections,
+    seats: election.seats,
+    candidates: candidates
+      .filter((candidate) => !candidate.withdrawn)
+      .map((candidate) => ({ name: candidate.name, info: candidate.info, profileHash: candidate.profileHash })),
+  }
+}
+
+// The original start moved forward by whole weeks until it is after `now`, keeping weekday and time of day
+export function shiftStartTime(startTime: number, now: number): number {
+  if (startTime > now) return startTime
+  return startTime + Math.ceil((now - startTime + 1) / WEEK) * WEEK
+}
+
+export function scheduleFromTemplate(
+  template: Pick<ElectionTemplate, "duration" | "revealWindow">,
+  startTime: number,
+): { startTime: number; endTime: number; revealEndTime: number } {
+  const endTime = startTime + template.duration
+  return { startTime, endTime, revealEndTime: template.revealWindow > 0 ? endTime + template.revealWindow : 0 }
+}
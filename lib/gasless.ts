@@ -0,0 +1,44 @@
+import type { SignedBallot } from "@/types"
+
+// Signed ballots expire this many seconds after signing, so a stalled relay cannot be replayed much later
+export const BALLOT_LIFETIME = 10 * 60
+
+const RELAY_URL = process.env.NEXT_PUBLIC_RELAY_URL || "/api/relay"
+
+export interface RelayerStatus {
+  enabled: boolean
+  // Address paying for relayed ballots
+  relayer: string | null
+}
+
+export async function getRelayerStatus(chainId: number): Promise<RelayerStatus> {
+  try {
+    const response = await fetch(`${RELAY_URL}?chainId=${chainId}`)
+    return response.ok ? await response.json() : { enabled: false, relayer: null }
+  } catch {
+    return { enabled: false, relayer: null }
+  }
+}
+
+// Hands the ballot to the relayer; resolves with the hash of the transaction it sent
+export async function relayBallot(chainId: number, ballot: SignedBallot, proof: string[]): Promise<string> {
+  const response = await fetch(RELAY_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ chainId, ballot, proof }),
+  })
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok || typeof result.hash !== "string") {
+    throw new Error(result.error || `Relayer responded with ${response.status}`)
+  }
+  return result.hash
+}
+
+// Progress of a gasless vote, from wallet signature to the relayed transaction's confirmation
+export interface RelayState {
+  step: "signing" | "relaying" | "pending" | "confirmed"
+  // Relayed transaction, once the relayer has sent it
+  hash?: string
+  // Set when the vote failed at `step`
+  error?: string
+}
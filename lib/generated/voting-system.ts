@@ -0,0 +1,371 @@
+// This file is generated by scripts/generate-contract-types.mjs from contracts/VotingSystem.json.
+// Do not edit it by hand; recompile the contract and run `npm run generate:contract` instead.
+
+import type { AddressLike, BaseContract, BaseContractMethod, BigNumberish, BytesLike, ContractTransactionResponse } from "ethers"
+
+export interface CandidateAddedEventArgs {
+  electionId: bigint
+  candidateId: bigint
+  name: string
+}
+
+export interface CandidateUpdatedEventArgs {
+  electionId: bigint
+  candidateId: bigint
+  name: string
+}
+
+export interface CandidateWithdrawnEventArgs {
+  electionId: bigint
+  candidateId: bigint
+}
+
+export interface DelegateChangedEventArgs {
+  delegator: string
+  electionId: bigint
+  delegate: string
+}
+
+export interface DelegatedVoteCountedEventArgs {
+  electionId: bigint
+  delegator: string
+  delegate: string
+}
+
+export interface ElectionCancelledEventArgs {
+  electionId: bigint
+  reason: string
+}
+
+export interface ElectionCreatedEventArgs {
+  electionId: bigint
+  name: string
+  startTime: bigint
+  endTime: bigint
+}
+
+export interface ElectionExtendedEventArgs {
+  electionId: bigint
+  newEndTime: bigint
+}
+
+export interface ElectionPausedEventArgs {
+  electionId: bigint
+}
+
+export interface ElectionResumedEventArgs {
+  electionId: bigint
+}
+
+export interface ElectionUpdatedEventArgs {
+  electionId: bigint
+}
+
+export interface OwnershipTransferStartedEventArgs {
+  previousOwner: string
+  newOwner: string
+}
+
+export interface OwnershipTransferredEventArgs {
+  previousOwner: string
+  newOwner: string
+}
+
+export interface ResultsPublishedEventArgs {
+  electionId: bigint
+}
+
+export interface RoleGrantedEventArgs {
+  role: bigint
+  account: string
+  electionId: bigint
+  sender: string
+}
+
+export interface RoleRevokedEventArgs {
+  role: bigint
+  account: string
+  electionId: bigint
+  sender: string
+}
+
+export interface VoteCastEventArgs {
+  electionId: bigint
+  voter: string
+}
+
+export interface VoteRevealedEventArgs {
+  electionId: bigint
+  voter: string
+}
+
+export interface VoterRootSetEventArgs {
+  electionId: bigint
+  root: string
+  voters: string[]
+}
+
+export interface VoterWeightsSetEventArgs {
+  electionId: bigint
+  root: string
+  voters: string[]
+  weights: bigint[]
+}
+
+export interface AlreadyRevealedErrorArgs {
+}
+
+export interface AlreadyVotedErrorArgs {
+  electionId: bigint
+  voter: string
+}
+
+export interface BallotSecrecyLockedErrorArgs {
+}
+
+export interface CandidateIsWithdrawnErrorArgs {
+  candidateId: bigint
+}
+
+export interface CommitRevealNotSupportedErrorArgs {
+  electionType: bigint
+}
+
+export interface CommitRevealRequiredErrorArgs {
+}
+
+export interface DelegationNotSupportedErrorArgs {
+}
+
+export interface DuplicateCandidateErrorArgs {
+  candidateId: bigint
+}
+
+export interface ElectionAlreadyEndedErrorArgs {
+  endTime: bigint
+  currentTime: bigint
+}
+
+export interface ElectionAlreadyStartedErrorArgs {
+  startTime: bigint
+  currentTime: bigint
+}
+
+export interface ElectionIsCancelledErrorArgs {
+  electionId: bigint
+}
+
+export interface ElectionNotActiveErrorArgs {
+  startTime: bigint
+  endTime: bigint
+  currentTime: bigint
+}
+
+export interface ElectionNotEndedErrorArgs {
+  endTime: bigint
+  currentTime: bigint
+}
+
+export interface ElectionNotFoundErrorArgs {
+  electionId: bigint
+}
+
+export interface EndTimeNotLaterErrorArgs {
+  endTime: bigint
+  newEndTime: bigint
+}
+
+export interface InvalidAccountErrorArgs {
+}
+
+export interface InvalidCandidateErrorArgs {
+  candidateId: bigint
+}
+
+export interface InvalidCommitmentErrorArgs {
+}
+
+export interface InvalidRankingErrorArgs {
+}
+
+export interface InvalidRevealEndTimeErrorArgs {
+  endTime: bigint
+  revealEndTime: bigint
+}
+
+export interface InvalidScheduleErrorArgs {
+  startTime: bigint
+  endTime: bigint
+}
+
+export interface InvalidSignatureErrorArgs {
+}
+
+export interface LengthMismatchErrorArgs {
+}
+
+export interface MissingRoleErrorArgs {
+  role: bigint
+  electionId: bigint
+}
+
+export interface NoCandidatesSelectedErrorArgs {
+}
+
+export interface NoCandidatesToAddErrorArgs {
+}
+
+export interface NoCommitmentErrorArgs {
+}
+
+export interface NoVotingWeightErrorArgs {
+}
+
+export interface NotCommitRevealErrorArgs {
+}
+
+export interface NotInRevealPeriodErrorArgs {
+  endTime: bigint
+  revealEndTime: bigint
+  currentTime: bigint
+}
+
+export interface NotOnVoterRollErrorArgs {
+  electionId: bigint
+  voter: string
+}
+
+export interface NotOwnerErrorArgs {
+}
+
+export interface NotPendingOwnerErrorArgs {
+}
+
+export interface ResultsAlreadyPublishedErrorArgs {
+  electionId: bigint
+}
+
+export interface ResultsNotPublishedErrorArgs {
+  electionId: bigint
+}
+
+export interface RevealMismatchErrorArgs {
+}
+
+export interface RevealPeriodNotEndedErrorArgs {
+  revealEndTime: bigint
+  currentTime: bigint
+}
+
+export interface SeatsRequiredErrorArgs {
+}
+
+export interface SelectionLimitsNotSupportedErrorArgs {
+  electionType: bigint
+}
+
+export interface SelfDelegationErrorArgs {
+}
+
+export interface SignatureExpiredErrorArgs {
+  deadline: bigint
+  currentTime: bigint
+}
+
+export interface StartTimeInPastErrorArgs {
+  startTime: bigint
+  currentTime: bigint
+}
+
+export interface SuperAdminNotScopableErrorArgs {
+}
+
+export interface TooManySelectionsErrorArgs {
+  selected: bigint
+  maxSelections: bigint
+}
+
+export interface VotingIsPausedErrorArgs {
+  electionId: bigint
+}
+
+export interface VotingNotPausedErrorArgs {
+  electionId: bigint
+}
+
+export interface VotingWeightNotVerifiedErrorArgs {
+  voter: string
+  weight: bigint
+}
+
+export interface WrongElectionTypeErrorArgs {
+  electionType: bigint
+}
+
+export type VotingSystemEventName = "CandidateAdded" | "CandidateUpdated" | "CandidateWithdrawn" | "DelegateChanged" | "DelegatedVoteCounted" | "ElectionCancelled" | "ElectionCreated" | "ElectionExtended" | "ElectionPaused" | "ElectionResumed" | "ElectionUpdated" | "OwnershipTransferStarted" | "OwnershipTransferred" | "ResultsPublished" | "RoleGranted" | "RoleRevoked" | "VoteCast" | "VoteRevealed" | "VoterRootSet" | "VoterWeightsSet"
+
+export type VotingSystemErrorName = "AlreadyRevealed" | "AlreadyVoted" | "BallotSecrecyLocked" | "CandidateIsWithdrawn" | "CommitRevealNotSupported" | "CommitRevealRequired" | "DelegationNotSupported" | "DuplicateCandidate" | "ElectionAlreadyEnded" | "ElectionAlreadyStarted" | "ElectionIsCancelled" | "ElectionNotActive" | "ElectionNotEnded" | "ElectionNotFound" | "EndTimeNotLater" | "InvalidAccount" | "InvalidCandidate" | "InvalidCommitment" | "InvalidRanking" | "InvalidRevealEndTime" | "InvalidSchedule" | "InvalidSignature" | "LengthMismatch" | "MissingRole" | "NoCandidatesSelected" | "NoCandidatesToAdd" | "NoCommitment" | "NoVotingWeight" | "NotCommitReveal" | "NotInRevealPeriod" | "NotOnVoterRoll" | "NotOwner" | "NotPendingOwner" | "ResultsAlreadyPublished" | "ResultsNotPublished" | "RevealMismatch" | "RevealPeriodNotEnded" | "SeatsRequired" | "SelectionLimitsNotSupported" | "SelfDelegation" | "SignatureExpired" | "StartTimeInPast" | "SuperAdminNotScopable" | "TooManySelections" | "VotingIsPaused" | "VotingNotPaused" | "VotingWeightNotVerified" | "WrongElectionType"
+
+export type ElectionOptionsInput = { electionType: BigNumberish; revealEndTime: BigNumberish; maxSelections: BigNumberish; seats: BigNumberish }
+
+export type CandidateViewOutput = [bigint, string, string, boolean, string] & { id: bigint; name: string; info: string; withdrawn: boolean; profileHash: string }
+
+export type ElectionViewOutput = [bigint, string, string, bigint, bigint, bigint, boolean, string, bigint, bigint, bigint, bigint, bigint, boolean, boolean, boolean] & { id: bigint; name: string; description: string; startTime: bigint; endTime: bigint; candidateCount: bigint; resultsPublished: boolean; voterRoot: string; revealEndTime: bigint; revealCount: bigint; electionType: bigint; maxSelections: bigint; seats: bigint; cancelled: boolean; paused: boolean; extended: boolean }
+
+export interface VotingSystemContract extends BaseContract {
+  ALL_ELECTIONS: BaseContractMethod<[], bigint, bigint>
+  acceptOwnership: BaseContractMethod<[], void, ContractTransactionResponse>
+  addCandidate: BaseContractMethod<[_electionId: BigNumberish, _name: string, _info: string, _profileHash: BytesLike], void, ContractTransactionResponse>
+  addCandidates: BaseContractMethod<[_electionId: BigNumberish, _names: string[], _infos: string[], _profileHashes: BytesLike[]], void, ContractTransactionResponse>
+  ballotNonces: BaseContractMethod<[arg0: AddressLike], bigint, bigint>
+  cancelElection: BaseContractMethod<[_electionId: BigNumberish, _reason: string], void, ContractTransactionResponse>
+  candidateCounts: BaseContractMethod<[arg0: BigNumberish], bigint, bigint>
+  candidates: BaseContractMethod<[arg0: BigNumberish, arg1: BigNumberish], [string, string, bigint, bigint, boolean, string] & { name: string; info: string; voteCount: bigint; voterCount: bigint; withdrawn: boolean; profileHash: string }, [string, string, bigint, bigint, boolean, string] & { name: string; info: string; voteCount: bigint; voterCount: bigint; withdrawn: boolean; profileHash: string }>
+  commitVote: BaseContractMethod<[_electionId: BigNumberish, _commitment: BytesLike, _proof: BytesLike[]], void, ContractTransactionResponse>
+  countDelegatedVotes: BaseContractMethod<[_electionId: BigNumberish, _delegators: AddressLike[], _proofs: BytesLike[][]], void, ContractTransactionResponse>
+  createElection: BaseContractMethod<[_name: string, _description: string, _startTime: BigNumberish, _endTime: BigNumberish, _options: ElectionOptionsInput], void, ContractTransactionResponse>
+  delegateOf: BaseContractMethod<[_electionId: BigNumberish, _delegator: AddressLike], string, string>
+  delegateVote: BaseContractMethod<[_electionId: BigNumberish, _delegate: AddressLike], void, ContractTransactionResponse>
+  editElection: BaseContractMethod<[_electionId: BigNumberish, _name: string, _description: string, _startTime: BigNumberish, _endTime: BigNumberish, _revealEndTime: BigNumberish], void, ContractTransactionResponse>
+  electionCount: BaseContractMethod<[], bigint, bigint>
+  elections: BaseContractMethod<[arg0: BigNumberish], [string, string, bigint, bigint, boolean, boolean, boolean, boolean, bigint, bigint, bigint, bigint] & { name: string; description: string; startTime: bigint; endTime: bigint; exists: boolean; cancelled: boolean; paused: boolean; extended: boolean; revealEndTime: bigint; electionType: bigint; maxSelections: bigint; seats: bigint }, [string, string, bigint, bigint, boolean, boolean, boolean, boolean, bigint, bigint, bigint, bigint] & { name: string; description: string; startTime: bigint; endTime: bigint; exists: boolean; cancelled: boolean; paused: boolean; extended: boolean; revealEndTime: bigint; electionType: bigint; maxSelections: bigint; seats: bigint }>
+  extendElection: BaseContractMethod<[_electionId: BigNumberish, _newEndTime: BigNumberish], void, ContractTransactionResponse>
+  getCandidate: BaseContractMethod<[_electionId: BigNumberish, _candidateId: BigNumberish], [string, string, boolean, string] & { name: string; info: string; withdrawn: boolean; profileHash: string }, [string, string, boolean, string] & { name: string; info: string; withdrawn: boolean; profileHash: string }>
+  getCandidateCount: BaseContractMethod<[_electionId: BigNumberish], bigint, bigint>
+  getCandidates: BaseContractMethod<[_electionId: BigNumberish], CandidateViewOutput[], CandidateViewOutput[]>
+  getDelegation: BaseContractMethod<[_electionId: BigNumberish, _delegator: AddressLike], [string, bigint] & { delegate: string; since: bigint }, [string, bigint] & { delegate: string; since: bigint }>
+  getElectionCount: BaseContractMethod<[], bigint, bigint>
+  getElectionsPage: BaseContractMethod<[_offset: BigNumberish, _limit: BigNumberish], [ElectionViewOutput[], bigint] & { page: ElectionViewOutput[]; total: bigint }, [ElectionViewOutput[], bigint] & { page: ElectionViewOutput[]; total: bigint }>
+  getRankedBallots: BaseContractMethod<[_electionId: BigNumberish, _offset: BigNumberish, _limit: BigNumberish], [bigint[][], bigint] & { page: bigint[][]; total: bigint }, [bigint[][], bigint] & { page: bigint[][]; total: bigint }>
+  getVoteCount: BaseContractMethod<[_electionId: BigNumberish, _candidateId: BigNumberish], bigint, bigint>
+  getVoteCounts: BaseContractMethod<[_electionId: BigNumberish], bigint[], bigint[]>
+  getVoterCounts: BaseContractMethod<[_electionId: BigNumberish], bigint[], bigint[]>
+  getVoterStatusPage: BaseContractMethod<[_voter: AddressLike, _offset: BigNumberish, _limit: BigNumberish], boolean[], boolean[]>
+  grantRole: BaseContractMethod<[_role: BigNumberish, _account: AddressLike, _electionId: BigNumberish], void, ContractTransactionResponse>
+  hasRevealed: BaseContractMethod<[arg0: BigNumberish, arg1: AddressLike], boolean, boolean>
+  hasRole: BaseContractMethod<[_role: BigNumberish, _account: AddressLike, _electionId: BigNumberish], boolean, boolean>
+  hasVoted: BaseContractMethod<[arg0: BigNumberish, arg1: AddressLike], boolean, boolean>
+  hasVotingWeight: BaseContractMethod<[_electionId: BigNumberish, _voter: AddressLike, _weight: BigNumberish, _proof: BytesLike[]], boolean, boolean>
+  isEligible: BaseContractMethod<[_electionId: BigNumberish, _voter: AddressLike, _proof: BytesLike[]], boolean, boolean>
+  owner: BaseContractMethod<[], string, string>
+  pauseElection: BaseContractMethod<[_electionId: BigNumberish], void, ContractTransactionResponse>
+  pendingOwner: BaseContractMethod<[], string, string>
+  publishResults: BaseContractMethod<[_electionId: BigNumberish], void, ContractTransactionResponse>
+  resultsPublished: BaseContractMethod<[arg0: BigNumberish], boolean, boolean>
+  resumeElection: BaseContractMethod<[_electionId: BigNumberish], void, ContractTransactionResponse>
+  revealCounts: BaseContractMethod<[arg0: BigNumberish], bigint, bigint>
+  revealVote: BaseContractMethod<[_electionId: BigNumberish, _candidateId: BigNumberish, _salt: BytesLike], void, ContractTransactionResponse>
+  revokeRole: BaseContractMethod<[_role: BigNumberish, _account: AddressLike, _electionId: BigNumberish], void, ContractTransactionResponse>
+  setVoterRoot: BaseContractMethod<[_electionId: BigNumberish, _root: BytesLike, _voters: AddressLike[]], void, ContractTransactionResponse>
+  setVoterWeights: BaseContractMethod<[_electionId: BigNumberish, _root: BytesLike, _voters: AddressLike[], _weights: BigNumberish[]], void, ContractTransactionResponse>
+  transferOwnership: BaseContractMethod<[_newOwner: AddressLike], void, ContractTransactionResponse>
+  updateCandidate: BaseContractMethod<[_electionId: BigNumberish, _candidateId: BigNumberish, _name: string, _info: string, _profileHash: BytesLike], void, ContractTransactionResponse>
+  vote: BaseContractMethod<[_electionId: BigNumberish, _candidateId: BigNumberish, _proof: BytesLike[]], void, ContractTransactionResponse>
+  voteApproval: BaseContractMethod<[_electionId: BigNumberish, _candidateIds: BigNumberish[], _proof: BytesLike[]], void, ContractTransactionResponse>
+  voteBySig: BaseContractMethod<[_electionId: BigNumberish, _candidateId: BigNumberish, _voter: AddressLike, _deadline: BigNumberish, _v: BigNumberish, _r: BytesLike, _s: BytesLike, _proof: BytesLike[]], void, ContractTransactionResponse>
+  voteCommitments: BaseContractMethod<[arg0: BigNumberish, arg1: AddressLike], string, string>
+  voteRanked: BaseContractMethod<[_electionId: BigNumberish, _rankings: BigNumberish[], _proof: BytesLike[]], void, ContractTransactionResponse>
+  voteWeighted: BaseContractMethod<[_electionId: BigNumberish, _candidateId: BigNumberish, _weight: BigNumberish, _proof: BytesLike[]], void, ContractTransactionResponse>
+  voterRoots: BaseContractMethod<[arg0: BigNumberish], string, string>
+  withdrawCandidate: BaseContractMethod<[_electionId: BigNumberish, _candidateId: BigNumberish], void, ContractTransactionResponse>
+}
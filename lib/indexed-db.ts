@@ -0,0 +1,59 @@
+// Minimal promise wrapper around IndexedDB for the single key/value store the indexer needs
+
+const DB_NAME = "voting-system"
+const DB_VERSION = 1
+
+export const STORES = {
+  snapshots: "indexer-snapshots",
+} as const
+
+type StoreName = (typeof STORES)[keyof typeof STORES]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+const isAvailable = () => typeof indexedDB !== "undefined"
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        for (const store of Object.values(STORES)) {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store)
+          }
+        }
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+const runRequest = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest) => {
+  const db = await openDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store))
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export async function idbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  if (!isAvailable()) return undefined
+  return runRequest<T | undefined>(store, "readonly", (s) => s.get(key))
+}
+
+export async function idbPut<T>(store: StoreName, key: string, value: T): Promise<void> {
+  if (!isAvailable()) return
+  await runRequest(store, "readwrite", (s) => s.put(value, key))
+}
+
+export async function idbDelete(store: StoreName, key: string): Promise<void> {
+  if (!isAvailable()) return
+  await runRequest(store, "readwrite", (s) => s.delete(key))
+}
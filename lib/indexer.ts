@@ -0,0 +1,250 @@
+import { idbGet, idbPut, STORES } from "@/lib/indexed-db"
+import { LOG_CHUNK_SIZE, type VotingSystemClient, type VotingSystemLog } from "@/lib/voting-system-client"
+import type { CandidateData, ElectionSummary } from "@/types"
+
+// Minimum time between syncs triggered by new blocks
+const SYNC_INTERVAL_MS = 15_000
+// Local dev chains (Ganache, Hardhat) are short enough to replay from genesis
+const LOCAL_CHAIN_IDS = [1337, 31337]
+// How far back scanVotes looks for ballots when there is no indexer to replay them
+const VOTE_SCAN_BLOCKS = 200_000
+
+export interface IndexerSnapshot {
+  chainId: number
+  address: string
+  deploymentBlock: number
+  // Last block whose events are fully reflected in this snapshot
+  lastBlock: number
+  elections: Record<number, ElectionSummary>
+  candidates: Record<number, CandidateData[]>
+  // electionId → voter addresses, in the order their VoteCast events were emitted
+  votes: Record<number, string[]>
+}
+
+export interface IndexerOptions {
+  chainId: number
+  deploymentBlock?: number
+  deploymentTransactionHash?: string
+}
+
+// On public networks the replay has to start at the deployment, which must be configured
+export const canIndex = (options: IndexerOptions) =>
+  options.deploymentBlock !== undefined ||
+  !!options.deploymentTransactionHash ||
+  LOCAL_CHAIN_IDS.includes(options.chainId)
+
+/**
+ * Voters per election from the logs of ballots cast since `since` (a unix time), for networks the
+ * indexer cannot replay.
+ *
+ * Walks back from the latest block a chunk at a time, stopping at the first chunk that starts before
+ * `since` or after VOTE_SCAN_BLOCKS blocks, so turnout of very old elections may be undercounted.
+ */
+export async function scanVotes(client: VotingSystemClient, since: number): Promise<Record<number, string[]>> {
+  const provider = client.provider
+  if (!provider) throw new Error("Scanning votes requires a provider")
+
+  const votes: Record<number, string[]> = {}
+  const latestBlock = await provider.getBlockNumber()
+  const oldestBlock = Math.max(0, latestBlock - VOTE_SCAN_BLOCKS + 1)
+
+  for (let to = latestBlock; to >= oldestBlock; to -= LOG_CHUNK_SIZE) {
+    const from = Math.max(oldestBlock, to - LOG_CHUNK_SIZE + 1)
+    for (const log of await client.getEventLogs(from, to)) {
+      const ballot =
+        log.name === "VoteCast"
+          ? { electionId: Number(log.args.electionId), voter: log.args.voter }
+          : log.name === "DelegatedVoteCounted"
+            ? { electionId: Number(log.args.electionId), voter: log.args.delegator }
+            : null
+      if (ballot && !votes[ballot.electionId]?.includes(ballot.voter)) {
+        votes[ballot.electionId] = [...(votes[ballot.electionId] ?? []), ballot.voter]
+      }
+    }
+
+    const start = await provider.getBlock(from)
+    if (!start || start.timestamp < since) break
+  }
+  return votes
+}
+
+export const snapshotKey = (chainId: number, address: string) => `${chainId}:${address.toLowerCase()}`
+
+/**
+ * Replays VotingSystem events into a normalized cache persisted in IndexedDB.
+ *
+ * Each sync only asks the node for logs after the last processed block, and only re-reads
+ * elections and candidates that those logs touched.
+ */
+export class ContractIndexer {
+  private snapshot: IndexerSnapshot | null = null
+  private syncing: Promise<IndexerSnapshot> | null = null
+  private lastSyncStart = 0
+
+  constructor(
+    private readonly client: VotingSystemClient,
+    private readonly options: IndexerOptions,
+  ) {}
+
+  private get key() {
+    return snapshotKey(this.options.chainId, this.client.address)
+  }
+
+  // Cached state from a previous session, or null on first visit
+  async load(): Promise<IndexerSnapshot | null> {
+    if (!this.snapshot) {
+      try {
+        this.snapshot = (await idbGet<IndexerSnapshot>(STORES.snapshots, this.key)) ?? null
+      } catch (err) {
+        console.error("Failed to read indexer cache:", err)
+      }
+    }
+    return this.snapshot
+  }
+
+  // Concurrent callers share a single in-flight sync
+  sync(): Promise<IndexerSnapshot> {
+    if (!this.syncing) {
+      this.lastSyncStart = Date.now()
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null
+      })
+    }
+    return this.syncing
+  }
+
+  // For callers reacting to every new block; resolves to null when a sync started less than SYNC_INTERVAL_MS ago
+  syncIfDue(): Promise<IndexerSnapshot | null> {
+    if (this.syncing || Date.now() - this.lastSyncStart < SYNC_INTERVAL_MS) return Promise.resolve(null)
+    return this.sync()
+  }
+
+  private async resolveDeploymentBlock(): Promise<number> {
+    if (this.options.deploymentBlock !== undefined) return this.options.deploymentBlock
+    if (this.options.deploymentTransactionHash) {
+      const receipt = await this.client.provider?.getTransactionReceipt(this.options.deploymentTransactionHash)
+      if (receipt) return receipt.blockNumber
+    }
+    if (LOCAL_CHAIN_IDS.includes(this.options.chainId)) return 0
+    throw new Error(`Set deploymentBlock or deploymentTransactionHash to index chain ${this.options.chainId}`)
+  }
+
+  private async runSync(): Promise<IndexerSnapshot> {
+    const provider = this.client.provider
+    if (!provider) throw new Error("Indexer requires a provider")
+
+    const cached = await this.load()
+    const snapshot: IndexerSnapshot = cached
+      ? { ...cached }
+      : await (async () => {
+          const deploymentBlock = await this.resolveDeploymentBlock()
+          return {
+            chainId: this.options.chainId,
+            address: this.client.address,
+            deploymentBlock,
+            lastBlock: deploymentBlock - 1,
+            elections: {},
+            candidates: {},
+            votes: {},
+          }
+        })()
+
+    const latestBlock = await provider.getBlockNumber()
+
+    // A reset local chain (e.g. a restarted Ganache) invalidates everything we cached
+    if (latestBlock < snapshot.lastBlock) {
+      snapshot.lastBlock = snapshot.deploymentBlock - 1
+      snapshot.elections = {}
+      snapshot.candidates = {}
+      snapshot.votes = {}
+    }
+
+    for (let from = snapshot.lastBlock + 1; from <= latestBlock; from += LOG_CHUNK_SIZE) {
+      const to = Math.min(from + LOG_CHUNK_SIZE - 1, latestBlock)
+      await this.applyLogs(snapshot, await this.client.getEventLogs(from, to))
+      snapshot.lastBlock = to
+    }
+
+    this.snapshot = snapshot
+    try {
+      await idbPut(STORES.snapshots, this.key, snapshot)
+    } catch (err) {
+      console.error("Failed to persist indexer cache:", err)
+    }
+    return snapshot
+  }
+
+  private async applyLogs(snapshot: IndexerSnapshot, logs: VotingSystemLog[]) {
+    // Elections whose on-chain row has to be re-read: newly created, edited, lifecycle changes, or reveal counts moved
+    const refreshIds: number[] = []
+    const candidateElectionIds = new Set<number>()
+    const votes = { ...snapshot.votes }
+    const elections = { ...snapshot.elections }
+
+    for (const log of logs) {
+      // Ownership changes are not tied to an election and are not kept in the snapshot
+      if (!("electionId" in log.args)) continue
+      const electionId = Number(log.args.electionId)
+      switch (log.name) {
+        case "ElectionCreated":
+        case "VoteRevealed":
+        case "ElectionUpdated":
+        case "ElectionCancelled":
+        case "ElectionExtended":
+        case "ElectionPaused":
+        case "ElectionResumed":
+          refreshIds.push(electionId)
+          break
+        case "CandidateAdded":
+        case "CandidateUpdated":
+        case "CandidateWithdrawn":
+          candidateElectionIds.add(electionId)
+          break
+        case "VoteCast":
+          if (!votes[electionId]?.includes(log.args.voter)) {
+            votes[electionId] = [...(votes[electionId] ?? []), log.args.voter]
+          }
+          break
+        case "DelegatedVoteCounted":
+          if (!votes[electionId]?.includes(log.args.delegator)) {
+            votes[electionId] = [...(votes[electionId] ?? []), log.args.delegator]
+          }
+          break
+        case "ResultsPublished":
+          if (elections[electionId]) {
+            elections[electionId] = { ...elections[electionId], resultsPublished: true }
+          }
+          break
+        case "VoterRootSet":
+        case "VoterWeightsSet":
+          if (elections[electionId]) {
+            elections[electionId] = { ...elections[electionId], voterRoot: log.args.root }
+          }
+          break
+      }
+    }
+
+    // Events omit descriptions and candidate info, so read just the touched records in bulk
+    if (refreshIds.length > 0) {
+      const first = Math.min(...refreshIds)
+      const { elections: refreshed } = await this.client.getElectionsPage(first, Math.max(...refreshIds) - first + 1)
+      for (const election of refreshed) {
+        elections[election.id] = election
+      }
+    }
+
+    const candidates = { ...snapshot.candidates }
+    await Promise.all(
+      [...candidateElectionIds].map(async (electionId) => {
+        candidates[electionId] = await this.client.getCandidates(electionId)
+        if (elections[electionId]) {
+          elections[electionId] = { ...elections[electionId], candidateCount: candidates[electionId].length }
+        }
+      }),
+    )
+
+    snapshot.elections = elections
+    snapshot.candidates = candidates
+    snapshot.votes = votes
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Instant-runoff tally for ranked-choice elections.
+ *
+ * Each round counts every ballot for its highest-ranked candidate still in the race. A candidate
+ * with a majority of the continuing ballots wins; otherwise the candidate with the fewest votes is
+ * eliminated and their ballots transfer to the next preference. Ballots with no remaining
+ * preferences are exhausted and drop out of the majority threshold.
+ */
+
+export interface IrvRound {
+  round: number
+  // candidateId → votes this round, for candidates still in the race
+  tallies: Record<number, number>
+  continuingBallots: number
+  exhaustedBallots: number
+  // Set on every round except the last
+  eliminated: number | null
+  // The elimination was a tie on votes, settled by the tie-break rule
+  tieBreak: boolean
+  // Where the eliminated candidate's ballots went: candidateId → count; exhausted ballots are listed separately
+  transfers: Record<number, number>
+  exhaustedByTransfer: number
+}
+
+export interface IrvResult {
+  winner: number | null
+  rounds: IrvRound[]
+  totalBallots: number
+}
+
+const leadingChoice = (ballot: number[], continuing: Set<number>) => ballot.find((id) => continuing.has(id))
+
+/**
+ * Picks the candidate to eliminate. Ties on the current count are broken by the most recent earlier
+ * round in which the tied candidates differ; if they were level in every round, the candidate with
+ * the highest id (the one added last) is eliminated so the result is deterministic.
+ */
+function chooseElimination(tallies: Record<number, number>, history: IrvRound[]): { id: number; tieBreak: boolean } {
+  const entries = Object.entries(tallies).map(([id, votes]) => [Number(id), votes] as const)
+  const fewest = Math.min(...entries.map(([, votes]) => votes))
+  let tied = entries.filter(([, votes]) => votes === fewest).map(([id]) => id)
+
+  if (tied.length === 1) return { id: tied[0], tieBreak: false }
+
+  for (let i = history.length - 1; i >= 0 && tied.length > 1; i--) {
+    const earlier = history[i].tallies
+    const lowest = Math.min(...tied.map((id) => earlier[id] ?? 0))
+    tied = tied.filter((id) => (earlier[id] ?? 0) === lowest)
+  }
+
+  return { id: Math.max(...tied), tieBreak: true }
+}
+
+export function tallyInstantRunoff(candidateIds: number[], ballots: number[][]): IrvResult {
+  const continuing = new Set(candidateIds)
+  const rounds: IrvRound[] = []
+
+  // Ballots grouped by the candidate they currently count for
+  const piles = new Map<number, number[][]>(candidateIds.map((id) => [id, []]))
+  let exhaustedBallots = 0
+  for (const ballot of ballots) {
+    const choice = leadingChoice(ballot, continuing)
+    if (choice === undefined) {
+      exhaustedBallots++
+    } else {
+      piles.get(choice)!.push(ballot)
+    }
+  }
+
+  while (continuing.size > 0) {
+    const tallies: Record<number, number> = {}
+    for (const id of continuing) {
+      tallies[id] = piles.get(id)!.length
+    }
+    const continuingBallots = ballots.length - exhaustedBallots
+    const round: IrvRound = {
+      round: rounds.length + 1,
+      tallies,
+      continuingBallots,
+      exhaustedBallots,
+      eliminated: null,
+      tieBreak: false,
+      transfers: {},
+      exhaustedByTransfer: 0,
+    }
+
+    const [leader, leaderVotes] = Object.entries(tallies)
+      .map(([id, votes]) => [Number(id), votes] as const)
+      .reduce((best, entry) => (entry[1] > best[1] ? entry : best))
+
+    if (continuing.size === 1 || leaderVotes * 2 > continuingBallots) {
+      rounds.push(round)
+      return { winner: continuingBallots > 0 ? leader : null, rounds, totalBallots: ballots.length }
+    }
+
+    const { id: eliminated, tieBreak } = chooseElimination(tallies, rounds)
+    continuing.delete(eliminated)
+    round.eliminated = eliminated
+    round.tieBreak = tieBreak
+
+    for (const ballot of piles.get(eliminated)!) {
+      const next = leadingChoice(ballot, continuing)
+      if (next === undefined) {
+        round.exhaustedByTransfer++
+        exhaustedBallots++
+      } else {
+        round.transfers[next] = (round.transfers[next] ?? 0) + 1
+        piles.get(next)!.push(ballot)
+      }
+    }
+    piles.delete(eliminated)
+    rounds.push(round)
+  }
+
+  return { winner: null, rounds, totalBallots: ballots.length }
+}
@@ -0,0 +1,31 @@
+import { promises as fs } from "fs"
+import path from "path"
+import { computeCid, digestFromCid } from "@/lib/content-store"
+
+/**
+ * Server-side storage for the stand-in IPFS node served under /api/ipfs, for local development
+ * without a Kubo node. Blobs are files named by CID in IPFS_STANDIN_DIR (default .ipfs-standin).
+ *
+ * Uploads are unauthenticated, so production builds serve nothing here; point
+ * NEXT_PUBLIC_IPFS_ADD_URL and NEXT_PUBLIC_IPFS_GATEWAY_URL at a real node instead.
+ */
+export const isStandinEnabled = () => process.env.NODE_ENV !== "production"
+
+const storageDir = () => path.resolve(process.cwd(), process.env.IPFS_STANDIN_DIR || ".ipfs-standin")
+
+export async function putBlob(bytes: Uint8Array): Promise<string> {
+  const cid = computeCid(bytes)
+  await fs.mkdir(storageDir(), { recursive: true })
+  await fs.writeFile(path.join(storageDir(), cid), bytes)
+  return cid
+}
+
+// Null when the CID is malformed or not stored here
+export async function getBlob(cid: string): Promise<Uint8Array | null> {
+  if (!digestFromCid(cid)) return null
+  try {
+    return new Uint8Array(await fs.readFile(path.join(storageDir(), cid)))
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,161 @@
+import { ethers } from "ethers"
+import { parseCsv } from "@/lib/csv"
+import type { VoterWeight } from "@/types"
+
+// Leaf and pair hashing match VotingSystem._verifyProof: keccak256(abi.encodePacked(voter)), sorted pairs
+export const hashVoterLeaf = (address: string) => ethers.solidityPackedKeccak256(["address"], [address])
+
+const hashPair = (a: string, b: string) =>
+  a.toLowerCase() < b.toLowerCase() ? ethers.keccak256(ethers.concat([a, b])) : ethers.keccak256(ethers.concat([b, a]))
+
+// Hash layers from leaves up to the root; an unpaired node is promoted to the next level unchanged
+function buildLayers(leaves: string[]): string[][] {
+  const layers = [leaves]
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1]
+    const next: string[] = []
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i])
+    }
+    layers.push(next)
+  }
+  return layers
+}
+
+// Sibling hashes from the leaf at `index` to the root
+function proofFor(layers: string[][], index: number): string[] {
+  const proof: string[] = []
+  for (const level of layers.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1
+    if (sibling < level.length) proof.push(level[sibling])
+    index = Math.floor(index / 2)
+  }
+  return proof
+}
+
+/**
+ * Merkle tree over a voter roll.
+ *
+ * Addresses are checksummed, de-duplicated and sorted, so the same roll always yields the same root
+ * regardless of the order it was imported in.
+ */
+export class VoterMerkleTree {
+  readonly voters: string[]
+  private readonly layers: string[][]
+
+  constructor(addresses: string[]) {
+    this.voters = [...new Set(addresses.map((address) => ethers.getAddress(address)))].sort()
+    if (this.voters.length === 0) {
+      throw new Error("A voter roll needs at least one address")
+    }
+    this.layers = buildLayers(this.voters.map(hashVoterLeaf))
+  }
+
+  get root(): string {
+    return this.layers[this.layers.length - 1][0]
+  }
+
+  includes(address: string): boolean {
+    return ethers.isAddress(address) && this.voters.includes(ethers.getAddress(address))
+  }
+
+  // Sibling hashes from leaf to root, or null when the address is not on the roll
+  getProof(address: string): string[] | null {
+    if (!this.includes(address)) return null
+    return proofFor(this.layers, this.voters.indexOf(ethers.getAddress(address)))
+  }
+
+  static verify(root: string, address: string, proof: string[]): boolean {
+    return proof.reduce(hashPair, hashVoterLeaf(address)).toLowerCase() === root.toLowerCase()
+  }
+}
+
+// Leaf for weighted elections, matching VotingSystem.hasVotingWeight: keccak256(abi.encodePacked(voter, weight))
+export const hashWeightedLeaf = (address: string, weight: bigint) =>
+  ethers.solidityPackedKeccak256(["address", "uint256"], [address, weight])
+
+/**
+ * Merkle tree over a weighted voter roll (share register or token snapshot).
+ *
+ * Entries are sorted by address like VoterMerkleTree. An address may appear only once, since
+ * silently merging or dropping a duplicate would change someone's voting power.
+ */
+export class WeightedVoterMerkleTree {
+  readonly entries: VoterWeight[]
+  private readonly layers: string[][]
+
+  constructor(entries: VoterWeight[]) {
+    this.entries = entries
+      .map(({ address, weight }) => ({ address: ethers.getAddress(address), weight }))
+      .filter(({ weight }) => weight > BigInt(0))
+      .sort((a, b) => (a.address < b.address ? -1 : a.address > b.address ? 1 : 0))
+    if (this.entries.length === 0) {
+      throw new Error("A weighted voter roll needs at least one address with a positive weight")
+    }
+
+    const duplicate = this.entries.find((entry, i) => i > 0 && this.entries[i - 1].address === entry.address)
+    if (duplicate) {
+      throw new Error(`${duplicate.address} appears more than once in the voter roll`)
+    }
+
+    this.layers = buildLayers(this.entries.map(({ address, weight }) => hashWeightedLeaf(address, weight)))
+  }
+
+  get root(): string {
+    return this.layers[this.layers.length - 1][0]
+  }
+
+  get totalWeight(): bigint {
+    return this.entries.reduce((sum, entry) => sum + entry.weight, BigInt(0))
+  }
+
+  // The address's weight and proof, or null when it is not on the roll
+  getProof(address: string): { weight: bigint; proof: string[] } | null {
+    if (!ethers.isAddress(address)) return null
+    const index = this.entries.findIndex((entry) => entry.address === ethers.getAddress(address))
+    if (index === -1) return null
+    return { weight: this.entries[index].weight, proof: proofFor(this.layers, index) }
+  }
+}
+
+export interface ParsedVoterRoll {
+  addresses: string[]
+  // Non-empty first-column values that are not addresses, e.g. a header row or a typo
+  invalid: string[]
+}
+
+// Reads a voter roll export: one address per row in the first column, other columns ignored
+export function parseVoterRollCsv(text: string): ParsedVoterRoll {
+  const addresses: string[] = []
+  const invalid: string[] = []
+  for (const [first] of parseCsv(text)) {
+    const value = first.trim()
+    if (ethers.isAddress(value)) {
+      addresses.push(value)
+    } else if (value) {
+      invalid.push(value)
+    }
+  }
+  return { addresses, invalid }
+}
+
+export interface ParsedWeightedRoll {
+  entries: VoterWeight[]
+  invalid: string[]
+}
+
+// Reads "address,weight" rows; weights are whole numbers (shares, or token amounts in base units)
+export function parseWeightedRollCsv(text: string): ParsedWeightedRoll {
+  const entries: VoterWeight[] = []
+  const invalid: string[] = []
+  for (const [first, second = ""] of parseCsv(text)) {
+    const address = first.trim()
+    const weight = second.trim()
+    if (ethers.isAddress(address) && /^\d+$/.test(weight)) {
+      entries.push({ address, weight: BigInt(weight) })
+    } else if (address) {
+      invalid.push(address)
+    }
+  }
+  return { entries, invalid }
+}
@@ -0,0 +1,36 @@
+import type { CandidateResult } from "@/types"
+
+export interface SeatAllocation {
+  // Candidates who clearly won a seat
+  elected: CandidateResult[]
+  // Candidates level on votes for the remaining seats; empty when there is no tie at the cut-off
+  tied: CandidateResult[]
+  // Seats the tied candidates are competing for
+  contestedSeats: number
+}
+
+/**
+ * Fills `seats` winners from the top of an approval / select-up-to-N tally.
+ *
+ * When candidates share the vote count at the cut-off, none of them is declared elected; they are
+ * returned in `tied` so the organizer can apply their own tie-break rule.
+ */
+export function allocateSeats(results: CandidateResult[], seats: number): SeatAllocation {
+  const ranked = [...results].sort((a, b) =>
+    a.voteCount === b.voteCount ? a.id - b.id : b.voteCount > a.voteCount ? 1 : -1,
+  )
+  if (ranked.length <= seats) {
+    return { elected: ranked, tied: [], contestedSeats: 0 }
+  }
+
+  const cutoff = ranked[seats - 1].voteCount
+  const elected = ranked.filter((candidate) => candidate.voteCount > cutoff)
+  const atCutoff = ranked.filter((candidate) => candidate.voteCount === cutoff)
+
+  // Everyone on the cut-off count fits into the remaining seats, so there is no real tie
+  if (elected.length + atCutoff.length <= seats) {
+    return { elected: [...elected, ...atCutoff], tied: [], contestedSeats: 0 }
+  }
+
+  return { elected, tied: atCutoff, contestedSeats: seats - elected.length }
+}
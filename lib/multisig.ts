@@ -0,0 +1,207 @@
+import { ethers, type ContractTransactionResponse, type Signer } from "ethers"
+
+/**
+ * Support for a contract owner that is a Gnosis Safe (v1.3+) multisig.
+ *
+ * Admin calls become Safe transactions. Signers confirm them on-chain with approveHash, so no
+ * transaction service is needed; the last signer executes with pre-validated signatures. The
+ * proposal itself (target, calldata, nonce) lives in localStorage and is passed to the other
+ * signers as a share code.
+ */
+const SAFE_ABI = [
+  "function getOwners() view returns (address[])",
+  "function getThreshold() view returns (uint256)",
+  "function nonce() view returns (uint256)",
+  "function approvedHashes(address owner, bytes32 hash) view returns (uint256)",
+  "function approveHash(bytes32 hashToApprove)",
+  "function getTransactionHash(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, uint256 _nonce) view returns (bytes32)",
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool)",
+]
+
+export interface SafeInfo {
+  address: string
+  owners: string[]
+  threshold: number
+  nonce: number
+}
+
+export interface SafeProposal {
+  chainId: number
+  safe: string
+  to: string
+  data: string
+  nonce: number
+  // Safe transaction hash that signers approve
+  hash: string
+  // Name of the admin function, shown to the other signers
+  description: string
+  createdAt: number
+}
+
+// What an admin call turned into: the call itself, or, through a Safe that needs more signers, a
+// proposal plus this signer's approveHash confirmation, which carries none of the target's events
+export type AdminCallResult =
+  | { kind: "executed"; tx: ContractTransactionResponse }
+  | { kind: "proposed"; proposal: SafeProposal; approval: ContractTransactionResponse }
+
+// Confirmation for a call that was only proposed; the other signers find it under Ownership
+export const PROPOSAL_SUBMITTED = "Proposal submitted to the Safe. It takes effect once enough signers confirm it."
+
+export interface ProposalStatus {
+  confirmations: string[]
+  threshold: number
+  // The Safe nonce moved past the proposal: it was executed, or replaced by another transaction
+  settled: boolean
+}
+
+const STORAGE_PREFIX = "voting-system:safe-proposal:"
+
+// Same-chain calls only: no ETH value, CALL operation and no gas refund
+const execArgs = (proposal: Pick<SafeProposal, "to" | "data">) =>
+  [proposal.to, 0, proposal.data, 0, 0, 0, 0, ethers.ZeroAddress, ethers.ZeroAddress] as const
+
+// Null unless `address` is a contract that answers the Safe owner/threshold calls
+export async function getSafeInfo(provider: ethers.Provider, address: string): Promise<SafeInfo | null> {
+  if ((await provider.getCode(address)) === "0x") return null
+
+  const safe = new ethers.Contract(address, SAFE_ABI, provider)
+  try {
+    const [owners, threshold, nonce] = await Promise.all([safe.getOwners(), safe.getThreshold(), safe.nonce()])
+    return { address: ethers.getAddress(address), owners: [...owners], threshold: Number(threshold), nonce: Number(nonce) }
+  } catch {
+    return null
+  }
+}
+
+export class SafeProposer {
+  readonly safe: SafeInfo
+  private readonly contract: ethers.Contract
+  private readonly signer: Signer
+  private readonly chainId: number
+
+  constructor(safe: SafeInfo, signer: Signer, chainId: number) {
+    this.safe = safe
+    this.signer = signer
+    this.chainId = chainId
+    this.contract = new ethers.Contract(safe.address, SAFE_ABI, signer)
+  }
+
+  /**
+   * Creates a Safe transaction calling `to` with `data` and confirms it for the connected signer.
+   *
+   * With a threshold of one and nothing queued ahead of it, it is executed straight away;
+   * otherwise it is left as a proposal for the other signers.
+   */
+  async propose(to: string, data: string, description: string): Promise<AdminCallResult> {
+    const onChainNonce = Number(await this.contract.nonce())
+    const queued = listProposals(this.chainId, this.safe.address).filter((proposal) => proposal.nonce >= onChainNonce)
+    const nonce = Math.max(onChainNonce, ...queued.map((proposal) => proposal.nonce + 1))
+    const hash: string = await this.contract.getTransactionHash(...execArgs({ to, data }), nonce)
+
+    const proposal: SafeProposal = {
+      chainId: this.chainId,
+      safe: this.safe.address,
+      to,
+      data,
+      nonce,
+      hash,
+      description,
+      createdAt: Math.floor(Date.now() / 1000),
+    }
+
+    if (this.safe.threshold <= 1 && nonce === onChainNonce) {
+      return { kind: "executed", tx: await this.execute(proposal) }
+    }
+
+    saveProposal(proposal)
+    return { kind: "proposed", proposal, approval: await this.contract.approveHash(hash) }
+  }
+
+  // An imported share code must hash to the transaction it claims to describe
+  async verify(proposal: SafeProposal): Promise<boolean> {
+    if (proposal.chainId !== this.chainId || ethers.getAddress(proposal.safe) !== this.safe.address) return false
+    const hash: string = await this.contract.getTransactionHash(...execArgs(proposal), proposal.nonce)
+    return hash === proposal.hash
+  }
+
+  async confirm(proposal: SafeProposal): Promise<ContractTransactionResponse> {
+    return this.contract.approveHash(proposal.hash)
+  }
+
+  async getStatus(proposal: SafeProposal): Promise<ProposalStatus> {
+    const [approvals, nonce] = await Promise.all([
+      Promise.all(this.safe.owners.map((owner) => this.contract.approvedHashes(owner, proposal.hash))),
+      this.contract.nonce(),
+    ])
+    return {
+      confirmations: this.safe.owners.filter((_, i) => approvals[i] > BigInt(0)),
+      threshold: this.safe.threshold,
+      settled: Number(nonce) > proposal.nonce,
+    }
+  }
+
+  // The executing signer counts as a confirmation even if it has not called approveHash
+  async execute(proposal: SafeProposal): Promise<ContractTransactionResponse> {
+    const sender = ethers.getAddress(await this.signer.getAddress())
+    const { confirmations } = await this.getStatus(proposal)
+    const signers = [...new Set([...confirmations, sender])]
+      .filter((owner) => this.safe.owners.includes(owner))
+      .sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1))
+      .slice(0, this.safe.threshold)
+
+    // Pre-validated signatures: r = owner, s = 0, v = 1
+    const signatures = ethers.concat(
+      signers.map((owner) => ethers.concat([ethers.zeroPadValue(owner, 32), ethers.ZeroHash, "0x01"])),
+    )
+    const tx: ContractTransactionResponse = await this.contract.execTransaction(...execArgs(proposal), signatures)
+    removeProposal(proposal)
+    return tx
+  }
+}
+
+const storageKey = (proposal: Pick<SafeProposal, "chainId" | "safe" | "hash">) =>
+  `${STORAGE_PREFIX}${proposal.chainId}:${proposal.safe.toLowerCase()}:${proposal.hash}`
+
+const canUseStorage = () => typeof window !== "undefined" && !!window.localStorage
+
+export function saveProposal(proposal: SafeProposal) {
+  if (!canUseStorage()) return
+  window.localStorage.setItem(storageKey(proposal), JSON.stringify(proposal))
+}
+
+export function removeProposal(proposal: SafeProposal) {
+  if (!canUseStorage()) return
+  window.localStorage.removeItem(storageKey(proposal))
+}
+
+export function listProposals(chainId: number, safe: string): SafeProposal[] {
+  if (!canUseStorage()) return []
+  const prefix = `${STORAGE_PREFIX}${chainId}:${safe.toLowerCase()}:`
+  const proposals: SafeProposal[] = []
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const key = window.localStorage.key(i)
+    if (key?.startsWith(prefix)) {
+      proposals.push(JSON.parse(window.localStorage.getItem(key)!) as SafeProposal)
+    }
+  }
+  return proposals.sort((a, b) => a.nonce - b.nonce)
+}
+
+// Base64 JSON the proposer sends to the other signers so they can confirm the same transaction
+export const encodeProposal = (proposal: SafeProposal) => btoa(JSON.stringify(proposal))
+
+export function decodeProposal(code: string): SafeProposal | null {
+  try {
+    const proposal = JSON.parse(atob(code.trim())) as SafeProposal
+    const valid =
+      Number.isInteger(proposal.chainId) &&
+      ethers.isAddress(proposal.safe) &&
+      ethers.isAddress(proposal.to) &&
+      ethers.isHexString(proposal.data) &&
+      Number.isInteger(proposal.nonce) &&
+      ethers.isHexString(proposal.hash, 32)
+    return valid ? proposal : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,136 @@
+import VotingContract from "@/contracts/VotingSystem.json"
+
+export interface NetworkConfig {
+  chainId: number
+  name: string
+  rpcUrl?: string
+  blockExplorerUrl?: string
+  contractAddress?: string
+  // Truffle keys deployments by network_id, which differs from the chain id on Ganache (5777 vs 1337)
+  networkId?: number
+  // Where the indexer starts replaying events; resolved from the deployment tx when only that is known
+  deploymentBlock?: number
+  deploymentTransactionHash?: string
+}
+
+interface TruffleDeployment {
+  address: string
+  transactionHash?: string
+}
+
+// Networks we know how to talk to; addresses are filled in from the artifact and env below (see .env.example)
+const DEFAULT_NETWORKS: NetworkConfig[] = [
+  {
+    chainId: 1337,
+    networkId: 5777,
+    name: "Ganache (local)",
+    rpcUrl: "http://127.0.0.1:7545",
+  },
+  {
+    chainId: 11155111,
+    name: "Sepolia",
+    rpcUrl: "https://rpc.sepolia.org",
+    blockExplorerUrl: "https://sepolia.etherscan.io",
+  },
+  {
+    chainId: 1,
+    name: "Ethereum Mainnet",
+    rpcUrl: "https://cloudflare-eth.com",
+    blockExplorerUrl: "https://etherscan.io",
+  },
+]
+
+const truffleDeployments = (): Record<string, TruffleDeployment> =>
+  ((VotingContract as { networks?: Record<string, TruffleDeployment> }).networks ?? {})
+
+// NEXT_PUBLIC_NETWORKS takes a JSON array of NetworkConfig objects
+const parseEnvNetworks = (): NetworkConfig[] => {
+  const raw = process.env.NEXT_PUBLIC_NETWORKS
+  if (!raw) return []
+
+  try {
+    const parsed = JSON.parse(raw)
+    return Array.isArray(parsed) ? parsed.filter((n) => typeof n?.chainId === "number") : []
+  } catch (err) {
+    console.error("Ignoring invalid NEXT_PUBLIC_NETWORKS:", err)
+    return []
+  }
+}
+
+// Single-network shorthand: NEXT_PUBLIC_CHAIN_ID + NEXT_PUBLIC_VOTING_CONTRACT_ADDRESS (+ NEXT_PUBLIC_RPC_URL,
+// and NEXT_PUBLIC_DEPLOYMENT_BLOCK so the indexer can run on public networks)
+const singleEnvNetwork = (): NetworkConfig | null => {
+  const chainId = Number(process.env.NEXT_PUBLIC_CHAIN_ID)
+  const contractAddress = process.env.NEXT_PUBLIC_VOTING_CONTRACT_ADDRESS
+  if (!chainId || !contractAddress) return null
+  const deploymentBlock = Number(process.env.NEXT_PUBLIC_DEPLOYMENT_BLOCK)
+
+  return {
+    chainId,
+    name: process.env.NEXT_PUBLIC_NETWORK_NAME || `Chain ${chainId}`,
+    rpcUrl: process.env.NEXT_PUBLIC_RPC_URL,
+    blockExplorerUrl: process.env.NEXT_PUBLIC_BLOCK_EXPLORER_URL,
+    contractAddress,
+    deploymentBlock: process.env.NEXT_PUBLIC_DEPLOYMENT_BLOCK && Number.isInteger(deploymentBlock) ? deploymentBlock : undefined,
+  }
+}
+
+const mergeNetwork = (base: NetworkConfig | undefined, override: Partial<NetworkConfig> & { chainId: number }) => ({
+  name: `Chain ${override.chainId}`,
+  ...base,
+  ...Object.fromEntries(Object.entries(override).filter(([, value]) => value !== undefined)),
+}) as NetworkConfig
+
+/**
+ * Builds the chainId → deployment registry.
+ *
+ * Later sources win: built-in defaults, then Truffle's `networks` section in the artifact,
+ * then NEXT_PUBLIC_NETWORKS, then the single-network env shorthand.
+ */
+export const buildNetworkRegistry = (): Map<number, NetworkConfig> => {
+  const registry = new Map<number, NetworkConfig>()
+  for (const network of DEFAULT_NETWORKS) {
+    registry.set(network.chainId, network)
+  }
+
+  for (const [id, deployment] of Object.entries(truffleDeployments())) {
+    const networkId = Number(id)
+    const known = [...registry.values()].find((n) => n.networkId === networkId || n.chainId === networkId)
+    const chainId = known?.chainId ?? networkId
+    registry.set(
+      chainId,
+      mergeNetwork(known, {
+        chainId,
+        networkId,
+        contractAddress: deployment.address,
+        deploymentTransactionHash: deployment.transactionHash,
+      }),
+    )
+  }
+
+  const envNetworks = parseEnvNetworks()
+  const single = singleEnvNetwork()
+  for (const network of single ? [...envNetworks, single] : envNetworks) {
+    registry.set(network.chainId, mergeNetwork(registry.get(network.chainId), network))
+  }
+
+  return registry
+}
+
+export const networkRegistry = buildNetworkRegistry()
+
+export const getNetwork = (chainId: number): NetworkConfig | null => networkRegistry.get(chainId) ?? null
+
+// Networks that actually have a VotingSystem deployment configured
+export const getSupportedNetworks = (): NetworkConfig[] =>
+  [...networkRegistry.values()].filter((network) => !!network.contractAddress)
+
+export const getExplorerUrl = (network: NetworkConfig | null, kind: "tx" | "address", value: string) =>
+  network?.blockExplorerUrl ? `${network.blockExplorerUrl.replace(/\/$/, "")}/${kind}/${value}` : null
+
+// Network used for wallet-less browsing: NEXT_PUBLIC_READ_ONLY_CHAIN_ID, else the first deployment with an RPC URL
+export const getReadOnlyNetwork = (): NetworkConfig | null => {
+  const preferred = Number(process.env.NEXT_PUBLIC_READ_ONLY_CHAIN_ID)
+  const candidates = getSupportedNetworks().filter((network) => !!network.rpcUrl)
+  return candidates.find((network) => network.chainId === preferred) ?? candidates[0] ?? null
+}
@@ -0,0 +1,82 @@
+import { ethers } from "ethers"
+import { VotingSystemClient } from "@/lib/voting-system-client"
+import { getNetwork } from "@/lib/networks"
+import type { SignedBallot } from "@/types"
+
+interface Relayer {
+  client: VotingSystemClient
+  // Hands out nonces locally so concurrent requests never send two transactions with the same one
+  signer: ethers.NonceManager
+  address: string
+}
+
+// One relayer per chain for the life of the server process, so every request shares its nonce sequence
+const relayers = new Map<number, Relayer>()
+
+// Ballots being or already relayed, keyed by ballotKey; hash is null while the submission is in flight.
+// Entries are dropped once the ballot's deadline passes, after which the contract rejects it anyway.
+const relayedBallots = new Map<string, { hash: string | null; deadline: number }>()
+
+const ballotKey = (ballot: SignedBallot) => `${ballot.voter.toLowerCase()}:${ballot.electionId}:${ballot.nonce}`
+
+const loadRelayer = (chainId: number): Relayer | null => {
+  const privateKey = process.env.RELAYER_PRIVATE_KEY
+  const relayChainId = Number(process.env.RELAYER_CHAIN_ID || process.env.NEXT_PUBLIC_CHAIN_ID)
+  const network = getNetwork(chainId)
+  const rpcUrl = process.env.RELAYER_RPC_URL || network?.rpcUrl
+  if (!privateKey || chainId !== relayChainId || !network?.contractAddress || !rpcUrl) return null
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true })
+  const wallet = new ethers.Wallet(privateKey, provider)
+  const signer = new ethers.NonceManager(wallet)
+  return { client: new VotingSystemClient(network.contractAddress, signer), signer, address: wallet.address }
+}
+
+/**
+ * Server-side relayer behind /api/relay: submits signed ballots with the funded key in
+ * RELAYER_PRIVATE_KEY so voters need no ETH. It serves the single chain in RELAYER_CHAIN_ID
+ * (default NEXT_PUBLIC_CHAIN_ID), over RELAYER_RPC_URL or that network's configured RPC URL.
+ */
+export function getRelayer(chainId: number): VotingSystemClient | null {
+  if (!relayers.has(chainId)) {
+    const relayer = loadRelayer(chainId)
+    if (!relayer) return null
+    relayers.set(chainId, relayer)
+  }
+  return relayers.get(chainId)!.client
+}
+
+// Address paying for relayed ballots, for display; null when relaying is not configured
+export function getRelayerAddress(chainId: number): string | null {
+  return getRelayer(chainId) ? relayers.get(chainId)!.address : null
+}
+
+// A send that failed may or may not have used its nonce, so the next one asks the node again
+export function resetRelayerNonce(chainId: number) {
+  relayers.get(chainId)?.signer.reset()
+}
+
+// Reserves the ballot for this request. Returns the earlier claim instead when the same ballot is already
+// in flight (hash null) or was relayed before.
+export function claimBallot(ballot: SignedBallot): { hash: string | null } | null {
+  const now = Math.floor(Date.now() / 1000)
+  for (const [key, entry] of relayedBallots) {
+    if (entry.deadline < now) relayedBallots.delete(key)
+  }
+
+  const key = ballotKey(ballot)
+  const existing = relayedBallots.get(key)
+  if (existing) return existing
+  relayedBallots.set(key, { hash: null, deadline: ballot.deadline })
+  return null
+}
+
+// Settles a claim: records the relayed transaction, or with null frees the ballot to be submitted again
+export function settleBallot(ballot: SignedBallot, hash: string | null) {
+  const key = ballotKey(ballot)
+  if (hash) {
+    relayedBallots.set(key, { hash, deadline: ballot.deadline })
+  } else {
+    relayedBallots.delete(key)
+  }
+}
@@ -0,0 +1,84 @@
+import { ethers } from "ethers"
+
+/**
+ * Secret ballots for commit–reveal elections.
+ *
+ * The salt never leaves the voter's browser until the reveal transaction, so it is kept in
+ * localStorage between the commit and reveal windows. Losing it means the vote cannot be counted.
+ */
+export interface SealedBallot {
+  candidateId: number
+  salt: string
+  commitment: string
+}
+
+export interface StoredBallot extends SealedBallot {
+  chainId: number
+  contractAddress: string
+  electionId: number
+  voter: string
+}
+
+const STORAGE_PREFIX = "voting-system:ballot:"
+
+// Matches VotingSystem.revealVote: keccak256(abi.encodePacked(voter, candidateId, salt))
+export const hashBallot = (voter: string, candidateId: number, salt: string) =>
+  ethers.solidityPackedKeccak256(["address", "uint256", "bytes32"], [voter, candidateId, salt])
+
+export function sealBallot(voter: string, candidateId: number): SealedBallot {
+  const salt = ethers.hexlify(ethers.randomBytes(32))
+  return { candidateId, salt, commitment: hashBallot(voter, candidateId, salt) }
+}
+
+const storageKey = (chainId: number, contractAddress: string, electionId: number, voter: string) =>
+  `${STORAGE_PREFIX}${chainId}:${contractAddress.toLowerCase()}:${electionId}:${voter.toLowerCase()}`
+
+const canUseStorage = () => typeof window !== "undefined" && !!window.localStorage
+
+export function saveBallot(ballot: StoredBallot) {
+  if (!canUseStorage()) return
+  window.localStorage.setItem(
+    storageKey(ballot.chainId, ballot.contractAddress, ballot.electionId, ballot.voter),
+    JSON.stringify(ballot),
+  )
+}
+
+export function loadBallot(
+  chainId: number,
+  contractAddress: string,
+  electionId: number,
+  voter: string,
+): StoredBallot | null {
+  if (!canUseStorage()) return null
+  const raw = window.localStorage.getItem(storageKey(chainId, contractAddress, electionId, voter))
+  return raw ? (JSON.parse(raw) as StoredBallot) : null
+}
+
+export function removeBallot(chainId: number, contractAddress: string, electionId: number, voter: string) {
+  if (!canUseStorage()) return
+  window.localStorage.removeItem(storageKey(chainId, contractAddress, electionId, voter))
+}
+
+// Ballots this voter has committed on this contract but not yet revealed
+export function listBallots(chainId: number, contractAddress: string, voter: string): StoredBallot[] {
+  if (!canUseStorage()) return []
+  const prefix = `${STORAGE_PREFIX}${chainId}:${contractAddress.toLowerCase()}:`
+  const ballots: StoredBallot[] = []
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const key = window.localStorage.key(i)
+    if (key?.startsWith(prefix) && key.endsWith(`:${voter.toLowerCase()}`)) {
+      ballots.push(JSON.parse(window.localStorage.getItem(key)!) as StoredBallot)
+    }
+  }
+  return ballots.sort((a, b) => a.electionId - b.electionId)
+}
+
+// Compact "candidateId:salt" code the voter can copy as a backup of the stored ballot
+export const encodeBallotBackup = (ballot: SealedBallot) => `${ballot.candidateId}:${ballot.salt}`
+
+export function decodeBallotBackup(code: string, voter: string): SealedBallot | null {
+  const [candidate, salt] = code.trim().split(":")
+  const candidateId = Number(candidate)
+  if (!Number.isInteger(candidateId) || candidateId < 0 || !ethers.isHexString(salt, 32)) return null
+  return { candidateId, salt, commitment: hashBallot(voter, candidateId, salt) }
+}
@@ -0,0 +1,110 @@
+import { ethers } from "ethers"
+import type { VoterWeight } from "@/types"
+
+const ERC20_ABI = [
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "function balanceOf(address owner) view returns (uint256)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+]
+
+// Same window the contract indexer uses, which public RPC endpoints accept for eth_getLogs
+const LOG_CHUNK_SIZE = 5000
+// balanceOf calls sent concurrently
+const BALANCE_BATCH_SIZE = 50
+
+export interface TokenInfo {
+  address: string
+  symbol: string
+  decimals: number
+}
+
+export async function getTokenInfo(provider: ethers.Provider, tokenAddress: string): Promise<TokenInfo> {
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider)
+  const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()])
+  return { address: ethers.getAddress(tokenAddress), symbol, decimals: Number(decimals) }
+}
+
+// Every address that received the token between the two blocks, from its Transfer logs
+export async function findTokenHolders(
+  provider: ethers.Provider,
+  tokenAddress: string,
+  fromBlock: number,
+  toBlock: number,
+): Promise<string[]> {
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider)
+  const holders = new Set<string>()
+
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK_SIZE) {
+    const end = Math.min(start + LOG_CHUNK_SIZE - 1, toBlock)
+    const logs = await token.queryFilter(token.filters.Transfer(), start, end)
+    for (const log of logs) {
+      if ("args" in log && log.args.to !== ethers.ZeroAddress) holders.add(log.args.to)
+    }
+  }
+
+  return [...holders]
+}
+
+/**
+ * Token balances of the given holders as of `blockTag`, for use as voting weights.
+ *
+ * Reading at a fixed block means tokens moved after the snapshot cannot be used to vote twice.
+ * Holders with a zero balance at that block are left out.
+ */
+export async function snapshotTokenBalances(
+  provider: ethers.Provider,
+  tokenAddress: string,
+  holders: string[],
+  blockTag: number,
+): Promise<VoterWeight[]> {
+  const token = new ethers.Contract(tokenAddress, ERC20_ABI, provider)
+  const weights: VoterWeight[] = []
+
+  for (let i = 0; i < holders.length; i += BALANCE_BATCH_SIZE) {
+    const batch = holders.slice(i, i + BALANCE_BATCH_SIZE)
+    const balances: bigint[] = await Promise.all(batch.map((holder) => token.balanceOf(holder, { blockTag })))
+    batch.forEach((address, index) => {
+      if (balances[index] > BigInt(0)) weights.push({ address, weight: balances[index] })
+    })
+  }
+
+  return weights
+}
+
+/**
+ * Units of a weighted election's tallies, remembered by the browser that published its snapshot roll.
+ *
+ * The contract only stores bare weights, so without this record tallies are shown in base units.
+ */
+export interface WeightUnit {
+  symbol: string
+  // 0 when the roll was weighted by whole tokens
+  decimals: number
+}
+
+const STORAGE_PREFIX = "voting-system:weight-unit:"
+
+const storageKey = (chainId: number, contractAddress: string, electionId: number) =>
+  `${STORAGE_PREFIX}${chainId}:${contractAddress.toLowerCase()}:${electionId}`
+
+const canUseStorage = () => typeof window !== "undefined" && !!window.localStorage
+
+export function saveWeightUnit(chainId: number, contractAddress: string, electionId: number, unit: WeightUnit) {
+  if (!canUseStorage()) return
+  window.localStorage.setItem(storageKey(chainId, contractAddress, electionId), JSON.stringify(unit))
+}
+
+export function loadWeightUnit(chainId: number, contractAddress: string, electionId: number): WeightUnit | null {
+  if (!canUseStorage()) return null
+  const raw = window.localStorage.getItem(storageKey(chainId, contractAddress, electionId))
+  return raw ? (JSON.parse(raw) as WeightUnit) : null
+}
+
+// Exact tally for display: token amounts when the unit is known, otherwise the raw weight
+export function formatWeight(weight: bigint, unit: WeightUnit | null): string {
+  if (!unit) return weight.toLocaleString()
+  const [whole, fraction] = ethers.formatUnits(weight, unit.decimals).split(".")
+  const amount = BigInt(whole).toLocaleString()
+  return `${fraction && fraction !== "0" ? `${amount}.${fraction}` : amount} ${unit.symbol}`
+}
@@ -0,0 +1,180 @@
+import { ethers } from "ethers"
+import { createVotingError, decodeVotingError, type VotingError } from "@/lib/contract-errors"
+
+/**
+ * Transactions sent from this browser, tracked until they are mined or lost.
+ *
+ * Records live in localStorage, so a reload or a closed tab does not lose a pending
+ * transaction. Every new block re-checks the pending ones: a receipt settles them, and a
+ * transaction the node no longer knows is matched against its sender's nonce to tell a copy
+ * sped up in the wallet from a replaced or dropped transaction.
+ */
+
+export type TransactionStatus = "pending" | "confirmed" | "failed" | "replaced" | "dropped"
+
+export interface TrackedTransaction {
+  hash: string
+  chainId: number
+  from: string
+  to: string
+  nonce: number
+  // Calldata, to recognise a sped-up copy among the sender's transactions and to replay a failure
+  data: string
+  // What the user did, e.g. "Cast vote"
+  action: string
+  electionId?: number
+  status: TransactionStatus
+  // Milliseconds since the epoch
+  submittedAt: number
+  // Latest block when the transaction was sent; replacements are searched from here
+  startBlock: number
+  // Block the transaction was mined in
+  blockNumber?: number
+  // Hash first submitted, when the wallet sped the transaction up under a new hash
+  originalHash?: string
+  // The other transaction that took this one's nonce, when known
+  replacedBy?: string
+  // First block at which the node no longer knew the transaction
+  missingSince?: number
+  // Why a failed, replaced or dropped transaction did not go through
+  error?: string
+}
+
+export type TransactionMeta = Pick<TrackedTransaction, "action" | "electionId">
+
+export interface TransactionCheck {
+  transaction: TrackedTransaction
+  // Set once the transaction (or its sped-up copy) is mined
+  receipt: ethers.TransactionReceipt | null
+  // Set once it failed, was replaced or was dropped
+  error: VotingError | null
+}
+
+const STORAGE_KEY = "voting-system:transactions"
+// Settled transactions kept for the tray; pending ones are never pruned
+const MAX_SETTLED = 20
+// Blocks a transaction may be unknown to the node before it counts as dropped, allowing for slow propagation
+export const DROP_AFTER_BLOCKS = 5
+// How far past startBlock to look for the transaction that took a nonce
+const REPLACEMENT_SCAN_BLOCKS = 256
+
+const canUseStorage = () => typeof window !== "undefined" && !!window.localStorage
+
+export function loadTransactions(): TrackedTransaction[] {
+  if (!canUseStorage()) return []
+  const raw = window.localStorage.getItem(STORAGE_KEY)
+  return raw ? (JSON.parse(raw) as TrackedTransaction[]) : []
+}
+
+// Newest first; only the most recent settled transactions are kept
+export function saveTransactions(transactions: TrackedTransaction[]) {
+  if (!canUseStorage()) return
+  let settled = 0
+  const kept = transactions.filter((transaction) => transaction.status === "pending" || ++settled <= MAX_SETTLED)
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(kept))
+}
+
+export const trackedTransaction = (
+  tx: ethers.TransactionResponse,
+  meta: TransactionMeta,
+  startBlock: number,
+): TrackedTransaction => ({
+  hash: tx.hash,
+  chainId: Number(tx.chainId),
+  from: tx.from,
+  to: tx.to ?? ethers.ZeroAddress,
+  nonce: tx.nonce,
+  data: tx.data,
+  ...meta,
+  status: "pending",
+  submittedAt: Date.now(),
+  startBlock,
+})
+
+// The hash a transaction is known by in the app, which stays the same when it is sped up
+export const transactionKey = (transaction: TrackedTransaction) => transaction.originalHash ?? transaction.hash
+
+const isSameAddress = (a: string | null, b: string | null) => !!a && !!b && a.toLowerCase() === b.toLowerCase()
+
+// Where the sender's transaction with this nonce ended up, if it was mined in the scanned range
+async function findByNonce(provider: ethers.Provider, transaction: TrackedTransaction, blockNumber: number) {
+  const lastBlock = Math.min(blockNumber, transaction.startBlock + REPLACEMENT_SCAN_BLOCKS)
+  for (let number = transaction.startBlock; number <= lastBlock; number++) {
+    const block = await provider.getBlock(number, true)
+    const found = block?.prefetchedTransactions.find(
+      (tx) => isSameAddress(tx.from, transaction.from) && tx.nonce === transaction.nonce,
+    )
+    if (found) return found
+  }
+  return null
+}
+
+// Replays a reverted transaction on the state of its block, to decode why it failed
+async function explainFailure(provider: ethers.Provider, transaction: TrackedTransaction, blockNumber: number) {
+  try {
+    await provider.call({
+      from: transaction.from,
+      to: transaction.to,
+      data: transaction.data,
+      blockTag: blockNumber,
+    })
+  } catch (error) {
+    // Anything else, such as a node without the historical state, leaves the reason unknown
+    if (ethers.isError(error, "CALL_EXCEPTION")) return decodeVotingError(error)
+  }
+  return createVotingError("Reverted")
+}
+
+async function settle(
+  provider: ethers.Provider,
+  transaction: TrackedTransaction,
+  receipt: ethers.TransactionReceipt,
+): Promise<TransactionCheck> {
+  const mined = { ...transaction, blockNumber: receipt.blockNumber, missingSince: undefined }
+  if (receipt.status === 1) {
+    return { transaction: { ...mined, status: "confirmed" }, receipt, error: null }
+  }
+  const error = await explainFailure(provider, transaction, receipt.blockNumber)
+  return { transaction: { ...mined, status: "failed", error: error.message }, receipt, error }
+}
+
+const lost = (transaction: TrackedTransaction, status: "replaced" | "dropped", replacedBy?: string): TransactionCheck => {
+  const error = createVotingError(status === "replaced" ? "TransactionReplaced" : "TransactionDropped")
+  return { transaction: { ...transaction, status, replacedBy, error: error.message }, receipt: null, error }
+}
+
+// Checks a pending transaction against the chain at the given block; an unchanged one is returned as is
+export async function checkTransaction(
+  provider: ethers.Provider,
+  transaction: TrackedTransaction,
+  blockNumber: number,
+): Promise<TransactionCheck> {
+  const receipt = await provider.getTransactionReceipt(transaction.hash)
+  if (receipt) return settle(provider, transaction, receipt)
+
+  if (await provider.getTransaction(transaction.hash)) {
+    const found = transaction.missingSince === undefined ? transaction : { ...transaction, missingSince: undefined }
+    return { transaction: found, receipt: null, error: null }
+  }
+
+  // Unknown to the node: either another transaction used its nonce, or it never reached a block
+  const nonce = await provider.getTransactionCount(transaction.from, blockNumber)
+  if (nonce <= transaction.nonce) {
+    if (transaction.missingSince === undefined) {
+      return { transaction: { ...transaction, missingSince: blockNumber }, receipt: null, error: null }
+    }
+    return blockNumber - transaction.missingSince >= DROP_AFTER_BLOCKS
+      ? lost(transaction, "dropped")
+      : { transaction, receipt: null, error: null }
+  }
+
+  const replacement = await findByNonce(provider, transaction, blockNumber)
+  if (!replacement) return lost(transaction, "replaced")
+
+  // Sped up in the wallet: the same call at a higher gas price, so follow it under its new hash
+  if (isSameAddress(replacement.to, transaction.to) && replacement.data === transaction.data) {
+    const spedUp = { ...transaction, hash: replacement.hash, originalHash: transactionKey(transaction) }
+    return settle(provider, spedUp, (await provider.getTransactionReceipt(replacement.hash))!)
+  }
+  return lost(transaction, "replaced", replacement.hash)
+}
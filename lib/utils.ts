@@ -4,3 +4,9 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Value for a datetime-local input, which takes local time without a zone suffix
+export function toDateTimeLocal(timestamp: number) {
+  const date = new Date(timestamp * 1000)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
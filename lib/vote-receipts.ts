@@ -0,0 +1,133 @@
+import { ethers } from "ethers"
+import type { VotingSystemClient } from "@/lib/voting-system-client"
+
+/**
+ * Receipts a voter can keep after voting, and the check that a vote is on-chain.
+ *
+ * A receipt only points at the vote transaction; nothing in it is trusted. Verification
+ * fetches the transaction receipt from the connected network, reads the VoteCast event the
+ * contract emitted and compares it with what the receipt claims, so an edited receipt fails.
+ */
+export interface VoteReceipt {
+  version: 1
+  chainId: number
+  contractAddress: string
+  electionId: number
+  electionName: string
+  voter: string
+  transactionHash: string
+  blockNumber: number
+  // Block timestamp, in seconds
+  timestamp: number
+}
+
+// counted: in the tally. awaiting-reveal: a sealed vote that still has to be revealed to count.
+// not-revealed: a sealed vote whose reveal window closed, so it was left out of the tally.
+export type VoteStatus = "counted" | "awaiting-reveal" | "not-revealed" | "cancelled"
+
+export interface VoteVerification {
+  // As recorded on-chain
+  receipt: VoteReceipt
+  confirmations: number
+  status: VoteStatus
+}
+
+export class VoteVerificationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "VoteVerificationError"
+  }
+}
+
+type ReceiptDetails = Pick<VoteReceipt, "chainId" | "contractAddress" | "electionId" | "electionName" | "voter">
+
+export async function createVoteReceipt(
+  provider: ethers.Provider,
+  receipt: Pick<ethers.TransactionReceipt, "hash" | "blockNumber">,
+  details: ReceiptDetails,
+): Promise<VoteReceipt> {
+  const block = await provider.getBlock(receipt.blockNumber)
+  return {
+    version: 1,
+    ...details,
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    timestamp: block ? Number(block.timestamp) : Math.floor(Date.now() / 1000),
+  }
+}
+
+export const encodeVoteReceipt = (receipt: VoteReceipt) => JSON.stringify(receipt, null, 2)
+
+// Accepts a receipt file's contents or a bare transaction hash
+export function parseVoteReceipt(input: string): { transactionHash: string; receipt: VoteReceipt | null } {
+  const text = input.trim()
+  if (ethers.isHexString(text, 32)) return { transactionHash: text, receipt: null }
+
+  let receipt: VoteReceipt | null = null
+  try {
+    receipt = JSON.parse(text)
+  } catch {}
+  if (receipt?.version !== 1 || !ethers.isHexString(receipt.transactionHash, 32)) {
+    throw new VoteVerificationError("Paste a vote receipt or a transaction hash")
+  }
+  return { transactionHash: receipt.transactionHash, receipt }
+}
+
+export function downloadVoteReceipt(receipt: VoteReceipt) {
+  const url = URL.createObjectURL(new Blob([encodeVoteReceipt(receipt)], { type: "application/json" }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `vote-receipt-${receipt.chainId}-${receipt.electionId}-${receipt.transactionHash.slice(2, 10)}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const isSameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase()
+
+// Receipt fields the chain must agree with; everything else is derived from them
+const CLAIMED_FIELDS = ["electionId", "voter", "blockNumber"] as const
+
+export async function verifyVote(client: VotingSystemClient, chainId: number, input: string): Promise<VoteVerification> {
+  const provider = client.provider
+  if (!provider) throw new VoteVerificationError("Connect to a network to verify a vote")
+
+  const { transactionHash, receipt: claimed } = parseVoteReceipt(input)
+  if (claimed && claimed.chainId !== chainId) {
+    throw new VoteVerificationError(`This receipt is for chain ${claimed.chainId}. Switch to that network to verify it.`)
+  }
+  if (claimed && !isSameAddress(claimed.contractAddress, client.address)) {
+    throw new VoteVerificationError("This receipt is for a different voting contract")
+  }
+
+  const transaction = await provider.getTransactionReceipt(transactionHash)
+  if (!transaction) {
+    throw new VoteVerificationError("The transaction is not on this network, or has not been mined yet")
+  }
+  if (transaction.status !== 1) {
+    throw new VoteVerificationError("The transaction was reverted, so no vote was recorded")
+  }
+  const vote = client.getCastVote(transaction)
+  if (!vote) throw new VoteVerificationError("This transaction did not cast a vote in this contract")
+
+  const election = await client.getElectionSummary(vote.electionId)
+  const receipt = await createVoteReceipt(provider, transaction, {
+    chainId,
+    contractAddress: client.address,
+    electionId: vote.electionId,
+    electionName: election.name,
+    voter: vote.voter,
+  })
+  if (claimed && CLAIMED_FIELDS.some((field) => String(claimed[field]).toLowerCase() !== String(receipt[field]).toLowerCase())) {
+    throw new VoteVerificationError("The receipt does not match the vote recorded on-chain")
+  }
+
+  let status: VoteStatus = "counted"
+  if (election.cancelled) {
+    status = "cancelled"
+  } else if (election.revealEndTime > 0 && !(await client.hasRevealed(vote.electionId, vote.voter))) {
+    status = (await client.getBlockTimestamp()) > election.revealEndTime ? "not-revealed" : "awaiting-reveal"
+  }
+
+  const confirmations = (await provider.getBlockNumber()) - transaction.blockNumber + 1
+  return { receipt, confirmations, status }
+}
@@ -0,0 +1,202 @@
+import type { CandidateData, ElectionSummary } from "@/types"
+
+/**
+ * Normalized view of contract state shared by every dashboard tab.
+ *
+ * Components load pages of elections into it and contract events keep it current,
+ * so a vote cast or result published in one place shows up everywhere without a refresh.
+ */
+export interface VotingStoreState {
+  blockNumber: number | null
+  blockTime: number | null
+  electionCount: number | null
+  elections: Record<number, ElectionSummary>
+  candidates: Record<number, CandidateData[]>
+  // VoteCast events seen per election, seeded from the indexer's replayed history or a scan of recent logs
+  turnout: Record<number, number>
+  // electionId → lowercased voter address → voted
+  voters: Record<number, Record<string, boolean>>
+}
+
+export type VotingStoreAction =
+  | { type: "reset" }
+  | { type: "block"; blockNumber: number; blockTime: number }
+  | { type: "electionsLoaded"; elections: ElectionSummary[]; total: number }
+  | { type: "candidatesLoaded"; electionId: number; candidates: CandidateData[] }
+  | { type: "voterStatusLoaded"; voter: string; electionIds: number[]; voted: boolean[] }
+  | {
+      type: "hydrate"
+      elections: Record<number, ElectionSummary>
+      candidates: Record<number, CandidateData[]>
+      votes: Record<number, string[]>
+    }
+  | { type: "votesLoaded"; votes: Record<number, string[]> }
+  | { type: "electionCreated"; election: ElectionSummary }
+  | { type: "electionUpdated"; election: ElectionSummary }
+  | { type: "candidateAdded"; electionId: number; candidate: CandidateData }
+  | { type: "candidateUpdated"; electionId: number; candidate: CandidateData }
+  | { type: "voteCast"; electionId: number; voter: string }
+  | { type: "resultsPublished"; electionId: number }
+  | { type: "voterRootSet"; electionId: number; root: string }
+
+export const initialVotingStoreState: VotingStoreState = {
+  blockNumber: null,
+  blockTime: null,
+  electionCount: null,
+  elections: {},
+  candidates: {},
+  turnout: {},
+  voters: {},
+}
+
+// Marks the voters as having voted and recounts turnout for their elections
+const mergeVotes = (state: VotingStoreState, votes: Record<number, string[]>) => {
+  const turnout = { ...state.turnout }
+  const voters = { ...state.voters }
+  for (const [electionId, addresses] of Object.entries(votes)) {
+    const id = Number(electionId)
+    voters[id] = { ...voters[id], ...Object.fromEntries(addresses.map((a) => [a.toLowerCase(), true])) }
+    turnout[id] = Object.values(voters[id]).filter(Boolean).length
+  }
+  return { turnout, voters }
+}
+
+const patchElection = (
+  state: VotingStoreState,
+  electionId: number,
+  patch: (election: ElectionSummary) => Partial<ElectionSummary>,
+): Record<number, ElectionSummary> => {
+  const election = state.elections[electionId]
+  return election ? { ...state.elections, [electionId]: { ...election, ...patch(election) } } : state.elections
+}
+
+export function votingStoreReducer(state: VotingStoreState, action: VotingStoreAction): VotingStoreState {
+  switch (action.type) {
+    case "reset":
+      return initialVotingStoreState
+
+    case "block":
+      // Block events can arrive out of order when several are fetched concurrently
+      if (state.blockNumber !== null && action.blockNumber < state.blockNumber) return state
+      return { ...state, blockNumber: action.blockNumber, blockTime: action.blockTime }
+
+    case "electionsLoaded": {
+      const elections = { ...state.elections }
+      for (const election of action.elections) {
+        elections[election.id] = election
+      }
+      return { ...state, elections, electionCount: action.total }
+    }
+
+    case "candidatesLoaded":
+      return { ...state, candidates: { ...state.candidates, [action.electionId]: action.candidates } }
+
+    case "voterStatusLoaded": {
+      const voter = action.voter.toLowerCase()
+      const voters = { ...state.voters }
+      action.electionIds.forEach((electionId, index) => {
+        voters[electionId] = { ...voters[electionId], [voter]: action.voted[index] ?? false }
+      })
+      return { ...state, voters }
+    }
+
+    // Merges indexed history; live events may already be ahead of it, so never move state backwards
+    case "hydrate": {
+      const elections = { ...state.elections }
+      for (const election of Object.values(action.elections)) {
+        const current = elections[election.id]
+        elections[election.id] = current
+          ? {
+              ...election,
+              candidateCount: Math.max(current.candidateCount, election.candidateCount),
+              resultsPublished: current.resultsPublished || election.resultsPublished,
+              revealCount: Math.max(current.revealCount, election.revealCount),
+            }
+          : election
+      }
+
+      const candidates = { ...state.candidates }
+      for (const [electionId, list] of Object.entries(action.candidates)) {
+        const id = Number(electionId)
+        if ((candidates[id]?.length ?? 0) <= list.length) candidates[id] = list
+      }
+
+      const ids = Object.keys(elections).map(Number)
+      const indexedCount = ids.length > 0 ? Math.max(...ids) + 1 : 0
+      return {
+        ...state,
+        elections,
+        candidates,
+        ...mergeVotes(state, action.votes),
+        electionCount: Math.max(state.electionCount ?? 0, indexedCount),
+      }
+    }
+
+    case "votesLoaded":
+      return { ...state, ...mergeVotes(state, action.votes) }
+
+    case "electionCreated":
+      return {
+        ...state,
+        elections: { ...state.elections, [action.election.id]: action.election },
+        electionCount: Math.max(state.electionCount ?? 0, action.election.id + 1),
+      }
+
+    case "electionUpdated":
+      return {
+        ...state,
+        elections: patchElection(state, action.election.id, () => action.election),
+      }
+
+    case "candidateAdded": {
+      const existing = state.candidates[action.electionId]
+      const alreadyKnown = existing?.some((candidate) => candidate.id === action.candidate.id)
+      return {
+        ...state,
+        elections: patchElection(state, action.electionId, (election) => ({
+          candidateCount: Math.max(election.candidateCount, action.candidate.id + 1),
+        })),
+        candidates:
+          existing && !alreadyKnown
+            ? { ...state.candidates, [action.electionId]: [...existing, action.candidate] }
+            : state.candidates,
+      }
+    }
+
+    case "candidateUpdated": {
+      const existing = state.candidates[action.electionId]
+      if (!existing) return state
+      return {
+        ...state,
+        candidates: {
+          ...state.candidates,
+          [action.electionId]: existing.map((candidate) =>
+            candidate.id === action.candidate.id ? action.candidate : candidate,
+          ),
+        },
+      }
+    }
+
+    case "voteCast": {
+      const voter = action.voter.toLowerCase()
+      if (state.voters[action.electionId]?.[voter]) return state
+      return {
+        ...state,
+        turnout: { ...state.turnout, [action.electionId]: (state.turnout[action.electionId] ?? 0) + 1 },
+        voters: { ...state.voters, [action.electionId]: { ...state.voters[action.electionId], [voter]: true } },
+      }
+    }
+
+    case "resultsPublished":
+      return {
+        ...state,
+        elections: patchElection(state, action.electionId, () => ({ resultsPublished: true })),
+      }
+
+    case "voterRootSet":
+      return {
+        ...state,
+        elections: patchElection(state, action.electionId, () => ({ voterRoot: action.root })),
+      }
+  }
+}
@@ -0,0 +1,829 @@
+import {
+  ethers,
+  type BaseContractMethod,
+  type ContractEventName,
+  type ContractEventPayload,
+  type ContractMethodArgs,
+  type ContractRunner,
+  type ContractTransactionResponse,
+  type EventLog,
+  type Overrides,
+} from "ethers"
+import VotingContract from "@/contracts/VotingSystem.json"
+import type {
+  CandidateAddedEventArgs,
+  CandidateUpdatedEventArgs,
+  CandidateWithdrawnEventArgs,
+  DelegateChangedEventArgs,
+  DelegatedVoteCountedEventArgs,
+  ElectionCancelledEventArgs,
+  ElectionCreatedEventArgs,
+  ElectionExtendedEventArgs,
+  ElectionPausedEventArgs,
+  ElectionResumedEventArgs,
+  ElectionUpdatedEventArgs,
+  ElectionViewOutput,
+  OwnershipTransferStartedEventArgs,
+  OwnershipTransferredEventArgs,
+  ResultsPublishedEventArgs,
+  RoleGrantedEventArgs,
+  RoleRevokedEventArgs,
+  VoteCastEventArgs,
+  VoteRevealedEventArgs,
+  VoterRootSetEventArgs,
+  VoterWeightsSetEventArgs,
+  VotingSystemContract,
+  VotingSystemEventName,
+} from "@/lib/generated/voting-system"
+import {
+  ELECTION_TYPES,
+  ROLES,
+  type CandidateData,
+  type CandidateResult,
+  type DelegationAssignment,
+  type ElectionData,
+  type ElectionEditInput,
+  type ElectionPage,
+  type ElectionSummary,
+  type NewCandidateInput,
+  type NewElectionInput,
+  type Role,
+  type RoleAssignment,
+  type SignedBallot,
+  type VoterRoll,
+  type WeightedVoterRoll,
+} from "@/types"
+import type { VoterMerkleTree, WeightedVoterMerkleTree } from "@/lib/merkle"
+import type { AdminCallResult, SafeProposer } from "@/lib/multisig"
+
+// Page size used when a caller needs every election (e.g. to populate a select)
+const LIST_PAGE_SIZE = 100
+// Ranked ballots are small arrays, so far more fit in one eth_call
+const BALLOT_PAGE_SIZE = 500
+// Keep eth_getLogs ranges small enough for public RPC providers
+export const LOG_CHUNK_SIZE = 5_000
+
+// Election id the contract uses for roles and delegations that cover every election
+const ALL_ELECTIONS = ethers.MaxUint256
+
+// Must match BALLOT_TYPEHASH and the EIP-712 domain in VotingSystem.sol
+const BALLOT_TYPES = {
+  Ballot: [
+    { name: "electionId", type: "uint256" },
+    { name: "candidateId", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+}
+
+const toRoleScope = (electionId: number | null) => (electionId === null ? ALL_ELECTIONS : electionId)
+
+export interface VotingSystemEventHandlers {
+  ElectionCreated?: (args: ElectionCreatedEventArgs) => void
+  CandidateAdded?: (args: CandidateAddedEventArgs) => void
+  CandidateUpdated?: (args: CandidateUpdatedEventArgs) => void
+  CandidateWithdrawn?: (args: CandidateWithdrawnEventArgs) => void
+  VoteCast?: (args: VoteCastEventArgs) => void
+  ResultsPublished?: (args: ResultsPublishedEventArgs) => void
+  VoterRootSet?: (args: VoterRootSetEventArgs) => void
+  VoteRevealed?: (args: VoteRevealedEventArgs) => void
+  VoterWeightsSet?: (args: VoterWeightsSetEventArgs) => void
+  RoleGranted?: (args: RoleGrantedEventArgs) => void
+  RoleRevoked?: (args: RoleRevokedEventArgs) => void
+  OwnershipTransferStarted?: (args: OwnershipTransferStartedEventArgs) => void
+  OwnershipTransferred?: (args: OwnershipTransferredEventArgs) => void
+  ElectionUpdated?: (args: ElectionUpdatedEventArgs) => void
+  ElectionCancelled?: (args: ElectionCancelledEventArgs) => void
+  ElectionExtended?: (args: ElectionExtendedEventArgs) => void
+  ElectionPaused?: (args: ElectionPausedEventArgs) => void
+  ElectionResumed?: (args: ElectionResumedEventArgs) => void
+  DelegateChanged?: (args: DelegateChangedEventArgs) => void
+  DelegatedVoteCounted?: (args: DelegatedVoteCountedEventArgs) => void
+}
+
+export type VotingSystemLog = {
+  blockNumber: number
+  logIndex: number
+  transactionHash: string
+} & (
+  | { name: "ElectionCreated"; args: ElectionCreatedEventArgs }
+  | { name: "CandidateAdded"; args: CandidateAddedEventArgs }
+  | { name: "CandidateUpdated"; args: CandidateUpdatedEventArgs }
+  | { name: "CandidateWithdrawn"; args: CandidateWithdrawnEventArgs }
+  | { name: "VoteCast"; args: VoteCastEventArgs }
+  | { name: "ResultsPublished"; args: ResultsPublishedEventArgs }
+  | { name: "VoterRootSet"; args: VoterRootSetEventArgs }
+  | { name: "VoteRevealed"; args: VoteRevealedEventArgs }
+  | { name: "VoterWeightsSet"; args: VoterWeightsSetEventArgs }
+  | { name: "RoleGranted"; args: RoleGrantedEventArgs }
+  | { name: "RoleRevoked"; args: RoleRevokedEventArgs }
+  | { name: "OwnershipTransferStarted"; args: OwnershipTransferStartedEventArgs }
+  | { name: "OwnershipTransferred"; args: OwnershipTransferredEventArgs }
+  | { name: "ElectionUpdated"; args: ElectionUpdatedEventArgs }
+  | { name: "ElectionCancelled"; args: ElectionCancelledEventArgs }
+  | { name: "ElectionExtended"; args: ElectionExtendedEventArgs }
+  | { name: "ElectionPaused"; args: ElectionPausedEventArgs }
+  | { name: "ElectionResumed"; args: ElectionResumedEventArgs }
+  | { name: "DelegateChanged"; args: DelegateChangedEventArgs }
+  | { name: "DelegatedVoteCounted"; args: DelegatedVoteCountedEventArgs }
+)
+
+export interface VotingSystemClientOptions {
+  // Block the contract was deployed in; event history is only searched from there on
+  deploymentBlock?: number
+}
+
+const toElectionSummary = (view: ElectionViewOutput): ElectionSummary => ({
+  id: Number(view.id),
+  name: view.name,
+  description: view.description,
+  startTime: Number(view.startTime),
+  endTime: Number(view.endTime),
+  exists: true,
+  candidateCount: Number(view.candidateCount),
+  resultsPublished: view.resultsPublished,
+  voterRoot: view.voterRoot,
+  revealEndTime: Number(view.revealEndTime),
+  revealCount: Number(view.revealCount),
+  electionType: ELECTION_TYPES[Number(view.electionType)],
+  maxSelections: Number(view.maxSelections),
+  seats: Number(view.seats),
+  cancelled: view.cancelled,
+  paused: view.paused,
+  extended: view.extended,
+})
+
+/**
+ * Typed wrapper around the VotingSystem contract.
+ *
+ * Converts the raw bigint tuples returned by ethers into the domain types in `@/types`
+ * so components never touch ABI-level values directly.
+ */
+export class VotingSystemClient {
+  readonly contract: VotingSystemContract
+  // True when connected through a plain provider (no signer), so only view calls will work
+  readonly readOnly: boolean
+  // Set while the connected account acts for a multisig owner; admin writes then become Safe proposals
+  private proposer: SafeProposer | null = null
+
+  constructor(
+    address: string,
+    runner: ContractRunner,
+    private readonly options: VotingSystemClientOptions = {},
+  ) {
+    this.contract = new ethers.Contract(address, VotingContract.abi, runner) as unknown as VotingSystemContract
+    this.readOnly = typeof runner.sendTransaction !== "function"
+  }
+
+  get address(): string {
+    return this.contract.target as string
+  }
+
+  get provider(): ethers.Provider | null {
+    return this.contract.runner?.provider ?? null
+  }
+
+  async getOwner(): Promise<string> {
+    return this.contract.owner()
+  }
+
+  // ZeroAddress when no transfer is in progress
+  async getPendingOwner(): Promise<string> {
+    return this.contract.pendingOwner()
+  }
+
+  setMultisig(proposer: SafeProposer | null) {
+    this.proposer = proposer
+  }
+
+  // Pass ZeroAddress to cancel a pending transfer
+  async transferOwnership(newOwner: string): Promise<AdminCallResult> {
+    return this.sendAdmin(this.contract.transferOwnership, newOwner)
+  }
+
+  // `via` accepts on behalf of a pending owner that is itself a Safe
+  async acceptOwnership(via?: SafeProposer): Promise<AdminCallResult> {
+    if (!via) return { kind: "executed", tx: await this.contract.acceptOwnership() }
+    const { data } = await this.contract.acceptOwnership.populateTransaction()
+    return via.propose(this.address, data, "acceptOwnership")
+  }
+
+  // While acting for a Safe the call may only be proposed, so callers must check the result's kind
+  private async sendAdmin<A extends Array<any>>(
+    method: BaseContractMethod<A, void, ContractTransactionResponse>,
+    ...args: ContractMethodArgs<A>
+  ): Promise<AdminCallResult> {
+    if (!this.proposer) return { kind: "executed", tx: await method(...args) }
+    const { data } = await method.populateTransaction(...args)
+    return this.proposer.propose(this.address, data, method.name)
+  }
+
+  // Matching events in chain order. With a known deployment block the search is split into LOG_CHUNK_SIZE
+  // ranges from there; otherwise it is a single query from genesis, which only local nodes reliably serve.
+  private async queryHistory(event: ContractEventName): Promise<EventLog[]> {
+    const { deploymentBlock } = this.options
+    const provider = this.provider
+    const logs: Awaited<ReturnType<VotingSystemContract["queryFilter"]>> = []
+    if (deploymentBlock === undefined || !provider) {
+      logs.push(...(await this.contract.queryFilter(event)))
+    } else {
+      const latestBlock = await provider.getBlockNumber()
+      for (let from = deploymentBlock; from <= latestBlock; from += LOG_CHUNK_SIZE) {
+        logs.push(...(await this.contract.queryFilter(event, from, Math.min(from + LOG_CHUNK_SIZE - 1, latestBlock))))
+      }
+    }
+    return logs
+      .filter((log): log is EventLog => "eventName" in log)
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+  }
+
+  // electionId null checks the role across every election
+  async hasRole(role: Role, account: string, electionId: number | null = null): Promise<boolean> {
+    return this.contract.hasRole(ROLES.indexOf(role), account, toRoleScope(electionId))
+  }
+
+  // Roles currently granted, replayed from RoleGranted / RoleRevoked events; pass an account to filter
+  async getRoleAssignments(account?: string): Promise<RoleAssignment[]> {
+    const [granted, revoked] = await Promise.all([
+      this.queryHistory(this.contract.filters.RoleGranted(undefined, account)),
+      this.queryHistory(this.contract.filters.RoleRevoked(undefined, account)),
+    ])
+    const logs = [...granted, ...revoked].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index)
+
+    const active = new Map<string, RoleAssignment>()
+    for (const log of logs) {
+      const { role, account: member, electionId } = log.args
+      const assignment: RoleAssignment = {
+        role: ROLES[Number(role)],
+        account: member,
+        electionId: electionId === ALL_ELECTIONS ? null : Number(electionId),
+      }
+      const key = `${assignment.role}:${member.toLowerCase()}:${assignment.electionId}`
+      if (log.eventName === "RoleGranted") {
+        active.set(key, assignment)
+      } else {
+        active.delete(key)
+      }
+    }
+    return [...active.values()]
+  }
+
+  async grantRole(role: Role, account: string, electionId: number | null = null): Promise<AdminCallResult> {
+    return this.sendAdmin(this.contract.grantRole, ROLES.indexOf(role), account, toRoleScope(electionId))
+  }
+
+  async revokeRole(role: Role, account: string, electionId: number | null = null): Promise<AdminCallResult> {
+    return this.sendAdmin(this.contract.revokeRole, ROLES.indexOf(role), account, toRoleScope(electionId))
+  }
+
+  async getBlockTimestamp(): Promise<number> {
+    const block = await this.provider?.getBlock("latest")
+    return block ? Number(block.timestamp) : Math.floor(Date.now() / 1000)
+  }
+
+  async getElectionCount(): Promise<number> {
+    return Number(await this.contract.getElectionCount())
+  }
+
+  async getElection(electionId: number): Promise<ElectionData> {
+    const election = await this.contract.elections(electionId)
+    return {
+      id: electionId,
+      name: election.name,
+      description: election.description,
+      startTime: Number(election.startTime),
+      endTime: Number(election.endTime),
+      exists: election.exists,
+      revealEndTime: Number(election.revealEndTime),
+      electionType: ELECTION_TYPES[Number(election.electionType)],
+      maxSelections: Number(election.maxSelections),
+      seats: Number(election.seats),
+      cancelled: election.cancelled,
+      paused: election.paused,
+      extended: election.extended,
+    }
+  }
+
+  // One RPC round-trip per page, regardless of how many elections it contains
+  async getElectionsPage(offset: number, limit: number): Promise<ElectionPage> {
+    const { page, total } = await this.contract.getElectionsPage(offset, limit)
+    return { elections: page.map(toElectionSummary), total: Number(total), offset }
+  }
+
+  async listElections(): Promise<ElectionSummary[]> {
+    const elections: ElectionSummary[] = []
+    let total = Infinity
+    while (elections.length < total) {
+      const page = await this.getElectionsPage(elections.length, LIST_PAGE_SIZE)
+      elections.push(...page.elections)
+      total = page.total
+      if (page.elections.length === 0) break
+    }
+    return elections
+  }
+
+  async getElectionSummary(electionId: number): Promise<ElectionSummary> {
+    const { elections } = await this.getElectionsPage(electionId, 1)
+    if (elections.length === 0) throw new Error(`Election ${electionId} does not exist`)
+    return elections[0]
+  }
+
+  // hasVoted flags for the same window of election ids as getElectionsPage
+  async getVoterStatusPage(account: string, offset: number, limit: number): Promise<boolean[]> {
+    return this.contract.getVoterStatusPage(account, offset, limit)
+  }
+
+  async getCandidateCount(electionId: number): Promise<number> {
+    return Number(await this.contract.getCandidateCount(electionId))
+  }
+
+  async getCandidate(electionId: number, candidateId: number): Promise<CandidateData> {
+    const candidate = await this.contract.getCandidate(electionId, candidateId)
+    return {
+      id: candidateId,
+      name: candidate.name,
+      info: candidate.info,
+      withdrawn: candidate.withdrawn,
+      profileHash: candidate.profileHash,
+    }
+  }
+
+  async getCandidates(electionId: number): Promise<CandidateData[]> {
+    const candidates = await this.contract.getCandidates(electionId)
+    return candidates.map((candidate) => ({
+      id: Number(candidate.id),
+      name: candidate.name,
+      info: candidate.info,
+      withdrawn: candidate.withdrawn,
+      profileHash: candidate.profileHash,
+    }))
+  }
+
+  async hasVoted(electionId: number, account: string): Promise<boolean> {
+    return this.contract.hasVoted(electionId, account)
+  }
+
+  async hasRevealed(electionId: number, account: string): Promise<boolean> {
+    return this.contract.hasRevealed(electionId, account)
+  }
+
+  // ZeroHash when the account has not committed a ballot
+  async getCommitment(electionId: number, account: string): Promise<string> {
+    return this.contract.voteCommitments(electionId, account)
+  }
+
+  async isResultsPublished(electionId: number): Promise<boolean> {
+    return this.contract.resultsPublished(electionId)
+  }
+
+  // Reverts unless results for the election have been published or the caller is an auditor
+  async getVoteCount(electionId: number, candidateId: number): Promise<bigint> {
+    return this.contract.getVoteCount(electionId, candidateId)
+  }
+
+  // Reverts unless results for the election have been published or the caller is an auditor
+  async getVoteCounts(electionId: number): Promise<bigint[]> {
+    return [...(await this.contract.getVoteCounts(electionId))]
+  }
+
+  // Reverts unless results for the election have been published or the caller is an auditor
+  async getVoterCounts(electionId: number): Promise<number[]> {
+    return (await this.contract.getVoterCounts(electionId)).map(Number)
+  }
+
+  async getResults(electionId: number): Promise<CandidateResult[]> {
+    const [candidates, voteCounts, voterCounts] = await Promise.all([
+      this.getCandidates(electionId),
+      this.getVoteCounts(electionId),
+      this.getVoterCounts(electionId),
+    ])
+    return candidates.map((candidate) => ({
+      ...candidate,
+      voteCount: voteCounts[candidate.id] ?? BigInt(0),
+      voterCount: voterCounts[candidate.id] ?? 0,
+    }))
+  }
+
+  // All ranked ballots for an election, as candidate ids in preference order.
+  // Reverts unless results for the election have been published or the caller is an auditor.
+  async getRankedBallots(electionId: number): Promise<number[][]> {
+    const ballots: number[][] = []
+    let total = Infinity
+    while (ballots.length < total) {
+      const page = await this.contract.getRankedBallots(electionId, ballots.length, BALLOT_PAGE_SIZE)
+      ballots.push(...page.page.map((ballot) => ballot.map(Number)))
+      total = Number(page.total)
+      if (page.page.length === 0) break
+    }
+    return ballots
+  }
+
+  // Every VotingSystem event in the block range, decoded, in chain order
+  async getEventLogs(fromBlock: number, toBlock: number): Promise<VotingSystemLog[]> {
+    const logs = await this.contract.queryFilter("*", fromBlock, toBlock)
+    return logs
+      .filter((log): log is EventLog => "eventName" in log)
+      .map((log) => ({
+        name: log.eventName,
+        args: log.args.toObject(),
+        blockNumber: log.blockNumber,
+        logIndex: log.index,
+        transactionHash: log.transactionHash,
+      })) as VotingSystemLog[]
+  }
+
+  // Subscribes to contract events; returns a function that removes the listeners again
+  subscribe(handlers: VotingSystemEventHandlers): () => void {
+    const listeners = Object.entries(handlers).map(([eventName, handler]) => {
+      const listener = (...args: unknown[]) => {
+        const payload = args[args.length - 1] as ContractEventPayload
+        handler(payload.args.toObject())
+      }
+      this.contract.on(eventName as VotingSystemEventName, listener)
+      return [eventName as VotingSystemEventName, listener] as const
+    })
+
+    return () => {
+      for (const [eventName, listener] of listeners) {
+        this.contract.off(eventName, listener)
+      }
+    }
+  }
+
+  // Latest roll set for the election, or null when it is open to everyone
+  async getVoterRoll(electionId: number): Promise<VoterRoll | null> {
+    const logs = await this.queryHistory(this.contract.filters.VoterRootSet(electionId))
+    const latest = logs[logs.length - 1]
+    if (!latest || latest.args.root === ethers.ZeroHash) return null
+    return { root: latest.args.root, voters: [...latest.args.voters] }
+  }
+
+  // Latest weighted roll set for a weighted election, or null when none has been set
+  async getVoterWeights(electionId: number): Promise<WeightedVoterRoll | null> {
+    const logs = await this.queryHistory(this.contract.filters.VoterWeightsSet(electionId))
+    const latest = logs[logs.length - 1]
+    if (!latest || latest.args.root === ethers.ZeroHash) return null
+    const { root, voters, weights } = latest.args
+    return { root, entries: voters.map((address: string, i: number) => ({ address, weight: weights[i] as bigint })) }
+  }
+
+  async hasVotingWeight(electionId: number, account: string, weight: bigint, proof: string[]): Promise<boolean> {
+    return this.contract.hasVotingWeight(electionId, account, weight, proof)
+  }
+
+  async isEligible(electionId: number, account: string, proof: string[] = []): Promise<boolean> {
+    return this.contract.isEligible(electionId, account, proof)
+  }
+
+  // proof is only needed for elections with a voter roll
+  async castVote(
+    electionId: number,
+    candidateId: number,
+    proof: string[] = [],
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.vote(electionId, candidateId, proof, overrides)
+  }
+
+  // Dry-runs a vote so revert reasons surface before MetaMask is opened
+  async simulateVote(electionId: number, candidateId: number, proof: string[] = []): Promise<bigint> {
+    try {
+      return await this.contract.vote.estimateGas(electionId, candidateId, proof)
+    } catch (gasError) {
+      await this.contract.vote.staticCall(electionId, candidateId, proof)
+      throw gasError
+    }
+  }
+
+  async castWeightedVote(
+    electionId: number,
+    candidateId: number,
+    weight: bigint,
+    proof: string[],
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.voteWeighted(electionId, candidateId, weight, proof, overrides)
+  }
+
+  async simulateWeightedVote(electionId: number, candidateId: number, weight: bigint, proof: string[]): Promise<bigint> {
+    try {
+      return await this.contract.voteWeighted.estimateGas(electionId, candidateId, weight, proof)
+    } catch (gasError) {
+      await this.contract.voteWeighted.staticCall(electionId, candidateId, weight, proof)
+      throw gasError
+    }
+  }
+
+  async castRankedVote(
+    electionId: number,
+    rankings: number[],
+    proof: string[] = [],
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.voteRanked(electionId, rankings, proof, overrides)
+  }
+
+  async simulateRankedVote(electionId: number, rankings: number[], proof: string[] = []): Promise<bigint> {
+    try {
+      return await this.contract.voteRanked.estimateGas(electionId, rankings, proof)
+    } catch (gasError) {
+      await this.contract.voteRanked.staticCall(electionId, rankings, proof)
+      throw gasError
+    }
+  }
+
+  async castApprovalVote(
+    electionId: number,
+    candidateIds: number[],
+    proof: string[] = [],
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.voteApproval(electionId, candidateIds, proof, overrides)
+  }
+
+  async simulateApprovalVote(electionId: number, candidateIds: number[], proof: string[] = []): Promise<bigint> {
+    try {
+      return await this.contract.voteApproval.estimateGas(electionId, candidateIds, proof)
+    } catch (gasError) {
+      await this.contract.voteApproval.staticCall(electionId, candidateIds, proof)
+      throw gasError
+    }
+  }
+
+  async getBallotNonce(voter: string): Promise<number> {
+    return Number(await this.contract.ballotNonces(voter))
+  }
+
+  // Signs a plurality ballot for voteBySig; costs no gas, the relayer pays for submitting it
+  async signBallot(electionId: number, candidateId: number, deadline: number): Promise<SignedBallot> {
+    const signer = this.contract.runner as ethers.Signer
+    if (this.readOnly || !signer.signTypedData) throw new Error("Connect a wallet to sign a ballot")
+
+    const [voter, network] = await Promise.all([signer.getAddress(), this.provider!.getNetwork()])
+    const nonce = await this.getBallotNonce(voter)
+    const domain = { name: "VotingSystem", version: "1", chainId: network.chainId, verifyingContract: this.address }
+    const signature = await signer.signTypedData(domain, BALLOT_TYPES, { electionId, candidateId, nonce, deadline })
+    return { electionId, candidateId, voter, nonce, deadline, signature }
+  }
+
+  // Submits a ballot someone else signed, paying the gas from this client's signer
+  async voteBySig(
+    ballot: SignedBallot,
+    proof: string[] = [],
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    const { v, r, s } = ethers.Signature.from(ballot.signature)
+    return this.contract.voteBySig(
+      ballot.electionId,
+      ballot.candidateId,
+      ballot.voter,
+      ballot.deadline,
+      v,
+      r,
+      s,
+      proof,
+      overrides,
+    )
+  }
+
+  async simulateVoteBySig(ballot: SignedBallot, proof: string[] = []): Promise<bigint> {
+    const { v, r, s } = ethers.Signature.from(ballot.signature)
+    const args = [ballot.electionId, ballot.candidateId, ballot.voter, ballot.deadline, v, r, s, proof] as const
+    try {
+      return await this.contract.voteBySig.estimateGas(...args)
+    } catch (gasError) {
+      await this.contract.voteBySig.staticCall(...args)
+      throw gasError
+    }
+  }
+
+  // Commit–reveal elections: submit the sealed ballot while the election is active...
+  async commitVote(
+    electionId: number,
+    commitment: string,
+    proof: string[] = [],
+    overrides: Overrides = {},
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.commitVote(electionId, commitment, proof, overrides)
+  }
+
+  async simulateCommit(electionId: number, commitment: string, proof: string[] = []): Promise<bigint> {
+    try {
+      return await this.contract.commitVote.estimateGas(electionId, commitment, proof)
+    } catch (gasError) {
+      await this.contract.commitVote.staticCall(electionId, commitment, proof)
+      throw gasError
+    }
+  }
+
+  // ...then open it with the same candidate and salt once voting has closed
+  async revealVote(electionId: number, candidateId: number, salt: string): Promise<ContractTransactionResponse> {
+    return this.contract.revealVote(electionId, candidateId, salt)
+  }
+
+  // electionId null delegates for every election; a per-election delegation overrides the global one
+  async delegateVote(electionId: number | null, delegate: string): Promise<ContractTransactionResponse> {
+    return this.contract.delegateVote(toRoleScope(electionId), delegate)
+  }
+
+  async clearDelegation(electionId: number | null): Promise<ContractTransactionResponse> {
+    return this.contract.delegateVote(toRoleScope(electionId), ethers.ZeroAddress)
+  }
+
+  // Delegate whose ballot would count for the account in this election, or ZeroAddress
+  async getDelegateOf(electionId: number, account: string): Promise<string> {
+    return this.contract.delegateOf(electionId, account)
+  }
+
+  // Current delegations, replayed from DelegateChanged events. Cleared per-election delegations are
+  // kept (with ZeroAddress as delegate) because they opt out of the global one.
+  async getDelegations(): Promise<DelegationAssignment[]> {
+    const logs = await this.queryHistory(this.contract.filters.DelegateChanged())
+
+    const active = new Map<string, DelegationAssignment>()
+    for (const log of logs) {
+      const { delegator, electionId, delegate } = log.args
+      const assignment: DelegationAssignment = {
+        delegator,
+        delegate,
+        electionId: electionId === ALL_ELECTIONS ? null : Number(electionId),
+      }
+      const key = `${delegator.toLowerCase()}:${assignment.electionId}`
+      if (assignment.electionId === null && delegate === ethers.ZeroAddress) {
+        active.delete(key)
+      } else {
+        active.set(key, assignment)
+      }
+    }
+    return [...active.values()]
+  }
+
+  // Delegators whose delegate voted while they did not, i.e. whose votes countDelegatedVotes would add
+  async getPendingDelegators(electionId: number): Promise<string[]> {
+    const delegators = new Set(
+      (await this.getDelegations())
+        .filter((delegation) => delegation.electionId === null || delegation.electionId === electionId)
+        .map((delegation) => delegation.delegator),
+    )
+    const pending = await Promise.all(
+      [...delegators].map(async (delegator) => {
+        const delegate = await this.getDelegateOf(electionId, delegator)
+        if (delegate === ethers.ZeroAddress) return false
+        const [delegatorVoted, delegateVoted] = await Promise.all([
+          this.hasVoted(electionId, delegator),
+          this.hasVoted(electionId, delegate),
+        ])
+        return !delegatorVoted && delegateVoted
+      }),
+    )
+    return [...delegators].filter((_, i) => pending[i])
+  }
+
+  // After voting closes and before results are published; proofs[i] is delegators[i]'s voter roll proof
+  async countDelegatedVotes(
+    electionId: number,
+    delegators: string[],
+    proofs: string[][],
+  ): Promise<ContractTransactionResponse> {
+    return this.contract.countDelegatedVotes(electionId, delegators, proofs)
+  }
+
+  async createElection(input: NewElectionInput): Promise<AdminCallResult> {
+    const electionType = input.electionType ?? "plurality"
+    return this.sendAdmin(this.contract.createElection, input.name, input.description, input.startTime, input.endTime, {
+      electionType: ELECTION_TYPES.indexOf(electionType),
+      revealEndTime: input.revealEndTime ?? 0,
+      maxSelections: input.maxSelections ?? 0,
+      seats: input.seats ?? (electionType === "approval" ? 1 : 0),
+    })
+  }
+
+  async editElection(electionId: number, input: ElectionEditInput): Promise<AdminCallResult> {
+    return this.sendAdmin(
+      this.contract.editElection,
+      electionId,
+      input.name,
+      input.description,
+      input.startTime,
+      input.endTime,
+      input.revealEndTime,
+    )
+  }
+
+  async cancelElection(electionId: number, reason: string): Promise<AdminCallResult> {
+    return this.sendAdmin(this.contract.cancelElection, electionId, reason)
+  }
+
+  // Reason given when the election was cancelled, or null if it was not
+  async getCancellationReason(electionId: number): Promise<string | null> {
+    const logs = await this.queryHistory(this.contract.filters.ElectionCancelled(electionId))
+    const latest = logs[logs.length - 1]
+    return latest ? latest.args.reason : null
+  }
+
+  async extendElection(electionId: number, newEndTime: number): Promise<AdminCallResult> {
+    return this.sendAdmin(this.contract.extendElection, electionId, newEndTime)
+  }
+
+  async pauseElection(electionId: number): Promise<AdminCallResult> {
+    return this.sendAdmin(this.contract.pauseElection, electionId)
+  }
+
+  async resumeElection(electionId: number): Promise<AdminCallResult> {
+    return this.sendAdmin(this.contract.resumeElection, electionId)
+  }
+
+  // Id of the election created by a createElection transaction
+  getCreatedElectionId(receipt: ethers.TransactionReceipt): number | null {
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log)
+      if (parsed?.name === "ElectionCreated") return Number(parsed.args.electionId)
+    }
+    return null
+  }
+
+  // Election and voter from the VoteCast event of a vote or commit transaction sent to this contract
+  getCastVote(receipt: ethers.TransactionReceipt): { electionId: number; voter: string } | null {
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.address.toLowerCase()) continue
+      const parsed = this.contract.interface.parseLog(log)
+      if (parsed?.name === "VoteCast") return { electionId: Number(parsed.args.electionId), voter: parsed.args.voter }
+    }
+    return null
+  }
+
+  // Pass null to reopen the election to every address
+  async setVoterRoll(
+    electionId: number,
+    tree: VoterMerkleTree | null,
+    publishAddresses = true,
+  ): Promise<AdminCallResult> {
+    const root = tree?.root ?? ethers.ZeroHash
+    const voters = tree && publishAddresses ? tree.voters : []
+    return this.sendAdmin(this.contract.setVoterRoot, electionId, root, voters)
+  }
+
+  // Pass null to clear the weights, which blocks voting until a new roll is set
+  async setVoterWeights(
+    electionId: number,
+    tree: WeightedVoterMerkleTree | null,
+    publishEntries = true,
+  ): Promise<AdminCallResult> {
+    const root = tree?.root ?? ethers.ZeroHash
+    const entries = tree && publishEntries ? tree.entries : []
+    return this.sendAdmin(
+      this.contract.setVoterWeights,
+      electionId,
+      root,
+      entries.map((entry) => entry.address),
+      entries.map((entry) => entry.weight),
+    )
+  }
+
+  async addCandidate(electionId: number, candidate: NewCandidateInput): Promise<AdminCallResult> {
+    return this.sendAdmin(
+      this.contract.addCandidate,
+      electionId,
+      candidate.name,
+      candidate.info,
+      candidate.profileHash ?? ethers.ZeroHash,
+    )
+  }
+
+  // Adds every candidate in a single transaction
+  async addCandidates(electionId: number, candidates: NewCandidateInput[]): Promise<AdminCallResult> {
+    return this.sendAdmin(
+      this.contract.addCandidates,
+      electionId,
+      candidates.map((candidate) => candidate.name),
+      candidates.map((candidate) => candidate.info),
+      candidates.map((candidate) => candidate.profileHash ?? ethers.ZeroHash),
+    )
+  }
+
+  // Only before the election starts
+  // Replaces every field, so pass the current profileHash to keep the profile
+  async updateCandidate(
+    electionId: number,
+    candidateId: number,
+    candidate: NewCandidateInput,
+  ): Promise<AdminCallResult> {
+    return this.sendAdmin(
+      this.contract.updateCandidate,
+      electionId,
+      candidateId,
+      candidate.name,
+      candidate.info,
+      candidate.profileHash ?? ethers.ZeroHash,
+    )
+  }
+
+  // Only before the election starts; the candidate keeps its id but can no longer receive votes
+  async withdrawCandidate(electionId: number, candidateId: number): Promise<AdminCallResult> {
+    return this.sendAdmin(this.contract.withdrawCandidate, electionId, candidateId)
+  }
+
+  async publishResults(electionId: number): Promise<AdminCallResult> {
+    return this.sendAdmin(this.contract.publishResults, electionId)
+  }
+}
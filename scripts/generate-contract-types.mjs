@@ -0,0 +1,108 @@
+// Generates typed bindings for the VotingSystem contract from its Truffle artifact.
+// Run with `npm run generate:contract` after recompiling contracts/VotingSystem.sol.
+
+import { readFileSync, writeFileSync } from "node:fs"
+import { dirname, resolve } from "node:path"
+import { fileURLToPath } from "node:url"
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..")
+const artifactPath = resolve(root, "contracts/VotingSystem.json")
+const outputPath = resolve(root, "lib/generated/voting-system.ts")
+
+const { abi } = JSON.parse(readFileSync(artifactPath, "utf8"))
+
+// Named Solidity structs are emitted once as type aliases and referenced by name
+const structs = new Map()
+
+const structName = (param, direction) => {
+  const match = param.internalType?.match(/struct [\w]+\.(\w+)/)
+  return match ? `${match[1]}${direction === "output" ? "Output" : "Input"}` : null
+}
+
+// Maps a Solidity ABI parameter to the TypeScript type ethers v6 accepts (input) or returns (output)
+const tsType = (param, direction) => {
+  const arrayMatch = param.type.match(/^(.*)\[(\d*)\]$/)
+  if (arrayMatch) {
+    const inner = tsType({ ...param, type: arrayMatch[1] }, direction)
+    return `${inner.includes(" ") ? `(${inner})` : inner}[]`
+  }
+
+  if (param.type === "tuple") {
+    const fields = param.components.map((c) => `${c.name}: ${tsType(c, direction)}`).join("; ")
+    const shape =
+      direction === "output"
+        ? `[${param.components.map((c) => tsType(c, direction)).join(", ")}] & { ${fields} }`
+        : `{ ${fields} }`
+
+    const name = structName(param, direction)
+    if (!name) return shape
+    structs.set(name, shape)
+    return name
+  }
+
+  if (/^u?int\d*$/.test(param.type)) return direction === "input" ? "BigNumberish" : "bigint"
+  if (param.type === "address") return direction === "input" ? "AddressLike" : "string"
+  if (param.type === "bool") return "boolean"
+  if (param.type === "string") return "string"
+  if (/^bytes\d*$/.test(param.type)) return direction === "input" ? "BytesLike" : "string"
+
+  throw new Error(`Unsupported ABI type: ${param.type}`)
+}
+
+const argName = (param, index) => param.name || `arg${index}`
+
+const outputType = (outputs) => {
+  if (outputs.length === 0) return "void"
+  if (outputs.length === 1) return tsType(outputs[0], "output")
+
+  const tuple = outputs.map((o) => tsType(o, "output")).join(", ")
+  const named = outputs.filter((o) => o.name)
+  if (named.length === 0) return `[${tuple}]`
+  return `[${tuple}] & { ${named.map((o) => `${o.name}: ${tsType(o, "output")}`).join("; ")} }`
+}
+
+const functions = abi.filter((item) => item.type === "function")
+const events = abi.filter((item) => item.type === "event")
+const errors = abi.filter((item) => item.type === "error")
+
+const lines = [
+  "// This file is generated by scripts/generate-contract-types.mjs from contracts/VotingSystem.json.",
+  "// Do not edit it by hand; recompile the contract and run `npm run generate:contract` instead.",
+  "",
+  'import type { AddressLike, BaseContract, BaseContractMethod, BigNumberish, BytesLike, ContractTransactionResponse } from "ethers"',
+  "",
+]
+
+for (const event of events) {
+  lines.push(`export interface ${event.name}EventArgs {`)
+  event.inputs.forEach((input, index) => lines.push(`  ${argName(input, index)}: ${tsType(input, "output")}`))
+  lines.push("}", "")
+}
+
+if (errors.length > 0) {
+  for (const error of errors) {
+    lines.push(`export interface ${error.name}ErrorArgs {`)
+    error.inputs.forEach((input, index) => lines.push(`  ${argName(input, index)}: ${tsType(input, "output")}`))
+    lines.push("}", "")
+  }
+}
+
+lines.push(`export type VotingSystemEventName = ${events.map((e) => JSON.stringify(e.name)).join(" | ") || "never"}`, "")
+lines.push(`export type VotingSystemErrorName = ${errors.map((e) => JSON.stringify(e.name)).join(" | ") || "never"}`, "")
+
+const methods = functions.map((fn) => {
+  const args = fn.inputs.map((input, index) => `${argName(input, index)}: ${tsType(input, "input")}`).join(", ")
+  const isView = fn.stateMutability === "view" || fn.stateMutability === "pure"
+  const result = outputType(fn.outputs)
+  const settled = isView ? result : "ContractTransactionResponse"
+  return `  ${fn.name}: BaseContractMethod<[${args}], ${result}, ${settled}>`
+})
+
+for (const [name, shape] of structs) {
+  lines.push(`export type ${name} = ${shape}`, "")
+}
+
+lines.push("export interface VotingSystemContract extends BaseContract {", ...methods, "}", "")
+
+writeFileSync(outputPath, lines.join("\n"))
+console.log(`Wrote ${functions.length} functions, ${events.length} events and ${errors.length} errors to ${outputPath}`)
@@ -0,0 +1,79 @@
+import { act, screen, waitFor } from "@testing-library/react"
+import { beforeEach, describe, expect, it } from "vitest"
+import ElectionsList from "@/components/elections-list"
+import { FakeVotingSystem, HOUR } from "../helpers/fake-voting-system"
+import { renderWithVoting } from "../helpers/render"
+
+const VOTER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8"
+
+// Badge texts in the header of an election's card. Until the first block reaches the store the list
+// falls back to the wall clock, so initial badges are awaited rather than read straight away.
+const badgesOf = (electionId: number) => {
+  const header = screen.getByText(`(ID: ${electionId})`).closest(".justify-between")
+  return Array.from(header?.querySelectorAll(".rounded-full") ?? [], (badge) => badge.textContent)
+}
+
+describe("ElectionsList status badges", () => {
+  let fake: FakeVotingSystem
+
+  beforeEach(() => {
+    fake = new FakeVotingSystem()
+    fake.account = VOTER
+  })
+
+  it("follows the schedule as blocks arrive", async () => {
+    const election = fake.addElection({ name: "Board election", startTime: fake.time + HOUR })
+    renderWithVoting(<ElectionsList account={VOTER} />, fake)
+
+    await waitFor(() => expect(badgesOf(election.id)).toEqual(["Upcoming"]))
+
+    act(() => fake.setTime(election.startTime))
+    expect(await screen.findByText("Can Vote")).toBeTruthy()
+    expect(badgesOf(election.id)).toEqual(["Active", "Can Vote"])
+
+    act(() => fake.setTime(election.endTime + 1))
+    expect(await screen.findByText("Voting closed")).toBeTruthy()
+    expect(badgesOf(election.id)).toEqual(["Ended"])
+  })
+
+  it("shows the reveal phase of a secret ballot", async () => {
+    const election = fake.addElection({ name: "Sealed vote" })
+    fake.updateElection(election.id, { revealEndTime: election.endTime + HOUR })
+    fake.setTime(election.endTime + 1)
+    renderWithVoting(<ElectionsList account={VOTER} />, fake)
+
+    await waitFor(() => expect(badgesOf(election.id)).toEqual(["Reveal Phase", "Secret Ballot"]))
+  })
+
+  it("marks cancelled and paused elections", async () => {
+    const cancelled = fake.addElection({ name: "Called off" })
+    const paused = fake.addElection({ name: "On hold" })
+    fake.updateElection(cancelled.id, { cancelled: true, paused: true })
+    fake.updateElection(paused.id, { paused: true, extended: true })
+    renderWithVoting(<ElectionsList account={VOTER} />, fake)
+
+    await waitFor(() => expect(badgesOf(paused.id)).toEqual(["Active", "Paused", "Extended"]))
+    expect(badgesOf(cancelled.id)).toEqual(["Cancelled"])
+  })
+
+  it("switches to Voted when the account's vote is cast", async () => {
+    const election = fake.addElection({ name: "Board election" })
+    fake.seedVotes(election.id, [2, 1])
+    renderWithVoting(<ElectionsList account={VOTER} />, fake)
+
+    expect(await screen.findByText("3 Candidates · 3 Votes Cast")).toBeTruthy()
+    await waitFor(() => expect(badgesOf(election.id)).toEqual(["Active", "Can Vote"]))
+
+    await act(() => fake.castVote(election.id, 0))
+    expect(await screen.findByText("3 Candidates · 4 Votes Cast")).toBeTruthy()
+    expect(badgesOf(election.id)).toEqual(["Active", "Voted"])
+  })
+
+  it("leaves out voting badges without a connected account", async () => {
+    const election = fake.addElection({ name: "Board election" })
+    renderWithVoting(<ElectionsList account={null} />, fake)
+
+    await waitFor(() => expect(badgesOf(election.id)).toEqual(["Active"]))
+    expect(screen.getByText("Connect a wallet to vote")).toBeTruthy()
+  })
+})
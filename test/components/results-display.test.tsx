@@ -0,0 +1,107 @@
+import { screen, within } from "@testing-library/react"
+import { ethers } from "ethers"
+import userEvent from "@testing-library/user-event"
+import { beforeEach, describe, expect, it } from "vitest"
+import ResultsDisplay from "@/components/results-display"
+import { FakeVotingSystem, HOUR } from "../helpers/fake-voting-system"
+import { chooseOption, renderWithVoting } from "../helpers/render"
+
+// Result row of a candidate: name, rank badges, vote count and percentage
+const rowOf = async (name: string) => {
+  const heading = await screen.findByRole("heading", { name })
+  return within(heading.closest(".space-y-2") as HTMLElement)
+}
+
+describe("ResultsDisplay percentages", () => {
+  let fake: FakeVotingSystem
+
+  beforeEach(() => {
+    fake = new FakeVotingSystem()
+  })
+
+  const showResults = async (electionName: string) => {
+    const user = userEvent.setup()
+    renderWithVoting(<ResultsDisplay />, fake)
+    await chooseOption(user, "election-select", electionName)
+  }
+
+  const closeAndPublish = (electionId: number) => {
+    fake.setTime(fake.time + 25 * HOUR)
+    fake.publishResults(electionId)
+  }
+
+  it("divides each candidate's votes by the total", async () => {
+    const election = fake.addElection({ name: "Board election" })
+    fake.seedVotes(election.id, [1, 5, 2])
+    closeAndPublish(election.id)
+    await showResults("Board election")
+
+    expect(await screen.findByText("Total Votes: 8")).toBeTruthy()
+    expect((await rowOf("Bob")).getByText("62.5%")).toBeTruthy()
+    expect((await rowOf("Carol")).getByText("25.0%")).toBeTruthy()
+    expect((await rowOf("Alice")).getByText("12.5%")).toBeTruthy()
+  })
+
+  it("ranks candidates by votes", async () => {
+    const election = fake.addElection({ name: "Board election" })
+    fake.seedVotes(election.id, [1, 5, 2])
+    closeAndPublish(election.id)
+    await showResults("Board election")
+
+    expect((await rowOf("Bob")).getByText("Rank #1")).toBeTruthy()
+    expect((await rowOf("Carol")).getByText("Rank #2")).toBeTruthy()
+    expect((await rowOf("Alice")).getByText("Rank #3")).toBeTruthy()
+  })
+
+  it("uses the share of voters for approval ballots", async () => {
+    const election = fake.addElection({ name: "Committee", electionType: "approval", seats: 2 })
+    fake.seedBallots(election.id, [[0, 1], [0, 2], [0], [1]])
+    closeAndPublish(election.id)
+    await showResults("Committee")
+
+    expect(await screen.findByText("4 Ballots · 6 Selections · 2 Seats")).toBeTruthy()
+    expect((await rowOf("Alice")).getByText("75.0%")).toBeTruthy()
+    expect((await rowOf("Bob")).getByText("50.0%")).toBeTruthy()
+    expect((await rowOf("Carol")).getByText("25.0%")).toBeTruthy()
+  })
+
+  it("keeps weighted tallies exact beyond the range of a number", async () => {
+    const election = fake.addElection({ name: "Token vote", electionType: "weighted" })
+    const oneMillionTokens = ethers.parseUnits("1000000", 18)
+    fake.seedWeightedVotes(election.id, [oneMillionTokens + BigInt(1), oneMillionTokens * BigInt(3)])
+    closeAndPublish(election.id)
+    await showResults("Token vote")
+
+    expect(await screen.findByText("Weighted Total: 4,000,000,000,000,000,000,000,001 · 2 Voters")).toBeTruthy()
+    expect((await rowOf("Alice")).getByText("1,000,000,000,000,000,000,000,001 weight")).toBeTruthy()
+    expect((await rowOf("Bob")).getByText("1 voter · 75.0%")).toBeTruthy()
+  })
+
+  it("shows zero percent when nobody voted", async () => {
+    const election = fake.addElection({ name: "Quiet vote" })
+    closeAndPublish(election.id)
+    await showResults("Quiet vote")
+
+    expect(await screen.findByText("Total Votes: 0")).toBeTruthy()
+    expect((await rowOf("Alice")).getByText("0.0%")).toBeTruthy()
+  })
+
+  it("leaves withdrawn candidates out of the total", async () => {
+    const election = fake.addElection({ name: "Board election", candidates: ["Alice", "Bob", "Carol", "Dave"] })
+    fake.withdrawCandidate(election.id, 3)
+    fake.seedVotes(election.id, [3, 1])
+    closeAndPublish(election.id)
+    await showResults("Board election")
+
+    expect(await screen.findByText("Total Votes: 4")).toBeTruthy()
+    expect((await rowOf("Alice")).getByText("75.0%")).toBeTruthy()
+    expect(screen.queryByRole("heading", { name: "Dave" })).toBeNull()
+  })
+
+  it("only lists elections with published results", async () => {
+    fake.addElection({ name: "Still counting" })
+    renderWithVoting(<ResultsDisplay />, fake)
+
+    expect(await screen.findByText("No election results have been published yet.")).toBeTruthy()
+  })
+})
@@ -0,0 +1,121 @@
+import { screen, within } from "@testing-library/react"
+import userEvent from "@testing-library/user-event"
+import { ethers } from "ethers"
+import { beforeEach, describe, expect, it } from "vitest"
+import VotingInterface from "@/components/voting-interface"
+import { FakeVotingSystem, HOUR } from "../helpers/fake-voting-system"
+import { chooseOption, renderWithVoting } from "../helpers/render"
+
+const VOTER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8"
+
+// Messages listed under the alert with the given title
+const alertItems = async (title: string) => {
+  const alert = (await screen.findByText(title)).closest("[role=alert]") as HTMLElement
+  return within(alert)
+    .getAllByRole("listitem")
+    .map((item) => item.textContent)
+}
+
+describe("VotingInterface validation", () => {
+  let fake: FakeVotingSystem
+
+  beforeEach(() => {
+    fake = new FakeVotingSystem()
+    fake.account = VOTER
+  })
+
+  const selectElection = async (name: string) => {
+    const user = userEvent.setup()
+    renderWithVoting(<VotingInterface account={VOTER} />, fake)
+    await chooseOption(user, "election", name)
+    return user
+  }
+
+  it("lets an eligible voter cast a vote", async () => {
+    fake.addElection({ name: "Board election" })
+    const user = await selectElection("Board election")
+
+    await user.click(await screen.findByLabelText("Bob"))
+    await user.click(screen.getByRole("button", { name: "Cast Vote" }))
+
+    expect(await screen.findByText("Vote Submitted Successfully!")).toBeTruthy()
+    expect(await fake.hasVoted(0, VOTER)).toBe(true)
+    expect(screen.queryByText("Cannot Vote")).toBeNull()
+
+    // The confirmation stays up until the voter is done with it
+    await user.click(screen.getByRole("button", { name: "Done" }))
+    expect(await screen.findByText("Cast Your Vote")).toBeTruthy()
+  })
+
+  it("rejects elections that have not started", async () => {
+    const election = fake.addElection({ name: "Next week", startTime: fake.time + 7 * 24 * HOUR })
+    await selectElection("Next week")
+
+    expect(await alertItems("Cannot Vote")).toEqual([
+      `Election hasn't started yet. Starts at ${new Date(election.startTime * 1000).toLocaleString()}`,
+    ])
+    expect(screen.getByRole<HTMLButtonElement>("button", { name: "Cast Vote" }).disabled).toBe(true)
+  })
+
+  it("rejects elections that have ended", async () => {
+    const election = fake.addElection({ name: "Last year", startTime: fake.time - 48 * HOUR })
+    await selectElection("Last year")
+
+    expect(await alertItems("Cannot Vote")).toEqual([
+      `Election has ended. Ended at ${new Date(election.endTime * 1000).toLocaleString()}`,
+    ])
+  })
+
+  it("rejects a second vote", async () => {
+    const election = fake.addElection({ name: "Board election" })
+    await fake.castVote(election.id, 0)
+    await selectElection("Board election")
+
+    expect(await alertItems("Cannot Vote")).toEqual(["You have already voted in this election"])
+  })
+
+  it("rejects cancelled and paused elections", async () => {
+    const cancelled = fake.addElection({ name: "Called off" })
+    const paused = fake.addElection({ name: "On hold" })
+    fake.updateElection(cancelled.id, { cancelled: true })
+    fake.updateElection(paused.id, { paused: true })
+
+    const user = await selectElection("Called off")
+    expect(await alertItems("Cannot Vote")).toEqual(["This election has been cancelled"])
+
+    await chooseOption(user, "election", "On hold")
+    expect(await screen.findByText("Voting is paused by the election administrators")).toBeTruthy()
+  })
+
+  it("rejects elections without candidates", async () => {
+    fake.addElection({ name: "Empty ballot", candidates: [] })
+    await selectElection("Empty ballot")
+
+    expect(await alertItems("Cannot Vote")).toEqual(["No candidates available for this election"])
+  })
+
+  it("checks the voter roll", async () => {
+    const open = fake.addElection({ name: "Members only" })
+    const closed = fake.addElection({ name: "Board only" })
+    fake.setVoterRoll(open.id, [VOTER, fake.nextAddress()])
+    fake.setVoterRoll(closed.id, [fake.nextAddress()])
+
+    const user = await selectElection("Members only")
+    expect(await screen.findByText("Your address is on the voter roll for this election.")).toBeTruthy()
+
+    await chooseOption(user, "election", "Board only")
+    expect(await alertItems("Cannot Vote")).toEqual(["You are not on the voter roll for this election"])
+  })
+
+  it("warns about a closing election and a low balance", async () => {
+    fake.addElection({ name: "Last call", startTime: fake.time - HOUR, endTime: fake.time + 60 })
+    fake.setBalance(VOTER, ethers.parseEther("0.0001"))
+    await selectElection("Last call")
+
+    expect(await alertItems("Warning")).toEqual([
+      "Election is ending soon!",
+      "Low ETH balance. You might not have enough gas for the transaction.",
+    ])
+    expect(screen.queryByText("Cannot Vote")).toBeNull()
+  })
+})
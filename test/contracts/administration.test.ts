@@ -0,0 +1,191 @@
+import { ethers } from "ethers"
+import { beforeEach, describe, expect, it } from "vitest"
+import { VotingSystemClient } from "@/lib/voting-system-client"
+import {
+  ALL_ELECTIONS,
+  Role,
+  createElection,
+  deployVotingSystem,
+  eventArgs,
+  expectRevert,
+  mined,
+  type TestChain,
+} from "../helpers/chain"
+
+describe("ownership", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("makes the deployer the owner", async () => {
+    const { contract, owner, deployment } = chain
+
+    expect(await contract.owner()).toBe(owner.address)
+    const transferred = eventArgs(contract, deployment, "OwnershipTransferred")
+    expect(transferred.previousOwner).toBe(ethers.ZeroAddress)
+    expect(transferred.newOwner).toBe(owner.address)
+  })
+
+  it("restricts transferOwnership to the owner", async () => {
+    const [stranger] = chain.accounts
+
+    await expectRevert(
+      chain.as(stranger).transferOwnership(stranger.address),
+      "NotOwner",
+    )
+  })
+
+  it("hands over ownership in two steps", async () => {
+    const { contract, owner, accounts, as } = chain
+    const [successor, stranger] = accounts
+
+    const started = eventArgs(
+      contract,
+      await mined(contract.transferOwnership(successor.address)),
+      "OwnershipTransferStarted",
+    )
+    expect(started.previousOwner).toBe(owner.address)
+    expect(started.newOwner).toBe(successor.address)
+    expect(await contract.owner()).toBe(owner.address)
+
+    await expectRevert(as(stranger).acceptOwnership(), "NotPendingOwner")
+
+    const transferred = eventArgs(contract, await mined(as(successor).acceptOwnership()), "OwnershipTransferred")
+    expect(transferred.previousOwner).toBe(owner.address)
+    expect(transferred.newOwner).toBe(successor.address)
+    expect(await contract.owner()).toBe(successor.address)
+    expect(await contract.pendingOwner()).toBe(ethers.ZeroAddress)
+
+    await expectRevert(contract.transferOwnership(owner.address), "NotOwner")
+    expect(await contract.hasRole(Role.SuperAdmin, owner.address, ALL_ELECTIONS)).toBe(false)
+    expect(await contract.hasRole(Role.SuperAdmin, successor.address, ALL_ELECTIONS)).toBe(true)
+  })
+
+  it("cancels a pending transfer when address(0) is proposed", async () => {
+    const { contract, accounts, as } = chain
+    const [successor] = accounts
+
+    await mined(contract.transferOwnership(successor.address))
+    await mined(contract.transferOwnership(ethers.ZeroAddress))
+
+    await expectRevert(as(successor).acceptOwnership(), "NotPendingOwner")
+  })
+})
+
+describe("roles", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("only lets super admins grant and revoke roles", async () => {
+    const { accounts, as } = chain
+    const [stranger, admin] = accounts
+
+    await expectRevert(
+      as(stranger).grantRole(Role.ElectionAdmin, admin.address, ALL_ELECTIONS),
+      "MissingRole",
+    )
+    await expectRevert(
+      as(stranger).revokeRole(Role.ElectionAdmin, admin.address, ALL_ELECTIONS),
+      "MissingRole",
+    )
+  })
+
+  it("emits RoleGranted and RoleRevoked once per change", async () => {
+    const { contract, owner, accounts } = chain
+    const [admin] = accounts
+
+    const granted = eventArgs(
+      contract,
+      await mined(contract.grantRole(Role.ElectionAdmin, admin.address, ALL_ELECTIONS)),
+      "RoleGranted",
+    )
+    expect(granted.role).toBe(BigInt(Role.ElectionAdmin))
+    expect(granted.account).toBe(admin.address)
+    expect(granted.electionId).toBe(ALL_ELECTIONS)
+    expect(granted.sender).toBe(owner.address)
+    expect(await contract.hasRole(Role.ElectionAdmin, admin.address, 7)).toBe(true)
+
+    // Granting a role the account already holds changes nothing
+    const regrant = await mined(contract.grantRole(Role.ElectionAdmin, admin.address, ALL_ELECTIONS))
+    expect(regrant.logs).toHaveLength(0)
+
+    const revoked = eventArgs(
+      contract,
+      await mined(contract.revokeRole(Role.ElectionAdmin, admin.address, ALL_ELECTIONS)),
+      "RoleRevoked",
+    )
+    expect(revoked.role).toBe(BigInt(Role.ElectionAdmin))
+    expect(revoked.account).toBe(admin.address)
+    expect(revoked.sender).toBe(owner.address)
+    expect(await contract.hasRole(Role.ElectionAdmin, admin.address, 7)).toBe(false)
+  })
+
+  it("limits a scoped role to its election", async () => {
+    const { contract, accounts, as } = chain
+    const [admin] = accounts
+    const first = await createElection(chain)
+    const second = await createElection(chain)
+
+    await mined(contract.grantRole(Role.ElectionAdmin, admin.address, first.id))
+
+    await mined(as(admin).pauseElection(first.id))
+    await expectRevert(as(admin).pauseElection(second.id), "MissingRole")
+    await expectRevert(
+      as(admin).createElection("New", "", first.startTime, first.endTime, {
+        electionType: 0,
+        revealEndTime: 0,
+        maxSelections: 0,
+        seats: 0,
+      }),
+      "MissingRole",
+    )
+  })
+
+  it("gives super admins every role", async () => {
+    const { contract, accounts, as } = chain
+    const [superAdmin, admin] = accounts
+
+    await mined(contract.grantRole(Role.SuperAdmin, superAdmin.address, ALL_ELECTIONS))
+
+    expect(await contract.hasRole(Role.Auditor, superAdmin.address, 3)).toBe(true)
+    await mined(as(superAdmin).grantRole(Role.CandidateManager, admin.address, ALL_ELECTIONS))
+  })
+
+  it("lists current assignments from the events since deployment", async () => {
+    const { contract, accounts, deployment } = chain
+    const [admin, auditor] = accounts
+    const election = await createElection(chain)
+    const client = new VotingSystemClient(await contract.getAddress(), chain.provider, {
+      deploymentBlock: deployment.blockNumber,
+    })
+
+    await mined(contract.grantRole(Role.ElectionAdmin, admin.address, ALL_ELECTIONS))
+    await mined(contract.grantRole(Role.Auditor, auditor.address, election.id))
+    await mined(contract.grantRole(Role.CandidateManager, auditor.address, ALL_ELECTIONS))
+    await mined(contract.revokeRole(Role.CandidateManager, auditor.address, ALL_ELECTIONS))
+
+    expect(await client.getRoleAssignments(auditor.address)).toEqual([
+      { role: "auditor", account: auditor.address, electionId: election.id },
+    ])
+    expect(await client.getRoleAssignments(admin.address)).toEqual([
+      { role: "election-admin", account: admin.address, electionId: null },
+    ])
+  })
+
+  it("validates the account and scope", async () => {
+    const { contract, accounts } = chain
+    const [admin] = accounts
+
+    await expectRevert(contract.grantRole(Role.Auditor, ethers.ZeroAddress, ALL_ELECTIONS), "InvalidAccount")
+    await expectRevert(
+      contract.grantRole(Role.SuperAdmin, admin.address, 0),
+      "SuperAdminNotScopable",
+    )
+    await expectRevert(contract.grantRole(Role.Auditor, admin.address, 0), "ElectionNotFound")
+  })
+})
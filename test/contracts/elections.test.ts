@@ -0,0 +1,290 @@
+import { ethers } from "ethers"
+import { beforeEach, describe, expect, it } from "vitest"
+import {
+  ElectionType,
+  HOUR,
+  Role,
+  createElection,
+  deployVotingSystem,
+  eventArgs,
+  eventsIn,
+  expectRevert,
+  latestTime,
+  mined,
+  travelTo,
+  type TestChain,
+} from "../helpers/chain"
+
+const openBallot = { electionType: ElectionType.Plurality, revealEndTime: 0, maxSelections: 0, seats: 0 }
+
+describe("createElection", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("emits ElectionCreated with the schedule", async () => {
+    const { contract, provider } = chain
+    const startTime = (await latestTime(provider)) + HOUR
+    const endTime = startTime + HOUR
+
+    const receipt = await mined(
+      contract.createElection("Budget vote", "Next year's budget", startTime, endTime, openBallot),
+    )
+
+    const created = eventArgs(contract, receipt, "ElectionCreated")
+    expect(created.electionId).toBe(BigInt(0))
+    expect(created.name).toBe("Budget vote")
+    expect(created.startTime).toBe(BigInt(startTime))
+    expect(created.endTime).toBe(BigInt(endTime))
+    expect(await contract.getElectionCount()).toBe(BigInt(1))
+  })
+
+  it("rejects invalid schedules and options", async () => {
+    const { contract, provider } = chain
+    const now = await latestTime(provider)
+
+    await expectRevert(
+      contract.createElection("Past", "", now - HOUR, now + HOUR, openBallot),
+      "StartTimeInPast",
+    )
+    await expectRevert(
+      contract.createElection("Backwards", "", now + 2 * HOUR, now + HOUR, openBallot),
+      "InvalidSchedule",
+    )
+    await expectRevert(
+      contract.createElection("Sealed", "", now + HOUR, now + 2 * HOUR, { ...openBallot, revealEndTime: now + HOUR }),
+      "InvalidRevealEndTime",
+    )
+    await expectRevert(
+      contract.createElection("Sealed ranked", "", now + HOUR, now + 2 * HOUR, {
+        ...openBallot,
+        electionType: ElectionType.RankedChoice,
+        revealEndTime: now + 3 * HOUR,
+      }),
+      "CommitRevealNotSupported",
+    )
+    await expectRevert(
+      contract.createElection("Approval", "", now + HOUR, now + 2 * HOUR, {
+        ...openBallot,
+        electionType: ElectionType.Approval,
+      }),
+      "SeatsRequired",
+    )
+    await expectRevert(
+      contract.createElection("Plurality", "", now + HOUR, now + 2 * HOUR, { ...openBallot, maxSelections: 2 }),
+      "SelectionLimitsNotSupported",
+    )
+  })
+})
+
+describe("electionExists", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+    await createElection(chain)
+  })
+
+  it("rejects unknown election ids", async () => {
+    const { contract, accounts } = chain
+
+    await expectRevert(contract.vote(1, 0, []), "ElectionNotFound")
+    await expectRevert(contract.getCandidateCount(1), "ElectionNotFound")
+    await expectRevert(contract.getCandidates(1), "ElectionNotFound")
+    await expectRevert(contract.pauseElection(1), "ElectionNotFound")
+    await expectRevert(contract.cancelElection(1, "Typo"), "ElectionNotFound")
+    await expectRevert(contract.addCandidate(1, "Dave", "", ethers.ZeroHash), "ElectionNotFound")
+    await expectRevert(contract.setVoterRoot(1, ethers.ZeroHash, []), "ElectionNotFound")
+    await expectRevert(contract.publishResults(1), "ElectionNotFound")
+    await expectRevert(contract.delegateVote(1, accounts[0].address), "ElectionNotFound")
+    await expectRevert(contract.getVoteCount(1, 0), "ElectionNotFound")
+  })
+})
+
+describe("editing elections", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("allows edits until the election starts", async () => {
+    const { contract, provider } = chain
+    const election = await createElection(chain)
+
+    const receipt = await mined(
+      contract.editElection(election.id, "Renamed", "New description", election.startTime, election.endTime + HOUR, 0),
+    )
+    expect(eventArgs(contract, receipt, "ElectionUpdated").electionId).toBe(BigInt(election.id))
+    const stored = await contract.elections(election.id)
+    expect(stored.name).toBe("Renamed")
+    expect(stored.endTime).toBe(BigInt(election.endTime + HOUR))
+
+    await expectRevert(
+      contract.editElection(election.id, "Sealed", "", election.startTime, election.endTime, election.endTime + HOUR),
+      "BallotSecrecyLocked",
+    )
+
+    await travelTo(provider, election.startTime)
+    await expectRevert(
+      contract.editElection(election.id, "Too late", "", election.startTime + HOUR, election.endTime, 0),
+      "ElectionAlreadyStarted",
+    )
+  })
+
+  it("cancels with a reason and blocks further changes", async () => {
+    const { contract, provider } = chain
+    const election = await createElection(chain)
+    await mined(contract.pauseElection(election.id))
+
+    const receipt = await mined(contract.cancelElection(election.id, "Rules changed"))
+    const cancelled = eventArgs(contract, receipt, "ElectionCancelled")
+    expect(cancelled.electionId).toBe(BigInt(election.id))
+    expect(cancelled.reason).toBe("Rules changed")
+
+    await expectRevert(contract.cancelElection(election.id, "Again"), "ElectionIsCancelled")
+    await expectRevert(contract.addCandidate(election.id, "Dave", "", ethers.ZeroHash), "ElectionIsCancelled")
+    await expectRevert(contract.resumeElection(election.id), "ElectionIsCancelled")
+
+    await travelTo(provider, election.startTime)
+    await expectRevert(contract.vote(election.id, 0, []), "ElectionIsCancelled")
+  })
+
+  it("extends an active election", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [voter] = accounts
+    const election = await createElection(chain)
+    const newEndTime = election.endTime + 2 * HOUR
+
+    await expectRevert(contract.extendElection(election.id, newEndTime), "ElectionNotActive")
+
+    await travelTo(provider, election.startTime)
+    await expectRevert(
+      contract.extendElection(election.id, election.endTime),
+      "EndTimeNotLater",
+    )
+    const receipt = await mined(contract.extendElection(election.id, newEndTime))
+    const extended = eventArgs(contract, receipt, "ElectionExtended")
+    expect(extended.electionId).toBe(BigInt(election.id))
+    expect(extended.newEndTime).toBe(BigInt(newEndTime))
+    expect((await contract.elections(election.id)).extended).toBe(true)
+
+    // Past the original end time, but still inside the extension
+    await travelTo(provider, election.endTime + HOUR)
+    await mined(as(voter).vote(election.id, 0, []))
+  })
+
+  it("moves the reveal deadline with a secret ballot's end time", async () => {
+    const { contract, provider } = chain
+    const election = await createElection(chain, { revealWindow: HOUR })
+
+    await travelTo(provider, election.startTime)
+    await mined(contract.extendElection(election.id, election.endTime + 2 * HOUR))
+
+    expect((await contract.elections(election.id)).revealEndTime).toBe(BigInt(election.revealEndTime + 2 * HOUR))
+  })
+
+  it("pauses and resumes voting", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [voter] = accounts
+    const election = await createElection(chain)
+    await travelTo(provider, election.startTime)
+
+    const paused = await mined(contract.pauseElection(election.id))
+    expect(eventArgs(contract, paused, "ElectionPaused").electionId).toBe(BigInt(election.id))
+    await expectRevert(contract.pauseElection(election.id), "VotingIsPaused")
+    await expectRevert(as(voter).vote(election.id, 0, []), "VotingIsPaused")
+
+    const resumed = await mined(contract.resumeElection(election.id))
+    expect(eventArgs(contract, resumed, "ElectionResumed").electionId).toBe(BigInt(election.id))
+    await expectRevert(contract.resumeElection(election.id), "VotingNotPaused")
+    await mined(as(voter).vote(election.id, 0, []))
+
+    await travelTo(provider, election.endTime + 1)
+    await expectRevert(contract.pauseElection(election.id), "ElectionAlreadyEnded")
+  })
+
+  it("restricts lifecycle changes to election admins", async () => {
+    const { accounts, as } = chain
+    const [stranger] = accounts
+    const election = await createElection(chain)
+    const missingRole = "MissingRole"
+
+    await expectRevert(as(stranger).editElection(election.id, "Mine", "", election.startTime, election.endTime, 0), missingRole)
+    await expectRevert(as(stranger).cancelElection(election.id, "Mine"), missingRole)
+    await expectRevert(as(stranger).extendElection(election.id, election.endTime + HOUR), missingRole)
+    await expectRevert(as(stranger).pauseElection(election.id), missingRole)
+    await expectRevert(as(stranger).resumeElection(election.id), missingRole)
+    await expectRevert(as(stranger).setVoterRoot(election.id, ethers.ZeroHash, []), missingRole)
+    await expectRevert(as(stranger).publishResults(election.id), missingRole)
+  })
+})
+
+describe("candidates", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("emits CandidateAdded for each imported candidate", async () => {
+    const { contract } = chain
+    const election = await createElection(chain, { candidates: [] })
+
+    const receipt = await mined(
+      contract.addCandidates(election.id, ["Alice", "Bob"], ["", ""], [ethers.ZeroHash, ethers.ZeroHash]),
+    )
+
+    const added = eventsIn(contract, receipt, "CandidateAdded")
+    expect(added.map((args) => [args.candidateId, args.name])).toEqual([
+      [BigInt(0), "Alice"],
+      [BigInt(1), "Bob"],
+    ])
+    expect(await contract.getCandidateCount(election.id)).toBe(BigInt(2))
+    await expectRevert(contract.addCandidates(election.id, [], [], []), "NoCandidatesToAdd")
+  })
+
+  it("updates and withdraws candidates before the election starts", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [voter] = accounts
+    const election = await createElection(chain)
+    const profileHash = ethers.sha256(ethers.toUtf8Bytes("profile"))
+
+    const updated = eventArgs(
+      contract,
+      await mined(contract.updateCandidate(election.id, 1, "Robert", "Goes by Bob", profileHash)),
+      "CandidateUpdated",
+    )
+    expect(updated.candidateId).toBe(BigInt(1))
+    expect(updated.name).toBe("Robert")
+    expect((await contract.getCandidate(election.id, 1)).profileHash).toBe(profileHash)
+
+    const withdrawn = eventArgs(contract, await mined(contract.withdrawCandidate(election.id, 2)), "CandidateWithdrawn")
+    expect(withdrawn.electionId).toBe(BigInt(election.id))
+    expect(withdrawn.candidateId).toBe(BigInt(2))
+    await expectRevert(contract.withdrawCandidate(election.id, 2), "CandidateIsWithdrawn")
+    await expectRevert(contract.updateCandidate(election.id, 3, "Nobody", "", ethers.ZeroHash), "InvalidCandidate")
+
+    await travelTo(provider, election.startTime)
+    await expectRevert(as(voter).vote(election.id, 2, []), "CandidateIsWithdrawn")
+    await expectRevert(
+      contract.addCandidate(election.id, "Dave", "", ethers.ZeroHash),
+      "ElectionAlreadyStarted",
+    )
+  })
+
+  it("lets candidate managers edit candidates", async () => {
+    const { contract, accounts, as } = chain
+    const [manager, stranger] = accounts
+    const election = await createElection(chain)
+    await mined(contract.grantRole(Role.CandidateManager, manager.address, election.id))
+
+    await mined(as(manager).addCandidate(election.id, "Dave", "", ethers.ZeroHash))
+    await expectRevert(
+      as(stranger).addCandidate(election.id, "Eve", "", ethers.ZeroHash),
+      "MissingRole",
+    )
+  })
+})
@@ -0,0 +1,29 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { scanVotes } from "@/lib/indexer"
+import { VotingSystemClient } from "@/lib/voting-system-client"
+import { createElection, deployVotingSystem, mined, travelTo, type TestChain } from "../helpers/chain"
+
+describe("scanVotes", () => {
+  let chain: TestChain
+  let client: VotingSystemClient
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+    client = new VotingSystemClient(await chain.contract.getAddress(), chain.provider)
+  })
+
+  it("collects the voters of every election since the given time", async () => {
+    const { provider, accounts, as } = chain
+    const first = await createElection(chain)
+    const second = await createElection(chain)
+    await travelTo(provider, second.startTime)
+    await mined(as(accounts[0]).vote(first.id, 0, []))
+    await mined(as(accounts[1]).vote(first.id, 1, []))
+    await mined(as(accounts[1]).vote(second.id, 0, []))
+
+    const votes = await scanVotes(client, first.startTime)
+    expect(votes[first.id]).toHaveLength(2)
+    expect(votes[first.id]).toEqual(expect.arrayContaining([accounts[0].address, accounts[1].address]))
+    expect(votes[second.id]).toEqual([accounts[1].address])
+  })
+})
@@ -0,0 +1,73 @@
+import type { ethers } from "ethers"
+import { beforeEach, describe, expect, it } from "vitest"
+import { SafeProposer, getSafeInfo, type AdminCallResult } from "@/lib/multisig"
+import { VotingSystemClient } from "@/lib/voting-system-client"
+import type { NewElectionInput } from "@/types"
+import { HOUR, deploySafe, deployVotingSystem, latestTime, mined, type TestChain } from "../helpers/chain"
+
+const CHAIN_ID = 1337
+
+describe("VotingSystemClient acting for a Safe", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  const newElection = async (): Promise<NewElectionInput> => {
+    const startTime = (await latestTime(chain.provider)) + HOUR
+    return { name: "Board election", description: "Annual board election", startTime, endTime: startTime + 24 * HOUR }
+  }
+
+  // Hands the voting contract to a new Safe and returns a client acting for it per signer
+  const ownedBySafe = async (signers: ethers.Signer[], threshold: number) => {
+    const safeAddress = await deploySafe(chain, signers, threshold)
+    const safe = (await getSafeInfo(chain.provider, safeAddress))!
+    const clients = signers.map((signer) => {
+      const client = new VotingSystemClient(chain.contract.target as string, signer)
+      const proposer = new SafeProposer(safe, signer, CHAIN_ID)
+      client.setMultisig(proposer)
+      return { client, proposer }
+    })
+
+    await mined(chain.contract.transferOwnership(safeAddress))
+    const accepted = await clients[0].client.acceptOwnership(clients[0].proposer)
+    if (accepted.kind === "proposed") {
+      await accepted.approval.wait()
+      await (await clients[1].proposer.execute(accepted.proposal)).wait()
+    }
+    expect(await chain.contract.owner()).toBe(safeAddress)
+    return clients
+  }
+
+  const expectProposed = (result: AdminCallResult) => {
+    if (result.kind !== "proposed") throw new Error(`Expected a proposal, got ${result.kind}`)
+    return result
+  }
+
+  it("only proposes admin calls while the Safe needs more signers", async () => {
+    const [first, second] = await ownedBySafe(chain.accounts.slice(0, 2), 2)
+
+    const proposed = expectProposed(await first.client.createElection(await newElection()))
+    // The approval is the signer's confirmation, not the admin call
+    const approval = (await proposed.approval.wait())!
+    expect(first.client.getCreatedElectionId(approval)).toBeNull()
+    expect(await first.client.getElectionCount()).toBe(0)
+    expect(proposed.proposal.description).toBe("createElection")
+    expect((await second.proposer.getStatus(proposed.proposal)).confirmations).toEqual([chain.accounts[0].address])
+
+    const executed = (await (await second.proposer.execute(proposed.proposal)).wait())!
+    expect(second.client.getCreatedElectionId(executed)).toBe(0)
+    expect(await second.client.getElectionCount()).toBe(1)
+  })
+
+  it("executes admin calls straight away when one signer is enough", async () => {
+    const [only] = await ownedBySafe(chain.accounts.slice(0, 1), 1)
+
+    const result = await only.client.createElection(await newElection())
+    expect(result.kind).toBe("executed")
+    if (result.kind === "executed") {
+      expect(only.client.getCreatedElectionId((await result.tx.wait())!)).toBe(0)
+    }
+  })
+})
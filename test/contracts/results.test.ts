@@ -0,0 +1,125 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import {
+  ElectionType,
+  HOUR,
+  Role,
+  createElection,
+  deployVotingSystem,
+  eventArgs,
+  expectRevert,
+  mined,
+  travelTo,
+  type TestChain,
+  type ElectionSchedule,
+} from "../helpers/chain"
+
+describe("publishing results", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("waits for the election to end", async () => {
+    const { contract, provider } = chain
+    const election = await createElection(chain)
+
+    await expectRevert(contract.publishResults(election.id), "ElectionNotEnded")
+    await travelTo(provider, election.endTime - 60)
+    await expectRevert(contract.publishResults(election.id), "ElectionNotEnded")
+
+    await travelTo(provider, election.endTime + 1)
+    const receipt = await mined(contract.publishResults(election.id))
+    expect(eventArgs(contract, receipt, "ResultsPublished").electionId).toBe(BigInt(election.id))
+    expect(await contract.resultsPublished(election.id)).toBe(true)
+  })
+
+  it("waits for the reveal period of a secret ballot to end", async () => {
+    const { contract, provider } = chain
+    const election = await createElection(chain, { revealWindow: HOUR })
+
+    await travelTo(provider, election.endTime + 1)
+    await expectRevert(contract.publishResults(election.id), "RevealPeriodNotEnded")
+
+    await travelTo(provider, election.revealEndTime + 1)
+    await mined(contract.publishResults(election.id))
+  })
+
+  it("cannot publish or cancel around a cancellation", async () => {
+    const { contract, provider } = chain
+    const cancelled = await createElection(chain)
+    const published = await createElection(chain)
+    await mined(contract.cancelElection(cancelled.id, "Withdrawn"))
+
+    await travelTo(provider, published.endTime + 1)
+    await expectRevert(contract.publishResults(cancelled.id), "ElectionIsCancelled")
+    await mined(contract.publishResults(published.id))
+    await expectRevert(
+      contract.cancelElection(published.id, "Too late"),
+      "ResultsAlreadyPublished",
+    )
+  })
+
+  it("lets scoped election admins publish their election", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [admin] = accounts
+    const election = await createElection(chain)
+    await mined(contract.grantRole(Role.ElectionAdmin, admin.address, election.id))
+
+    await travelTo(provider, election.endTime + 1)
+    await mined(as(admin).publishResults(election.id))
+  })
+})
+
+describe("reading results", () => {
+  let chain: TestChain
+  let election: ElectionSchedule
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+    election = await createElection(chain, { electionType: ElectionType.RankedChoice })
+    const [first, second] = chain.accounts
+
+    await travelTo(chain.provider, election.startTime)
+    await mined(chain.as(first).voteRanked(election.id, [1, 0], []))
+    await mined(chain.as(second).voteRanked(election.id, [1], []))
+    await travelTo(chain.provider, election.endTime + 1)
+  })
+
+  it("hides tallies from the public until publication", async () => {
+    const { contract, accounts, as } = chain
+    const viewer = as(accounts[4])
+    const notPublished = "ResultsNotPublished"
+
+    await expectRevert(viewer.getVoteCount(election.id, 1), notPublished)
+    await expectRevert(viewer.getVoteCounts(election.id), notPublished)
+    await expectRevert(viewer.getVoterCounts(election.id), notPublished)
+    await expectRevert(viewer.getRankedBallots(election.id, 0, 10), notPublished)
+
+    await mined(contract.publishResults(election.id))
+
+    expect(await viewer.getVoteCount(election.id, 1)).toBe(BigInt(2))
+    expect((await viewer.getVoteCounts(election.id)).map(Number)).toEqual([0, 2, 0])
+    expect((await viewer.getVoterCounts(election.id)).map(Number)).toEqual([0, 2, 0])
+    const [, total] = await viewer.getRankedBallots(election.id, 0, 10)
+    expect(total).toBe(BigInt(2))
+  })
+
+  it("lets auditors read tallies before publication", async () => {
+    const { contract, accounts, as } = chain
+    const [auditor, otherAuditor] = accounts
+    const other = await createElection(chain)
+    await mined(contract.grantRole(Role.Auditor, auditor.address, election.id))
+    await mined(contract.grantRole(Role.Auditor, otherAuditor.address, other.id))
+
+    expect(await as(auditor).getVoteCount(election.id, 1)).toBe(BigInt(2))
+    await expectRevert(as(otherAuditor).getVoteCount(election.id, 1), "ResultsNotPublished")
+  })
+
+  it("validates the candidate", async () => {
+    const { contract } = chain
+
+    await expectRevert(contract.getVoteCount(election.id, 3), "InvalidCandidate")
+    await expectRevert(contract.getCandidate(election.id, 3), "InvalidCandidate")
+  })
+})
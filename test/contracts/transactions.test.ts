@@ -0,0 +1,119 @@
+import { ethers } from "ethers"
+import { beforeEach, describe, expect, it } from "vitest"
+import { DROP_AFTER_BLOCKS, checkTransaction, trackedTransaction, type TrackedTransaction } from "@/lib/transactions"
+import { createElection, deployVotingSystem, travelTo, type ElectionSchedule, type TestChain } from "../helpers/chain"
+
+describe("checkTransaction", () => {
+  let chain: TestChain
+  let election: ElectionSchedule
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+    election = await createElection(chain)
+    await travelTo(chain.provider, election.startTime)
+  })
+
+  // Stops automatic mining, so sent transactions wait in the pool and can be replaced until the next block
+  const holdBlocks = () => chain.provider.send("miner_stop", [])
+  const mineBlock = () => chain.provider.send("evm_mine", [])
+
+  const track = async (tx: ethers.TransactionResponse) =>
+    trackedTransaction(tx, { action: "Cast vote", electionId: election.id }, await chain.provider.getBlockNumber())
+
+  const check = async (transaction: TrackedTransaction) =>
+    checkTransaction(chain.provider, transaction, await chain.provider.getBlockNumber())
+
+  it("leaves a transaction pending until it is mined", async () => {
+    const { accounts, as } = chain
+    await holdBlocks()
+    const transaction = await track(await as(accounts[0]).vote(election.id, 0, [], { gasLimit: 300000 }))
+
+    expect(await check(transaction)).toEqual({ transaction, receipt: null, error: null })
+
+    await mineBlock()
+    const settled = await check(transaction)
+    expect(settled.transaction.status).toBe("confirmed")
+    expect(settled.transaction.blockNumber).toBe(settled.receipt!.blockNumber)
+    expect(settled.error).toBeNull()
+  })
+
+  it("explains a transaction that reverted on-chain", async () => {
+    const { accounts, as } = chain
+    const voter = as(accounts[0])
+    await holdBlocks()
+    await voter.vote(election.id, 0, [], { gasLimit: 300000 })
+    // Passes gas estimation, but is mined after the first vote
+    const transaction = await track(await voter.vote(election.id, 1, [], { gasLimit: 300000 }))
+    // Ganache reports the revert as an evm_mine error, but still mines the block
+    await expect(mineBlock()).rejects.toThrow("revert")
+
+    const settled = await check(transaction)
+    expect(settled.transaction.status).toBe("failed")
+    expect(settled.error?.code).toBe("AlreadyVoted")
+    expect(settled.transaction.error).toBe("You have already voted in this election")
+  })
+
+  it("follows a transaction sped up in the wallet", async () => {
+    const { accounts, as } = chain
+    const voter = as(accounts[0])
+    await holdBlocks()
+    const original = await voter.vote(election.id, 2, [], { gasLimit: 300000, gasPrice: ethers.parseUnits("2", "gwei") })
+    const transaction = await track(original)
+    const spedUp = await voter.vote(election.id, 2, [], {
+      gasLimit: 300000,
+      gasPrice: ethers.parseUnits("4", "gwei"),
+      nonce: original.nonce,
+    })
+    await mineBlock()
+
+    const settled = await check(transaction)
+    expect(settled.transaction).toMatchObject({ status: "confirmed", hash: spedUp.hash, originalHash: original.hash })
+    expect(settled.receipt?.hash).toBe(spedUp.hash)
+  })
+
+  it("reports a transaction cancelled in the wallet", async () => {
+    const { accounts, as } = chain
+    const [voter] = accounts
+    await holdBlocks()
+    const original = await as(voter).vote(election.id, 0, [], { gasLimit: 300000, gasPrice: ethers.parseUnits("2", "gwei") })
+    const transaction = await track(original)
+    const cancellation = await voter.sendTransaction({
+      to: voter.address,
+      value: 0,
+      gasPrice: ethers.parseUnits("4", "gwei"),
+      nonce: original.nonce,
+    })
+    await mineBlock()
+
+    const settled = await check(transaction)
+    expect(settled.transaction).toMatchObject({ status: "replaced", replacedBy: cancellation.hash })
+    expect(settled.error?.code).toBe("TransactionReplaced")
+  })
+
+  it("gives up on a transaction the node never saw", async () => {
+    const { provider, accounts } = chain
+    const [voter] = accounts
+    const transaction: TrackedTransaction = {
+      hash: ethers.id("lost transaction"),
+      chainId: 1337,
+      from: voter.address,
+      to: await chain.contract.getAddress(),
+      nonce: await provider.getTransactionCount(voter.address),
+      data: "0x",
+      action: "Cast vote",
+      status: "pending",
+      submittedAt: Date.now(),
+      startBlock: await provider.getBlockNumber(),
+    }
+
+    // Not dropped straight away, in case the transaction is still propagating
+    const missing = await check(transaction)
+    expect(missing.transaction.status).toBe("pending")
+    expect(missing.transaction.missingSince).toBe(transaction.startBlock)
+
+    for (let i = 0; i < DROP_AFTER_BLOCKS; i++) await mineBlock()
+    const dropped = await check(missing.transaction)
+    expect(dropped.transaction.status).toBe("dropped")
+    expect(dropped.error?.code).toBe("TransactionDropped")
+  })
+})
@@ -0,0 +1,95 @@
+import { ethers } from "ethers"
+import { beforeEach, describe, expect, it } from "vitest"
+import { hashBallot } from "@/lib/sealed-ballot"
+import { VotingSystemClient } from "@/lib/voting-system-client"
+import { createVoteReceipt, encodeVoteReceipt, verifyVote, type VoteReceipt } from "@/lib/vote-receipts"
+import { HOUR, createElection, deployVotingSystem, increaseTime, mined, travelTo, type TestChain } from "../helpers/chain"
+
+const CHAIN_ID = 1337
+
+describe("verifyVote", () => {
+  let chain: TestChain
+  // Read-only, like a visitor checking a receipt without a wallet
+  let client: VotingSystemClient
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+    client = new VotingSystemClient(await chain.contract.getAddress(), chain.provider)
+  })
+
+  const receiptFor = async (transaction: ethers.TransactionReceipt, electionId: number, voter: string) =>
+    createVoteReceipt(chain.provider, transaction, {
+      chainId: CHAIN_ID,
+      contractAddress: client.address,
+      electionId,
+      electionName: "Board election",
+      voter,
+    })
+
+  it("confirms a vote from its receipt", async () => {
+    const { provider, accounts, as } = chain
+    const election = await createElection(chain)
+    await travelTo(provider, election.startTime)
+    const [voter] = accounts
+    const transaction = await mined(as(voter).vote(election.id, 1, []))
+    const receipt = await receiptFor(transaction, election.id, voter.address)
+    await increaseTime(provider, 60)
+
+    const verification = await verifyVote(client, CHAIN_ID, encodeVoteReceipt(receipt))
+    expect(verification).toEqual({ receipt, confirmations: 2, status: "counted" })
+  })
+
+  it("accepts a bare transaction hash", async () => {
+    const { provider, accounts, as } = chain
+    const election = await createElection(chain)
+    await travelTo(provider, election.startTime)
+    const transaction = await mined(as(accounts[1]).vote(election.id, 0, []))
+
+    const verification = await verifyVote(client, CHAIN_ID, `  ${transaction.hash}\n`)
+    expect(verification.receipt).toMatchObject({ electionId: election.id, voter: accounts[1].address })
+    expect(verification.status).toBe("counted")
+  })
+
+  it("rejects a receipt that does not match the chain", async () => {
+    const { provider, accounts, as } = chain
+    const election = await createElection(chain)
+    await travelTo(provider, election.startTime)
+    const transaction = await mined(as(accounts[0]).vote(election.id, 0, []))
+    const receipt = await receiptFor(transaction, election.id, accounts[0].address)
+
+    const edited: VoteReceipt = { ...receipt, voter: accounts[1].address }
+    await expect(verifyVote(client, CHAIN_ID, encodeVoteReceipt(edited))).rejects.toThrow(
+      "The receipt does not match the vote recorded on-chain",
+    )
+    await expect(verifyVote(client, 1, encodeVoteReceipt(receipt))).rejects.toThrow("This receipt is for chain 1337")
+  })
+
+  it("rejects transactions that did not cast a vote", async () => {
+    await createElection(chain)
+
+    await expect(verifyVote(client, CHAIN_ID, chain.deployment.hash)).rejects.toThrow(
+      "This transaction did not cast a vote in this contract",
+    )
+    await expect(verifyVote(client, CHAIN_ID, ethers.id("unknown"))).rejects.toThrow("not on this network")
+    await expect(verifyVote(client, CHAIN_ID, "not a receipt")).rejects.toThrow("Paste a vote receipt")
+  })
+
+  it("counts a sealed vote only once it is revealed", async () => {
+    const { provider, accounts, as } = chain
+    const election = await createElection(chain, { revealWindow: HOUR })
+    await travelTo(provider, election.startTime)
+    const [voter, forgetful] = accounts
+    const salt = ethers.id("salt")
+    const committed = await mined(as(voter).commitVote(election.id, hashBallot(voter.address, 1, salt), []))
+    const unrevealed = await mined(as(forgetful).commitVote(election.id, hashBallot(forgetful.address, 2, salt), []))
+
+    expect((await verifyVote(client, CHAIN_ID, committed.hash)).status).toBe("awaiting-reveal")
+
+    await travelTo(provider, election.endTime + 1)
+    await mined(as(voter).revealVote(election.id, 1, salt))
+    expect((await verifyVote(client, CHAIN_ID, committed.hash)).status).toBe("counted")
+
+    await travelTo(provider, election.revealEndTime + 1)
+    expect((await verifyVote(client, CHAIN_ID, unrevealed.hash)).status).toBe("not-revealed")
+  })
+})
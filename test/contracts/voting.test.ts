@@ -0,0 +1,503 @@
+import { ethers } from "ethers"
+import { beforeEach, describe, expect, it } from "vitest"
+import { VoterMerkleTree, WeightedVoterMerkleTree } from "@/lib/merkle"
+import { hashBallot } from "@/lib/sealed-ballot"
+import {
+  ALL_ELECTIONS,
+  ElectionType,
+  HOUR,
+  createElection,
+  deployVotingSystem,
+  eventArgs,
+  eventsIn,
+  expectRevert,
+  increaseTime,
+  mined,
+  travelTo,
+  type TestChain,
+} from "../helpers/chain"
+
+// Counts are read as the owner, who may see them before publication
+const voteCounts = async (chain: TestChain, electionId: number) =>
+  (await chain.contract.getVoteCounts(electionId)).map(Number)
+
+describe("electionActive", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("only accepts votes between startTime and endTime", async () => {
+    const { provider, accounts, as } = chain
+    const [early, onTime, late] = accounts
+    const election = await createElection(chain)
+
+    await expectRevert(as(early).vote(election.id, 0, []), "ElectionNotActive")
+
+    await travelTo(provider, election.startTime)
+    await mined(as(onTime).vote(election.id, 0, []))
+
+    await travelTo(provider, election.endTime + 1)
+    await expectRevert(as(late).vote(election.id, 0, []), "ElectionNotActive")
+    expect(await voteCounts(chain, election.id)).toEqual([1, 0, 0])
+  })
+
+  it("guards every ballot type", async () => {
+    const { provider, accounts, as } = chain
+    const [voter] = accounts
+    const ranked = await createElection(chain, { electionType: ElectionType.RankedChoice })
+    const approval = await createElection(chain, { electionType: ElectionType.Approval })
+    const weighted = await createElection(chain, { electionType: ElectionType.Weighted })
+    const sealed = await createElection(chain, { revealWindow: HOUR })
+
+    // Created last, so it ends last
+    await travelTo(provider, sealed.endTime + 1)
+    await expectRevert(as(voter).voteRanked(ranked.id, [0], []), "ElectionNotActive")
+    await expectRevert(as(voter).voteApproval(approval.id, [0], []), "ElectionNotActive")
+    await expectRevert(as(voter).voteWeighted(weighted.id, 0, 1, []), "ElectionNotActive")
+    await expectRevert(as(voter).commitVote(sealed.id, ethers.id("ballot"), []), "ElectionNotActive")
+  })
+})
+
+describe("plurality voting", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("records the vote and emits VoteCast", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [voter] = accounts
+    const election = await createElection(chain)
+    await travelTo(provider, election.startTime)
+
+    const receipt = await mined(as(voter).vote(election.id, 1, []))
+
+    const cast = eventArgs(contract, receipt, "VoteCast")
+    expect(cast.electionId).toBe(BigInt(election.id))
+    expect(cast.voter).toBe(voter.address)
+    expect(await contract.hasVoted(election.id, voter.address)).toBe(true)
+    expect(await voteCounts(chain, election.id)).toEqual([0, 1, 0])
+  })
+
+  it("rejects a second vote from the same address", async () => {
+    const { provider, accounts, as } = chain
+    const [voter] = accounts
+    const election = await createElection(chain)
+    await travelTo(provider, election.startTime)
+
+    await mined(as(voter).vote(election.id, 0, []))
+
+    await expectRevert(as(voter).vote(election.id, 1, []), "AlreadyVoted")
+  })
+
+  it("rejects invalid candidates and other ballot types", async () => {
+    const { provider, accounts, as } = chain
+    const [voter] = accounts
+    const plurality = await createElection(chain)
+    const ranked = await createElection(chain, { electionType: ElectionType.RankedChoice })
+    const sealed = await createElection(chain, { revealWindow: HOUR })
+    await travelTo(provider, sealed.startTime)
+
+    await expectRevert(as(voter).vote(plurality.id, 3, []), "InvalidCandidate")
+    await expectRevert(as(voter).vote(ranked.id, 0, []), "WrongElectionType", {
+      electionType: BigInt(ElectionType.RankedChoice),
+    })
+    await expectRevert(as(voter).vote(sealed.id, 0, []), "CommitRevealRequired")
+  })
+
+  it("only accepts voters on the roll", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [member, other, outsider] = accounts
+    const election = await createElection(chain)
+    const tree = new VoterMerkleTree([member.address, other.address])
+
+    const receipt = await mined(contract.setVoterRoot(election.id, tree.root, tree.voters))
+    const rootSet = eventArgs(contract, receipt, "VoterRootSet")
+    expect(rootSet.root).toBe(tree.root)
+    expect([...rootSet.voters]).toEqual(tree.voters)
+
+    await travelTo(provider, election.startTime)
+    await expectRevert(
+      contract.setVoterRoot(election.id, ethers.ZeroHash, []),
+      "ElectionAlreadyStarted",
+    )
+    await expectRevert(
+      as(outsider).vote(election.id, 0, tree.getProof(member.address)!),
+      "NotOnVoterRoll",
+    )
+    await mined(as(member).vote(election.id, 0, tree.getProof(member.address)!))
+  })
+})
+
+describe("ranked-choice voting", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("stores the ranking and counts the first preference", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [first, second] = accounts
+    const election = await createElection(chain, { electionType: ElectionType.RankedChoice })
+    await travelTo(provider, election.startTime)
+
+    const receipt = await mined(as(first).voteRanked(election.id, [2, 0], []))
+    expect(eventArgs(contract, receipt, "VoteCast").voter).toBe(first.address)
+    await mined(as(second).voteRanked(election.id, [0, 1, 2], []))
+
+    await expectRevert(as(first).voteRanked(election.id, [1], []), "AlreadyVoted")
+    await expectRevert(as(accounts[2]).voteRanked(election.id, [], []), "InvalidRanking")
+    await expectRevert(as(accounts[2]).voteRanked(election.id, [1, 1], []), "DuplicateCandidate")
+
+    expect(await voteCounts(chain, election.id)).toEqual([1, 0, 1])
+    const [ballots, total] = await contract.getRankedBallots(election.id, 0, 10)
+    expect(total).toBe(BigInt(2))
+    expect(ballots.map((ballot) => ballot.map(Number))).toEqual([
+      [2, 0],
+      [0, 1, 2],
+    ])
+  })
+})
+
+describe("approval voting", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("counts one vote for each selected candidate", async () => {
+    const { provider, accounts, as } = chain
+    const [voter, other] = accounts
+    const election = await createElection(chain, { electionType: ElectionType.Approval, maxSelections: 2 })
+    await travelTo(provider, election.startTime)
+
+    await expectRevert(as(voter).voteApproval(election.id, [], []), "NoCandidatesSelected")
+    await expectRevert(as(voter).voteApproval(election.id, [0, 1, 2], []), "TooManySelections", {
+      selected: BigInt(3),
+      maxSelections: BigInt(2),
+    })
+    await expectRevert(as(voter).voteApproval(election.id, [1, 1], []), "DuplicateCandidate")
+
+    await mined(as(voter).voteApproval(election.id, [0, 2], []))
+    await mined(as(other).voteApproval(election.id, [2], []))
+
+    await expectRevert(as(voter).voteApproval(election.id, [1], []), "AlreadyVoted")
+    expect(await voteCounts(chain, election.id)).toEqual([1, 0, 2])
+  })
+})
+
+describe("weighted voting", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("counts each vote with the voter's proven weight", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [large, small, outsider] = accounts
+    const election = await createElection(chain, { electionType: ElectionType.Weighted })
+    const tree = new WeightedVoterMerkleTree([
+      { address: large.address, weight: BigInt(70) },
+      { address: small.address, weight: BigInt(30) },
+    ])
+    const voters = tree.entries.map((entry) => entry.address)
+    const weights = tree.entries.map((entry) => entry.weight)
+
+    await expectRevert(
+      contract.setVoterRoot(election.id, tree.root, voters),
+      "WrongElectionType",
+    )
+    const receipt = await mined(contract.setVoterWeights(election.id, tree.root, voters, weights))
+    const weightsSet = eventArgs(contract, receipt, "VoterWeightsSet")
+    expect(weightsSet.root).toBe(tree.root)
+    expect([...weightsSet.weights]).toEqual(weights)
+
+    await travelTo(provider, election.startTime)
+    const largeProof = tree.getProof(large.address)!
+    const smallProof = tree.getProof(small.address)!
+    await expectRevert(
+      as(large).voteWeighted(election.id, 0, largeProof.weight + BigInt(1), largeProof.proof),
+      "VotingWeightNotVerified",
+    )
+    await expectRevert(
+      as(outsider).voteWeighted(election.id, 0, smallProof.weight, smallProof.proof),
+      "VotingWeightNotVerified",
+    )
+
+    await mined(as(large).voteWeighted(election.id, 0, largeProof.weight, largeProof.proof))
+    await mined(as(small).voteWeighted(election.id, 1, smallProof.weight, smallProof.proof))
+    await expectRevert(
+      as(small).voteWeighted(election.id, 1, smallProof.weight, smallProof.proof),
+      "AlreadyVoted",
+    )
+
+    expect(await voteCounts(chain, election.id)).toEqual([70, 30, 0])
+    expect((await contract.getVoterCounts(election.id)).map(Number)).toEqual([1, 1, 0])
+  })
+})
+
+describe("commit-reveal voting", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("keeps the tally empty until ballots are revealed", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [voter, silent] = accounts
+    const election = await createElection(chain, { revealWindow: HOUR })
+    const salt = ethers.hexlify(ethers.randomBytes(32))
+
+    await travelTo(provider, election.startTime)
+    await expectRevert(as(voter).commitVote(election.id, ethers.ZeroHash, []), "InvalidCommitment")
+    const committed = await mined(as(voter).commitVote(election.id, hashBallot(voter.address, 1, salt), []))
+    expect(eventArgs(contract, committed, "VoteCast").voter).toBe(voter.address)
+    await expectRevert(
+      as(voter).commitVote(election.id, hashBallot(voter.address, 2, salt), []),
+      "AlreadyVoted",
+    )
+    await expectRevert(as(voter).revealVote(election.id, 1, salt), "NotInRevealPeriod")
+    expect(await voteCounts(chain, election.id)).toEqual([0, 0, 0])
+
+    await travelTo(provider, election.endTime + 1)
+    await expectRevert(as(voter).revealVote(election.id, 2, salt), "RevealMismatch")
+    await expectRevert(as(silent).revealVote(election.id, 1, salt), "NoCommitment")
+
+    const revealed = await mined(as(voter).revealVote(election.id, 1, salt))
+    const args = eventArgs(contract, revealed, "VoteRevealed")
+    expect(args.electionId).toBe(BigInt(election.id))
+    expect(args.voter).toBe(voter.address)
+    await expectRevert(as(voter).revealVote(election.id, 1, salt), "AlreadyRevealed")
+
+    expect(await voteCounts(chain, election.id)).toEqual([0, 1, 0])
+    expect(await contract.revealCounts(election.id)).toBe(BigInt(1))
+
+    await travelTo(provider, election.revealEndTime + 1)
+    await expectRevert(as(voter).revealVote(election.id, 1, salt), "NotInRevealPeriod")
+  })
+
+  it("binds a sealed ballot to the voter who committed it", async () => {
+    const { provider, accounts, as } = chain
+    const [voter, copycat] = accounts
+    const election = await createElection(chain, { revealWindow: HOUR })
+    const salt = ethers.hexlify(ethers.randomBytes(32))
+    const commitment = hashBallot(voter.address, 1, salt)
+
+    await travelTo(provider, election.startTime)
+    await mined(as(voter).commitVote(election.id, commitment, []))
+    // Copies the commitment from the voter's transaction, then replays the reveal once it is public
+    await mined(as(copycat).commitVote(election.id, commitment, []))
+
+    await travelTo(provider, election.endTime + 1)
+    await mined(as(voter).revealVote(election.id, 1, salt))
+    await expectRevert(as(copycat).revealVote(election.id, 1, salt), "RevealMismatch")
+    expect(await voteCounts(chain, election.id)).toEqual([0, 1, 0])
+  })
+})
+
+describe("voteBySig", () => {
+  const BALLOT_TYPES = {
+    Ballot: [
+      { name: "electionId", type: "uint256" },
+      { name: "candidateId", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  }
+
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  const sign = async (signer: ethers.Signer, electionId: number, candidateId: number, deadline: number) => {
+    const { contract, provider } = chain
+    const domain = {
+      name: "VotingSystem",
+      version: "1",
+      chainId: (await provider.getNetwork()).chainId,
+      verifyingContract: await contract.getAddress(),
+    }
+    const nonce = await contract.ballotNonces(await signer.getAddress())
+    return ethers.Signature.from(
+      await signer.signTypedData(domain, BALLOT_TYPES, { electionId, candidateId, nonce, deadline }),
+    )
+  }
+
+  it("counts a relayed ballot for the signer", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [voter, relayer] = accounts
+    const election = await createElection(chain)
+    await travelTo(provider, election.startTime)
+    const deadline = election.startTime + HOUR
+    const { v, r, s } = await sign(voter, election.id, 2, deadline)
+
+    const receipt = await mined(as(relayer).voteBySig(election.id, 2, voter.address, deadline, v, r, s, []))
+
+    expect(eventArgs(contract, receipt, "VoteCast").voter).toBe(voter.address)
+    expect(await contract.hasVoted(election.id, voter.address)).toBe(true)
+    expect(await contract.hasVoted(election.id, relayer.address)).toBe(false)
+    expect(await contract.ballotNonces(voter.address)).toBe(BigInt(1))
+    expect(await voteCounts(chain, election.id)).toEqual([0, 0, 1])
+
+    // The nonce moved on, so the same signature no longer recovers to the voter
+    await expectRevert(
+      as(relayer).voteBySig(election.id, 2, voter.address, deadline, v, r, s, []),
+      "InvalidSignature",
+    )
+  })
+
+  it("rejects tampered, misattributed and expired ballots", async () => {
+    const { provider, accounts, as } = chain
+    const [voter, relayer, other] = accounts
+    const election = await createElection(chain)
+    await travelTo(provider, election.startTime)
+    const deadline = election.startTime + HOUR
+    const { v, r, s } = await sign(voter, election.id, 0, deadline)
+
+    await expectRevert(
+      as(relayer).voteBySig(election.id, 1, voter.address, deadline, v, r, s, []),
+      "InvalidSignature",
+    )
+    await expectRevert(
+      as(relayer).voteBySig(election.id, 0, other.address, deadline, v, r, s, []),
+      "InvalidSignature",
+    )
+
+    await increaseTime(provider, 2 * HOUR)
+    await expectRevert(
+      as(relayer).voteBySig(election.id, 0, voter.address, deadline, v, r, s, []),
+      "SignatureExpired",
+    )
+  })
+
+  it("rejects a signed ballot from someone who already voted", async () => {
+    const { provider, accounts, as } = chain
+    const [voter, relayer] = accounts
+    const election = await createElection(chain)
+    await travelTo(provider, election.startTime)
+    await mined(as(voter).vote(election.id, 0, []))
+    const deadline = election.startTime + HOUR
+    const { v, r, s } = await sign(voter, election.id, 1, deadline)
+
+    await expectRevert(
+      as(relayer).voteBySig(election.id, 1, voter.address, deadline, v, r, s, []),
+      "AlreadyVoted",
+    )
+  })
+})
+
+describe("delegation", () => {
+  let chain: TestChain
+
+  beforeEach(async () => {
+    chain = await deployVotingSystem()
+  })
+
+  it("emits DelegateChanged and resolves per-election over global delegations", async () => {
+    const { contract, accounts, as } = chain
+    const [delegator, globalDelegate, localDelegate] = accounts
+    const election = await createElection(chain)
+
+    const global = eventArgs(
+      contract,
+      await mined(as(delegator).delegateVote(ALL_ELECTIONS, globalDelegate.address)),
+      "DelegateChanged",
+    )
+    expect(global.delegator).toBe(delegator.address)
+    expect(global.electionId).toBe(ALL_ELECTIONS)
+    expect(global.delegate).toBe(globalDelegate.address)
+    expect(await contract.delegateOf(election.id, delegator.address)).toBe(globalDelegate.address)
+
+    await mined(as(delegator).delegateVote(election.id, localDelegate.address))
+    expect(await contract.delegateOf(election.id, delegator.address)).toBe(localDelegate.address)
+
+    await expectRevert(as(delegator).delegateVote(election.id, delegator.address), "SelfDelegation")
+  })
+
+  it("rejects delegation for unsupported or closed elections", async () => {
+    const { provider, accounts, as } = chain
+    const [delegator, delegate] = accounts
+    const sealed = await createElection(chain, { revealWindow: HOUR })
+    const weighted = await createElection(chain, { electionType: ElectionType.Weighted })
+    const plurality = await createElection(chain)
+
+    const unsupported = "DelegationNotSupported"
+    await expectRevert(as(delegator).delegateVote(sealed.id, delegate.address), unsupported)
+    await expectRevert(as(delegator).delegateVote(weighted.id, delegate.address), unsupported)
+
+    await travelTo(provider, plurality.startTime)
+    await mined(as(delegator).vote(plurality.id, 0, []))
+    await expectRevert(as(delegator).delegateVote(plurality.id, delegate.address), "AlreadyVoted", {
+      electionId: BigInt(plurality.id),
+      voter: delegator.address,
+    })
+
+    await travelTo(provider, plurality.endTime + 1)
+    await expectRevert(as(delegate).delegateVote(plurality.id, delegator.address), "ElectionAlreadyEnded")
+  })
+
+  it("counts the delegate's ballot for delegators who did not vote", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [delegate, follower, overrider, late] = accounts
+    const election = await createElection(chain, { electionType: ElectionType.Approval })
+
+    await mined(as(follower).delegateVote(election.id, delegate.address))
+    await mined(as(overrider).delegateVote(ALL_ELECTIONS, delegate.address))
+
+    await travelTo(provider, election.startTime)
+    await mined(as(delegate).voteApproval(election.id, [0, 1], []))
+    await mined(as(overrider).voteApproval(election.id, [2], []))
+
+    await travelTo(provider, election.endTime + 1)
+    // Delegations made after the end time do not count
+    await mined(as(late).delegateVote(ALL_ELECTIONS, delegate.address))
+    const delegators = [follower, overrider, late].map((account) => account.address)
+
+    await expectRevert(
+      contract.countDelegatedVotes(election.id, delegators, [[]]),
+      "LengthMismatch",
+    )
+    const receipt = await mined(as(late).countDelegatedVotes(election.id, delegators, [[], [], []]))
+
+    const counted = eventsIn(contract, receipt, "DelegatedVoteCounted")
+    expect(counted).toHaveLength(1)
+    expect(counted[0].electionId).toBe(BigInt(election.id))
+    expect(counted[0].delegator).toBe(follower.address)
+    expect(counted[0].delegate).toBe(delegate.address)
+    expect(await voteCounts(chain, election.id)).toEqual([2, 2, 1])
+
+    // Counting again finds nothing left to add
+    const repeat = await mined(contract.countDelegatedVotes(election.id, delegators, [[], [], []]))
+    expect(eventsIn(contract, repeat, "DelegatedVoteCounted")).toHaveLength(0)
+  })
+
+  it("only counts delegated votes between the end time and publication", async () => {
+    const { contract, provider, accounts, as } = chain
+    const [delegate, follower] = accounts
+    const election = await createElection(chain)
+    await mined(as(follower).delegateVote(election.id, delegate.address))
+    await travelTo(provider, election.startTime)
+    await mined(as(delegate).vote(election.id, 0, []))
+
+    await expectRevert(
+      contract.countDelegatedVotes(election.id, [follower.address], [[]]),
+      "ElectionNotEnded",
+    )
+
+    await travelTo(provider, election.endTime + 1)
+    await mined(contract.publishResults(election.id))
+    await expectRevert(
+      contract.countDelegatedVotes(election.id, [follower.address], [[]]),
+      "ResultsAlreadyPublished",
+    )
+  })
+})
@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+// Just enough of a Gnosis Safe for lib/multisig.ts: owners, a threshold, approveHash and
+// execTransaction with pre-validated signatures (r = owner, s = 0, v = 1), sorted by owner
+contract TestSafe {
+    address[] private owners;
+    uint256 public threshold;
+    uint256 public nonce;
+    mapping(address => mapping(bytes32 => uint256)) public approvedHashes;
+
+    constructor(address[] memory _owners, uint256 _threshold) {
+        owners = _owners;
+        threshold = _threshold;
+    }
+
+    function getOwners() external view returns (address[] memory) {
+        return owners;
+    }
+
+    function getThreshold() external view returns (uint256) {
+        return threshold;
+    }
+
+    function approveHash(bytes32 hashToApprove) external {
+        require(isOwner(msg.sender), "Not an owner");
+        approvedHashes[msg.sender][hashToApprove] = 1;
+    }
+
+    function getTransactionHash(
+        address to,
+        uint256 value,
+        bytes calldata data,
+        uint8 operation,
+        uint256 safeTxGas,
+        uint256 baseGas,
+        uint256 gasPrice,
+        address gasToken,
+        address refundReceiver,
+        uint256 _nonce
+    ) public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                address(this),
+                block.chainid,
+                to,
+                value,
+                keccak256(data),
+                operation,
+                safeTxGas,
+                baseGas,
+                gasPrice,
+                gasToken,
+                refundReceiver,
+                _nonce
+            )
+        );
+    }
+
+    function execTransaction(
+        address to,
+        uint256 value,
+        bytes calldata data,
+        uint8 operation,
+        uint256 safeTxGas,
+        uint256 baseGas,
+        uint256 gasPrice,
+        address gasToken,
+        address refundReceiver,
+        bytes calldata signatures
+    ) external payable returns (bool) {
+        bytes32 txHash = getTransactionHash(
+            to, value, data, operation, safeTxGas, baseGas, gasPrice, gasToken, refundReceiver, nonce
+        );
+        nonce++;
+
+        require(signatures.length >= threshold * 65, "Not enough signatures");
+        address last = address(0);
+        for (uint256 i = 0; i < threshold; i++) {
+            address signer = address(uint160(uint256(bytes32(signatures[i * 65:i * 65 + 32]))));
+            require(signer > last && isOwner(signer), "Invalid signer");
+            require(signer == msg.sender || approvedHashes[signer][txHash] != 0, "Not approved");
+            last = signer;
+        }
+
+        (bool success, bytes memory result) = to.call{value: value}(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+        return true;
+    }
+
+    function isOwner(address account) private view returns (bool) {
+        for (uint256 i = 0; i < owners.length; i++) {
+            if (owners[i] == account) return true;
+        }
+        return false;
+    }
+}
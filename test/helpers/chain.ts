@@ -0,0 +1,174 @@
+import ganache from "ganache"
+import { ethers, type ContractTransactionResponse } from "ethers"
+import { expect, inject } from "vitest"
+import { decodeVotingError, type VotingErrorArgs } from "@/lib/contract-errors"
+import type { VotingSystemContract, VotingSystemErrorName, VotingSystemEventName } from "@/lib/generated/voting-system"
+
+export const ALL_ELECTIONS = ethers.MaxUint256
+export const HOUR = 60 * 60
+
+// Order matches the enums in VotingSystem.sol
+export const ElectionType = { Plurality: 0, RankedChoice: 1, Approval: 2, Weighted: 3 } as const
+export const Role = { SuperAdmin: 0, ElectionAdmin: 1, CandidateManager: 2, Auditor: 3 } as const
+
+export interface TestChain {
+  provider: ethers.BrowserProvider
+  // Deployed by `owner`, and connected as the owner
+  contract: VotingSystemContract
+  owner: ethers.JsonRpcSigner
+  deployment: ethers.ContractTransactionReceipt
+  // Funded accounts other than the owner
+  accounts: ethers.JsonRpcSigner[]
+  // The same contract with another account as sender
+  as: (signer: ethers.Signer) => VotingSystemContract
+}
+
+/**
+ * Deploys a fresh VotingSystem to its own in-process Ganache chain, so tests never share state
+ * and need no node or network.
+ */
+export async function deployVotingSystem(): Promise<TestChain> {
+  const { abi, bytecode } = inject("votingSystem")
+  const node = ganache.provider({
+    logging: { quiet: true },
+    chain: { chainId: 1337, vmErrorsOnRPCResponse: true },
+    wallet: { totalAccounts: 6 },
+  })
+  const send = (method: string, params: unknown[] = []) =>
+    node.request({ method, params } as Parameters<typeof node.request>[0])
+
+  const ethereum: ethers.Eip1193Provider = {
+    request: async ({ method, params = [] }: { method: string; params?: any[] }) => {
+      try {
+        if (method === "eth_signTypedData_v4" && typeof params[1] === "string") {
+          // Ganache only accepts the typed data as an object, while ethers sends it serialized
+          return await send(method, [params[0], JSON.parse(params[1])])
+        }
+        return await send(method, params)
+      } catch (error: any) {
+        // Ganache nests the revert data under data.result; ethers decodes reasons from a hex data field
+        if (typeof error?.data?.result === "string") error.data = error.data.result
+        throw error
+      }
+    },
+  }
+  // Tests repeat identical calls around state changes and time travel, so nothing may be served from cache
+  const provider = new ethers.BrowserProvider(ethereum, undefined, { cacheTimeout: -1 })
+
+  const [owner, ...accounts] = await Promise.all([...Array(6)].map((_, i) => provider.getSigner(i)))
+  const deployed = await new ethers.ContractFactory(abi, bytecode, owner).deploy()
+  const deployment = await deployed.deploymentTransaction()!.wait()
+  const contract = deployed as unknown as VotingSystemContract
+
+  return {
+    provider,
+    contract,
+    owner,
+    deployment: deployment!,
+    accounts,
+    as: (signer) => contract.connect(signer) as VotingSystemContract,
+  }
+}
+
+export async function latestTime(provider: ethers.Provider): Promise<number> {
+  const block = await provider.getBlock("latest")
+  return Number(block!.timestamp)
+}
+
+// Moves the chain clock forward and mines a block at the new time
+export async function increaseTime(provider: ethers.BrowserProvider, seconds: number) {
+  await provider.send("evm_increaseTime", [seconds])
+  await provider.send("evm_mine", [])
+}
+
+export async function travelTo(provider: ethers.BrowserProvider, timestamp: number) {
+  const now = await latestTime(provider)
+  if (timestamp > now) await increaseTime(provider, timestamp - now)
+}
+
+export interface ElectionSchedule {
+  id: number
+  startTime: number
+  endTime: number
+  revealEndTime: number
+}
+
+interface ElectionSetup {
+  electionType?: number
+  // Seconds after endTime; zero for an open ballot
+  revealWindow?: number
+  maxSelections?: number
+  seats?: number
+  candidates?: string[]
+}
+
+// Creates an election starting in an hour and lasting a day, with candidates added before it starts
+export async function createElection(chain: TestChain, setup: ElectionSetup = {}): Promise<ElectionSchedule> {
+  const { contract, provider } = chain
+  const startTime = (await latestTime(provider)) + HOUR
+  const endTime = startTime + 24 * HOUR
+  const revealEndTime = setup.revealWindow ? endTime + setup.revealWindow : 0
+  const electionType = setup.electionType ?? ElectionType.Plurality
+
+  const receipt = await mined(
+    contract.createElection("Board election", "Annual board election", startTime, endTime, {
+      electionType,
+      revealEndTime,
+      maxSelections: setup.maxSelections ?? 0,
+      seats: setup.seats ?? (electionType === ElectionType.Approval ? 1 : 0),
+    }),
+  )
+  const id = Number(eventArgs(contract, receipt, "ElectionCreated").electionId)
+
+  const candidates = setup.candidates ?? ["Alice", "Bob", "Carol"]
+  if (candidates.length > 0) {
+    await mined(
+      contract.addCandidates(
+        id,
+        candidates,
+        candidates.map((name) => `${name} for the board`),
+        candidates.map(() => ethers.ZeroHash),
+      ),
+    )
+  }
+
+  return { id, startTime, endTime, revealEndTime }
+}
+
+export async function mined(tx: Promise<ContractTransactionResponse>): Promise<ethers.ContractTransactionReceipt> {
+  const receipt = await (await tx).wait()
+  if (!receipt) throw new Error("Transaction was not mined")
+  return receipt
+}
+
+// Decoded args of every `name` event in the receipt
+export function eventsIn(contract: VotingSystemContract, receipt: ethers.TransactionReceipt, name: VotingSystemEventName) {
+  return receipt.logs
+    .map((log) => contract.interface.parseLog(log))
+    .filter((parsed): parsed is ethers.LogDescription => parsed?.name === name)
+    .map((parsed) => parsed.args)
+}
+
+// Args of the single `name` event the receipt must contain
+export function eventArgs(contract: VotingSystemContract, receipt: ethers.TransactionReceipt, name: VotingSystemEventName) {
+  const events = eventsIn(contract, receipt, name)
+  expect(events, `${name} events`).toHaveLength(1)
+  return events[0]
+}
+
+// Asserts the call reverts with the given custom error, and with these arguments when they are given.
+// Decoded from the revert data, since reverts during gas estimation reach ethers without the ABI.
+export async function expectRevert(action: Promise<unknown>, error: VotingSystemErrorName, args?: VotingErrorArgs) {
+  const decoded = decodeVotingError(await action.then(() => null, (reason) => reason), "en")
+  expect(decoded.code).toBe(error)
+  if (args) expect(decoded.args).toEqual(args)
+}
+
+// Deploys the Safe stand-in from TestSafe.sol with the given signers and threshold
+export async function deploySafe(chain: TestChain, owners: ethers.Signer[], threshold: number): Promise<string> {
+  const { abi, bytecode } = inject("testSafe")
+  const addresses = await Promise.all(owners.map((owner) => owner.getAddress()))
+  const safe = await new ethers.ContractFactory(abi, bytecode, chain.owner).deploy(addresses, threshold)
+  await safe.deploymentTransaction()!.wait()
+  return safe.getAddress()
+}
@@ -0,0 +1,433 @@
+import { ethers, type ContractTransactionResponse } from "ethers"
+import VotingContract from "@/contracts/VotingSystem.json"
+import type { VotingSystemErrorName } from "@/lib/generated/voting-system"
+import type { IndexerSnapshot } from "@/lib/indexer"
+import { VoterMerkleTree } from "@/lib/merkle"
+import type { VotingSystemClient, VotingSystemEventHandlers } from "@/lib/voting-system-client"
+import {
+  ELECTION_TYPES,
+  type CandidateData,
+  type CandidateResult,
+  type ElectionPage,
+  type ElectionSummary,
+  type ElectionType,
+  type VoterRoll,
+} from "@/types"
+
+export const HOUR = 60 * 60
+
+// The VotingSystemClient methods the fake implements; components calling anything else fail loudly
+export type FakeClientMethods = Pick<
+  VotingSystemClient,
+  | "address"
+  | "readOnly"
+  | "provider"
+  | "subscribe"
+  | "getBlockTimestamp"
+  | "getElectionCount"
+  | "getElectionsPage"
+  | "listElections"
+  | "getElectionSummary"
+  | "getVoterStatusPage"
+  | "getCandidateCount"
+  | "getCandidate"
+  | "getCandidates"
+  | "hasVoted"
+  | "hasRevealed"
+  | "getCommitment"
+  | "getVoterRoll"
+  | "getVoterWeights"
+  | "getVoteCounts"
+  | "getResults"
+  | "getRankedBallots"
+  | "castVote"
+  | "simulateVote"
+  | "castRankedVote"
+  | "simulateRankedVote"
+  | "castApprovalVote"
+  | "simulateApprovalVote"
+>
+
+export interface FakeElectionInput {
+  name: string
+  description?: string
+  // Defaults to an election that opened an hour ago and closes in a day
+  startTime?: number
+  endTime?: number
+  revealEndTime?: number
+  electionType?: ElectionType
+  maxSelections?: number
+  seats?: number
+  candidates?: string[]
+}
+
+const votingInterface = new ethers.Interface(VotingContract.abi)
+
+// Mimics the CALL_EXCEPTION ethers throws for a custom error revert
+const revert = (name: VotingSystemErrorName, args: unknown[] = []) =>
+  Object.assign(new Error(`execution reverted (custom error ${name})`), {
+    code: "CALL_EXCEPTION",
+    data: votingInterface.encodeErrorResult(name, args),
+  })
+
+/**
+ * In-memory VotingSystem behind the VotingSystemClient interface, for rendering components
+ * without a chain.
+ *
+ * Block time only moves through setTime / advanceTime, which also announce a new block, so
+ * schedule-dependent UI can be stepped through start and end times deterministically. Votes
+ * follow the contract's rules and revert with its custom errors.
+ */
+export class FakeVotingSystem implements FakeClientMethods {
+  readonly address = "0x5FbDB2315678afecb367f032d93F642f64180aa3"
+  readonly readOnly = false
+  // Account transactions are sent from, like the wallet signer behind the real client
+  account: string = ethers.ZeroAddress
+
+  private now: number
+  private blockNumber = 1
+  private nonce = 0
+  private elections: ElectionSummary[] = []
+  private candidates: Record<number, CandidateResult[]> = {}
+  private rankedBallots: Record<number, number[][]> = {}
+  // electionId → voter addresses in voting order, as the indexer reports them
+  private voters: Record<number, string[]> = {}
+  private voterRolls: Record<number, VoterRoll> = {}
+  private balances: Record<string, bigint> = {}
+  private blockListeners = new Set<(blockNumber: number) => void>()
+  private eventHandlers = new Set<VotingSystemEventHandlers>()
+
+  constructor(now = Math.floor(Date.UTC(2025, 0, 1) / 1000)) {
+    this.now = now
+  }
+
+  // Just enough of ethers.Provider for balance checks and block subscriptions
+  get provider() {
+    return {
+      getBalance: async (address: string) => this.balances[address.toLowerCase()] ?? ethers.parseEther("1"),
+      getBlockNumber: async () => this.blockNumber,
+      getBlock: async (blockNumber: number) => ({ number: blockNumber, timestamp: this.now }),
+      on: async (_event: "block", listener: (blockNumber: number) => void) => {
+        this.blockListeners.add(listener)
+      },
+      off: async (_event: "block", listener: (blockNumber: number) => void) => {
+        this.blockListeners.delete(listener)
+      },
+    } as unknown as ethers.Provider
+  }
+
+  get time(): number {
+    return this.now
+  }
+
+  // Test setup
+
+  addElection(input: FakeElectionInput): ElectionSummary {
+    const id = this.elections.length
+    const startTime = input.startTime ?? this.now - HOUR
+    const electionType = input.electionType ?? "plurality"
+    const names = input.candidates ?? ["Alice", "Bob", "Carol"]
+
+    const election: ElectionSummary = {
+      id,
+      name: input.name,
+      description: input.description ?? "",
+      startTime,
+      endTime: input.endTime ?? startTime + 25 * HOUR,
+      exists: true,
+      candidateCount: names.length,
+      resultsPublished: false,
+      voterRoot: ethers.ZeroHash,
+      revealEndTime: input.revealEndTime ?? 0,
+      revealCount: 0,
+      electionType,
+      maxSelections: input.maxSelections ?? 0,
+      seats: electionType === "approval" ? input.seats ?? 1 : 1,
+      cancelled: false,
+      paused: false,
+      extended: false,
+    }
+    this.elections.push(election)
+    this.candidates[id] = names.map((name, candidateId) => ({
+      id: candidateId,
+      name,
+      info: `${name} for the board`,
+      withdrawn: false,
+      profileHash: ethers.ZeroHash,
+      voteCount: BigInt(0),
+      voterCount: 0,
+    }))
+    this.rankedBallots[id] = []
+    this.voters[id] = []
+    return election
+  }
+
+  updateElection(electionId: number, patch: Partial<Omit<ElectionSummary, "id">>) {
+    Object.assign(this.election(electionId), patch)
+  }
+
+  withdrawCandidate(electionId: number, candidateId: number) {
+    this.candidates[electionId][candidateId].withdrawn = true
+  }
+
+  // Publishes an on-chain voter roll for the election
+  setVoterRoll(electionId: number, voters: string[]) {
+    const tree = new VoterMerkleTree(voters)
+    this.voterRolls[electionId] = { root: tree.root, voters: tree.voters }
+    this.updateElection(electionId, { voterRoot: tree.root })
+  }
+
+  // Records each ballot from a new voter: the chosen candidate ids, or rankings for ranked-choice
+  seedBallots(electionId: number, ballots: number[][]) {
+    for (const ballot of ballots) {
+      this.record(electionId, this.nextAddress(), ballot)
+    }
+  }
+
+  // Seeds single-choice ballots so that candidate i receives counts[i] votes
+  seedVotes(electionId: number, counts: number[]) {
+    this.seedBallots(
+      electionId,
+      counts.flatMap((count, candidateId) => Array.from({ length: count }, () => [candidateId])),
+    )
+  }
+
+  // Seeds one weighted ballot per candidate, carrying weights[i] for candidate i
+  seedWeightedVotes(electionId: number, weights: bigint[]) {
+    weights.forEach((weight, candidateId) => {
+      this.record(electionId, this.nextAddress(), [candidateId])
+      this.candidates[electionId][candidateId].voteCount += weight - BigInt(1)
+    })
+  }
+
+  publishResults(electionId: number) {
+    this.updateElection(electionId, { resultsPublished: true })
+    this.emit((handlers) => handlers.ResultsPublished?.({ electionId: BigInt(electionId) }))
+  }
+
+  setBalance(account: string, balance: bigint) {
+    this.balances[account.toLowerCase()] = balance
+  }
+
+  // Mines a block at the given time
+  setTime(timestamp: number) {
+    this.now = timestamp
+    this.blockNumber++
+    this.blockListeners.forEach((listener) => listener(this.blockNumber))
+  }
+
+  advanceTime(seconds: number) {
+    this.setTime(this.now + seconds)
+  }
+
+  // Indexed history for seeding the store, like ContractIndexer.load()
+  snapshot(): Pick<IndexerSnapshot, "elections" | "candidates" | "votes"> {
+    return {
+      elections: Object.fromEntries(this.elections.map((election) => [election.id, { ...election }])),
+      candidates: Object.fromEntries(
+        Object.entries(this.candidates).map(([id, candidates]) => [id, candidates.map(toCandidateData)]),
+      ),
+      votes: Object.fromEntries(Object.entries(this.voters).map(([id, voters]) => [id, [...voters]])),
+    }
+  }
+
+  // VotingSystemClient
+
+  subscribe(handlers: VotingSystemEventHandlers): () => void {
+    this.eventHandlers.add(handlers)
+    return () => {
+      this.eventHandlers.delete(handlers)
+    }
+  }
+
+  async getBlockTimestamp(): Promise<number> {
+    return this.now
+  }
+
+  async getElectionCount(): Promise<number> {
+    return this.elections.length
+  }
+
+  async getElectionsPage(offset: number, limit: number): Promise<ElectionPage> {
+    return {
+      elections: this.elections.slice(offset, offset + limit).map((election) => ({ ...election })),
+      total: this.elections.length,
+      offset,
+    }
+  }
+
+  async listElections(): Promise<ElectionSummary[]> {
+    return this.elections.map((election) => ({ ...election }))
+  }
+
+  async getElectionSummary(electionId: number): Promise<ElectionSummary> {
+    return { ...this.election(electionId) }
+  }
+
+  async getVoterStatusPage(account: string, offset: number, limit: number): Promise<boolean[]> {
+    return this.elections.slice(offset, offset + limit).map((election) => this.voted(election.id, account))
+  }
+
+  async getCandidateCount(electionId: number): Promise<number> {
+    return this.election(electionId).candidateCount
+  }
+
+  async getCandidate(electionId: number, candidateId: number): Promise<CandidateData> {
+    const candidate = this.candidates[this.election(electionId).id][candidateId]
+    if (!candidate) throw revert("InvalidCandidate", [candidateId])
+    return toCandidateData(candidate)
+  }
+
+  async getCandidates(electionId: number): Promise<CandidateData[]> {
+    return this.candidates[this.election(electionId).id].map(toCandidateData)
+  }
+
+  async hasVoted(electionId: number, account: string): Promise<boolean> {
+    return this.voted(electionId, account)
+  }
+
+  // Commit–reveal is not modelled: nothing is ever committed or revealed
+  async hasRevealed(): Promise<boolean> {
+    return false
+  }
+
+  async getCommitment(): Promise<string> {
+    return ethers.ZeroHash
+  }
+
+  async getVoterRoll(electionId: number): Promise<VoterRoll | null> {
+    return this.voterRolls[electionId] ?? null
+  }
+
+  async getVoterWeights(): Promise<null> {
+    return null
+  }
+
+  async getVoteCounts(electionId: number): Promise<bigint[]> {
+    this.requirePublished(electionId)
+    return this.candidates[electionId].map((candidate) => candidate.voteCount)
+  }
+
+  async getResults(electionId: number): Promise<CandidateResult[]> {
+    this.requirePublished(electionId)
+    return this.candidates[electionId].map((candidate) => ({ ...candidate }))
+  }
+
+  async getRankedBallots(electionId: number): Promise<number[][]> {
+    this.requirePublished(electionId)
+    return this.rankedBallots[electionId].map((ballot) => [...ballot])
+  }
+
+  async castVote(electionId: number, candidateId: number, proof: string[] = []): Promise<ContractTransactionResponse> {
+    await this.simulateVote(electionId, candidateId, proof)
+    return this.transaction(() => this.record(electionId, this.account, [candidateId]))
+  }
+
+  async simulateVote(electionId: number, candidateId: number, proof: string[] = []): Promise<bigint> {
+    this.checkBallot(electionId, "plurality", [candidateId], proof)
+    return BigInt(60000)
+  }
+
+  async castRankedVote(electionId: number, rankings: number[], proof: string[] = []): Promise<ContractTransactionResponse> {
+    await this.simulateRankedVote(electionId, rankings, proof)
+    return this.transaction(() => this.record(electionId, this.account, rankings))
+  }
+
+  async simulateRankedVote(electionId: number, rankings: number[], proof: string[] = []): Promise<bigint> {
+    this.checkBallot(electionId, "ranked-choice", rankings, proof)
+    return BigInt(90000)
+  }
+
+  async castApprovalVote(
+    electionId: number,
+    candidateIds: number[],
+    proof: string[] = [],
+  ): Promise<ContractTransactionResponse> {
+    await this.simulateApprovalVote(electionId, candidateIds, proof)
+    return this.transaction(() => this.record(electionId, this.account, candidateIds))
+  }
+
+  async simulateApprovalVote(electionId: number, candidateIds: number[], proof: string[] = []): Promise<bigint> {
+    const { maxSelections } = this.checkBallot(electionId, "approval", candidateIds, proof)
+    if (maxSelections > 0 && candidateIds.length > maxSelections) throw revert("TooManySelections", [candidateIds.length, maxSelections])
+    return BigInt(90000)
+  }
+
+  private election(electionId: number): ElectionSummary {
+    const election = this.elections[electionId]
+    if (!election) throw revert("ElectionNotFound", [electionId])
+    return election
+  }
+
+  private voted(electionId: number, account: string): boolean {
+    return this.voters[electionId]?.some((voter) => voter.toLowerCase() === account.toLowerCase()) ?? false
+  }
+
+  private requirePublished(electionId: number) {
+    if (!this.election(electionId).resultsPublished) throw revert("ResultsNotPublished", [electionId])
+  }
+
+  // The checks VotingSystem makes before accepting a ballot; only the first failing error matters to the UI
+  private checkBallot(electionId: number, type: ElectionType, candidateIds: number[], proof: string[]) {
+    const election = this.election(electionId)
+    if (election.cancelled) throw revert("ElectionIsCancelled", [electionId])
+    if (election.paused) throw revert("VotingIsPaused", [electionId])
+    if (this.now < election.startTime || this.now > election.endTime) {
+      throw revert("ElectionNotActive", [election.startTime, election.endTime, this.now])
+    }
+    if (this.voted(electionId, this.account)) throw revert("AlreadyVoted", [electionId, this.account])
+    if (election.electionType !== type) throw revert("WrongElectionType", [ELECTION_TYPES.indexOf(election.electionType)])
+    if (candidateIds.length === 0) throw revert("NoCandidatesSelected")
+    for (const candidateId of candidateIds) {
+      const candidate = this.candidates[electionId][candidateId]
+      if (!candidate) throw revert("InvalidCandidate", [candidateId])
+      if (candidate.withdrawn) throw revert("CandidateIsWithdrawn", [candidateId])
+    }
+    const duplicate = candidateIds.find((candidateId, index) => candidateIds.indexOf(candidateId) !== index)
+    if (duplicate !== undefined) throw revert("DuplicateCandidate", [duplicate])
+    const roll = this.voterRolls[electionId]
+    if (roll && !VoterMerkleTree.verify(roll.root, this.account, proof)) {
+      throw revert("NotOnVoterRoll", [electionId, this.account])
+    }
+    return election
+  }
+
+  // Ranked ballots count towards their first preference, like the contract's first-round totals
+  private record(electionId: number, voter: string, candidateIds: number[]) {
+    const election = this.election(electionId)
+    const counted = election.electionType === "ranked-choice" ? candidateIds.slice(0, 1) : candidateIds
+    for (const candidateId of counted) {
+      this.candidates[electionId][candidateId].voteCount += BigInt(1)
+      this.candidates[electionId][candidateId].voterCount++
+    }
+    if (election.electionType === "ranked-choice") this.rankedBallots[electionId].push(candidateIds)
+    this.voters[electionId].push(voter)
+    this.emit((handlers) => handlers.VoteCast?.({ electionId: BigInt(electionId), voter }))
+  }
+
+  // Applies the change as a mined transaction in a new block
+  private transaction(apply: () => void): ContractTransactionResponse {
+    const hash = ethers.id(`transaction ${++this.nonce}`)
+    apply()
+    this.advanceTime(12)
+    const receipt = { hash, blockNumber: this.blockNumber, status: 1, logs: [] }
+    return { hash, wait: async () => receipt } as unknown as ContractTransactionResponse
+  }
+
+  // Distinct, deterministic stand-ins for other voters
+  nextAddress(): string {
+    return ethers.getAddress(ethers.zeroPadValue(ethers.toBeHex(++this.nonce), 20))
+  }
+
+  private emit(dispatch: (handlers: VotingSystemEventHandlers) => void) {
+    this.eventHandlers.forEach(dispatch)
+  }
+}
+
+const toCandidateData = ({ id, name, info, withdrawn, profileHash }: CandidateResult): CandidateData => ({
+  id,
+  name,
+  info,
+  withdrawn,
+  profileHash,
+})
@@ -0,0 +1,77 @@
+import { useEffect, useReducer, type ReactElement, type ReactNode } from "react"
+import { render, screen, waitFor } from "@testing-library/react"
+import type { UserEvent } from "@testing-library/user-event"
+import { VotingContractContext, VotingStoreContext } from "@/context/voting-contract-context"
+import type { VotingSystemClient } from "@/lib/voting-system-client"
+import { initialVotingStoreState, votingStoreReducer } from "@/lib/voting-store"
+import type { FakeVotingSystem } from "./fake-voting-system"
+
+interface VotingTestProviderProps {
+  fake: FakeVotingSystem
+  children: ReactNode
+}
+
+/**
+ * Stands in for VotingContractProvider: serves the fake as the connected client, seeds the shared
+ * store with the fake's history and keeps it current from its blocks and events.
+ */
+export function VotingTestProvider({ fake, children }: VotingTestProviderProps) {
+  const [store, dispatch] = useReducer(votingStoreReducer, initialVotingStoreState)
+  const client = fake as unknown as VotingSystemClient
+
+  useEffect(() => {
+    dispatch({ type: "hydrate", ...fake.snapshot() })
+
+    const provider = fake.provider
+    const handleBlock = async (blockNumber: number) => {
+      const block = await provider.getBlock(blockNumber)
+      if (block) dispatch({ type: "block", blockNumber, blockTime: Number(block.timestamp) })
+    }
+
+    provider.getBlockNumber().then(handleBlock)
+    provider.on("block", handleBlock)
+    const unsubscribe = fake.subscribe({
+      VoteCast: ({ electionId, voter }) => dispatch({ type: "voteCast", electionId: Number(electionId), voter }),
+      ResultsPublished: ({ electionId }) => dispatch({ type: "resultsPublished", electionId: Number(electionId) }),
+    })
+
+    return () => {
+      unsubscribe()
+      provider.off("block", handleBlock)
+    }
+  }, [fake])
+
+  return (
+    <VotingContractContext.Provider
+      value={{
+        client,
+        loading: false,
+        error: null,
+        // No network: keeps components off the relayer and local ballot storage
+        chainId: null,
+        network: null,
+        networkStatus: "ready",
+        readOnly: fake.readOnly,
+        switchNetwork: async () => {},
+      }}
+    >
+      <VotingStoreContext.Provider value={{ store, dispatch }}>{children}</VotingStoreContext.Provider>
+    </VotingContractContext.Provider>
+  )
+}
+
+export function renderWithVoting(ui: ReactElement, fake: FakeVotingSystem) {
+  return render(<VotingTestProvider fake={fake}>{ui}</VotingTestProvider>)
+}
+
+// Opens the Select whose trigger has the given id and picks the option starting with that text;
+// options often carry status badges after the election name
+export async function chooseOption(user: UserEvent, selectId: string, option: string) {
+  const trigger = await waitFor(() => {
+    const element = document.getElementById(selectId)
+    if (!element) throw new Error(`No select with id "${selectId}"`)
+    return element
+  })
+  await user.click(trigger)
+  await user.click(await screen.findByRole("option", { name: (name) => name.startsWith(option) }))
+}
@@ -0,0 +1,51 @@
+import { readFileSync } from "fs"
+import path from "path"
+import solc from "solc"
+import type { GlobalSetupContext } from "vitest/node"
+
+export interface CompiledContract {
+  abi: any[]
+  bytecode: string
+}
+
+declare module "vitest" {
+  export interface ProvidedContext {
+    votingSystem: CompiledContract
+    testSafe: CompiledContract
+  }
+}
+
+const read = (file: string) => ({ content: readFileSync(path.resolve(__dirname, file), "utf8") })
+
+// Compiles VotingSystem.sol, and the Safe stand-in for multisig tests, once per run with the compiler
+// settings from truffle-config.js
+export default function setup({ provide }: GlobalSetupContext) {
+  const output = JSON.parse(
+    solc.compile(
+      JSON.stringify({
+        language: "Solidity",
+        sources: {
+          "VotingSystem.sol": read("../../contracts/VotingSystem.sol"),
+          "TestSafe.sol": read("../helpers/TestSafe.sol"),
+        },
+        settings: {
+          optimizer: { enabled: true, runs: 200 },
+          viaIR: true,
+          outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } },
+        },
+      }),
+    ),
+  )
+
+  const errors = (output.errors ?? []).filter((error: { severity: string }) => error.severity === "error")
+  if (errors.length > 0) {
+    throw new Error(errors.map((error: { formattedMessage: string }) => error.formattedMessage).join("\n"))
+  }
+
+  const compiled = (file: string, name: string): CompiledContract => {
+    const contract = output.contracts[file][name]
+    return { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` }
+  }
+  provide("votingSystem", compiled("VotingSystem.sol", "VotingSystem"))
+  provide("testSafe", compiled("TestSafe.sol", "TestSafe"))
+}
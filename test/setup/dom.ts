@@ -0,0 +1,18 @@
+import { cleanup } from "@testing-library/react"
+import { afterEach } from "vitest"
+
+// Browser APIs Radix UI relies on that jsdom does not implement
+class ResizeObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+globalThis.ResizeObserver ??= ResizeObserver
+Element.prototype.scrollIntoView ??= () => {}
+Element.prototype.hasPointerCapture ??= () => false
+Element.prototype.releasePointerCapture ??= () => {}
+
+afterEach(() => {
+  cleanup()
+  localStorage.clear()
+})
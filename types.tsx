@@ -2,3 +2,135 @@ export interface ElectionBasic {
   id: number
   name: string
 }
+
+// Order matches the ElectionType enum in VotingSystem.sol
+export const ELECTION_TYPES = ["plurality", "ranked-choice", "approval", "weighted"] as const
+export type ElectionType = (typeof ELECTION_TYPES)[number]
+
+export interface ElectionData extends ElectionBasic {
+  description: string
+  // Unix timestamps in seconds, as used by block.timestamp
+  startTime: number
+  endTime: number
+  exists: boolean
+  // End of the reveal window for commit–reveal elections; 0 for open ballots
+  revealEndTime: number
+  electionType: ElectionType
+  // Approval elections only: most candidates a ballot may select (0 = any number) and how many win
+  maxSelections: number
+  seats: number
+  cancelled: boolean
+  // Voting is blocked while paused; the schedule keeps running
+  paused: boolean
+  // The end time was moved later after voting started
+  extended: boolean
+}
+
+export interface CandidateData {
+  id: number
+  name: string
+  info: string
+  // Withdrawn before voting started: hidden from ballots, kept for history
+  withdrawn: boolean
+  // sha256 digest of the off-chain profile (see lib/content-store.ts); ZeroHash when there is none
+  profileHash: string
+}
+
+export interface CandidateResult extends CandidateData {
+  // Summed voter weights in weighted elections, which may be ERC-20 base units too large for a number
+  voteCount: bigint
+  // Number of voters behind voteCount
+  voterCount: number
+}
+
+export interface NewCandidateInput {
+  name: string
+  info: string
+  // Defaults to ZeroHash: no off-chain profile
+  profileHash?: string
+}
+
+export interface NewElectionInput {
+  name: string
+  description: string
+  startTime: number
+  endTime: number
+  // Set to run the election as a secret ballot with a reveal window ending at this time
+  revealEndTime?: number
+  // Defaults to plurality
+  electionType?: ElectionType
+  maxSelections?: number
+  seats?: number
+}
+
+// Fields an admin can still change before voting starts; revealEndTime must stay 0 for open ballots
+export interface ElectionEditInput {
+  name: string
+  description: string
+  startTime: number
+  endTime: number
+  revealEndTime: number
+}
+
+// Election row as returned by the batched getElectionsPage view
+export interface ElectionSummary extends ElectionData {
+  candidateCount: number
+  resultsPublished: boolean
+  // Merkle root of the voter roll; ZeroHash when anyone may vote
+  voterRoot: string
+  revealCount: number
+}
+
+export interface VoterRoll {
+  root: string
+  // Empty when the roll was distributed off-chain and only the root is known
+  voters: string[]
+}
+
+export interface VoterWeight {
+  address: string
+  // Shares, or token amount in base units
+  weight: bigint
+}
+
+export interface WeightedVoterRoll {
+  root: string
+  // Empty when the roll was distributed off-chain
+  entries: VoterWeight[]
+}
+
+export interface ElectionPage {
+  elections: ElectionSummary[]
+  total: number
+  offset: number
+}
+
+// Order matches the Role enum in VotingSystem.sol
+export const ROLES = ["super-admin", "election-admin", "candidate-manager", "auditor"] as const
+export type Role = (typeof ROLES)[number]
+
+export interface RoleAssignment {
+  role: Role
+  account: string
+  // null when the role covers every election
+  electionId: number | null
+}
+
+export interface DelegationAssignment {
+  delegator: string
+  // ZeroAddress when a per-election delegation was cleared, which also opts out of the global one
+  delegate: string
+  // null when the delegation covers every election
+  electionId: number | null
+}
+
+// Plurality ballot signed as EIP-712 typed data, submitted on the voter's behalf by the relayer
+export interface SignedBallot {
+  electionId: number
+  candidateId: number
+  voter: string
+  nonce: number
+  // Unix time after which the contract rejects the signature
+  deadline: number
+  signature: string
+}
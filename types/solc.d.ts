@@ -0,0 +1,5 @@
+// solc-js ships without type declarations; only the standard JSON entry point is used
+declare module "solc" {
+  export function compile(input: string): string
+  export function version(): string
+}
@@ -0,0 +1,16 @@
+import { fileURLToPath } from "url"
+import { defineConfig } from "vitest/config"
+
+// Shared by both projects in vitest.workspace.mts
+export default defineConfig({
+  resolve: {
+    alias: { "@": fileURLToPath(new URL(".", import.meta.url)) },
+  },
+  // tsconfig keeps JSX for Next.js to compile; tests need it transformed here
+  esbuild: { jsx: "automatic" },
+  test: {
+    // Each contract test file deploys to its own in-process chain; one CPU is plenty for them in sequence
+    fileParallelism: false,
+    testTimeout: 30_000,
+  },
+})
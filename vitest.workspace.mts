@@ -0,0 +1,22 @@
+import { defineWorkspace } from "vitest/config"
+
+export default defineWorkspace([
+  {
+    extends: "./vitest.config.mts",
+    test: {
+      name: "contracts",
+      include: ["test/contracts/**/*.test.ts"],
+      environment: "node",
+      globalSetup: ["test/setup/compile-contract.ts"],
+    },
+  },
+  {
+    extends: "./vitest.config.mts",
+    test: {
+      name: "components",
+      include: ["test/components/**/*.test.tsx"],
+      environment: "jsdom",
+      setupFiles: ["test/setup/dom.ts"],
+    },
+  },
+])